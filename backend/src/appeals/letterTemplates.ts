@@ -0,0 +1,168 @@
+/**
+ * Appeal letter templates
+ * Placeholders are written {{field}} and filled from the claim, its denial and the appeal (see MergeFields)
+ */
+
+export type AppealLevel = 'first' | 'second' | 'external';
+
+export const APPEAL_LEVELS: Record<AppealLevel, string> = {
+  first: 'First level (reconsideration)',
+  second: 'Second level',
+  external: 'External review'
+};
+
+export const isAppealLevel = (value: unknown): value is AppealLevel =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(APPEAL_LEVELS, value);
+
+export type MergeField =
+  | 'today'
+  | 'payer'
+  | 'patient_name'
+  | 'patient_dob'
+  | 'patient_id'
+  | 'member_record'
+  | 'claim_number'
+  | 'service_date'
+  | 'cpt_code'
+  | 'icd_code'
+  | 'units'
+  | 'rendering_provider'
+  | 'charge_amount'
+  | 'denied_amount'
+  | 'denial_date'
+  | 'denial_reasons'
+  | 'appeal_level'
+  | 'reference_number'
+  | 'enclosures'
+  | 'billing_provider_name'
+  | 'billing_provider_npi'
+  | 'billing_provider_tax_id'
+  | 'billing_provider_address'
+  | 'contact_name'
+  | 'contact_phone';
+
+export type MergeFields = Record<MergeField, string>;
+
+export interface LetterTemplate {
+  name: string;
+  description: string;
+  // Levels the template is written for
+  levels: AppealLevel[];
+  body: string;
+}
+
+const HEADER = `{{billing_provider_name}}
+{{billing_provider_address}}
+NPI: {{billing_provider_npi}}    Tax ID: {{billing_provider_tax_id}}
+
+{{today}}
+
+{{payer}}
+Attn: Appeals Department
+
+`;
+
+const CLAIM_BLOCK = `Patient: {{patient_name}}
+Date of birth: {{patient_dob}}
+Member/record number: {{member_record}}
+Claim number: {{claim_number}}
+Date of service: {{service_date}}
+Procedure: {{cpt_code}} x {{units}}    Diagnosis: {{icd_code}}
+Rendering provider: {{rendering_provider}}
+Billed amount: {{charge_amount}}    Denied amount: {{denied_amount}}
+Denied on {{denial_date}} for:
+{{denial_reasons}}
+`;
+
+const SIGNATURE = `
+Please direct any questions about this appeal to {{contact_name}} at {{contact_phone}}.
+
+Sincerely,
+
+
+{{contact_name}}
+{{billing_provider_name}}
+
+Enclosures:
+{{enclosures}}
+`;
+
+export const LETTER_TEMPLATES: Record<string, LetterTemplate> = {
+  reconsideration: {
+    name: 'Request for reconsideration',
+    description: 'General first-level appeal of a denied claim line',
+    levels: ['first'],
+    body: `${HEADER}Re: Request for reconsideration{{reference_number}}
+
+${CLAIM_BLOCK}
+We are writing to request reconsideration of the denial of the claim above. We believe the service was billed correctly and is payable under the patient's plan. The enclosed documentation supports the services rendered.
+
+Please review the claim and reprocess it for payment.
+${SIGNATURE}`
+  },
+  medical_necessity: {
+    name: 'Medical necessity appeal',
+    description: 'Appeal of a denial for lack of medical necessity, with clinical documentation',
+    levels: ['first', 'second'],
+    body: `${HEADER}Re: Appeal of medical necessity denial{{reference_number}}
+
+${CLAIM_BLOCK}
+This service was medically necessary for the diagnosis and treatment of the patient's condition. The enclosed clinical documentation, including the provider's notes and the applicable diagnosis, demonstrates that the service met the accepted standards of care and the plan's coverage criteria.
+
+We ask that you overturn the denial and reprocess the claim for payment.
+${SIGNATURE}`
+  },
+  timely_filing: {
+    name: 'Timely filing appeal',
+    description: 'Appeal of a timely filing denial with proof of the original submission',
+    levels: ['first'],
+    body: `${HEADER}Re: Appeal of timely filing denial{{reference_number}}
+
+${CLAIM_BLOCK}
+This claim was originally submitted within the filing limit. Enclosed is proof of timely filing, including the clearinghouse acceptance report for the original submission.
+
+Please overturn the denial and process the claim for payment.
+${SIGNATURE}`
+  },
+  second_level: {
+    name: 'Second-level appeal',
+    description: 'Follows a first-level appeal that was upheld',
+    levels: ['second'],
+    body: `${HEADER}Re: Second-level appeal{{reference_number}}
+
+${CLAIM_BLOCK}
+We previously appealed this denial and the decision was upheld. We respectfully disagree with that decision and request a second-level review by a reviewer who was not involved in the earlier determination.
+
+The enclosed documentation supports payment of this claim. Please reverse the denial and reprocess the claim.
+${SIGNATURE}`
+  },
+  external_review: {
+    name: 'Request for external review',
+    description: 'Request for an independent external review after internal appeals are exhausted',
+    levels: ['external'],
+    body: `${HEADER}Re: Request for independent external review{{reference_number}}
+
+${CLAIM_BLOCK}
+The internal appeals process for this claim has been exhausted and the denial was upheld. On behalf of the patient, we request an independent external review of this determination.
+
+Copies of the denial, the internal appeal decisions and the supporting clinical documentation are enclosed.
+${SIGNATURE}`
+  }
+};
+
+// The template offered by default for each level
+const DEFAULT_TEMPLATES: Record<AppealLevel, string> = {
+  first: 'reconsideration',
+  second: 'second_level',
+  external: 'external_review'
+};
+
+export const defaultTemplateFor = (level: AppealLevel): string => DEFAULT_TEMPLATES[level];
+
+/**
+ * Fill a template's placeholders; unknown placeholders are left as written so they stand out in review
+ */
+export const mergeTemplate = (body: string, fields: Partial<MergeFields>): string =>
+  body.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (placeholder, name: string) =>
+    name in fields ? fields[name as MergeField] ?? '' : placeholder
+  );
@@ -0,0 +1,104 @@
+/**
+ * Minimal PDF writer for plain-text letters
+ * Produces US Letter pages in Helvetica with word wrapping and page breaks; enough for appeal letters
+ * without pulling in a layout engine
+ */
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const FONT_SIZE = 11;
+const LEADING = 15;
+
+// Helvetica averages a little over half an em per character; wrapping on this keeps lines inside the margins
+const AVERAGE_CHAR_WIDTH = FONT_SIZE * 0.5;
+const CHARS_PER_LINE = Math.floor((PAGE_WIDTH - MARGIN * 2) / AVERAGE_CHAR_WIDTH);
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LEADING);
+
+/**
+ * Break text into lines that fit the page width, keeping blank lines as paragraph breaks
+ */
+export const wrapText = (text: string, width = CHARS_PER_LINE): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split('\n')) {
+    // Leading spaces indent the first line, as in the letters' lists of denial reasons
+    const indent = (paragraph.match(/^ */) || [''])[0];
+    let line = indent;
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      // Words longer than a line are split rather than overflowing the margin
+      for (let start = 0; start < word.length; start += width) {
+        const piece = word.slice(start, start + width);
+        if (line.trim() === '') line += piece;
+        else if (line.length + 1 + piece.length <= width) line += ` ${piece}`;
+        else {
+          lines.push(line);
+          line = piece;
+        }
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+};
+
+// The standard fonts only cover WinAnsi, so anything outside Latin-1 is replaced
+const escapePdfText = (text: string) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\xFF]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+
+const pageStream = (lines: string[]): string => {
+  const body = lines.map(line => `(${escapePdfText(line)}) Tj T*`).join('\n');
+  return `BT\n/F1 ${FONT_SIZE} Tf\n${LEADING} TL\n${MARGIN} ${PAGE_HEIGHT - MARGIN} Td\n${body}\nET`;
+};
+
+/**
+ * Render text as a PDF document
+ * @param text - letter body; newlines are kept and long lines are wrapped
+ * @param title - stored in the document info dictionary
+ */
+export const renderTextPdf = (text: string, title = ''): Buffer => {
+  const lines = wrapText(text);
+  const pages: string[][] = [];
+  for (let start = 0; start < lines.length; start += LINES_PER_PAGE) {
+    pages.push(lines.slice(start, start + LINES_PER_PAGE));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  // Object numbers: 1 catalog, 2 page tree, 3 font, 4 info, then a page and its content stream per page
+  const pageObjectNumber = (index: number) => 5 + index * 2;
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObjectNumber(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapePdfText(title)}) /Producer (Claims Management) >>`
+  ];
+
+  pages.forEach((pageLines, index) => {
+    const stream = pageStream(pageLines);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageObjectNumber(index) + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { ChainEntry, changeLogHash, createChainVerifier } from './chainVerifier';
+
+type EntryContent = Omit<ChainEntry, 'id' | 'prev_hash' | 'entry_hash'>;
+
+const CONTENT: EntryContent[] = [
+  {
+    claim_id: 7, user_id: 3, username: 'jsmith', cpt_id: 12, timestamp_text: '2025-03-04T09:30:00.123456',
+    field_name: 'claim', old_value: null, new_value: '{"charge_amt":"150.00"}', action_type: 'created'
+  },
+  {
+    claim_id: 7, user_id: 3, username: 'jsmith', cpt_id: 12, timestamp_text: '2025-03-04T10:02:41.000001',
+    field_name: 'charge_amt', old_value: '150.00', new_value: '175.00', action_type: 'updated'
+  },
+  {
+    claim_id: 9, user_id: null, username: 'José Núñez', cpt_id: null, timestamp_text: '2025-03-05T08:00:00.000000',
+    field_name: 'prim_cmt', old_value: 'a|b', new_value: '', action_type: 'updated'
+  }
+];
+
+/**
+ * Chain entries the way the insert trigger does
+ */
+const buildChain = (content: EntryContent[]): ChainEntry[] =>
+  content.reduce<ChainEntry[]>((chain, fields, index) => {
+    const entry: ChainEntry = { ...fields, id: index + 1, prev_hash: chain[index - 1]?.entry_hash ?? null, entry_hash: null };
+    return [...chain, { ...entry, entry_hash: changeLogHash(entry) }];
+  }, []);
+
+const verify = (entries: ChainEntry[]) => {
+  const verifier = createChainVerifier();
+  entries.forEach(verifier.check);
+  return verifier.report();
+};
+
+describe('changeLogHash', () => {
+  it('hashes each field as its byte length and value, "-" for NULL, joined with "|" as migration 015 does', () => {
+    const [, second] = buildChain(CONTENT);
+    const expected = [
+      `64:${second.prev_hash}`, '1:2', '1:7', '1:3', '6:jsmith', '2:12', '26:2025-03-04T10:02:41.000001',
+      '10:charge_amt', '6:150.00', '6:175.00', '7:updated'
+    ].join('|');
+
+    assert.equal(second.entry_hash, crypto.createHash('sha256').update(expected, 'utf8').digest('hex'));
+  });
+
+  it('counts multi-byte characters in bytes and tells NULL apart from an empty string', () => {
+    const [, , third] = buildChain(CONTENT);
+    const expected = [
+      `64:${third.prev_hash}`, '1:3', '1:9', '-', '13:José Núñez', '-', '26:2025-03-05T08:00:00.000000',
+      '8:prim_cmt', '3:a|b', '0:', '7:updated'
+    ].join('|');
+
+    assert.equal(third.entry_hash, crypto.createHash('sha256').update(expected, 'utf8').digest('hex'));
+    assert.notEqual(changeLogHash({ ...third, new_value: null }), third.entry_hash);
+  });
+});
+
+describe('createChainVerifier', () => {
+  it('accepts an intact chain and reports its head', () => {
+    const chain = buildChain(CONTENT);
+    const report = verify(chain);
+
+    assert.equal(report.valid, true);
+    assert.equal(report.checked, 3);
+    assert.deepEqual(report.breaks, []);
+    assert.deepEqual(report.head, { id: 3, hash: chain[2].entry_hash });
+  });
+
+  it('reports an entry edited after it was written', () => {
+    const chain = buildChain(CONTENT);
+    chain[1] = { ...chain[1], new_value: '1750.00' };
+    const report = verify(chain);
+
+    assert.equal(report.valid, false);
+    assert.deepEqual(report.breaks.map(({ id, problem }) => ({ id, problem })), [{ id: 2, problem: 'content' }]);
+  });
+
+  it('reports an edit whose hash was recomputed at the entry that follows it', () => {
+    const chain = buildChain(CONTENT);
+    const edited = { ...chain[1], new_value: '1750.00' };
+    chain[1] = { ...edited, entry_hash: changeLogHash(edited) };
+    const report = verify(chain);
+
+    assert.deepEqual(report.breaks.map(({ id, problem }) => ({ id, problem })), [{ id: 3, problem: 'link' }]);
+  });
+
+  it('reports removed entries', () => {
+    const [first, , third] = buildChain(CONTENT);
+
+    assert.deepEqual(verify([first, third]).breaks.map(({ id, problem }) => ({ id, problem })), [{ id: 3, problem: 'link' }]);
+    assert.deepEqual(verify([third]).breaks.map(({ id, problem }) => ({ id, problem })), [{ id: 3, problem: 'link' }]);
+  });
+});
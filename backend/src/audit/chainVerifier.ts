@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+
+/**
+ * Hashing and link checks for the change_logs hash chain written by migration 015
+ * Hashes are recomputed here rather than by the database function, so a replaced
+ * function can't vouch for altered history
+ */
+
+const MAX_REPORTED_BREAKS = 100;
+
+export interface ChainEntry {
+  id: number;
+  claim_id: number;
+  user_id: number | null;
+  username: string | null;
+  cpt_id: number | null;
+  timestamp_text: string;    // to_char of the stored timestamp, to the microsecond
+  field_name: string;
+  old_value: string | null;
+  new_value: string | null;
+  action_type: string | null;
+  prev_hash: string | null;
+  entry_hash: string | null;
+}
+
+export interface ChainBreak {
+  id: number;
+  claim_id: number;
+  problem: 'content' | 'link';
+  message: string;
+}
+
+export interface ChainReport {
+  valid: boolean;
+  checked: number;
+  breakCount: number;
+  breaks: ChainBreak[];      // the first MAX_REPORTED_BREAKS found
+  // Entries removed from the end leave a valid chain; compare against a head recorded earlier to catch that
+  head: { id: number; hash: string | null } | null;
+  verifiedAt: string;
+}
+
+// Must match change_log_hash_field in the migration
+const hashField = (value: string | number | null): string =>
+  value === null ? '-' : `${Buffer.byteLength(String(value), 'utf8')}:${value}`;
+
+/**
+ * The hash an entry should carry, given the prev_hash stored on it
+ */
+export const changeLogHash = (entry: ChainEntry): string =>
+  crypto.createHash('sha256').update([
+    entry.prev_hash,
+    entry.id,
+    entry.claim_id,
+    entry.user_id,
+    entry.username,
+    entry.cpt_id,
+    entry.timestamp_text,
+    entry.field_name,
+    entry.old_value,
+    entry.new_value,
+    entry.action_type
+  ].map(hashField).join('|'), 'utf8').digest('hex');
+
+/**
+ * Check entries one at a time in id order, so the chain can be verified in batches
+ * Each entry's hash is checked against its content, and its prev_hash against the entry before it
+ */
+export const createChainVerifier = () => {
+  const breaks: ChainBreak[] = [];
+  let breakCount = 0;
+  let checked = 0;
+  let previous: ChainEntry | null = null;
+
+  const report = (entry: ChainEntry, problem: ChainBreak['problem'], message: string) => {
+    breakCount++;
+    if (breaks.length < MAX_REPORTED_BREAKS) {
+      breaks.push({ id: entry.id, claim_id: entry.claim_id, problem, message });
+    }
+  };
+
+  return {
+    check(entry: ChainEntry) {
+      const expectedPrev = previous ? previous.entry_hash : null;
+
+      if (entry.prev_hash !== expectedPrev) {
+        report(entry, 'link', previous
+          ? `Does not follow entry ${previous.id}: an entry between them was removed or the chain was rewritten`
+          : 'Is the first entry but points to an earlier one: entries before it were removed');
+      }
+
+      if (entry.entry_hash !== changeLogHash(entry)) {
+        report(entry, 'content', 'Content does not match its hash: the entry was edited after it was written');
+      }
+
+      previous = entry;
+      checked++;
+    },
+
+    // id of the last entry checked, for reading the next batch
+    lastId: () => (previous ? previous.id : 0),
+
+    report: (): ChainReport => ({
+      valid: breakCount === 0,
+      checked,
+      breakCount,
+      breaks,
+      head: previous ? { id: previous.id, hash: previous.entry_hash } : null,
+      verifiedAt: new Date().toISOString()
+    })
+  };
+};
@@ -0,0 +1,35 @@
+import { query } from '../config/db';
+import { ChainEntry, ChainReport, createChainVerifier } from './chainVerifier';
+
+/**
+ * Verification of the change_logs hash chain written by migration 015
+ */
+
+const BATCH_SIZE = 1000;
+
+/**
+ * Walk change_logs in id order, checking each entry's hash against its content and its link to the entry before it
+ */
+export const verifyChangeLogChain = async (): Promise<ChainReport> => {
+  const verifier = createChainVerifier();
+
+  for (;;) {
+    const { rows } = await query(
+      `SELECT id, claim_id, user_id, username, cpt_id,
+              to_char(timestamp, 'YYYY-MM-DD"T"HH24:MI:SS.US') AS timestamp_text,
+              field_name, old_value, new_value, action_type, prev_hash, entry_hash
+       FROM change_logs
+       WHERE id > $1
+       ORDER BY id
+       LIMIT $2`,
+      [verifier.lastId(), BATCH_SIZE]
+    );
+    const entries: ChainEntry[] = rows;
+
+    entries.forEach(verifier.check);
+
+    if (entries.length < BATCH_SIZE) break;
+  }
+
+  return verifier.report();
+};
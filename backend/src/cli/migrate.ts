@@ -0,0 +1,50 @@
+import pool from '../config/db';
+import { migrateUp, migrateDown, getMigrationStatus } from '../migrations/runner';
+
+/**
+ * Database migration CLI
+ * Usage: npm run migrate -- [up | down [steps] | status]
+ */
+const run = async () => {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp();
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Database schema is up to date');
+      break;
+    }
+
+    case 'down': {
+      const steps = arg ? parseInt(arg) : 1;
+      if (isNaN(steps) || steps < 1) {
+        throw new Error('down expects a positive number of steps');
+      }
+      const rolledBack = await migrateDown(steps);
+      console.log(rolledBack.length > 0 ? `Rolled back ${rolledBack.length} migration(s)` : 'No migrations to roll back');
+      break;
+    }
+
+    case 'status': {
+      const status = await getMigrationStatus();
+      status.forEach(migration => {
+        const state = migration.applied_at
+          ? `applied ${new Date(migration.applied_at).toISOString()}${migration.checksum_matches ? '' : ' (CHECKSUM MISMATCH)'}`
+          : 'pending';
+        console.log(`${String(migration.version).padStart(3, '0')}_${migration.name}: ${state}`);
+      });
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}". Use up, down [steps] or status`);
+  }
+};
+
+run()
+  .then(() => pool.end())
+  .catch(async error => {
+    console.error(error instanceof Error ? error.message : error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,41 @@
+import pool from '../config/db';
+import { verifyChangeLogChain } from '../audit/changeLogChain';
+
+/**
+ * Change log verification CLI
+ * Usage: npm run verify-audit
+ * Exits with status 1 when the hash chain is broken, so it can run from a scheduled job
+ */
+const run = async () => {
+  const report = await verifyChangeLogChain();
+
+  report.breaks.forEach(problem => {
+    console.log(`Entry ${problem.id} (claim ${problem.claim_id}): ${problem.message}`);
+  });
+
+  if (report.breakCount > report.breaks.length) {
+    console.log(`...and ${report.breakCount - report.breaks.length} more`);
+  }
+
+  console.log(report.valid
+    ? `Change log chain intact: ${report.checked} entries verified`
+    : `Change log chain BROKEN: ${report.breakCount} problem(s) in ${report.checked} entries`);
+
+  // Keep the head with the audit records; if it later disappears, entries were removed from the end
+  if (report.head) {
+    console.log(`Head: entry ${report.head.id} ${report.head.hash}`);
+  }
+
+  return report.valid;
+};
+
+run()
+  .then(async valid => {
+    await pool.end();
+    if (!valid) process.exit(1);
+  })
+  .catch(async error => {
+    console.error(error instanceof Error ? error.message : error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -1,31 +1,19 @@
-import { Pool } from 'pg';
-import * as dotenv from 'dotenv';
-import { join } from 'path';
-
-// Load environment variables from .env file with absolute path
-dotenv.config({ path: join(__dirname, '../../.env') });
-
-// Database connection details
-const DB_HOST = process.env.DB_HOST || 'localhost.aptible.in';
-const DB_PORT = parseInt(process.env.DB_PORT || '42550');
-const DB_NAME = process.env.DB_NAME || 'db';
-const DB_USER = process.env.DB_USER || 'aptible';
-const DB_PASSWORD = process.env.DB_PASSWORD || 'YzqLyJk6GKEDA_RxAiEdLUtaSjRhUelc';
+import { Pool, PoolClient } from 'pg';
+import config from './index';
 
 // Create a single database pool for the entire application
 const pool = new Pool({
-  host: DB_HOST,
-  port: DB_PORT,
-  database: DB_NAME,
-  user: DB_USER,
-  password: DB_PASSWORD,
-  ssl: { rejectUnauthorized: false },
-  connectionTimeoutMillis: 15000,    // 15 second timeout
-  idleTimeoutMillis: 30000,          // 30 second idle timeout (reduced from 5 min)
-  max: 10,                           // Maximum 10 clients in the pool (increased from 3)
-  min: 0,                            // Maintain no minimum idle clients (changed from 1)
+  host: config.db.host,
+  port: config.db.port,
+  database: config.db.name,
+  user: config.db.user,
+  password: config.db.password,
+  ssl: config.db.ssl,
+  connectionTimeoutMillis: config.db.connectionTimeoutMillis,
+  idleTimeoutMillis: config.db.idleTimeoutMillis,
+  max: config.db.poolMax,
   allowExitOnIdle: true,             // Allow pool to clean up idle connections
-  application_name: 'project-bolt'   // Identify connections in pg_stat_activity
+  application_name: config.db.applicationName   // Identify connections in pg_stat_activity
 });
 
 // Silently track connection count with minimal logging
@@ -62,6 +50,26 @@ const query = async (text: string, params: any[] = []) => {
   }
 };
 
-// Export both the pool and the optimized query function
+/**
+ * Run work in a transaction on a single pooled client
+ * Commits when the callback resolves; rolls back and rethrows if it throws, so callers can
+ * write a row and its audit entries knowing that either both land or neither does
+ */
+const withTransaction = async <T>(work: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await work(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// Export the pool, the optimized query function and the transaction helper
 export default pool;
-export { query };
\ No newline at end of file
+export { query, withTransaction };
\ No newline at end of file
@@ -0,0 +1,259 @@
+import * as dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+// Load environment variables from .env file with absolute path
+dotenv.config({ path: join(__dirname, '../../.env') });
+
+export type AppEnv = 'development' | 'test' | 'production';
+
+export interface DbSslConfig {
+  rejectUnauthorized: boolean;
+  ca?: string;
+}
+
+export interface AppConfig {
+  env: AppEnv;
+  port: number;
+  corsOrigins: string[];
+  migrateOnBoot: boolean;
+  db: {
+    host: string;
+    port: number;
+    name: string;
+    user: string;
+    password: string;
+    ssl: DbSslConfig | false;
+    poolMax: number;
+    idleTimeoutMillis: number;
+    connectionTimeoutMillis: number;
+    applicationName: string;
+  };
+  cache: {
+    claimsTtlMs: number;
+    claimTtlMs: number;
+    claimHistoryTtlMs: number;
+    allHistoryTtlMs: number;
+  };
+  auth: {
+    jwtSecret: string;
+    accessTokenExpiresIn: string;
+    refreshTokenTtlDays: number;
+    bcryptRounds: number;
+  };
+  seed: {
+    adminName: string;
+    adminEmail?: string;
+    adminPassword?: string;
+  };
+  edi: EdiConfig;
+}
+
+/**
+ * Submitter and billing provider details written into generated 837P files
+ * All optional at startup; generation refuses to build a file while any required value is missing
+ */
+export interface EdiConfig {
+  usageIndicator: 'T' | 'P';
+  senderId: string;
+  receiverId: string;
+  receiverName: string;
+  submitterName: string;
+  contactName: string;
+  contactPhone: string;
+  billingProviderName: string;
+  billingProviderNpi: string;
+  billingProviderTaxId: string;
+  billingProviderAddress: string;
+  billingProviderCity: string;
+  billingProviderState: string;
+  billingProviderZip: string;
+  placeOfService: string;
+  payerIds: Record<string, string>;
+}
+
+/**
+ * Per-environment defaults, applied when a variable isn't set
+ * Production has no defaults for anything that identifies or secures a deployment
+ */
+const PROFILES: Record<AppEnv, {
+  dbSsl: boolean;
+  poolMax: number;
+  cacheTtlScale: number;
+  corsOrigins: string[];
+}> = {
+  development: { dbSsl: false, poolMax: 10, cacheTtlScale: 1, corsOrigins: ['http://localhost:5173'] },
+  test: { dbSsl: false, poolMax: 2, cacheTtlScale: 0, corsOrigins: ['http://localhost:5173'] },
+  production: { dbSsl: true, poolMax: 20, cacheTtlScale: 1, corsOrigins: [] }
+};
+
+const errors: string[] = [];
+
+const readString = (name: string, fallback?: string): string => {
+  const value = process.env[name]?.trim();
+  if (value) return value;
+  if (fallback !== undefined) return fallback;
+  errors.push(`${name} is required`);
+  return '';
+};
+
+const readInt = (name: string, fallback: number, min = 0): number => {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    errors.push(`${name} must be a whole number of at least ${min} (got "${raw}")`);
+    return fallback;
+  }
+  return value;
+};
+
+const readBool = (name: string, fallback: boolean): boolean => {
+  const raw = process.env[name]?.trim().toLowerCase();
+  if (!raw) return fallback;
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+
+  errors.push(`${name} must be true or false (got "${raw}")`);
+  return fallback;
+};
+
+const readList = (name: string, fallback: string[]): string[] => {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+  return raw.split(',').map(item => item.trim()).filter(Boolean);
+};
+
+// NAME=VALUE pairs, e.g. EDI_PAYER_IDS=Aetna=60054,Cigna=62308
+const readMap = (name: string): Record<string, string> =>
+  readList(name, []).reduce((map, item) => {
+    const separator = item.lastIndexOf('=');
+    if (separator <= 0) {
+      errors.push(`${name} entries must look like NAME=VALUE (got "${item}")`);
+      return map;
+    }
+    map[item.slice(0, separator).trim()] = item.slice(separator + 1).trim();
+    return map;
+  }, {} as Record<string, string>);
+
+const readEnv = (): AppEnv => {
+  const raw = process.env.NODE_ENV?.trim() || 'development';
+  if (raw === 'development' || raw === 'test' || raw === 'production') return raw;
+
+  errors.push(`NODE_ENV must be development, test or production (got "${raw}")`);
+  return 'development';
+};
+
+/**
+ * Build the TLS options for the database connection
+ * The CA can be given inline (DB_SSL_CA) or as a file path (DB_SSL_CA_FILE)
+ */
+const readDbSsl = (env: AppEnv, enabledByDefault: boolean): DbSslConfig | false => {
+  if (!readBool('DB_SSL', enabledByDefault)) {
+    if (env === 'production') errors.push('DB_SSL cannot be disabled in production');
+    return false;
+  }
+
+  const rejectUnauthorized = readBool('DB_SSL_REJECT_UNAUTHORIZED', true);
+  if (!rejectUnauthorized && env === 'production') {
+    errors.push('DB_SSL_REJECT_UNAUTHORIZED cannot be false in production; set DB_SSL_CA_FILE to trust a private CA');
+  }
+
+  let ca = process.env.DB_SSL_CA?.replace(/\\n/g, '\n');
+  const caFile = process.env.DB_SSL_CA_FILE?.trim();
+
+  if (!ca && caFile) {
+    try {
+      ca = readFileSync(caFile, 'utf8');
+    } catch (error) {
+      errors.push(`DB_SSL_CA_FILE could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return ca ? { rejectUnauthorized, ca } : { rejectUnauthorized };
+};
+
+/**
+ * Load and validate every setting once at startup
+ * Throws a single error listing every problem so a bad deploy fails before serving requests
+ */
+const loadConfig = (): AppConfig => {
+  const env = readEnv();
+  const profile = PROFILES[env];
+  const ttl = (name: string, fallback: number) => readInt(name, fallback * profile.cacheTtlScale);
+
+  const corsOrigins = readList('CORS_ORIGINS', profile.corsOrigins);
+  if (env === 'production' && (corsOrigins.length === 0 || corsOrigins.includes('*'))) {
+    errors.push('CORS_ORIGINS must list the allowed origins in production');
+  }
+
+  const config: AppConfig = {
+    env,
+    port: readInt('PORT', 5000, 1),
+    corsOrigins,
+    migrateOnBoot: readBool('MIGRATE_ON_BOOT', true),
+    db: {
+      host: readString('DB_HOST'),
+      port: readInt('DB_PORT', 5432, 1),
+      name: readString('DB_NAME'),
+      user: readString('DB_USER'),
+      password: readString('DB_PASSWORD'),
+      ssl: readDbSsl(env, profile.dbSsl),
+      poolMax: readInt('DB_POOL_MAX', profile.poolMax, 1),
+      idleTimeoutMillis: readInt('DB_IDLE_TIMEOUT_MS', 30000),
+      connectionTimeoutMillis: readInt('DB_CONNECTION_TIMEOUT_MS', 15000),
+      applicationName: readString('DB_APPLICATION_NAME', 'project-bolt')
+    },
+    cache: {
+      claimsTtlMs: ttl('CACHE_CLAIMS_TTL_MS', 30000),
+      claimTtlMs: ttl('CACHE_CLAIM_TTL_MS', 60000),
+      claimHistoryTtlMs: ttl('CACHE_CLAIM_HISTORY_TTL_MS', 120000),
+      allHistoryTtlMs: ttl('CACHE_ALL_HISTORY_TTL_MS', 60000)
+    },
+    auth: {
+      // Secret used to sign access tokens - there is deliberately no fallback value
+      jwtSecret: readString('JWT_SECRET'),
+      accessTokenExpiresIn: readString('JWT_EXPIRES_IN', '15m'),
+      refreshTokenTtlDays: readInt('REFRESH_TOKEN_TTL_DAYS', 7, 1),
+      bcryptRounds: readInt('BCRYPT_ROUNDS', 12, 4)
+    },
+    seed: {
+      adminName: readString('ADMIN_NAME', 'Admin User'),
+      adminEmail: process.env.ADMIN_EMAIL?.trim() || undefined,
+      adminPassword: process.env.ADMIN_PASSWORD || undefined
+    },
+    edi: {
+      // Files are marked as test data unless production explicitly opts in
+      usageIndicator: readBool('EDI_PRODUCTION_FILES', false) ? 'P' : 'T',
+      senderId: readString('EDI_SENDER_ID', ''),
+      receiverId: readString('EDI_RECEIVER_ID', ''),
+      receiverName: readString('EDI_RECEIVER_NAME', ''),
+      submitterName: readString('EDI_SUBMITTER_NAME', ''),
+      contactName: readString('EDI_CONTACT_NAME', ''),
+      contactPhone: readString('EDI_CONTACT_PHONE', ''),
+      billingProviderName: readString('EDI_BILLING_NAME', ''),
+      billingProviderNpi: readString('EDI_BILLING_NPI', ''),
+      billingProviderTaxId: readString('EDI_BILLING_TAX_ID', ''),
+      billingProviderAddress: readString('EDI_BILLING_ADDRESS', ''),
+      billingProviderCity: readString('EDI_BILLING_CITY', ''),
+      billingProviderState: readString('EDI_BILLING_STATE', ''),
+      billingProviderZip: readString('EDI_BILLING_ZIP', ''),
+      placeOfService: readString('EDI_PLACE_OF_SERVICE', '11'),
+      payerIds: readMap('EDI_PAYER_IDS')
+    }
+  };
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid configuration (NODE_ENV=${env}):\n${errors.map(error => `  - ${error}`).join('\n')}\n` +
+      'Set these in backend/.env before starting the server.'
+    );
+  }
+
+  return config;
+};
+
+const config = loadConfig();
+
+export default config;
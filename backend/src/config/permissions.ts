@@ -0,0 +1,40 @@
+/**
+ * Role-based permissions model
+ * Roles are ordered from least to most privileged; each role inherits the permissions of the one before it
+ */
+export const ROLES = ['viewer', 'poster', 'supervisor', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | 'claims:read'         // search and view claims
+  | 'claims:write'        // post payments and edit claim details
+  | 'claims:adjust'       // change write-offs and claim status
+  | 'claims:delete'       // delete and restore claims
+  | 'history:read'        // read change history for own changes
+  | 'history:read_all'    // read change history for every user
+  | 'users:manage';       // create, edit and deactivate users
+
+const viewerPermissions: Permission[] = ['claims:read', 'history:read'];
+const posterPermissions: Permission[] = [...viewerPermissions, 'claims:write'];
+const supervisorPermissions: Permission[] = [...posterPermissions, 'claims:adjust', 'claims:delete'];
+const adminPermissions: Permission[] = [...supervisorPermissions, 'history:read_all', 'users:manage'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: viewerPermissions,
+  poster: posterPermissions,
+  supervisor: supervisorPermissions,
+  admin: adminPermissions
+};
+
+// Claim fields that need 'claims:adjust' on top of 'claims:write' to change
+export const RESTRICTED_CLAIM_FIELDS: Record<string, Permission> = {
+  write_off_amt: 'claims:adjust',
+  claim_status: 'claims:adjust'
+};
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+
+export const hasPermission = (role: string | undefined, permission: Permission): boolean =>
+  isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
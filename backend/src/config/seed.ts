@@ -0,0 +1,29 @@
+import bcrypt from 'bcryptjs';
+import pool from './db';
+import config from './index';
+
+/**
+ * Create the first admin account from ADMIN_EMAIL / ADMIN_PASSWORD
+ * when the users table is empty, so a fresh install can be logged into
+ */
+export const seedInitialAdmin = async () => {
+  const countResult = await pool.query('SELECT COUNT(*) FROM users');
+  if (parseInt(countResult.rows[0].count) > 0) return;
+
+  const email = config.seed.adminEmail;
+  const password = config.seed.adminPassword;
+
+  if (!email || !password) {
+    console.warn('users table is empty; set ADMIN_EMAIL and ADMIN_PASSWORD to create the first admin account');
+    return;
+  }
+
+  const passwordHash = await bcrypt.hash(password, config.auth.bcryptRounds);
+  await pool.query(
+    `INSERT INTO users (name, email, password_hash, role) VALUES ($1, $2, $3, 'admin')`,
+    [config.seed.adminName, email, passwordHash]
+  );
+  console.log(`Created initial admin account for ${email}`);
+};
+
+export default seedInitialAdmin;
@@ -0,0 +1,825 @@
+import { Request, Response } from 'express';
+import path from 'path';
+import { query } from '../config/db';
+import config from '../config';
+import { ISO_DATE_PATTERN } from '../validation/claimFilters';
+import { attachmentDisposition, sanitizeFilename } from '../validation/filenames';
+import { CARC_CODES } from '../edi/adjustmentCodes';
+import {
+  APPEAL_LEVELS,
+  LETTER_TEMPLATES,
+  MergeFields,
+  defaultTemplateFor,
+  isAppealLevel,
+  mergeTemplate
+} from '../appeals/letterTemplates';
+import { renderTextPdf } from '../appeals/pdf';
+
+// Dates without a time are returned as YYYY-MM-DD so they don't shift with the server's time zone
+const APPEAL_COLUMNS = `a.id, a.claim_id, a.denial_id, a.level, a.status, a.payer,
+  to_char(a.due_date, 'YYYY-MM-DD') AS due_date,
+  to_char(a.submitted_date, 'YYYY-MM-DD') AS submitted_date,
+  to_char(a.decision_date, 'YYYY-MM-DD') AS decision_date,
+  a.reference_number, a.amount_requested, a.amount_recovered, a.notes,
+  a.created_by_name, a.created_at, a.updated_at`;
+
+// Document metadata only; content is fetched one file at a time
+const DOCUMENTS_SUBQUERY = `COALESCE((
+  SELECT json_agg(json_build_object(
+    'id', d.id, 'kind', d.kind, 'filename', d.filename, 'content_type', d.content_type,
+    'size_bytes', d.size_bytes, 'uploaded_by_name', d.uploaded_by_name, 'created_at', d.created_at
+  ) ORDER BY d.created_at, d.id)
+  FROM claim_appeal_documents d WHERE d.appeal_id = a.id
+), '[]') AS documents`;
+
+const APPEAL_STATUSES: Record<string, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  partially_approved: 'Partially approved',
+  upheld: 'Upheld',
+  withdrawn: 'Withdrawn'
+};
+
+const isAppealStatus = (value: unknown): boolean =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(APPEAL_STATUSES, value);
+
+// Statuses that record the payer's decision
+const DECISION_STATUSES = ['approved', 'partially_approved', 'upheld'];
+
+// Drafts due within this many days are counted as due soon on the dashboard
+const DUE_SOON_DAYS = 7;
+
+const OVERDUE_DEFAULT_LIMIT = 10;
+const OVERDUE_MAX_LIMIT = 100;
+
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Uploads arrive as octet-stream, so the type stored for download comes from the extension
+const DOCUMENT_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+type AppealValues = Record<string, string | number | null>;
+
+const readDate = (body: any, field: string, values: AppealValues, errors: Record<string, string>) => {
+  if (!(field in body)) return;
+  const value = body[field] || null;
+  if (value !== null && (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value))) {
+    errors[field] = `${field} must be a date (YYYY-MM-DD)`;
+  } else {
+    values[field] = value;
+  }
+};
+
+const readAmount = (body: any, field: string, values: AppealValues, errors: Record<string, string>) => {
+  if (!(field in body)) return;
+  const raw = body[field];
+  const amount = raw === null || raw === '' ? null : Number(raw);
+  if (amount !== null && (!Number.isFinite(amount) || amount < 0)) errors[field] = `${field} must be a non-negative number`;
+  else values[field] = amount;
+};
+
+const readText = (body: any, field: string, values: AppealValues, errors: Record<string, string>) => {
+  if (!(field in body)) return;
+  if (body[field] !== null && typeof body[field] !== 'string') errors[field] = `${field} must be text`;
+  else values[field] = body[field]?.trim() || null;
+};
+
+/**
+ * Validate the editable appeal fields
+ * The level is fixed once an appeal is created; escalating means creating the next-level appeal
+ * @returns the normalized values to write and a map of field errors
+ */
+const validateAppealInput = (body: any, isNew: boolean): { values: AppealValues; errors: Record<string, string> } => {
+  const values: AppealValues = {};
+  const errors: Record<string, string> = {};
+
+  if (isNew) {
+    if (!isAppealLevel(body.level)) errors.level = `level must be one of ${Object.keys(APPEAL_LEVELS).join(', ')}`;
+    else values.level = body.level;
+
+    if (body.denial_id !== undefined && body.denial_id !== null && body.denial_id !== '') {
+      const denialId = Number(body.denial_id);
+      if (!Number.isInteger(denialId)) errors.denial_id = 'denial_id must be a denial ID';
+      else values.denial_id = denialId;
+    }
+  }
+
+  if ('status' in body) {
+    if (!isAppealStatus(body.status)) errors.status = `status must be one of ${Object.keys(APPEAL_STATUSES).join(', ')}`;
+    else values.status = body.status;
+  }
+
+  readDate(body, 'due_date', values, errors);
+  readDate(body, 'submitted_date', values, errors);
+  readDate(body, 'decision_date', values, errors);
+  readAmount(body, 'amount_requested', values, errors);
+  readAmount(body, 'amount_recovered', values, errors);
+  readText(body, 'payer', values, errors);
+  readText(body, 'reference_number', values, errors);
+  readText(body, 'notes', values, errors);
+
+  if (!isNew && 'due_date' in values && values.due_date === null) errors.due_date = 'due_date cannot be removed';
+
+  return { values, errors };
+};
+
+/**
+ * Parse a numeric route parameter, sending a 400 if it isn't one
+ */
+const readId = (req: Request, res: Response, param = 'id'): number | null => {
+  const id = parseInt(req.params[param]);
+
+  if (isNaN(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid ID format',
+      message: 'The ID must be a number'
+    });
+    return null;
+  }
+
+  return id;
+};
+
+const sendAppealNotFound = (res: Response, id: number) => {
+  res.status(404).json({
+    success: false,
+    error: 'Appeal not found',
+    message: `No appeal found with ID ${id}`
+  });
+};
+
+/**
+ * Appeal levels, statuses and the letter templates available for each level
+ * @route GET /api/appeals/options
+ */
+export const getAppealOptions = async (req: Request, res: Response): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    data: {
+      levels: Object.entries(APPEAL_LEVELS).map(([value, label]) => ({ value, label })),
+      statuses: Object.entries(APPEAL_STATUSES).map(([value, label]) => ({ value, label })),
+      templates: Object.entries(LETTER_TEMPLATES).map(([key, template]) => ({
+        key,
+        name: template.name,
+        description: template.description,
+        levels: template.levels
+      }))
+    }
+  });
+};
+
+/**
+ * Appeals filed for a claim line, newest first, with their document lists
+ * @route GET /api/claims/:id/appeals
+ */
+export const getClaimAppeals = async (req: Request, res: Response): Promise<void> => {
+  const claimId = readId(req, res);
+  if (claimId === null) return;
+
+  try {
+    const result = await query(
+      `SELECT ${APPEAL_COLUMNS}, ${DOCUMENTS_SUBQUERY}
+       FROM claim_appeals a
+       WHERE a.claim_id = $1
+       ORDER BY a.created_at DESC, a.id DESC`,
+      [claimId]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching claim appeals:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch appeals',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Open an appeal for a denied claim line
+ * The claim must be in a denied status or have an open denial. When a denial is linked, the payer and
+ * amount default to the denial's, and a first-level appeal's due date to its appeal deadline
+ * @route POST /api/claims/:id/appeals
+ */
+export const createAppeal = async (req: Request, res: Response): Promise<void> => {
+  const claimId = readId(req, res);
+  if (claimId === null) return;
+
+  const { values, errors } = validateAppealInput(req.body || {}, true);
+
+  if (Object.keys(errors).length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid appeal data',
+      message: 'One or more fields are invalid',
+      errors
+    });
+    return;
+  }
+
+  try {
+    const claimResult = await query(
+      `SELECT c.claim_status, c.prim_ins, c.sec_ins,
+        EXISTS (SELECT 1 FROM claim_denials d WHERE d.claim_id = c.id AND d.resolution IS NULL) AS has_open_denial
+       FROM upl_billing_reimburse c
+       WHERE c.id = $1 AND c.deleted_at IS NULL`,
+      [claimId]
+    );
+
+    if (claimResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID ${claimId}`
+      });
+      return;
+    }
+
+    const claim = claimResult.rows[0];
+    const isDenied = /denied/i.test(claim.claim_status || '') || claim.has_open_denial;
+
+    if (!isDenied) {
+      res.status(422).json({
+        success: false,
+        error: 'Claim is not denied',
+        message: 'Appeals can only be opened for claims in a denied status or with an open denial'
+      });
+      return;
+    }
+
+    let denial: { payer: string | null; denied_amount: string | null; appeal_deadline: string | null } | null = null;
+    if (values.denial_id) {
+      const denialResult = await query(
+        `SELECT payer, denied_amount, to_char(appeal_deadline, 'YYYY-MM-DD') AS appeal_deadline
+         FROM claim_denials WHERE id = $1 AND claim_id = $2`,
+        [values.denial_id, claimId]
+      );
+
+      if (denialResult.rows.length === 0) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid appeal data',
+          message: 'One or more fields are invalid',
+          errors: { denial_id: `Denial ${values.denial_id} is not recorded against this claim` }
+        });
+        return;
+      }
+      denial = denialResult.rows[0];
+    }
+
+    // The denial's deadline is for the first appeal; later levels run from the previous decision
+    const dueDate = values.due_date ?? (values.level === 'first' ? denial?.appeal_deadline : null) ?? null;
+    if (!dueDate) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid appeal data',
+        message: 'One or more fields are invalid',
+        errors: { due_date: 'due_date is required unless a first-level appeal is linked to a denial with an appeal deadline' }
+      });
+      return;
+    }
+
+    const secondaryDenied = /^sec denied/i.test(claim.claim_status || '');
+    const payer = values.payer ?? denial?.payer ?? (secondaryDenied ? claim.sec_ins : claim.prim_ins) ?? null;
+
+    const result = await query(
+      `INSERT INTO claim_appeals AS a (
+        claim_id, denial_id, level, status, payer, due_date, submitted_date, decision_date,
+        reference_number, amount_requested, amount_recovered, notes, created_by, created_by_name
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+      RETURNING ${APPEAL_COLUMNS}, '[]'::json AS documents`,
+      [
+        claimId,
+        values.denial_id ?? null,
+        values.level,
+        values.status ?? 'draft',
+        payer,
+        dueDate,
+        values.submitted_date ?? null,
+        values.decision_date ?? null,
+        values.reference_number ?? null,
+        values.amount_requested ?? denial?.denied_amount ?? null,
+        values.amount_recovered ?? null,
+        values.notes ?? null,
+        req.user?.id || null,
+        req.user?.name || null
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Appeal created',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Error creating appeal:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create appeal',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Update an appeal's status, dates, amounts or notes
+ * Moving to submitted or to a decision stamps today's date unless one is given or already set
+ * @route PATCH /api/appeals/:id
+ */
+export const updateAppeal = async (req: Request, res: Response): Promise<void> => {
+  const id = readId(req, res);
+  if (id === null) return;
+
+  const { values, errors } = validateAppealInput(req.body || {}, false);
+
+  if (Object.keys(errors).length > 0 || Object.keys(values).length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid appeal data',
+      message: Object.keys(errors).length > 0 ? 'One or more fields are invalid' : 'No fields to update',
+      errors
+    });
+    return;
+  }
+
+  const fields = Object.keys(values);
+  const setClauses = fields.map((field, index) => `${field} = $${index + 1}`);
+  const params: unknown[] = fields.map(field => values[field]);
+
+  if (values.status === 'submitted' && !('submitted_date' in values)) {
+    setClauses.push('submitted_date = COALESCE(submitted_date, CURRENT_DATE)');
+  }
+  if (DECISION_STATUSES.includes(values.status as string) && !('decision_date' in values)) {
+    setClauses.push('decision_date = COALESCE(decision_date, CURRENT_DATE)');
+  }
+
+  params.push(id);
+
+  try {
+    const result = await query(
+      `UPDATE claim_appeals AS a SET ${setClauses.join(', ')}, updated_at = NOW()
+       WHERE a.id = $${params.length}
+       RETURNING ${APPEAL_COLUMNS}, ${DOCUMENTS_SUBQUERY}`,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      sendAppealNotFound(res, id);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Appeal updated',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Error updating appeal:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update appeal',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Delete an appeal opened in error, along with its documents
+ * @route DELETE /api/appeals/:id
+ */
+export const deleteAppeal = async (req: Request, res: Response): Promise<void> => {
+  const id = readId(req, res);
+  if (id === null) return;
+
+  try {
+    const result = await query('DELETE FROM claim_appeals WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      sendAppealNotFound(res, id);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Appeal deleted'
+    });
+  } catch (error) {
+    console.error('Error deleting appeal:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete appeal',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Draft appeals past their due date, oldest first, with counts for the dashboard
+ * Query: limit (default 10)
+ * @route GET /api/appeals/overdue
+ */
+export const getOverdueAppeals = async (req: Request, res: Response): Promise<void> => {
+  const requested = parseInt(req.query.limit as string);
+  const limit = Number.isNaN(requested) ? OVERDUE_DEFAULT_LIMIT : Math.min(Math.max(requested, 1), OVERDUE_MAX_LIMIT);
+
+  try {
+    const countsResult = await query(
+      `SELECT
+        COUNT(*) FILTER (WHERE a.due_date < CURRENT_DATE) AS overdue_count,
+        COUNT(*) FILTER (WHERE a.due_date BETWEEN CURRENT_DATE AND CURRENT_DATE + ${DUE_SOON_DAYS}) AS due_soon_count
+       FROM claim_appeals a
+       JOIN upl_billing_reimburse c ON c.id = a.claim_id AND c.deleted_at IS NULL
+       WHERE a.status = 'draft'`
+    );
+
+    const result = await query(
+      `SELECT ${APPEAL_COLUMNS}, c.first_name, c.last_name, c.cpt_code, c.service_end,
+        CURRENT_DATE - a.due_date AS days_overdue
+       FROM claim_appeals a
+       JOIN upl_billing_reimburse c ON c.id = a.claim_id AND c.deleted_at IS NULL
+       WHERE a.status = 'draft' AND a.due_date < CURRENT_DATE
+       ORDER BY a.due_date, a.id
+       LIMIT $1`,
+      [limit]
+    );
+
+    const counts = countsResult.rows[0];
+
+    res.status(200).json({
+      success: true,
+      data: {
+        appeals: result.rows,
+        overdueCount: parseInt(counts.overdue_count),
+        dueSoonCount: parseInt(counts.due_soon_count),
+        dueSoonDays: DUE_SOON_DAYS
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching overdue appeals:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch overdue appeals',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Attach a supporting document to an appeal
+ * The file is sent as the raw request body with its name in ?filename=
+ * @route POST /api/appeals/:id/documents
+ */
+export const uploadAppealDocument = async (req: Request, res: Response): Promise<void> => {
+  const id = readId(req, res);
+  if (id === null) return;
+
+  const filename = typeof req.query.filename === 'string' ? sanitizeFilename(path.basename(req.query.filename)) : '';
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0 || !filename) {
+    res.status(400).json({
+      success: false,
+      error: 'No file uploaded',
+      message: 'Send the document as the request body with its name in ?filename='
+    });
+    return;
+  }
+
+  if (req.body.length > MAX_DOCUMENT_BYTES) {
+    res.status(413).json({
+      success: false,
+      error: 'File too large',
+      message: `Documents can be at most ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`
+    });
+    return;
+  }
+
+  try {
+    const result = await query(
+      `INSERT INTO claim_appeal_documents (appeal_id, kind, filename, content_type, size_bytes, content, uploaded_by, uploaded_by_name)
+       SELECT id, 'supporting', $2, $3, $4, $5, $6, $7 FROM claim_appeals WHERE id = $1
+       RETURNING id, appeal_id, kind, filename, content_type, size_bytes, uploaded_by_name, created_at`,
+      [
+        id,
+        filename.slice(0, 255),
+        DOCUMENT_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream',
+        req.body.length,
+        req.body,
+        req.user?.id || null,
+        req.user?.name || null
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      sendAppealNotFound(res, id);
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Document attached',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Error attaching appeal document:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to attach document',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Download an appeal document or generated letter
+ * @route GET /api/appeals/:id/documents/:documentId
+ */
+export const downloadAppealDocument = async (req: Request, res: Response): Promise<void> => {
+  const id = readId(req, res);
+  if (id === null) return;
+  const documentId = readId(req, res, 'documentId');
+  if (documentId === null) return;
+
+  try {
+    const result = await query(
+      'SELECT filename, content_type, content FROM claim_appeal_documents WHERE id = $1 AND appeal_id = $2',
+      [documentId, id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Document not found',
+        message: `Appeal ${id} has no document with ID ${documentId}`
+      });
+      return;
+    }
+
+    const { filename, content_type, content } = result.rows[0];
+    res.setHeader('Content-Type', content_type);
+    res.setHeader('Content-Disposition', attachmentDisposition(filename));
+    res.status(200).send(content);
+  } catch (error) {
+    console.error('Error downloading appeal document:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to download document',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Remove a document from an appeal
+ * @route DELETE /api/appeals/:id/documents/:documentId
+ */
+export const deleteAppealDocument = async (req: Request, res: Response): Promise<void> => {
+  const id = readId(req, res);
+  if (id === null) return;
+  const documentId = readId(req, res, 'documentId');
+  if (documentId === null) return;
+
+  try {
+    const result = await query(
+      'DELETE FROM claim_appeal_documents WHERE id = $1 AND appeal_id = $2 RETURNING id',
+      [documentId, id]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Document not found',
+        message: `Appeal ${id} has no document with ID ${documentId}`
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Document removed'
+    });
+  } catch (error) {
+    console.error('Error removing appeal document:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove document',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Claim dates may come back from pg as Date objects or as text, depending on the column
+const formatDate = (value: unknown) => {
+  if (value instanceof Date) return `${pad(value.getMonth() + 1)}/${pad(value.getDate())}/${value.getFullYear()}`;
+  if (!value) return '';
+  const [year, month, day] = String(value).slice(0, 10).split('-');
+  return `${month}/${day}/${year}`;
+};
+
+const formatMoney = (value: string | number | null | undefined) =>
+  value === null || value === undefined || value === ''
+    ? ''
+    : `$${Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Load an appeal with its claim, linked denial (or the latest one) and supporting documents,
+ * and build the fields the letter templates merge in
+ * @returns null when the appeal does not exist
+ */
+const loadMergeFields = async (id: number): Promise<{ level: string; fields: MergeFields } | null> => {
+  const result = await query(
+    `SELECT a.level, a.payer, a.reference_number, a.amount_requested,
+      c.id AS claim_id, c.first_name, c.last_name, c.patient_id, c.patient_emr_no, c.oa_claim_id,
+      c.date_of_birth, c.service_end, c.cpt_code, c.icd_code, c.units, c.provider_name, c.charge_amt,
+      d.carc_codes, d.group_code, d.denied_amount, to_char(d.denial_date, 'YYYY-MM-DD') AS denial_date,
+      (SELECT array_agg(doc.filename ORDER BY doc.created_at, doc.id)
+       FROM claim_appeal_documents doc WHERE doc.appeal_id = a.id AND doc.kind = 'supporting') AS enclosures
+     FROM claim_appeals a
+     JOIN upl_billing_reimburse c ON c.id = a.claim_id
+     LEFT JOIN LATERAL (
+       SELECT * FROM claim_denials
+       WHERE (a.denial_id IS NOT NULL AND id = a.denial_id) OR (a.denial_id IS NULL AND claim_id = a.claim_id)
+       ORDER BY denial_date DESC, id DESC
+       LIMIT 1
+     ) d ON TRUE
+     WHERE a.id = $1`,
+    [id]
+  );
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  const edi = config.edi;
+  const carcCodes: string[] = row.carc_codes || [];
+  const cityLine = [edi.billingProviderCity, [edi.billingProviderState, edi.billingProviderZip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+  return {
+    level: row.level,
+    fields: {
+      today: formatDate(new Date()),
+      payer: row.payer || '',
+      patient_name: [row.first_name, row.last_name].filter(Boolean).join(' '),
+      patient_dob: formatDate(row.date_of_birth),
+      patient_id: row.patient_id ? String(row.patient_id) : '',
+      member_record: row.patient_emr_no || '',
+      claim_number: row.oa_claim_id || String(row.claim_id),
+      service_date: formatDate(row.service_end),
+      cpt_code: row.cpt_code || '',
+      icd_code: row.icd_code || '',
+      units: row.units ? String(row.units) : '1',
+      rendering_provider: row.provider_name || '',
+      charge_amount: formatMoney(row.charge_amt),
+      denied_amount: formatMoney(row.amount_requested ?? row.denied_amount),
+      denial_date: formatDate(row.denial_date),
+      denial_reasons: carcCodes.length > 0
+        ? carcCodes
+            .map(code => `  ${row.group_code ? `${row.group_code}-` : ''}${code}: ${CARC_CODES[code]?.description || 'See remittance advice'}`)
+            .join('\n')
+        : '  See the enclosed remittance advice',
+      appeal_level: APPEAL_LEVELS[row.level as keyof typeof APPEAL_LEVELS] || row.level,
+      reference_number: row.reference_number ? ` (reference ${row.reference_number})` : '',
+      enclosures: (row.enclosures || []).map((name: string) => `  ${name}`).join('\n') || '  None',
+      billing_provider_name: edi.billingProviderName,
+      billing_provider_npi: edi.billingProviderNpi,
+      billing_provider_tax_id: edi.billingProviderTaxId,
+      billing_provider_address: [edi.billingProviderAddress, cityLine].filter(Boolean).join('\n'),
+      contact_name: edi.contactName,
+      contact_phone: edi.contactPhone
+    }
+  };
+};
+
+/**
+ * Pick the requested template, or the default for the appeal's level
+ * @returns the template key, or null after sending a 400
+ */
+const readTemplateKey = (value: unknown, level: string, res: Response): string | null => {
+  if (value === undefined || value === null || value === '') {
+    return defaultTemplateFor(isAppealLevel(level) ? level : 'first');
+  }
+
+  if (typeof value !== 'string' || !Object.prototype.hasOwnProperty.call(LETTER_TEMPLATES, value)) {
+    res.status(400).json({
+      success: false,
+      error: 'Unknown template',
+      message: `template must be one of ${Object.keys(LETTER_TEMPLATES).join(', ')}`
+    });
+    return null;
+  }
+
+  return value;
+};
+
+/**
+ * The appeal letter text with the claim's fields merged in, for review before generating the PDF
+ * Query: template (defaults to the one for the appeal's level)
+ * @route GET /api/appeals/:id/letter
+ */
+export const previewAppealLetter = async (req: Request, res: Response): Promise<void> => {
+  const id = readId(req, res);
+  if (id === null) return;
+
+  try {
+    const merged = await loadMergeFields(id);
+    if (!merged) {
+      sendAppealNotFound(res, id);
+      return;
+    }
+
+    const template = readTemplateKey(req.query.template, merged.level, res);
+    if (template === null) return;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        template,
+        text: mergeTemplate(LETTER_TEMPLATES[template].body, merged.fields)
+      }
+    });
+  } catch (error) {
+    console.error('Error previewing appeal letter:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview letter',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Generate the appeal letter as a PDF and attach it to the appeal
+ * Body: template, and optionally text to use the reviewed (edited) letter instead of the merged template
+ * @route POST /api/appeals/:id/letter
+ */
+export const generateAppealLetter = async (req: Request, res: Response): Promise<void> => {
+  const id = readId(req, res);
+  if (id === null) return;
+
+  const { template: requestedTemplate, text } = req.body || {};
+
+  if (text !== undefined && (typeof text !== 'string' || !text.trim())) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid letter',
+      message: 'text must be the letter body'
+    });
+    return;
+  }
+
+  try {
+    const merged = await loadMergeFields(id);
+    if (!merged) {
+      sendAppealNotFound(res, id);
+      return;
+    }
+
+    const template = readTemplateKey(requestedTemplate, merged.level, res);
+    if (template === null) return;
+
+    const letter = text ?? mergeTemplate(LETTER_TEMPLATES[template].body, merged.fields);
+    const pdf = renderTextPdf(letter, `${LETTER_TEMPLATES[template].name} - ${merged.fields.patient_name}`);
+    const filename = `appeal-${id}-${template}-${new Date().toISOString().slice(0, 10)}.pdf`;
+
+    const result = await query(
+      `INSERT INTO claim_appeal_documents (appeal_id, kind, filename, content_type, size_bytes, content, uploaded_by, uploaded_by_name)
+       VALUES ($1, 'letter', $2, 'application/pdf', $3, $4, $5, $6)
+       RETURNING id, appeal_id, kind, filename, content_type, size_bytes, uploaded_by_name, created_at`,
+      [id, filename, pdf.length, pdf, req.user?.id || null, req.user?.name || null]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Appeal letter generated',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Error generating appeal letter:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate letter',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
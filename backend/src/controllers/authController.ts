@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { query } from '../config/db';
+import config from '../config';
+import User from '../models/User';
+
+// Hash refresh tokens before storing or looking them up
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Strip the password hash before a user leaves the server
+const toPublicUser = (user: User) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  role: user.role
+});
+
+/**
+ * Sign a new access token and persist a new refresh token for the user
+ */
+const issueTokens = async (user: User) => {
+  const accessToken = jwt.sign(
+    { name: user.name, email: user.email, role: user.role },
+    config.auth.jwtSecret,
+    {
+      subject: String(user.id),
+      expiresIn: config.auth.accessTokenExpiresIn as jwt.SignOptions['expiresIn']
+    }
+  );
+
+  const refreshToken = crypto.randomBytes(48).toString('hex');
+  await query(
+    `INSERT INTO refresh_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, NOW() + ($3 || ' days')::interval)`,
+    [user.id, hashToken(refreshToken), config.auth.refreshTokenTtlDays]
+  );
+
+  return { accessToken, refreshToken, expiresIn: config.auth.accessTokenExpiresIn };
+};
+
+/**
+ * Log in with email and password
+ * @route POST /api/auth/login
+ */
+export const login = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, password } = req.body;
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing credentials',
+        message: 'Email and password are required'
+      });
+      return;
+    }
+
+    const { rows } = await query('SELECT * FROM users WHERE LOWER(email) = LOWER($1)', [email.trim()]);
+    const user: User | undefined = rows[0];
+
+    const passwordMatches = user ? await bcrypt.compare(password, user.password_hash) : false;
+
+    if (!user || !passwordMatches) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid credentials',
+        message: 'Invalid email or password'
+      });
+      return;
+    }
+
+    if (!user.is_active) {
+      res.status(403).json({
+        success: false,
+        error: 'Account deactivated',
+        message: 'This account has been deactivated, contact an administrator'
+      });
+      return;
+    }
+
+    await query('UPDATE users SET last_login_at = NOW() WHERE id = $1', [user.id]);
+    const tokens = await issueTokens(user);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        user: toPublicUser(user),
+        ...tokens
+      }
+    });
+  } catch (error) {
+    console.error('Error during login:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to log in',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Exchange a refresh token for a new token pair (the old refresh token is revoked)
+ * @route POST /api/auth/refresh
+ */
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      res.status(400).json({
+        success: false,
+        error: 'Missing refresh token',
+        message: 'refreshToken is required'
+      });
+      return;
+    }
+
+    // Revoke and return the token in one statement so it can only be used once
+    const revoked = await query(
+      `UPDATE refresh_tokens
+       SET revoked_at = NOW()
+       WHERE token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       RETURNING user_id`,
+      [hashToken(refreshToken)]
+    );
+
+    if (revoked.rows.length === 0) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid refresh token',
+        message: 'Session has expired, please log in again'
+      });
+      return;
+    }
+
+    const { rows } = await query('SELECT * FROM users WHERE id = $1 AND is_active', [revoked.rows[0].user_id]);
+    const user: User | undefined = rows[0];
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid refresh token',
+        message: 'Session has expired, please log in again'
+      });
+      return;
+    }
+
+    const tokens = await issueTokens(user);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        user: toPublicUser(user),
+        ...tokens
+      }
+    });
+  } catch (error) {
+    console.error('Error refreshing session:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refresh session',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Revoke the given refresh token
+ * @route POST /api/auth/logout
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (typeof refreshToken === 'string' && refreshToken) {
+      await query(
+        'UPDATE refresh_tokens SET revoked_at = NOW() WHERE token_hash = $1 AND revoked_at IS NULL',
+        [hashToken(refreshToken)]
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Error during logout:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to log out',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -1,7 +1,21 @@
 import { Request, Response } from 'express';
-import pool, { query } from '../config/db';
+import { PoolClient } from 'pg';
+import pool, { query, withTransaction } from '../config/db';
+import config from '../config';
 import Claim from '../models/Claim';
 import ChangeLog from '../models/ChangeLog';
+import {
+  claimCreateSchema,
+  claimUpdateSchema,
+  validateClaimPayload,
+  comparableClaimValue,
+  ClaimValues
+} from '../validation/claimSchema';
+import { addClaimFilters } from '../validation/claimFilters';
+import { AuthUser } from '../middleware/auth';
+import { denyAccess } from '../middleware/authorize';
+import { hasPermission, RESTRICTED_CLAIM_FIELDS } from '../config/permissions';
+import { verifyChangeLogChain } from '../audit/changeLogChain';
 
 // Request counter to track API usage
 let requestCounter = 0;
@@ -13,7 +27,34 @@ const queryCache: Record<string, {
 }> = {};
 
 /**
- * Get claims with optional filtering
+ * Drop cached entries for a claim, its history and any claim lists or history pages
+ */
+export const invalidateClaimCache = (claimId: number) => {
+  Object.keys(queryCache).forEach(key => {
+    if (
+      key === `claim-${claimId}` ||
+      key === `claim-history-${claimId}` ||
+      key.includes('claims') ||
+      key.includes('upl_billing_reimburse') ||
+      key.startsWith('all-history-')
+    ) {
+      delete queryCache[key];
+    }
+  });
+};
+
+// Columns the claims list can be sorted by (whitelisted because they are interpolated into SQL)
+const CLAIM_SORT_COLUMNS = [
+  'service_end', 'service_start', 'charge_dt', 'charge_amt', 'bal_amt',
+  'last_name', 'patient_id', 'claim_status', 'id'
+];
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Get claims with optional filtering, sorting and pagination
+ * Filters: patient_id, cpt_id, service_end, name, emr_no, dos_from, dos_to, payer,
+ * provider, claim_status, check_no, oa_claim_id, balance_min, balance_max
  * @route GET /api/claims
  */
 export const getClaims = async (req: Request, res: Response) => {
@@ -28,9 +69,26 @@ export const getClaims = async (req: Request, res: Response) => {
     }
 
     // Extract query parameters
-    const patientId = req.query.patient_id ? Number(req.query.patient_id) : undefined;
-    const cptId = req.query.cpt_id ? Number(req.query.cpt_id) : undefined;
-    const serviceEnd = req.query.service_end as string | undefined;
+    const page = parseInt(req.query.page as string || '1');
+    const limit = parseInt(req.query.limit as string || '10');
+    const sort = (req.query.sort as string) || 'service_end';
+    const order = ((req.query.order as string) || 'desc').toLowerCase();
+
+    if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pagination',
+        message: `page must be at least 1 and limit between 1 and ${MAX_PAGE_SIZE}`
+      });
+    }
+
+    if (!CLAIM_SORT_COLUMNS.includes(sort) || (order !== 'asc' && order !== 'desc')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid sort',
+        message: `sort must be one of ${CLAIM_SORT_COLUMNS.join(', ')} and order must be asc or desc`
+      });
+    }
 
     // Build query components
     let sqlQuery = `
@@ -46,40 +104,38 @@ export const getClaims = async (req: Request, res: Response) => {
         pat_amt, pat_recv_dt
       FROM upl_billing_reimburse`;
     const queryParams: any[] = [];
-    const conditions: string[] = [];
+    // Soft-deleted claims are never listed
+    const conditions: string[] = ['deleted_at IS NULL'];
 
-    // Add filters if provided
-    if (patientId) {
-      queryParams.push(patientId);
-      conditions.push(`patient_id = $${queryParams.length}`);
-    }
-
-    if (cptId) {
-      queryParams.push(cptId);
-      conditions.push(`cpt_id = $${queryParams.length}`);
-    }
+    const filterErrors = addClaimFilters(req.query, conditions, queryParams);
 
-    if (serviceEnd) {
-      queryParams.push(serviceEnd);
-      conditions.push(`service_end = $${queryParams.length}`);
+    if (Object.keys(filterErrors).length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid search filters',
+        message: 'One or more search filters are invalid',
+        errors: filterErrors
+      });
     }
 
     // Construct WHERE clause if there are conditions
-    if (conditions.length > 0) {
-      sqlQuery += ' WHERE ' + conditions.join(' AND ');
-    }
+    const whereClause = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+    const countQuery = `SELECT COUNT(*) FROM upl_billing_reimburse${whereClause}`;
+    const countParams = [...queryParams];
+    sqlQuery += whereClause;
 
-    // Sort by most recent service date with nulls last
-    sqlQuery += ' ORDER BY service_end DESC NULLS LAST';
+    // Sort with nulls last, breaking ties by id so pages don't overlap
+    sqlQuery += ` ORDER BY ${sort} ${order.toUpperCase()} NULLS LAST, id ${order.toUpperCase()}`;
 
-    // Add LIMIT for pagination and performance
-    sqlQuery += ' LIMIT 10';
+    // Add LIMIT/OFFSET for pagination
+    queryParams.push(limit, (page - 1) * limit);
+    sqlQuery += ` LIMIT $${queryParams.length - 1} OFFSET $${queryParams.length}`;
 
     // Create a cache key based on the query and params
     const cacheKey = JSON.stringify({ sql: sqlQuery, params: queryParams });
     const now = Date.now();
     
-    // Check if we have this query in cache and it's still valid (less than 30 seconds old)
+    // Check if we have this query in cache and it's still within its TTL
     if (queryCache[cacheKey] && now - queryCache[cacheKey].timestamp < queryCache[cacheKey].ttl) {
       if (shouldLog) console.log(`[Request #${requestId}] Using cached result for claims query`);
       return res.status(200).json(queryCache[cacheKey].data);
@@ -92,20 +148,26 @@ export const getClaims = async (req: Request, res: Response) => {
 
     // Execute query using our optimized query function
     try {
+      const countResult = await query(countQuery, countParams);
+      const totalCount = parseInt(countResult.rows[0].count);
       const { rows } = await query(sqlQuery, queryParams);
       
-      if (shouldLog) console.log(`[Request #${requestId}] Query returned ${rows.length} claims`);
+      if (shouldLog) console.log(`[Request #${requestId}] Query returned ${rows.length} of ${totalCount} claims`);
       
       const result = {
         success: true,
+        totalCount,
+        page,
+        limit,
+        totalPages: Math.ceil(totalCount / limit),
         data: rows
       };
       
-      // Cache the result with a TTL of 30 seconds
+      // Cache the result (30 seconds by default)
       queryCache[cacheKey] = {
         data: result,
         timestamp: now,
-        ttl: 30000 // 30 seconds
+        ttl: config.cache.claimsTtlMs
       };
       
       return res.status(200).json(result);
@@ -161,7 +223,7 @@ export const getClaimById = async (req: Request, res: Response): Promise<void> =
     const sqlQuery = `
       SELECT *
       FROM upl_billing_reimburse
-      WHERE id = $1`;
+      WHERE id = $1 AND deleted_at IS NULL`;
     
     // Use our optimized query function
     const { rows } = await query(sqlQuery, [id]);
@@ -181,11 +243,11 @@ export const getClaimById = async (req: Request, res: Response): Promise<void> =
       data: rows[0]
     };
     
-    // Cache the result with a TTL of 60 seconds
+    // Cache the result (60 seconds by default)
     queryCache[cacheKey] = {
       data: result,
       timestamp: now,
-      ttl: 60000 // 60 seconds
+      ttl: config.cache.claimTtlMs
     };
     
     // Return the claim
@@ -200,15 +262,220 @@ export const getClaimById = async (req: Request, res: Response): Promise<void> =
   }
 };
 
+/**
+ * Create a new claim line
+ * @route POST /api/claims
+ */
+export const createClaim = async (req: Request, res: Response): Promise<void> => {
+  try {
+    requestCounter++;
+    const actor = req.user;
+
+    if (!actor) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        message: 'Claims must be created by an authenticated user'
+      });
+      return;
+    }
+
+    const { values, errors } = validateClaimPayload(req.body || {}, claimCreateSchema);
+
+    if (Object.keys(errors).length > 0) {
+      res.status(422).json({
+        success: false,
+        error: 'Validation failed',
+        message: 'One or more fields are invalid',
+        errors
+      });
+      return;
+    }
+
+    // A new charge is fully outstanding until something is posted against it
+    if (values.bal_amt === undefined) {
+      values.bal_amt = values.charge_amt;
+    }
+
+    const columns = Object.keys(values);
+
+    // The row and the history of its initial values are written together
+    const newClaim = await withTransaction(async client => {
+      const insertResult = await client.query(
+        `INSERT INTO upl_billing_reimburse (${columns.join(', ')})
+         VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})
+         RETURNING *`,
+        Object.values(values)
+      );
+      const inserted = insertResult.rows[0];
+
+      // Record the initial value of every field that was set
+      const valuesSql = columns.map((_, index) => {
+        const offset = index * 7;
+        return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, NOW(), $${offset + 5}, NULL, $${offset + 6}, $${offset + 7})`;
+      }).join(', ');
+
+      const logParams: any[] = [];
+      columns.forEach(column => {
+        logParams.push(
+          inserted.id,
+          actor.id,
+          actor.name,
+          inserted.cpt_id || null,
+          column,
+          comparableClaimValue(column as keyof Claim, inserted[column]),
+          'created'
+        );
+      });
+
+      await client.query(`
+        INSERT INTO change_logs (
+          claim_id, user_id, username, cpt_id,
+          timestamp, field_name, old_value, new_value, action_type
+        ) VALUES ${valuesSql}`, logParams);
+
+      return inserted;
+    });
+
+    invalidateClaimCache(newClaim.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Claim created successfully',
+      data: newClaim
+    });
+  } catch (error) {
+    console.error('Error creating claim:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create claim',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Reject an edit made from a stale copy of a claim
+ * Responds 409 with the claim as it is now and, for each submitted field that differs from it,
+ * the value sent and the current value
+ */
+const sendVersionConflict = async (res: Response, current: Claim, updates: ClaimValues) => {
+  const conflicts = (Object.keys(updates) as (keyof Claim)[])
+    .filter(field => comparableClaimValue(field, updates[field]) !== comparableClaimValue(field, current[field]))
+    .map(field => ({ field, yours: updates[field] ?? null, theirs: current[field] ?? null }));
+
+  // Who made the latest change, so the user knows whom to check with
+  const lastChange = await query(
+    'SELECT username, timestamp FROM change_logs WHERE claim_id = $1 ORDER BY timestamp DESC, id DESC LIMIT 1',
+    [current.id]
+  )
+    .then(result => result.rows[0] || null)
+    .catch(() => null);
+
+  res.status(409).json({
+    success: false,
+    error: 'Edit conflict',
+    message: 'This claim was changed by someone else after you opened it',
+    conflicts,
+    current,
+    lastChange
+  });
+};
+
+/**
+ * Write validated field updates to a locked claim row and a change_logs entry per changed field
+ * Must run inside a transaction on the given client
+ * @returns the updated row
+ */
+const applyClaimUpdate = async (client: PoolClient, oldClaim: Claim, updates: ClaimValues, actor: AuthUser) => {
+  const id = oldClaim.id;
+
+  // Collect fields that changed for history tracking
+  const changesForHistory: Array<{
+    field_name: string;
+    old_value: string | null;
+    new_value: string | null;
+  }> = [];
+
+  for (const [key, newValue] of Object.entries(updates)) {
+    const field = key as keyof Claim;
+    // pg returns DATE as Date and NUMERIC as text like "100.00", so compare and log normalized values;
+    // otherwise resaving an unchanged date or amount would log a change that never happened
+    const oldValue = comparableClaimValue(field, oldClaim[field]);
+    const nextValue = comparableClaimValue(field, newValue);
+    
+    if (oldValue !== nextValue) {
+      changesForHistory.push({
+        field_name: key,
+        old_value: oldValue,
+        new_value: nextValue
+      });
+    }
+  }
+
+  // Construct the SET clause and parameters, with the ID as the last parameter
+  const setClauses = Object.keys(updates).map((key, index) => `${key} = $${index + 1}`);
+  const queryParams: any[] = [...Object.values(updates), id];
+
+  const updateResult = await client.query(
+    `UPDATE upl_billing_reimburse
+     SET ${setClauses.join(', ')}
+     WHERE id = $${queryParams.length}
+     RETURNING *`,
+    queryParams
+  );
+
+  if (changesForHistory.length > 0) {
+    // Attribute the change to the verified session, never to identity fields in the body
+    const valuesSql = changesForHistory.map((_, index) => {
+      const offset = index * 8;
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, NOW(), $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`;
+    }).join(', ');
+
+    const logParams: any[] = [];
+    changesForHistory.forEach(change => {
+      logParams.push(
+        id,
+        actor.id,
+        actor.name,
+        oldClaim.cpt_id || null,
+        change.field_name,
+        change.old_value,
+        change.new_value,
+        'updated'
+      );
+    });
+
+    // A failed history insert rolls back the update with it
+    await client.query(`
+      INSERT INTO change_logs (
+        claim_id, user_id, username, cpt_id, 
+        timestamp, field_name, old_value, new_value, action_type
+      ) VALUES ${valuesSql}`, logParams);
+  }
+
+  return updateResult.rows[0];
+};
+
 /**
  * Update claim by ID
+ * The row and its change_logs entries are written in one transaction, so a claim never changes without a history record
  * @route PUT /api/claims/:id
  */
 export const updateClaim = async (req: Request, res: Response): Promise<void> => {
   try {
     requestCounter++;
-    const requestId = requestCounter;
     const id = parseInt(req.params.id);
+    const actor = req.user;
+    
+    if (!actor) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        message: 'Claim updates must be made by an authenticated user'
+      });
+      return;
+    }
     
     if (isNaN(id)) {
       res.status(400).json({
@@ -219,41 +486,18 @@ export const updateClaim = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    // Get the current claim to check if it exists and to compare old values
-    const checkQuery = `SELECT * FROM upl_billing_reimburse WHERE id = $1`;
-    const checkResult = await query(checkQuery, [id]);
-    
-    if (checkResult.rows.length === 0) {
-      res.status(404).json({
+    // Validate and normalize the fields in the request body
+    const { values: updates, errors } = validateClaimPayload(req.body || {}, claimUpdateSchema);
+
+    if (Object.keys(errors).length > 0) {
+      res.status(422).json({
         success: false,
-        error: 'Claim not found',
-        message: `No claim found with ID: ${id}`
+        error: 'Validation failed',
+        message: 'One or more fields are invalid',
+        errors
       });
       return;
     }
-
-    const oldClaim = checkResult.rows[0];
-
-    // Get the request body
-    const updateData = req.body;
-    
-    // Build the SET part of the query dynamically
-    const allowedFields = [
-      'oa_claim_id', 'oa_visit_id', 'charge_dt', 
-      'charge_amt', 'allowed_amt', 'allowed_add_amt', 'allowed_exp_amt',
-      'prim_ins', 'prim_amt', 'prim_post_dt', 'prim_chk_det', 'prim_recv_dt', 'prim_chk_amt', 'prim_cmt',
-      'sec_ins', 'sec_amt', 'sec_post_dt', 'sec_chk_det', 'sec_recv_dt', 'sec_chk_amt', 'sec_cmt', 'sec_denial_code',
-      'pat_amt', 'pat_recv_dt', 'total_amt', 'charges_adj_amt', 'write_off_amt', 
-      'bal_amt', 'reimb_pct', 'claim_status', 'claim_status_type'
-    ];
-
-    // Filter only allowed fields from request body
-    const updates: Record<string, any> = {};
-    for (const field of allowedFields) {
-      if (field in updateData) {
-        updates[field] = updateData[field];
-      }
-    }
     
     // If there's nothing to update, return early
     if (Object.keys(updates).length === 0) {
@@ -265,114 +509,60 @@ export const updateClaim = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
-    // Track changes for history
-    const changesForHistory: Array<{
-      field_name: string;
-      old_value: string | null;
-      new_value: string | null;
-    }> = [];
+    // Edits carry the version of the claim they were made from, so one saved over a newer copy is caught
+    const expectedVersion = Number(req.body?.row_version);
+    if (!Number.isInteger(expectedVersion)) {
+      res.status(428).json({
+        success: false,
+        error: 'Version required',
+        message: 'Include the row_version of the claim being edited'
+      });
+      return;
+    }
 
-    // Collect fields that changed for history tracking
-    for (const [key, newValue] of Object.entries(updates)) {
-      const oldValue = oldClaim[key as keyof Claim];
-      
-      // Only record changes if the values are actually different
-      if (oldValue?.toString() !== newValue?.toString()) {
-        changesForHistory.push({
-          field_name: key,
-          old_value: oldValue !== null && oldValue !== undefined ? String(oldValue) : null,
-          new_value: newValue !== null && newValue !== undefined ? String(newValue) : null
-        });
+    const outcome = await withTransaction(async client => {
+      // Lock the row so the version check, the update and the history describe the same change
+      const checkResult = await client.query(
+        'SELECT * FROM upl_billing_reimburse WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+        [id]
+      );
+
+      if (checkResult.rows.length === 0) {
+        return { status: 'not_found' as const };
       }
-    }
-    
-    // Construct the SET clause and parameters
-    const setClauses: string[] = [];
-    const queryParams: any[] = [];
-    let paramIndex = 1;
-    
-    for (const [key, value] of Object.entries(updates)) {
-      setClauses.push(`${key} = $${paramIndex}`);
-      queryParams.push(value);
-      paramIndex++;
-    }
-    
-    // Add the ID as the last parameter
-    queryParams.push(id);
-    
-    // Construct the full query
-    const updateQuery = `
-      UPDATE upl_billing_reimburse
-      SET ${setClauses.join(', ')}
-      WHERE id = $${paramIndex}
-      RETURNING *`;
-    
-    // Execute the query to update the claim using our optimized query function
-    const updateResult = await query(updateQuery, queryParams);
-    const updatedClaim = updateResult.rows[0];
 
-    // After successful update, invalidate any cached entries for this claim
-    Object.keys(queryCache).forEach(key => {
-      if (key === `claim-${id}` || key === `claim-history-${id}` || key.includes('claims')) {
-        delete queryCache[key];
+      const oldClaim: Claim = checkResult.rows[0];
+
+      if (oldClaim.row_version !== expectedVersion) {
+        return { status: 'conflict' as const, current: oldClaim };
       }
+
+      const updatedClaim = await applyClaimUpdate(client, oldClaim, updates, actor);
+      return { status: 'updated' as const, claim: updatedClaim };
     });
 
-    // Only try to log changes if there are changes to log
-    if (changesForHistory.length > 0) {
-      const userId = req.body.user_id || 1; // Default to user ID 1 if not provided
-      const username = req.body.username || 'System'; // Default to 'System' if not provided
-      
-      try {
-        // Create a single batch insert statement for all changes instead of multiple queries
-        if (changesForHistory.length > 0) {
-          const valuesSql = changesForHistory.map((_, index) => {
-            const offset = index * 8;
-            return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, NOW(), $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`;
-          }).join(', ');
-          
-          const logQuery = `
-            INSERT INTO change_logs (
-              claim_id, user_id, username, cpt_id, 
-              timestamp, field_name, old_value, new_value, action_type
-            ) VALUES ${valuesSql}
-            RETURNING id`;
-          
-          const logParams: any[] = [];
-          changesForHistory.forEach(change => {
-            logParams.push(
-              id,
-              userId,
-              username,
-              oldClaim.cpt_id || null,
-              change.field_name,
-              change.old_value,
-              change.new_value,
-              'updated'
-            );
-          });
-          
-          // Use a single query for all log entries
-          await query(logQuery, logParams);
-          console.log(`Created ${changesForHistory.length} change log entries`);
-        }
-      } catch (logError: any) {
-        // If the error is because the change_logs table doesn't exist, just continue
-        if (logError.code === '42P01') { // PostgreSQL code for "relation does not exist"
-          console.log('change_logs table does not exist, skipping history tracking');
-        } else {
-          // Log other errors but don't fail the operation
-          console.error('Failed to create change logs:', logError);
-        }
-        // Continue with the response even if logging fails
-      }
+    if (outcome.status === 'not_found') {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID: ${id}`
+      });
+      return;
+    }
+
+    if (outcome.status === 'conflict') {
+      await sendVersionConflict(res, outcome.current, updates);
+      return;
     }
+
+    // Only after commit, so a concurrent read can't cache the row as it was before the update
+    invalidateClaimCache(id);
     
     // Return the updated claim
     res.status(200).json({
       success: true,
       message: 'Claim updated successfully',
-      data: updatedClaim
+      data: outcome.claim
     });
     
   } catch (error) {
@@ -386,15 +576,27 @@ export const updateClaim = async (req: Request, res: Response): Promise<void> =>
 };
 
 /**
- * Get change history for a claim
- * @route GET /api/claims/:id/history
+ * Revert a claim to earlier values from its change history, written as a new audited update
+ * Body: changeId to undo one saved edit (every field saved with it), or timestamp to put every field
+ * changed since back to its value at that time. With preview: true the diff is returned without writing;
+ * applying requires the row_version the preview returned, so what is written is what was previewed
+ * @route POST /api/claims/:id/revert
  */
-export const getClaimHistory = async (req: Request, res: Response): Promise<void> => {
+export const revertClaim = async (req: Request, res: Response): Promise<void> => {
   try {
     requestCounter++;
-    const requestId = requestCounter;
     const id = parseInt(req.params.id);
-    
+    const actor = req.user;
+
+    if (!actor) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        message: 'Claims must be reverted by an authenticated user'
+      });
+      return;
+    }
+
     if (isNaN(id)) {
       res.status(400).json({
         success: false,
@@ -403,313 +605,766 @@ export const getClaimHistory = async (req: Request, res: Response): Promise<void
       });
       return;
     }
-    
-    // Create cache key for this specific claim's history
-    const cacheKey = `claim-history-${id}`;
-    const now = Date.now();
-    
-    // Check if we have cached data for this claim's history (cache for 2 minutes)
-    if (queryCache[cacheKey] && now - queryCache[cacheKey].timestamp < queryCache[cacheKey].ttl) {
-      return res.status(200).json(queryCache[cacheKey].data);
+
+    const { changeId, timestamp, preview } = req.body || {};
+
+    if ((changeId === undefined) === (timestamp === undefined)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid revert target',
+        message: 'Provide either a changeId or a timestamp'
+      });
+      return;
     }
-    
-    try {
-      // Check if the claim exists
-      const claimCheckQuery = 'SELECT id, cpt_id, first_name, last_name FROM upl_billing_reimburse WHERE id = $1';
-      
-      // Use our optimized query function
-      const claimCheck = await query(claimCheckQuery, [id]);
-      
-      if (claimCheck.rows.length === 0) {
-        res.status(404).json({
-          success: false,
-          error: 'Claim not found',
-          message: `No claim found with ID: ${id}`
-        });
-        return;
-      }
-      
-      const claim = claimCheck.rows[0];
-      
-      try {
-        // Get change history for the claim
-        const historyQuery = `
-          SELECT *
-          FROM change_logs
-          WHERE claim_id = $1
-          ORDER BY timestamp DESC`;
-        
-        // Use our optimized query function
-        const historyResult = await query(historyQuery, [id]);
-        const rows = historyResult.rows;
-        
-        // Prepare result
-        const result = {
-          success: true,
-          data: rows
-        };
-        
-        // Cache the result with a TTL of 2 minutes (120 seconds)
-        queryCache[cacheKey] = {
-          data: result,
-          timestamp: now,
-          ttl: 120000 // 2 minutes
-        };
-        
-        res.status(200).json(result);
-      } catch (dbError: any) {
-        // If the error is because the change_logs table doesn't exist, return mock data
-        if (dbError.code === '42P01') { // PostgreSQL code for "relation does not exist"
-          console.log(`change_logs table doesn't exist yet, returning mock data for claim ${id}`);
-          
-          // Generate mock data for the history
-          const mockHistory = [
-            {
-              id: 1,
-              claim_id: id,
-              user_id: 1,
-              username: 'System',
-              cpt_id: claim.cpt_id,
-              timestamp: new Date().toISOString(),
-              field_name: 'claim_status',
-              old_value: 'Pending',
-              new_value: 'Posted',
-              action_type: 'updated',
-              first_name: claim.first_name,
-              last_name: claim.last_name
-            }
-          ];
-          
-          // Prepare result with mock data
-          const result = {
-            success: true,
-            data: mockHistory,
-            mock: true
-          };
-          
-          // Cache the mock result
-          queryCache[cacheKey] = {
-            data: result,
-            timestamp: now,
-            ttl: 120000 // 2 minutes
-          };
-          
-          res.status(200).json(result);
-        } else {
-          // Rethrow if it's not the "relation does not exist" error
-          throw dbError;
-        }
-      }
-    } catch (error) {
-      console.error(`Error fetching history for claim ${id}:`, error);
-      res.status(500).json({
+
+    if (changeId !== undefined && !Number.isInteger(Number(changeId))) {
+      res.status(400).json({
         success: false,
-        error: 'Failed to retrieve claim history',
-        message: error instanceof Error ? error.message : 'Unknown error'
+        error: 'Invalid revert target',
+        message: 'changeId must be a number'
       });
+      return;
     }
-  } catch (outerError) {
-    console.error(`Error in getClaimHistory for claim ${req.params.id}:`, outerError);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to process request',
-      message: outerError instanceof Error ? outerError.message : 'Unknown error'
-    });
-  }
-};
 
-/**
- * Get all change history
- * @route GET /api/history
- */
-export const getAllChangeHistory = async (req: Request, res: Response): Promise<void> => {
-  try {
-    requestCounter++;
-    const requestId = requestCounter;
-    
-    const userId = req.query.user_id ? parseInt(req.query.user_id as string) : undefined;
-    const cptId = req.query.cpt_id ? parseInt(req.query.cpt_id as string) : undefined;
-    const startDate = req.query.start_date as string | undefined;
-    const endDate = req.query.end_date as string | undefined;
-    const page = parseInt(req.query.page as string || '1');
-    const limit = parseInt(req.query.limit as string || '20');
-    const offset = (page - 1) * limit;
-    
-    // Create a cache key for this specific query
-    const cacheKey = `all-history-${userId || 'all'}-${cptId || 'all'}-${startDate || 'none'}-${endDate || 'none'}-${page}-${limit}`;
-    const now = Date.now();
-    
-    // Check if we have cached data for this query (cache for 60 seconds)
-    if (queryCache[cacheKey] && now - queryCache[cacheKey].timestamp < queryCache[cacheKey].ttl) {
-      return res.status(200).json(queryCache[cacheKey].data);
+    if (timestamp !== undefined && (typeof timestamp !== 'string' || isNaN(Date.parse(timestamp)))) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid revert target',
+        message: 'timestamp must be an ISO date and time'
+      });
+      return;
     }
 
-    try {
-      // Build query conditions
-      let conditions: string[] = [];
-      const queryParams: any[] = [];
-      let paramIndex = 1;
-
-      if (userId) {
-        conditions.push(`user_id = $${paramIndex++}`);
-        queryParams.push(userId);
-      }
+    const claimResult = await query('SELECT * FROM upl_billing_reimburse WHERE id = $1 AND deleted_at IS NULL', [id]);
 
-      if (cptId) {
-        conditions.push(`cpt_id = $${paramIndex++}`);
-        queryParams.push(cptId);
-      }
+    if (claimResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID: ${id}`
+      });
+      return;
+    }
+
+    const current: Claim = claimResult.rows[0];
+    let logged: Array<{ field_name: string; old_value: string | null; new_value: string | null }>;
+
+    if (changeId !== undefined) {
+      const targetResult = await query(
+        'SELECT id, action_type FROM change_logs WHERE id = $1 AND claim_id = $2',
+        [Number(changeId), id]
+      );
 
-      if (startDate) {
-        conditions.push(`timestamp >= $${paramIndex++}`);
-        queryParams.push(startDate);
+      if (targetResult.rows.length === 0) {
+        res.status(404).json({
+          success: false,
+          error: 'Change not found',
+          message: `No change ${changeId} found for claim ${id}`
+        });
+        return;
       }
 
-      if (endDate) {
-        conditions.push(`timestamp <= $${paramIndex++}`);
-        queryParams.push(endDate);
+      if (targetResult.rows[0].action_type !== 'updated') {
+        res.status(422).json({
+          success: false,
+          error: 'Change cannot be reverted',
+          message: 'Only field updates can be reverted; use restore for deleted claims'
+        });
+        return;
       }
 
-      const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      // A save writes one entry per field, all with the same user and timestamp, so the edit is undone as a whole
+      const editResult = await query(
+        `SELECT c.field_name, c.old_value, c.new_value
+         FROM change_logs c
+         JOIN change_logs t ON t.id = $1
+         WHERE c.claim_id = t.claim_id AND c.action_type = 'updated'
+           AND c.timestamp = t.timestamp AND c.user_id IS NOT DISTINCT FROM t.user_id
+         ORDER BY c.id`,
+        [Number(changeId)]
+      );
+      logged = editResult.rows;
+    } else {
+      const createdResult = await query(
+        `SELECT 1 FROM change_logs
+         WHERE claim_id = $1 AND action_type = 'created' AND date_trunc('milliseconds', timestamp) > $2::timestamptz
+         LIMIT 1`,
+        [id, timestamp]
+      );
 
-      // Count total records for pagination
-      const countQuery = `SELECT COUNT(*) FROM change_logs ${whereClause}`;
-      
-      // Use our optimized query function
-      const countResult = await query(countQuery, queryParams);
-      const totalCount = parseInt(countResult.rows[0].count);
+      if (createdResult.rows.length > 0) {
+        res.status(422).json({
+          success: false,
+          error: 'Change cannot be reverted',
+          message: 'The claim did not exist at that time'
+        });
+        return;
+      }
 
-      // Get paginated history
-      const historyQuery = `
-        SELECT 
-          cl.*,
-          ubr.cpt_code,
-          ubr.first_name,
-          ubr.last_name
-        FROM change_logs cl
-        LEFT JOIN upl_billing_reimburse ubr ON cl.claim_id = ubr.id
-        ${whereClause}
-        ORDER BY cl.timestamp DESC
-        LIMIT $${paramIndex++} OFFSET $${paramIndex++}`;
-
-      queryParams.push(limit, offset);
-      
-      // Use our optimized query function
-      const historyResult = await query(historyQuery, queryParams);
-      const rows = historyResult.rows;
-      
-      // Prepare result
-      const result = {
-        success: true,
-        totalCount,
-        page,
-        limit,
-        totalPages: Math.ceil(totalCount / limit),
-        data: rows
-      };
-      
-      // Cache the result with a TTL of 60 seconds
-      queryCache[cacheKey] = {
-        data: result,
-        timestamp: now,
-        ttl: 60000 // 60 seconds
-      };
+      // The first change to each field after that time holds the value the field had then
+      const sinceResult = await query(
+        `SELECT DISTINCT ON (field_name) field_name, old_value, new_value
+         FROM change_logs
+         WHERE claim_id = $1 AND action_type = 'updated' AND date_trunc('milliseconds', timestamp) > $2::timestamptz
+         ORDER BY field_name, timestamp, id`,
+        [id, timestamp]
+      );
+      logged = sinceResult.rows;
+    }
 
-      res.status(200).json(result);
-    } catch (dbError: any) {
-      // If the error is because the change_logs table doesn't exist, return mock data
-      if (dbError.code === '42P01') { // PostgreSQL code for "relation does not exist"
-        console.log(`change_logs table doesn't exist yet, returning mock history data`);
-        
-        // Get some claims to generate mock history using our optimized query
-        const claimsQuery = `SELECT id, cpt_id, first_name, last_name FROM upl_billing_reimburse LIMIT 5`;
-        const claimsResult = await query(claimsQuery, []);
-        const claims = claimsResult.rows;
-        
-        // Generate mock history data based on existing claims
-        const mockHistory = claims.flatMap((claim, index) => {
-          const date = new Date();
-          date.setDate(date.getDate() - index); // Different days for variety
-          
-          return [
-            {
-              id: index * 2 + 1,
-              claim_id: claim.id,
-              user_id: userId || 1,
-              username: 'System',
-              cpt_id: claim.cpt_id,
-              timestamp: date.toISOString(),
-              field_name: 'claim_status',
-              old_value: 'Pending',
-              new_value: 'Posted',
-              action_type: 'updated',
-              cpt_code: `CPT${claim.id}`,
-              first_name: claim.first_name,
-              last_name: claim.last_name
-            },
-            {
-              id: index * 2 + 2,
-              claim_id: claim.id,
-              user_id: userId || 1,
-              username: 'System',
-              cpt_id: claim.cpt_id,
-              timestamp: new Date(date.setHours(date.getHours() - 2)).toISOString(),
-              field_name: 'prim_ins',
-              old_value: null,
-              new_value: 'Medicare',
-              action_type: 'updated',
-              cpt_code: `CPT${claim.id}`,
-              first_name: claim.first_name,
-              last_name: claim.last_name
-            }
-          ];
-        });
-        
-        // Apply any filters that were requested
-        let filteredHistory = [...mockHistory];
-        
-        if (userId) {
-          filteredHistory = filteredHistory.filter(h => h.user_id === userId);
-        }
-        
-        if (cptId) {
-          filteredHistory = filteredHistory.filter(h => h.cpt_id === cptId);
-        }
-        
-        // Apply pagination
-        const totalCount = filteredHistory.length;
-        const paginatedHistory = filteredHistory.slice(offset, offset + limit);
-        
-        // Prepare result with mock data
-        const mockResult = {
-          success: true,
-          totalCount,
-          page,
-          limit,
-          totalPages: Math.ceil(totalCount / limit),
-          data: paginatedHistory,
-          mock: true
-        };
-        
-        // Cache the mock result
-        queryCache[cacheKey] = {
-          data: mockResult,
-          timestamp: now,
-          ttl: 60000 // 60 seconds
-        };
-        
-        res.status(200).json(mockResult);
+    // Only fields that can be edited are reverted; anything else in the log (e.g. restores) is reported back
+    const earlierValues: Record<string, string | null> = {};
+    const skipped: string[] = [];
+    logged.forEach(entry => {
+      const field = entry.field_name as keyof Claim;
+      if (field in claimUpdateSchema) {
+        earlierValues[field] = comparableClaimValue(field, entry.old_value);
       } else {
-        // Rethrow if it's not the "relation does not exist" error
-        throw dbError;
+        skipped.push(entry.field_name);
       }
+    });
+
+    const { values: restored, errors } = validateClaimPayload(earlierValues, claimUpdateSchema);
+
+    if (Object.keys(errors).length > 0) {
+      res.status(422).json({
+        success: false,
+        error: 'Validation failed',
+        message: 'Some earlier values are no longer valid for this claim',
+        errors
+      });
+      return;
+    }
+
+    // Fields already back at the earlier value need no change
+    const changes = (Object.keys(restored) as (keyof Claim)[])
+      .filter(field => comparableClaimValue(field, restored[field]) !== comparableClaimValue(field, current[field]))
+      .map(field => {
+        const entry = logged.find(logEntry => logEntry.field_name === field);
+        return {
+          field,
+          current: current[field] ?? null,
+          reverted: restored[field] ?? null,
+          // Changed again after the edit being undone, so reverting also discards that later change
+          changed_since: changeId !== undefined && entry !== undefined &&
+            comparableClaimValue(field, entry.new_value) !== comparableClaimValue(field, current[field])
+        };
+      });
+
+    if (preview) {
+      res.status(200).json({
+        success: true,
+        data: { changes, skipped, row_version: current.row_version }
+      });
+      return;
+    }
+
+    if (changes.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Nothing to revert',
+        message: 'The claim already has these values'
+      });
+      return;
+    }
+
+    const expectedVersion = Number(req.body.row_version);
+    if (!Number.isInteger(expectedVersion)) {
+      res.status(428).json({
+        success: false,
+        error: 'Version required',
+        message: 'Include the row_version returned by the revert preview'
+      });
+      return;
+    }
+
+    // Reverting is an edit, so the same field restrictions apply
+    for (const change of changes) {
+      const permission = RESTRICTED_CLAIM_FIELDS[change.field];
+      if (permission && !hasPermission(actor.role, permission)) {
+        denyAccess(req, res, permission, `Your role is not allowed to change ${change.field}`);
+        return;
+      }
+    }
+
+    const updates: ClaimValues = {};
+    changes.forEach(change => {
+      updates[change.field] = change.reverted;
+    });
+
+    const outcome = await withTransaction(async client => {
+      const checkResult = await client.query(
+        'SELECT * FROM upl_billing_reimburse WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+        [id]
+      );
+
+      if (checkResult.rows.length === 0) {
+        return { status: 'not_found' as const };
+      }
+
+      const oldClaim: Claim = checkResult.rows[0];
+
+      if (oldClaim.row_version !== expectedVersion) {
+        return { status: 'conflict' as const, current: oldClaim };
+      }
+
+      const updatedClaim = await applyClaimUpdate(client, oldClaim, updates, actor);
+      return { status: 'reverted' as const, claim: updatedClaim };
+    });
+
+    if (outcome.status === 'not_found') {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID: ${id}`
+      });
+      return;
+    }
+
+    if (outcome.status === 'conflict') {
+      await sendVersionConflict(res, outcome.current, updates);
+      return;
+    }
+
+    invalidateClaimCache(id);
+
+    res.status(200).json({
+      success: true,
+      message: `Reverted ${changes.length} field${changes.length === 1 ? '' : 's'}`,
+      data: outcome.claim
+    });
+  } catch (error) {
+    console.error(`Error reverting claim with ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revert claim',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Soft delete a claim, keeping a snapshot of the row in change_logs
+ * @route DELETE /api/claims/:id
+ */
+export const deleteClaim = async (req: Request, res: Response): Promise<void> => {
+  try {
+    requestCounter++;
+    const id = parseInt(req.params.id);
+    const actor = req.user;
+
+    if (!actor) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        message: 'Claims must be deleted by an authenticated user'
+      });
+      return;
+    }
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ID format',
+        message: 'The ID must be a number'
+      });
+      return;
+    }
+
+    const deletedClaim = await withTransaction(async client => {
+      // Mark the row deleted only if it isn't already, returning the row as it was
+      const { rows } = await client.query(
+        `UPDATE upl_billing_reimburse
+         SET deleted_at = NOW(), deleted_by = $2
+         WHERE id = $1 AND deleted_at IS NULL
+         RETURNING *`,
+        [id, actor.id]
+      );
+
+      if (rows.length === 0) return null;
+
+      const { deleted_at, deleted_by, ...snapshot } = rows[0];
+      await client.query(
+        `INSERT INTO change_logs (
+          claim_id, user_id, username, cpt_id,
+          timestamp, field_name, old_value, new_value, action_type
+        ) VALUES ($1, $2, $3, $4, NOW(), 'claim', $5, NULL, 'deleted')`,
+        [id, actor.id, actor.name, rows[0].cpt_id || null, JSON.stringify(snapshot)]
+      );
+
+      return rows[0];
+    });
+
+    if (!deletedClaim) {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID: ${id}`
+      });
+      return;
+    }
+
+    const { deleted_at, deleted_by } = deletedClaim;
+
+    invalidateClaimCache(id);
+
+    res.status(200).json({
+      success: true,
+      message: `Claim with id ${id} deleted successfully`,
+      data: { id, deleted_at, deleted_by }
+    });
+  } catch (error) {
+    console.error(`Error deleting claim with ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete claim',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Restore a soft-deleted claim
+ * @route POST /api/claims/:id/restore
+ */
+export const restoreClaim = async (req: Request, res: Response): Promise<void> => {
+  try {
+    requestCounter++;
+    const id = parseInt(req.params.id);
+    const actor = req.user;
+
+    if (!actor) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+        message: 'Claims must be restored by an authenticated user'
+      });
+      return;
+    }
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ID format',
+        message: 'The ID must be a number'
+      });
+      return;
+    }
+
+    const outcome = await withTransaction(async client => {
+      const checkResult = await client.query(
+        'SELECT id, deleted_at FROM upl_billing_reimburse WHERE id = $1 FOR UPDATE',
+        [id]
+      );
+
+      if (checkResult.rows.length === 0) return { status: 'not_found' as const };
+
+      const deletedAt = checkResult.rows[0].deleted_at;
+      if (!deletedAt) return { status: 'not_deleted' as const };
+
+      const { rows } = await client.query(
+        `UPDATE upl_billing_reimburse
+         SET deleted_at = NULL, deleted_by = NULL
+         WHERE id = $1
+         RETURNING *`,
+        [id]
+      );
+
+      await client.query(
+        `INSERT INTO change_logs (
+          claim_id, user_id, username, cpt_id,
+          timestamp, field_name, old_value, new_value, action_type
+        ) VALUES ($1, $2, $3, $4, NOW(), 'deleted_at', $5, NULL, 'updated')`,
+        [id, actor.id, actor.name, rows[0].cpt_id || null, new Date(deletedAt).toISOString()]
+      );
+
+      return { status: 'restored' as const, claim: rows[0] };
+    });
+
+    if (outcome.status === 'not_found') {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID: ${id}`
+      });
+      return;
+    }
+
+    if (outcome.status === 'not_deleted') {
+      res.status(409).json({
+        success: false,
+        error: 'Claim not deleted',
+        message: `Claim with id ${id} is not deleted`
+      });
+      return;
     }
+
+    const restoredClaim = outcome.claim;
+
+    invalidateClaimCache(id);
+
+    res.status(200).json({
+      success: true,
+      message: `Claim with id ${id} restored successfully`,
+      data: restoredClaim
+    });
+  } catch (error) {
+    console.error(`Error restoring claim with ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore claim',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Answer 503 when the history can't be read because change_logs is missing (migrations not run)
+ * History is never made up to fill the gap; returns false for any other error
+ */
+const sendHistoryUnavailable = (res: Response, error: unknown): boolean => {
+  if ((error as { code?: string })?.code !== '42P01') return false; // relation does not exist
+
+  res.status(503).json({
+    success: false,
+    error: 'Change history unavailable',
+    message: 'The change_logs table does not exist; run the database migrations'
+  });
+  return true;
+};
+
+/**
+ * Get change history for a claim
+ * @route GET /api/claims/:id/history
+ */
+export const getClaimHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    requestCounter++;
+    const requestId = requestCounter;
+    const id = parseInt(req.params.id);
+    
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ID format',
+        message: 'The ID must be a number'
+      });
+      return;
+    }
+    
+    // Create cache key for this specific claim's history
+    const cacheKey = `claim-history-${id}`;
+    const now = Date.now();
+    
+    // Check if we have cached data for this claim's history (cache for 2 minutes)
+    if (queryCache[cacheKey] && now - queryCache[cacheKey].timestamp < queryCache[cacheKey].ttl) {
+      return res.status(200).json(queryCache[cacheKey].data);
+    }
+    
+    // Check if the claim exists
+    const claimCheckQuery = 'SELECT id FROM upl_billing_reimburse WHERE id = $1';
+    
+    // Use our optimized query function
+    const claimCheck = await query(claimCheckQuery, [id]);
+    
+    if (claimCheck.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID: ${id}`
+      });
+      return;
+    }
+    
+    // Get change history for the claim
+    const historyQuery = `
+      SELECT *
+      FROM change_logs
+      WHERE claim_id = $1
+      ORDER BY timestamp DESC`;
+    
+    // Use our optimized query function
+    const historyResult = await query(historyQuery, [id]);
+    const rows = historyResult.rows;
+    
+    // Prepare result
+    const result = {
+      success: true,
+      data: rows
+    };
+    
+    // Cache the result (2 minutes by default)
+    queryCache[cacheKey] = {
+      data: result,
+      timestamp: now,
+      ttl: config.cache.claimHistoryTtlMs
+    };
+    
+    res.status(200).json(result);
+  } catch (error) {
+    console.error(`Error fetching history for claim ${req.params.id}:`, error);
+    if (sendHistoryUnavailable(res, error)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve claim history',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Rebuild a claim as it was at a point in time by undoing, newest first, every logged change made after it
+ * Also returns the claim's saves in order so a client can step through them
+ * @route GET /api/claims/:id/snapshot?at=
+ */
+export const getClaimSnapshot = async (req: Request, res: Response): Promise<void> => {
+  try {
+    requestCounter++;
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ID format',
+        message: 'The ID must be a number'
+      });
+      return;
+    }
+
+    const at = req.query.at === undefined ? new Date() : new Date(String(req.query.at));
+
+    if (isNaN(at.getTime())) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid date',
+        message: 'at must be an ISO date and time'
+      });
+      return;
+    }
+
+    // Deleted claims are included so they can be audited as they were before removal
+    const claimResult = await query('SELECT * FROM upl_billing_reimburse WHERE id = $1', [id]);
+
+    if (claimResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID: ${id}`
+      });
+      return;
+    }
+
+    const logResult = await query(
+      `SELECT id, user_id, username, timestamp, field_name, old_value, new_value, action_type
+       FROM change_logs
+       WHERE claim_id = $1
+       ORDER BY timestamp, id`,
+      [id]
+    );
+    const entries: ChangeLog[] = logResult.rows;
+    const later = entries.filter(entry => new Date(entry.timestamp).getTime() > at.getTime());
+
+    if (later.some(entry => entry.action_type === 'created')) {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `Claim ${id} did not exist at ${at.toISOString()}`
+      });
+      return;
+    }
+
+    const snapshot: Record<string, unknown> = { ...claimResult.rows[0] };
+
+    // row_version counts saves to the live row and means nothing for a past state
+    delete snapshot.row_version;
+
+    [...later].reverse().forEach(entry => {
+      if (entry.action_type === 'deleted') {
+        snapshot.deleted_at = null;
+        snapshot.deleted_by = null;
+      } else if (entry.action_type === 'updated' && entry.field_name in snapshot) {
+        snapshot[entry.field_name] = entry.old_value;
+      }
+    });
+
+    // Logged values are text, so every editable field is returned in the same normalized form
+    Object.keys(snapshot).forEach(field => {
+      if (field in claimCreateSchema) {
+        snapshot[field] = comparableClaimValue(field as keyof Claim, snapshot[field]);
+      }
+    });
+
+    // One save writes an entry per field with the same user and timestamp
+    const timeline: Array<{ timestamp: string; username: string; action_type: string; fields: string[] }> = [];
+    entries.forEach((entry, index) => {
+      const previous = index > 0 ? entries[index - 1] : null;
+      const sameSave = previous !== null &&
+        new Date(previous.timestamp).getTime() === new Date(entry.timestamp).getTime() &&
+        previous.user_id === entry.user_id &&
+        previous.action_type === entry.action_type;
+
+      if (sameSave) {
+        timeline[timeline.length - 1].fields.push(entry.field_name);
+      } else {
+        timeline.push({
+          timestamp: new Date(entry.timestamp).toISOString(),
+          username: entry.username,
+          action_type: entry.action_type,
+          fields: [entry.field_name]
+        });
+      }
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        at: at.toISOString(),
+        claim: snapshot,
+        replayed: later.length,
+        timeline
+      }
+    });
+  } catch (error) {
+    console.error(`Error building snapshot for claim ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build claim snapshot',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Get all change history
+ * @route GET /api/history
+ */
+export const getAllChangeHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    requestCounter++;
+    const requestId = requestCounter;
+    
+    const userId = req.query.user_id ? parseInt(req.query.user_id as string) : undefined;
+    const cptId = req.query.cpt_id ? parseInt(req.query.cpt_id as string) : undefined;
+    const startDate = req.query.start_date as string | undefined;
+    const endDate = req.query.end_date as string | undefined;
+    const page = parseInt(req.query.page as string || '1');
+    const limit = parseInt(req.query.limit as string || '20');
+    const offset = (page - 1) * limit;
+    
+    // Create a cache key for this specific query
+    const cacheKey = `all-history-${userId || 'all'}-${cptId || 'all'}-${startDate || 'none'}-${endDate || 'none'}-${page}-${limit}`;
+    const now = Date.now();
+    
+    // Check if we have cached data for this query (cache for 60 seconds)
+    if (queryCache[cacheKey] && now - queryCache[cacheKey].timestamp < queryCache[cacheKey].ttl) {
+      return res.status(200).json(queryCache[cacheKey].data);
+    }
+
+    // Build query conditions
+    let conditions: string[] = [];
+    const queryParams: any[] = [];
+    let paramIndex = 1;
+
+    if (userId) {
+      conditions.push(`user_id = $${paramIndex++}`);
+      queryParams.push(userId);
+    }
+
+    if (cptId) {
+      conditions.push(`cpt_id = $${paramIndex++}`);
+      queryParams.push(cptId);
+    }
+
+    if (startDate) {
+      conditions.push(`timestamp >= $${paramIndex++}`);
+      queryParams.push(startDate);
+    }
+
+    if (endDate) {
+      conditions.push(`timestamp <= $${paramIndex++}`);
+      queryParams.push(endDate);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Count total records for pagination
+    const countQuery = `SELECT COUNT(*) FROM change_logs ${whereClause}`;
+    
+    // Use our optimized query function
+    const countResult = await query(countQuery, queryParams);
+    const totalCount = parseInt(countResult.rows[0].count);
+
+    // Get paginated history
+    const historyQuery = `
+      SELECT 
+        cl.*,
+        ubr.cpt_code,
+        ubr.first_name,
+        ubr.last_name
+      FROM change_logs cl
+      LEFT JOIN upl_billing_reimburse ubr ON cl.claim_id = ubr.id
+      ${whereClause}
+      ORDER BY cl.timestamp DESC
+      LIMIT $${paramIndex++} OFFSET $${paramIndex++}`;
+
+    queryParams.push(limit, offset);
+    
+    // Use our optimized query function
+    const historyResult = await query(historyQuery, queryParams);
+    const rows = historyResult.rows;
+    
+    // Prepare result
+    const result = {
+      success: true,
+      totalCount,
+      page,
+      limit,
+      totalPages: Math.ceil(totalCount / limit),
+      data: rows
+    };
+    
+    // Cache the result (60 seconds by default)
+    queryCache[cacheKey] = {
+      data: result,
+      timestamp: now,
+      ttl: config.cache.allHistoryTtlMs
+    };
+
+    res.status(200).json(result);
   } catch (error) {
     console.error('Error fetching change history:', error);
+    if (sendHistoryUnavailable(res, error)) return;
     res.status(500).json({
       success: false,
       error: 'Failed to retrieve change history',
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Check the change_logs hash chain and report any entry that was edited, removed or reordered
+ * @route GET /api/claims/history/verify
+ */
+export const verifyChangeHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    requestCounter++;
+    const report = await verifyChangeLogChain();
+
+    res.status(200).json({
+      success: true,
+      message: report.valid
+        ? `Verified ${report.checked} change log entries`
+        : `Found ${report.breakCount} problem${report.breakCount === 1 ? '' : 's'} in ${report.checked} change log entries`,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error verifying change history:', error);
+    if (sendHistoryUnavailable(res, error)) return;
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify change history',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
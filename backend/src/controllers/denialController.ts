@@ -0,0 +1,566 @@
+import { Request, Response } from 'express';
+import { query } from '../config/db';
+import { ISO_DATE_PATTERN } from '../validation/claimFilters';
+import {
+  CARC_CODES,
+  CARC_PATTERN,
+  RARC_CODES,
+  RARC_PATTERN,
+  ROOT_CAUSES,
+  isRootCause,
+  suggestRootCause
+} from '../edi/adjustmentCodes';
+
+// Dates without a time are returned as YYYY-MM-DD so they don't shift with the server's time zone
+const DENIAL_COLUMNS = `id, claim_id, payer_level, payer, group_code, carc_codes, rarc_codes, denied_amount,
+  to_char(denial_date, 'YYYY-MM-DD') AS denial_date, root_cause,
+  to_char(appeal_deadline, 'YYYY-MM-DD') AS appeal_deadline, resolution, resolution_note, resolved_at,
+  resolved_by_name, created_by_name, created_at, updated_at`;
+
+// How a denial was closed out
+const RESOLUTIONS: Record<string, string> = {
+  overturned: 'Overturned on appeal',
+  corrected_claim: 'Paid on corrected claim',
+  patient_responsibility: 'Billed to patient',
+  written_off: 'Written off',
+  upheld: 'Upheld, not pursued'
+};
+
+const isResolution = (value: unknown): boolean =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(RESOLUTIONS, value);
+
+// Used when no appeal deadline is given; payers allow anywhere from 60 to 180 days, so set it per denial when known
+const DEFAULT_APPEAL_WINDOW_DAYS = 90;
+
+const GROUP_CODES = ['CO', 'PR', 'OA', 'PI', 'CR'];
+
+const TOP_REASONS_DEFAULT_LIMIT = 10;
+const TOP_REASONS_MAX_LIMIT = 50;
+
+type DenialValues = Record<string, string | number | string[] | null>;
+
+/**
+ * Normalize a list of codes given as an array or a comma-separated string
+ */
+const readCodes = (value: unknown): string[] | null => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!items || !items.every(item => typeof item === 'string' || typeof item === 'number')) return null;
+  return Array.from(new Set(items.map(item => String(item).trim().toUpperCase()).filter(Boolean)));
+};
+
+/**
+ * Validate the editable denial fields
+ * @returns the normalized values to write and a map of field errors
+ */
+const validateDenialInput = (body: any, isNew: boolean): { values: DenialValues; errors: Record<string, string> } => {
+  const values: DenialValues = {};
+  const errors: Record<string, string> = {};
+
+  if (isNew || 'payer_level' in body) {
+    if (body.payer_level !== 'primary' && body.payer_level !== 'secondary') {
+      errors.payer_level = 'payer_level must be primary or secondary';
+    } else {
+      values.payer_level = body.payer_level;
+    }
+  }
+
+  if ('payer' in body) {
+    if (body.payer !== null && typeof body.payer !== 'string') errors.payer = 'payer must be text';
+    else values.payer = body.payer?.trim() || null;
+  }
+
+  if ('group_code' in body) {
+    const groupCode = typeof body.group_code === 'string' ? body.group_code.trim().toUpperCase() : body.group_code;
+    if (groupCode && !GROUP_CODES.includes(groupCode)) errors.group_code = `group_code must be one of ${GROUP_CODES.join(', ')}`;
+    else values.group_code = groupCode || null;
+  }
+
+  if (isNew || 'carc_codes' in body) {
+    const codes = readCodes(body.carc_codes);
+    if (!codes || codes.length === 0) errors.carc_codes = 'At least one CARC code is required';
+    else if (codes.some(code => !CARC_PATTERN.test(code))) errors.carc_codes = 'CARC codes look like 16, 197 or B15';
+    else values.carc_codes = codes;
+  }
+
+  if ('rarc_codes' in body) {
+    const codes = readCodes(body.rarc_codes ?? []);
+    if (!codes) errors.rarc_codes = 'rarc_codes must be a list of codes';
+    else if (codes.some(code => !RARC_PATTERN.test(code))) errors.rarc_codes = 'RARC codes look like N130, M15 or MA04';
+    else values.rarc_codes = codes;
+  }
+
+  if ('denied_amount' in body) {
+    const raw = body.denied_amount;
+    const amount = raw === null || raw === '' ? null : Number(raw);
+    if (amount !== null && (!Number.isFinite(amount) || amount < 0)) errors.denied_amount = 'denied_amount must be a non-negative number';
+    else values.denied_amount = amount;
+  }
+
+  if (isNew || 'denial_date' in body) {
+    if (typeof body.denial_date !== 'string' || !ISO_DATE_PATTERN.test(body.denial_date)) {
+      errors.denial_date = 'denial_date must be a date (YYYY-MM-DD)';
+    } else {
+      values.denial_date = body.denial_date;
+    }
+  }
+
+  if ('appeal_deadline' in body) {
+    const deadline = body.appeal_deadline || null;
+    if (deadline !== null && (typeof deadline !== 'string' || !ISO_DATE_PATTERN.test(deadline))) {
+      errors.appeal_deadline = 'appeal_deadline must be a date (YYYY-MM-DD)';
+    } else {
+      values.appeal_deadline = deadline;
+    }
+  }
+
+  if ('root_cause' in body && body.root_cause) {
+    if (!isRootCause(body.root_cause)) errors.root_cause = `root_cause must be one of ${Object.keys(ROOT_CAUSES).join(', ')}`;
+    else values.root_cause = body.root_cause;
+  }
+
+  if ('resolution' in body) {
+    const resolution = body.resolution || null;
+    if (resolution !== null && !isResolution(resolution)) {
+      errors.resolution = `resolution must be one of ${Object.keys(RESOLUTIONS).join(', ')}`;
+    } else {
+      values.resolution = resolution;
+    }
+  }
+
+  if ('resolution_note' in body) {
+    if (body.resolution_note !== null && typeof body.resolution_note !== 'string') errors.resolution_note = 'resolution_note must be text';
+    else values.resolution_note = body.resolution_note?.trim() || null;
+  }
+
+  return { values, errors };
+};
+
+/**
+ * Parse a numeric route ID, sending a 400 if it isn't one
+ */
+const readId = (req: Request, res: Response): number | null => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid ID format',
+      message: 'The ID must be a number'
+    });
+    return null;
+  }
+
+  return id;
+};
+
+/**
+ * The bundled CARC/RARC reference table, root-cause categories and resolutions
+ * @route GET /api/denials/codes
+ */
+export const getDenialCodes = async (req: Request, res: Response): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    data: {
+      carc: Object.entries(CARC_CODES).map(([code, entry]) => ({ code, ...entry })),
+      rarc: Object.entries(RARC_CODES).map(([code, description]) => ({ code, description })),
+      rootCauses: Object.entries(ROOT_CAUSES).map(([value, label]) => ({ value, label })),
+      resolutions: Object.entries(RESOLUTIONS).map(([value, label]) => ({ value, label })),
+      defaultAppealWindowDays: DEFAULT_APPEAL_WINDOW_DAYS
+    }
+  });
+};
+
+/**
+ * Denials recorded against a claim line, newest first
+ * @route GET /api/claims/:id/denials
+ */
+export const getClaimDenials = async (req: Request, res: Response): Promise<void> => {
+  const claimId = readId(req, res);
+  if (claimId === null) return;
+
+  try {
+    const result = await query(
+      `SELECT ${DENIAL_COLUMNS} FROM claim_denials WHERE claim_id = $1 ORDER BY denial_date DESC, id DESC`,
+      [claimId]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching claim denials:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch denials',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Record a denial against a claim line
+ * The payer defaults to the claim's insurer at that level, the root cause to the one implied by the CARCs,
+ * and the appeal deadline to DEFAULT_APPEAL_WINDOW_DAYS after the denial
+ * @route POST /api/claims/:id/denials
+ */
+export const createDenial = async (req: Request, res: Response): Promise<void> => {
+  const claimId = readId(req, res);
+  if (claimId === null) return;
+
+  const { values, errors } = validateDenialInput(req.body || {}, true);
+
+  if (Object.keys(errors).length > 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid denial data',
+      message: 'One or more fields are invalid',
+      errors
+    });
+    return;
+  }
+
+  try {
+    const claimResult = await query(
+      'SELECT prim_ins, sec_ins FROM upl_billing_reimburse WHERE id = $1 AND deleted_at IS NULL',
+      [claimId]
+    );
+
+    if (claimResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID ${claimId}`
+      });
+      return;
+    }
+
+    const claim = claimResult.rows[0];
+    const payer = values.payer ?? (values.payer_level === 'secondary' ? claim.sec_ins : claim.prim_ins) ?? null;
+    const rootCause = values.root_cause ?? suggestRootCause(values.carc_codes as string[]);
+    const resolution = values.resolution ?? null;
+
+    const result = await query(
+      `INSERT INTO claim_denials (
+        claim_id, payer_level, payer, group_code, carc_codes, rarc_codes, denied_amount,
+        denial_date, root_cause, appeal_deadline, resolution, resolution_note,
+        resolved_at, resolved_by, resolved_by_name, created_by, created_by_name
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8::date, $9,
+        COALESCE($10::date, $8::date + ${DEFAULT_APPEAL_WINDOW_DAYS}),
+        $11, $12, $13, $14, $15, $16, $17
+      )
+      RETURNING ${DENIAL_COLUMNS}`,
+      [
+        claimId,
+        values.payer_level,
+        payer,
+        values.group_code ?? null,
+        values.carc_codes,
+        values.rarc_codes ?? [],
+        values.denied_amount ?? null,
+        values.denial_date,
+        rootCause,
+        values.appeal_deadline ?? null,
+        resolution,
+        values.resolution_note ?? null,
+        resolution ? new Date() : null,
+        resolution ? req.user?.id || null : null,
+        resolution ? req.user?.name || null : null,
+        req.user?.id || null,
+        req.user?.name || null
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Denial recorded',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Error creating denial:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to record denial',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Update a denial, including recording or clearing its resolution
+ * @route PATCH /api/denials/:id
+ */
+export const updateDenial = async (req: Request, res: Response): Promise<void> => {
+  const id = readId(req, res);
+  if (id === null) return;
+
+  const { values, errors } = validateDenialInput(req.body || {}, false);
+
+  if (Object.keys(errors).length > 0 || Object.keys(values).length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid denial data',
+      message: Object.keys(errors).length > 0 ? 'One or more fields are invalid' : 'No fields to update',
+      errors
+    });
+    return;
+  }
+
+  const fields = Object.keys(values);
+  const setClauses = fields.map((field, index) => `${field} = $${index + 1}`);
+  const params: unknown[] = fields.map(field => values[field]);
+
+  // Stamp who resolved it when the resolution changes, and clear the stamp when it is removed
+  if ('resolution' in values) {
+    const resolved = values.resolution !== null;
+    const unchanged = `resolution IS NOT DISTINCT FROM $${fields.indexOf('resolution') + 1}`;
+    params.push(resolved ? new Date() : null, resolved ? req.user?.id || null : null, resolved ? req.user?.name || null : null);
+    setClauses.push(
+      `resolved_at = CASE WHEN ${unchanged} THEN resolved_at ELSE $${params.length - 2} END`,
+      `resolved_by = CASE WHEN ${unchanged} THEN resolved_by ELSE $${params.length - 1} END`,
+      `resolved_by_name = CASE WHEN ${unchanged} THEN resolved_by_name ELSE $${params.length} END`
+    );
+  }
+
+  params.push(id);
+
+  try {
+    const result = await query(
+      `UPDATE claim_denials SET ${setClauses.join(', ')}, updated_at = NOW()
+       WHERE id = $${params.length}
+       RETURNING ${DENIAL_COLUMNS}`,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Denial not found',
+        message: `No denial found with ID ${id}`
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Denial updated',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Error updating denial:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update denial',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Delete a denial recorded in error
+ * @route DELETE /api/denials/:id
+ */
+export const deleteDenial = async (req: Request, res: Response): Promise<void> => {
+  const id = readId(req, res);
+  if (id === null) return;
+
+  try {
+    const result = await query('DELETE FROM claim_denials WHERE id = $1 RETURNING id', [id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Denial not found',
+        message: `No denial found with ID ${id}`
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Denial deleted'
+    });
+  } catch (error) {
+    console.error('Error deleting denial:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete denial',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+interface ReasonCount {
+  code: string;
+  description: string | null;
+  count: number;
+  deniedAmount: number;
+}
+
+interface ReasonGroup {
+  name: string;
+  count: number;
+  deniedAmount: number;
+  reasons: ReasonCount[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Denials and their reason codes, totalled per payer and CPT code
+interface DenialGroupKey {
+  payer: string;
+  cpt_code: string;
+}
+
+interface ReasonRow extends DenialGroupKey {
+  code: string;
+  count: number;
+  denied_amount: number;
+}
+
+interface DenialTotalRow extends DenialGroupKey {
+  count: number;
+  denied_amount: number;
+}
+
+/**
+ * Top denial reasons (CARC) overall, by payer and by CPT code
+ * A denial citing several CARCs counts once under each reason but once in its group's totals; amounts fall back to the line's charge when no denied amount was recorded
+ * Accepts from/to (denial date), payer, cpt_code, include_resolved and limit (reasons per group)
+ * @route GET /api/denials/top-reasons
+ */
+export const getTopDenialReasons = async (req: Request, res: Response): Promise<void> => {
+  const { from, to, payer, cpt_code, include_resolved } = req.query;
+  const conditions = ['c.deleted_at IS NULL'];
+  const params: unknown[] = [];
+
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value !== undefined && (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value))) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid parameter',
+        message: `${name} must be a date (YYYY-MM-DD)`
+      });
+      return;
+    }
+  }
+
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || TOP_REASONS_DEFAULT_LIMIT, 1), TOP_REASONS_MAX_LIMIT);
+
+  if (from) {
+    params.push(from);
+    conditions.push(`d.denial_date >= $${params.length}`);
+  }
+  if (to) {
+    params.push(to);
+    conditions.push(`d.denial_date <= $${params.length}`);
+  }
+  if (typeof payer === 'string' && payer.trim()) {
+    params.push(`%${payer.trim()}%`);
+    conditions.push(`d.payer ILIKE $${params.length}`);
+  }
+  if (typeof cpt_code === 'string' && cpt_code.trim()) {
+    params.push(cpt_code.trim());
+    conditions.push(`c.cpt_code = $${params.length}`);
+  }
+  if (include_resolved !== 'true') {
+    conditions.push('d.resolution IS NULL');
+  }
+
+  // Only denials with at least one reason code are reported
+  conditions.push('cardinality(d.carc_codes) > 0');
+
+  try {
+    const reasonResult = await query(
+      `SELECT COALESCE(NULLIF(TRIM(d.payer), ''), 'Unknown') AS payer,
+              COALESCE(NULLIF(TRIM(c.cpt_code), ''), 'Unknown') AS cpt_code,
+              code,
+              COUNT(*)::int AS count,
+              COALESCE(SUM(COALESCE(d.denied_amount, c.charge_amt)), 0)::float AS denied_amount
+       FROM claim_denials d
+       JOIN upl_billing_reimburse c ON c.id = d.claim_id
+       CROSS JOIN LATERAL unnest(d.carc_codes) AS code
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY 1, 2, 3`,
+      params
+    );
+
+    // Group totals count each denial once, however many codes it cites
+    const totalResult = await query(
+      `SELECT COALESCE(NULLIF(TRIM(d.payer), ''), 'Unknown') AS payer,
+              COALESCE(NULLIF(TRIM(c.cpt_code), ''), 'Unknown') AS cpt_code,
+              COUNT(*)::int AS count,
+              COALESCE(SUM(COALESCE(d.denied_amount, c.charge_amt)), 0)::float AS denied_amount
+       FROM claim_denials d
+       JOIN upl_billing_reimburse c ON c.id = d.claim_id
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY 1, 2`,
+      params
+    );
+
+    const reasonRows: ReasonRow[] = reasonResult.rows;
+    const totalRows: DenialTotalRow[] = totalResult.rows;
+
+    // Roll the payer x CPT counts up into each view
+    const rollUp = (keyOf: (row: DenialGroupKey) => string): ReasonGroup[] => {
+      const groups = new Map<string, { count: number; deniedAmount: number; reasons: Map<string, ReasonCount> }>();
+      const groupFor = (key: string) => {
+        const group = groups.get(key) || { count: 0, deniedAmount: 0, reasons: new Map<string, ReasonCount>() };
+        groups.set(key, group);
+        return group;
+      };
+
+      // Each denial has one payer and one CPT code, so these sums stay distinct
+      totalRows.forEach(row => {
+        const group = groupFor(keyOf(row));
+        group.count += row.count;
+        group.deniedAmount += row.denied_amount;
+      });
+
+      reasonRows.forEach(row => {
+        const group = groupFor(keyOf(row));
+        const reason = group.reasons.get(row.code) || {
+          code: row.code,
+          description: CARC_CODES[row.code]?.description || null,
+          count: 0,
+          deniedAmount: 0
+        };
+
+        reason.count += row.count;
+        reason.deniedAmount += row.denied_amount;
+        group.reasons.set(row.code, reason);
+      });
+
+      return Array.from(groups.entries())
+        .map(([name, group]) => ({
+          name,
+          count: group.count,
+          deniedAmount: round(group.deniedAmount),
+          reasons: Array.from(group.reasons.values())
+            .sort((a, b) => b.count - a.count || b.deniedAmount - a.deniedAmount)
+            .slice(0, limit)
+            .map(reason => ({ ...reason, deniedAmount: round(reason.deniedAmount) }))
+        }))
+        .sort((a, b) => b.count - a.count);
+    };
+
+    const overall = rollUp(() => 'All')[0];
+
+    res.status(200).json({
+      success: true,
+      data: {
+        overall: overall ? overall.reasons : [],
+        byPayer: rollUp(row => row.payer),
+        byCpt: rollUp(row => row.cpt_code)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching top denial reasons:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch denial report',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,358 @@
+import { Request, Response } from 'express';
+import { PoolClient } from 'pg';
+import pool, { query, withTransaction } from '../config/db';
+import config from '../config';
+import Claim from '../models/Claim';
+import { build837P, ClaimGroup, groupClaimLines, missingEdiSettings, validate837P } from '../edi/claim837';
+import { attachmentDisposition } from '../validation/filenames';
+
+// One file per request; larger submissions should be split into several batches
+const MAX_BATCH_LINES = 500;
+
+/**
+ * Read and check the claimIds array from the request body, sending a 400 if it's unusable
+ */
+const readClaimIds = (req: Request, res: Response): number[] | null => {
+  const claimIds: unknown = req.body?.claimIds;
+
+  if (!Array.isArray(claimIds) || claimIds.length === 0 || !claimIds.every(id => Number.isInteger(id) && id > 0)) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      message: 'claimIds must be a non-empty array of claim line IDs'
+    });
+    return null;
+  }
+
+  if (claimIds.length > MAX_BATCH_LINES) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      message: `A batch can hold at most ${MAX_BATCH_LINES} claim lines`
+    });
+    return null;
+  }
+
+  return Array.from(new Set(claimIds as number[]));
+};
+
+/**
+ * Load the selected claim lines, sending a 404 if any are missing or deleted
+ */
+const loadClaimLines = async (
+  client: PoolClient,
+  claimIds: number[],
+  res: Response
+): Promise<Claim[] | null> => {
+  const { rows } = await client.query(
+    `SELECT * FROM upl_billing_reimburse
+     WHERE id = ANY($1::int[]) AND deleted_at IS NULL
+     ORDER BY patient_id, service_end, id`,
+    [claimIds]
+  );
+
+  if (rows.length !== claimIds.length) {
+    const found = new Set(rows.map((row: Claim) => row.id));
+    res.status(404).json({
+      success: false,
+      error: 'Claim not found',
+      message: `Claim lines not found: ${claimIds.filter(id => !found.has(id)).join(', ')}`
+    });
+    return null;
+  }
+
+  return rows;
+};
+
+/**
+ * Send a 422 when the submitter and billing provider settings are incomplete
+ */
+const checkEdiSettings = (res: Response): boolean => {
+  const missing = missingEdiSettings(config.edi);
+  if (missing.length === 0) return true;
+
+  res.status(422).json({
+    success: false,
+    error: 'EDI settings incomplete',
+    message: `Set ${missing.join(', ')} in backend/.env before generating claim files`
+  });
+  return false;
+};
+
+/**
+ * Per-claim summary shown before and after generating a batch
+ */
+const summarizeGroups = (groups: ClaimGroup[]) =>
+  groups.map(group => ({
+    patientControlNumber: group.patientControlNumber,
+    patientName: `${group.lines[0].first_name} ${group.lines[0].last_name}`,
+    serviceDate: group.lines[0].service_end,
+    payer: group.lines[0].prim_ins,
+    provider: group.lines[0].provider_name,
+    claimIds: group.lines.map(line => line.id),
+    totalCharge: group.lines.reduce((sum, line) => sum + (Number(line.charge_amt) || 0), 0)
+  }));
+
+/**
+ * Build and validate an 837P for the selected lines without saving it or using a control number
+ * @route POST /api/edi/837/preview
+ */
+export const preview837 = async (req: Request, res: Response): Promise<void> => {
+  const claimIds = readClaimIds(req, res);
+  if (!claimIds || !checkEdiSettings(res)) return;
+
+  let client: PoolClient | undefined;
+  try {
+    client = await pool.connect();
+
+    const lines = await loadClaimLines(client, claimIds, res);
+    if (!lines) return;
+
+    const groups = groupClaimLines(lines);
+    const content = build837P(groups, config.edi, { controlNumber: 0, createdAt: new Date() });
+
+    // Lines already sent in an earlier batch are flagged rather than refused, as resubmission is sometimes intended
+    const previous = await client.query(
+      `SELECT bc.claim_id, b.id AS batch_id, b.created_at
+       FROM edi_batch_claims bc
+       JOIN edi_batches b ON b.id = bc.batch_id
+       WHERE bc.claim_id = ANY($1::int[])
+       ORDER BY b.created_at DESC`,
+      [claimIds]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        claims: summarizeGroups(groups),
+        issues: validate837P(content),
+        previouslyBatched: previous.rows
+      }
+    });
+  } catch (error) {
+    console.error('Error previewing 837P batch:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview claim file',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  } finally {
+    client?.release();
+  }
+};
+
+/**
+ * Generate an 837P for the selected lines and record the batch
+ * A file that fails validation is not saved
+ * @route POST /api/edi/837
+ */
+export const create837Batch = async (req: Request, res: Response): Promise<void> => {
+  const claimIds = readClaimIds(req, res);
+  if (!claimIds || !checkEdiSettings(res)) return;
+
+  try {
+    const outcome = await withTransaction(async client => {
+      // loadClaimLines has already sent the error response when it returns nothing
+      const lines = await loadClaimLines(client, claimIds, res);
+      if (!lines) return { status: 'rejected' as const };
+
+      const controlResult = await client.query(`SELECT nextval('edi_interchange_control_seq')::int AS control_number`);
+      const controlNumber: number = controlResult.rows[0].control_number;
+      const createdAt = new Date();
+
+      const groups = groupClaimLines(lines);
+      const content = build837P(groups, config.edi, { controlNumber, createdAt });
+      const issues = validate837P(content);
+
+      if (issues.length > 0) return { status: 'invalid' as const, issues };
+
+      const filename = `837P_${String(controlNumber).padStart(9, '0')}.txt`;
+      const totalCharge = lines.reduce((sum, line) => sum + (Number(line.charge_amt) || 0), 0);
+
+      const batchResult = await client.query(
+        `INSERT INTO edi_batches (
+          interchange_control_number, usage_indicator, filename, content,
+          claim_count, line_count, total_charge, created_by, created_by_name
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING id, interchange_control_number, usage_indicator, filename, claim_count,
+                  line_count, total_charge, created_by_name, created_at`,
+        [
+          controlNumber,
+          config.edi.usageIndicator,
+          filename,
+          content,
+          groups.length,
+          lines.length,
+          totalCharge.toFixed(2),
+          req.user?.id || null,
+          req.user?.name || null
+        ]
+      );
+      const batch = batchResult.rows[0];
+
+      const memberships = groups.flatMap(group =>
+        group.lines.map((line, index) => [line.id, group.patientControlNumber, index + 1])
+      );
+      const valuesSql = memberships.map((_, index) => `($1, $${index * 3 + 2}, $${index * 3 + 3}, $${index * 3 + 4})`).join(', ');
+      await client.query(
+        `INSERT INTO edi_batch_claims (batch_id, claim_id, patient_control_number, line_number) VALUES ${valuesSql}`,
+        [batch.id, ...memberships.flat()]
+      );
+
+      return { status: 'created' as const, batch, filename, groups };
+    });
+
+    if (outcome.status === 'rejected') return;
+
+    if (outcome.status === 'invalid') {
+      res.status(422).json({
+        success: false,
+        error: 'Claim file failed validation',
+        message: `The generated file has ${outcome.issues.length} problem(s); fix the claim data and try again`,
+        errors: outcome.issues
+      });
+      return;
+    }
+
+    const { batch, filename, groups } = outcome;
+    res.status(201).json({
+      success: true,
+      message: `Generated ${filename} with ${groups.length} claims`,
+      data: { ...batch, claims: summarizeGroups(groups) }
+    });
+  } catch (error) {
+    console.error('Error generating 837P batch:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate claim file',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * List generated claim batches, newest first
+ * @route GET /api/edi/batches
+ */
+export const listBatches = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await query(
+      `SELECT id, interchange_control_number, usage_indicator, filename, claim_count,
+              line_count, total_charge, created_by_name, created_at
+       FROM edi_batches
+       ORDER BY created_at DESC
+       LIMIT 100`
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching claim batches:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch claim batches',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * A batch and the claim lines it billed
+ * @route GET /api/edi/batches/:id
+ */
+export const getBatch = async (req: Request, res: Response): Promise<void> => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid ID format',
+      message: 'The ID must be a number'
+    });
+    return;
+  }
+
+  try {
+    const batchResult = await query(
+      `SELECT id, interchange_control_number, usage_indicator, filename, claim_count,
+              line_count, total_charge, created_by_name, created_at
+       FROM edi_batches WHERE id = $1`,
+      [id]
+    );
+
+    if (batchResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+        message: `No claim batch with ID ${id} exists`
+      });
+      return;
+    }
+
+    const linesResult = await query(
+      `SELECT bc.claim_id, bc.patient_control_number, bc.line_number,
+              c.first_name, c.last_name, c.cpt_code, c.service_end, c.charge_amt, c.prim_ins
+       FROM edi_batch_claims bc
+       LEFT JOIN upl_billing_reimburse c ON c.id = bc.claim_id
+       WHERE bc.batch_id = $1
+       ORDER BY bc.patient_control_number, bc.line_number`,
+      [id]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: { ...batchResult.rows[0], lines: linesResult.rows }
+    });
+  } catch (error) {
+    console.error('Error fetching claim batch:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch claim batch',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Download a batch's 837P file exactly as it was generated
+ * @route GET /api/edi/batches/:id/file
+ */
+export const downloadBatchFile = async (req: Request, res: Response): Promise<void> => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid ID format',
+      message: 'The ID must be a number'
+    });
+    return;
+  }
+
+  try {
+    const result = await query('SELECT filename, content FROM edi_batches WHERE id = $1', [id]);
+
+    if (result.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Batch not found',
+        message: `No claim batch with ID ${id} exists`
+      });
+      return;
+    }
+
+    const { filename, content } = result.rows[0];
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', attachmentDisposition(filename));
+    res.status(200).send(content);
+  } catch (error) {
+    console.error('Error downloading claim batch:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to download claim file',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,299 @@
+import { Request, Response } from 'express';
+import { PoolClient } from 'pg';
+import crypto from 'crypto';
+import pool, { query, withTransaction } from '../config/db';
+import { hasPermission } from '../config/permissions';
+import { invalidateClaimCache } from './claimController';
+import { EraTransaction, parseEra835 } from '../edi/era835';
+import { planEraPostings } from '../import/era';
+import { writeClaimChanges } from '../import/payments';
+
+/**
+ * Parse an ERA file id from the route, sending a 400 if it isn't numeric
+ */
+const readFileId = (req: Request, res: Response): number | null => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid ID format',
+      message: 'The ID must be a number'
+    });
+    return null;
+  }
+
+  return id;
+};
+
+/**
+ * Map of line key to claim line ID for the lines already posted from a file
+ */
+const loadPostedLines = async (client: PoolClient, fileId: number): Promise<Map<string, number>> => {
+  const { rows } = await client.query('SELECT line_key, claim_id FROM era_postings WHERE era_file_id = $1', [fileId]);
+  return new Map(rows.map(row => [row.line_key as string, row.claim_id as number]));
+};
+
+/**
+ * Upload an 835 remittance file
+ * The same file can only be uploaded once, so its lines can't be posted twice from two copies
+ * @route POST /api/era
+ */
+export const uploadEra = async (req: Request, res: Response): Promise<void> => {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'No file uploaded',
+      message: 'Send the 835 file as the request body'
+    });
+    return;
+  }
+
+  const content = req.body.toString('utf8');
+  let transactions: EraTransaction[];
+  try {
+    transactions = parseEra835(content);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: 'Unreadable file',
+      message: `The file could not be read as an 835 remittance: ${error instanceof Error ? error.message : 'Unknown error'}`
+    });
+    return;
+  }
+
+  try {
+    const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+
+    const existing = await query('SELECT id FROM era_files WHERE content_hash = $1', [contentHash]);
+    if (existing.rows.length > 0) {
+      res.status(409).json({
+        success: false,
+        error: 'Duplicate file',
+        message: 'This remittance has already been uploaded',
+        data: { id: existing.rows[0].id }
+      });
+      return;
+    }
+
+    const filename = typeof req.query.filename === 'string' ? req.query.filename : null;
+    const payerNames = Array.from(new Set(transactions.map(t => t.payerName).filter(Boolean))).join(', ');
+    const traceNumbers = transactions.map(t => t.traceNumber).filter(Boolean).join(', ');
+    const paymentTotal = transactions.reduce((total, t) => total + t.paymentAmount, 0);
+
+    const result = await query(
+      `INSERT INTO era_files (
+        filename, content, content_hash, transaction_count, payment_total,
+        payer_names, trace_numbers, uploaded_by, uploaded_by_name
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING id, filename, transaction_count, payment_total, payer_names, trace_numbers, uploaded_by_name, uploaded_at`,
+      [
+        filename,
+        content,
+        contentHash,
+        transactions.length,
+        paymentTotal.toFixed(2),
+        payerNames || null,
+        traceNumbers || null,
+        req.user?.id || null,
+        req.user?.name || null
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Remittance uploaded',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Error uploading ERA file:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to upload remittance',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * List recently uploaded remittance files with how many lines have been posted from each
+ * @route GET /api/era
+ */
+export const listEraFiles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await query(
+      `SELECT f.id, f.filename, f.transaction_count, f.payment_total, f.payer_names,
+              f.trace_numbers, f.uploaded_by_name, f.uploaded_at,
+              COUNT(p.id)::int AS posted_count
+       FROM era_files f
+       LEFT JOIN era_postings p ON p.era_file_id = f.id
+       GROUP BY f.id
+       ORDER BY f.uploaded_at DESC
+       LIMIT 50`
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching ERA files:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch remittances',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Match a remittance against current claim data and propose a posting for every service line
+ * @route GET /api/era/:id
+ */
+export const getEraReview = async (req: Request, res: Response): Promise<void> => {
+  const fileId = readFileId(req, res);
+  if (fileId === null) return;
+
+  let client: PoolClient | undefined;
+  try {
+    client = await pool.connect();
+
+    const fileResult = await client.query(
+      `SELECT id, filename, content, transaction_count, payment_total, payer_names,
+              trace_numbers, uploaded_by_name, uploaded_at
+       FROM era_files WHERE id = $1`,
+      [fileId]
+    );
+
+    if (fileResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Remittance not found',
+        message: `No remittance file with ID ${fileId} exists`
+      });
+      return;
+    }
+
+    const { content, ...file } = fileResult.rows[0];
+    const review = await planEraPostings(client, parseEra835(content), await loadPostedLines(client, fileId));
+
+    res.status(200).json({
+      success: true,
+      data: { file, ...review }
+    });
+  } catch (error) {
+    console.error('Error reviewing ERA file:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to review remittance',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  } finally {
+    client?.release();
+  }
+};
+
+/**
+ * Post the accepted lines of a remittance in a single transaction
+ * Only lines that still match when re-planned under lock are written; the rest are reported as skipped
+ * @route POST /api/era/:id/post
+ */
+export const postEraLines = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user;
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+      message: 'Postings must be made by an authenticated user'
+    });
+    return;
+  }
+
+  const fileId = readFileId(req, res);
+  if (fileId === null) return;
+
+  const lines: unknown = req.body?.lines;
+  if (!Array.isArray(lines) || lines.length === 0 || !lines.every(line => typeof line === 'string')) {
+    res.status(400).json({
+      success: false,
+      error: 'Validation error',
+      message: 'lines must be a non-empty array of line keys'
+    });
+    return;
+  }
+
+  const selected = new Set(lines as string[]);
+  // Adjustments that write off balance need the same permission as editing write_off_amt directly
+  const canAdjust = hasPermission(actor.role, 'claims:adjust');
+
+  try {
+    const outcome = await withTransaction(async client => {
+      // Lock the file so two people posting it at once can't both write the same line
+      const fileResult = await client.query('SELECT content FROM era_files WHERE id = $1 FOR UPDATE', [fileId]);
+      if (fileResult.rows.length === 0) return null;
+
+      const review = await planEraPostings(
+        client,
+        parseEra835(fileResult.rows[0].content),
+        await loadPostedLines(client, fileId),
+        true
+      );
+
+      const proposals = review.transactions.flatMap(transaction => transaction.proposals);
+      const skipped: { key: string; reason: string }[] = [];
+      const postedClaimIds: number[] = [];
+
+      for (const proposal of proposals) {
+        if (!selected.has(proposal.key)) continue;
+
+        if (proposal.status !== 'matched' || proposal.claimId === null) {
+          skipped.push({ key: proposal.key, reason: proposal.message || `Line is ${proposal.status}` });
+          continue;
+        }
+        if (!canAdjust && proposal.changes.some(change => change.field_name === 'write_off_amt')) {
+          skipped.push({ key: proposal.key, reason: 'Posting a write-off requires supervisor access' });
+          continue;
+        }
+
+        await writeClaimChanges(client, proposal.claimId, proposal.changes, actor);
+        await client.query(
+          `INSERT INTO era_postings (era_file_id, line_key, claim_id, posted_by, posted_by_name)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [fileId, proposal.key, proposal.claimId, actor.id, actor.name]
+        );
+        postedClaimIds.push(proposal.claimId);
+      }
+
+      return { proposals, skipped, postedClaimIds };
+    });
+
+    if (!outcome) {
+      res.status(404).json({
+        success: false,
+        error: 'Remittance not found',
+        message: `No remittance file with ID ${fileId} exists`
+      });
+      return;
+    }
+
+    const { proposals, skipped, postedClaimIds } = outcome;
+    postedClaimIds.forEach(invalidateClaimCache);
+
+    const unknownKeys = Array.from(selected).filter(key => !proposals.some(proposal => proposal.key === key));
+    unknownKeys.forEach(key => skipped.push({ key, reason: 'No such line in this remittance' }));
+
+    res.status(200).json({
+      success: true,
+      message: `Posted ${postedClaimIds.length} of ${selected.size} lines`,
+      data: { postedCount: postedClaimIds.length, skipped }
+    });
+  } catch (error) {
+    console.error('Error posting ERA lines:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to post remittance',
+      message: `No changes were saved: ${error instanceof Error ? error.message : 'Unknown error'}`
+    });
+  }
+};
@@ -0,0 +1,494 @@
+import { Request, Response } from 'express';
+import ExcelJS from 'exceljs';
+import { query } from '../config/db';
+import Claim from '../models/Claim';
+import { addClaimFilters } from '../validation/claimFilters';
+import { attachmentDisposition } from '../validation/filenames';
+
+type ExportFormat = 'csv' | 'xlsx';
+
+type ColumnType = 'text' | 'number' | 'date';
+
+interface ExportColumn {
+  label: string;
+  type: ColumnType;
+}
+
+// Columns that can be exported (whitelisted because they are interpolated into SQL), in file order
+const EXPORT_COLUMNS: Partial<Record<keyof Claim, ExportColumn>> = {
+  id: { label: 'Claim Line ID', type: 'number' },
+  patient_id: { label: 'Patient ID', type: 'number' },
+  patient_emr_no: { label: 'EMR No', type: 'text' },
+  first_name: { label: 'First Name', type: 'text' },
+  last_name: { label: 'Last Name', type: 'text' },
+  date_of_birth: { label: 'Date of Birth', type: 'date' },
+  cpt_id: { label: 'CPT ID', type: 'number' },
+  cpt_code: { label: 'CPT Code', type: 'text' },
+  icd_code: { label: 'ICD Code', type: 'text' },
+  units: { label: 'Units', type: 'number' },
+  provider_name: { label: 'Provider', type: 'text' },
+  service_start: { label: 'Service Start', type: 'date' },
+  service_end: { label: 'Date of Service', type: 'date' },
+  oa_claim_id: { label: 'OA Claim ID', type: 'text' },
+  oa_visit_id: { label: 'OA Visit ID', type: 'text' },
+  charge_dt: { label: 'Charge Date', type: 'date' },
+  charge_amt: { label: 'Charge Amount', type: 'number' },
+  allowed_amt: { label: 'Allowed Amount', type: 'number' },
+  allowed_add_amt: { label: 'Allowed Add Amount', type: 'number' },
+  allowed_exp_amt: { label: 'Allowed Expected Amount', type: 'number' },
+  prim_ins: { label: 'Primary Insurance', type: 'text' },
+  prim_amt: { label: 'Primary Amount', type: 'number' },
+  prim_post_dt: { label: 'Primary Post Date', type: 'date' },
+  prim_chk_det: { label: 'Primary Check', type: 'text' },
+  prim_recv_dt: { label: 'Primary Received Date', type: 'date' },
+  prim_chk_amt: { label: 'Primary Check Amount', type: 'number' },
+  prim_cmt: { label: 'Primary Comment', type: 'text' },
+  sec_ins: { label: 'Secondary Insurance', type: 'text' },
+  sec_amt: { label: 'Secondary Amount', type: 'number' },
+  sec_post_dt: { label: 'Secondary Post Date', type: 'date' },
+  sec_chk_det: { label: 'Secondary Check', type: 'text' },
+  sec_recv_dt: { label: 'Secondary Received Date', type: 'date' },
+  sec_chk_amt: { label: 'Secondary Check Amount', type: 'number' },
+  sec_cmt: { label: 'Secondary Comment', type: 'text' },
+  sec_denial_code: { label: 'Secondary Denial Code', type: 'text' },
+  pat_amt: { label: 'Patient Amount', type: 'number' },
+  pat_recv_dt: { label: 'Patient Received Date', type: 'date' },
+  total_amt: { label: 'Total Amount', type: 'number' },
+  charges_adj_amt: { label: 'Charges Adjustment', type: 'number' },
+  write_off_amt: { label: 'Write-off Amount', type: 'number' },
+  bal_amt: { label: 'Balance', type: 'number' },
+  reimb_pct: { label: 'Reimbursement %', type: 'number' },
+  claim_status: { label: 'Claim Status', type: 'text' },
+  claim_status_type: { label: 'Claim Status Type', type: 'text' }
+};
+
+// Used when the request doesn't choose columns
+const DEFAULT_EXPORT_COLUMNS: (keyof Claim)[] = [
+  'id', 'patient_emr_no', 'first_name', 'last_name', 'cpt_code', 'service_end',
+  'provider_name', 'oa_claim_id', 'prim_ins', 'charge_amt', 'prim_amt', 'sec_amt',
+  'pat_amt', 'write_off_amt', 'bal_amt', 'claim_status'
+];
+
+// Rows are read in batches so a large export never sits in memory at once
+const EXPORT_BATCH_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// pg returns DATE columns as local midnight, so read the local calendar date back out
+const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Convert a database value for a CSV cell
+ */
+const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = value instanceof Date ? toDateString(value) : String(value);
+  // Quote anything that would break the row, doubling embedded quotes
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Convert a database value for an XLSX cell, keeping numbers and dates typed
+ */
+const toXlsxCell = (value: unknown, type: ColumnType): string | number | Date | null => {
+  if (value === null || value === undefined) return null;
+
+  if (type === 'date' && value instanceof Date) {
+    // Excel dates carry no time zone, so pin the calendar date to UTC
+    return new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()));
+  }
+  if (type === 'number') {
+    const num = Number(value);
+    return Number.isFinite(num) ? num : String(value);
+  }
+  return value instanceof Date ? toDateString(value) : String(value);
+};
+
+/**
+ * Read the format and column list shared by both export endpoints
+ * @returns the parsed options, or an error message
+ */
+const readExportOptions = (req: Request): { format: ExportFormat; columns: (keyof Claim)[] } | { error: string } => {
+  const format = ((req.query.format as string) || 'csv').toLowerCase();
+  if (format !== 'csv' && format !== 'xlsx') {
+    return { error: 'format must be csv or xlsx' };
+  }
+
+  const requested = typeof req.query.columns === 'string'
+    ? req.query.columns.split(',').map(column => column.trim()).filter(Boolean)
+    : [];
+  const unknown = requested.filter(column => !Object.prototype.hasOwnProperty.call(EXPORT_COLUMNS, column));
+  if (unknown.length > 0) {
+    return { error: `Unknown export columns: ${unknown.join(', ')}` };
+  }
+
+  // Keep the caller's order, dropping duplicates
+  const columns = requested.length > 0
+    ? Array.from(new Set(requested)) as (keyof Claim)[]
+    : DEFAULT_EXPORT_COLUMNS;
+
+  return { format, columns };
+};
+
+/**
+ * Record an export in export_logs before any of the file is sent, so no download goes unaudited
+ * Its status and row count are filled in by finishExportRecord once the download ends
+ * @returns the export_logs id
+ */
+const recordExport = async (
+  req: Request,
+  entry: {
+    scope: 'single' | 'bulk';
+    format: ExportFormat;
+    claimId: number | null;
+    filters: Record<string, unknown> | null;
+    columns: string[];
+    filename: string;
+  }
+): Promise<number> => {
+  const result = await query(
+    `INSERT INTO export_logs (
+      user_id, username, scope, format, claim_id, filters, columns, row_count, filename, ip_address
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, 0, $8, $9)
+    RETURNING id`,
+    [
+      req.user?.id || null,
+      req.user?.name || null,
+      entry.scope,
+      entry.format,
+      entry.claimId,
+      entry.filters ? JSON.stringify(entry.filters) : null,
+      entry.columns,
+      entry.filename,
+      req.ip || null
+    ]
+  );
+  return result.rows[0].id;
+};
+
+/**
+ * Store how an export ended and the number of rows it wrote
+ * The download is already over, so a failure here is only logged
+ */
+const finishExportRecord = async (exportId: number, status: 'completed' | 'aborted', rowCount: number) => {
+  try {
+    await query(
+      'UPDATE export_logs SET status = $1, row_count = $2, finished_at = NOW() WHERE id = $3',
+      [status, rowCount, exportId]
+    );
+  } catch (error) {
+    console.error(`Failed to record the outcome of export ${exportId}:`, error);
+  }
+};
+
+/**
+ * An export that stopped before the whole file was written
+ */
+class ExportAbortedError extends Error {
+  rowCount: number;
+  // The error that stopped the export, or null when the client went away
+  failure: unknown;
+
+  constructor(rowCount: number, failure: unknown) {
+    super(failure instanceof Error ? failure.message : 'Client disconnected before the export finished');
+    this.name = 'ExportAbortedError';
+    this.rowCount = rowCount;
+    this.failure = failure;
+  }
+}
+
+const isClientGone = (res: Response) => res.destroyed || res.writableEnded;
+
+/**
+ * Write a chunk to the response, waiting for the socket to drain when its buffer is full
+ * @returns false if the client disconnected, since 'drain' then never fires
+ */
+const writeChunk = (res: Response, chunk: string) =>
+  new Promise<boolean>(resolve => {
+    if (isClientGone(res)) {
+      resolve(false);
+      return;
+    }
+    if (res.write(chunk)) {
+      resolve(true);
+      return;
+    }
+
+    const settle = (drained: boolean) => () => {
+      res.off('drain', onDrain);
+      res.off('close', onClose);
+      res.off('error', onClose);
+      resolve(drained);
+    };
+    const onDrain = settle(true);
+    const onClose = settle(false);
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+    res.once('error', onClose);
+  });
+
+/**
+ * Resolves false when the response closes; used to stop waiting on writes a gone client will never take
+ */
+const whenClosed = (res: Response) =>
+  new Promise<boolean>(resolve => {
+    if (res.destroyed) resolve(false);
+    else res.once('close', () => resolve(false));
+  });
+
+/**
+ * Stream matching claim lines to the response in the requested format
+ * Rows are paged by id so each batch is a cheap index scan
+ * @returns the number of rows written
+ * @throws ExportAbortedError with the rows written so far if the client disconnects or a batch fails
+ */
+const streamClaims = async (
+  res: Response,
+  format: ExportFormat,
+  columns: (keyof Claim)[],
+  conditions: string[],
+  queryParams: any[],
+  filename: string
+): Promise<number> => {
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', attachmentDisposition(filename));
+
+  const selectList = columns.includes('id') ? columns.join(', ') : ['id', ...columns].join(', ');
+  let rowCount = 0;
+
+  try {
+    const workbook = format === 'xlsx' ? new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true }) : null;
+    const worksheet = workbook?.addWorksheet('Claims');
+
+    if (worksheet) {
+      worksheet.columns = columns.map(column => ({
+        header: EXPORT_COLUMNS[column]?.label,
+        key: column,
+        width: Math.max(12, (EXPORT_COLUMNS[column]?.label.length || 0) + 2),
+        style: EXPORT_COLUMNS[column]?.type === 'date' ? { numFmt: 'yyyy-mm-dd' } : {}
+      }));
+      worksheet.getRow(1).font = { bold: true };
+      worksheet.getRow(1).commit();
+    } else if (!await writeChunk(res, columns.map(column => toCsvCell(EXPORT_COLUMNS[column]?.label)).join(',') + '\r\n')) {
+      throw new ExportAbortedError(rowCount, null);
+    }
+
+    let lastId = 0;
+
+    for (;;) {
+      // The XLSX writer buffers rather than waiting on the socket, so check for a gone client before each batch
+      if (isClientGone(res)) throw new ExportAbortedError(rowCount, null);
+
+      const batchParams = [...queryParams, lastId, EXPORT_BATCH_SIZE];
+      const result = await query(
+        `SELECT ${selectList}
+         FROM upl_billing_reimburse
+         WHERE ${[...conditions, `id > $${batchParams.length - 1}`].join(' AND ')}
+         ORDER BY id
+         LIMIT $${batchParams.length}`,
+        batchParams
+      );
+
+      if (worksheet) {
+        result.rows.forEach(row => {
+          worksheet.addRow(columns.map(column => toXlsxCell(row[column], EXPORT_COLUMNS[column]?.type || 'text'))).commit();
+        });
+      } else if (result.rows.length > 0) {
+        const written = await writeChunk(
+          res,
+          result.rows.map(row => columns.map(column => toCsvCell(row[column])).join(',')).join('\r\n') + '\r\n'
+        );
+        if (!written) throw new ExportAbortedError(rowCount, null);
+      }
+
+      rowCount += result.rows.length;
+      if (result.rows.length < EXPORT_BATCH_SIZE) break;
+      lastId = result.rows[result.rows.length - 1].id;
+    }
+
+    if (workbook && worksheet) {
+      worksheet.commit();
+      // The workbook waits for the response to finish, which never happens once the client is gone
+      const finished = await Promise.race([workbook.commit().then(() => true), whenClosed(res)]);
+      if (!finished) throw new ExportAbortedError(rowCount, null);
+    } else {
+      res.end();
+    }
+  } catch (error) {
+    throw error instanceof ExportAbortedError ? error : new ExportAbortedError(rowCount, error);
+  }
+
+  return rowCount;
+};
+
+/**
+ * Send the file and complete its audit entry, recording it as aborted when the download didn't finish
+ * A disconnected client leaves nothing to respond to; any other failure is rethrown for handleExportError
+ */
+const sendExport = async (res: Response, exportId: number, stream: () => Promise<number>) => {
+  try {
+    const rowCount = await stream();
+    await finishExportRecord(exportId, 'completed', rowCount);
+  } catch (error) {
+    if (!(error instanceof ExportAbortedError)) throw error;
+
+    await finishExportRecord(exportId, 'aborted', error.rowCount);
+    if (error.failure) throw error.failure;
+    console.warn(`Export ${exportId} aborted after ${error.rowCount} rows: the client disconnected`);
+  }
+};
+
+/**
+ * Report a failed export; once streaming has started the only option is to cut the download short
+ */
+const handleExportError = (res: Response, error: unknown) => {
+  console.error('Error exporting claims:', error);
+
+  if (res.headersSent) {
+    res.destroy(error instanceof Error ? error : undefined);
+    return;
+  }
+
+  res.status(500).json({
+    success: false,
+    error: 'Failed to export claims',
+    message: error instanceof Error ? error.message : 'Unknown error'
+  });
+};
+
+/**
+ * List the columns that can be exported, with the default selection
+ * @route GET /api/claims/export/columns
+ */
+export const getExportColumns = async (req: Request, res: Response): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    data: {
+      columns: Object.entries(EXPORT_COLUMNS).map(([key, column]) => ({ key, label: column?.label })),
+      defaultColumns: DEFAULT_EXPORT_COLUMNS
+    }
+  });
+};
+
+/**
+ * Export a single claim line as CSV or XLSX
+ * Query: format (csv | xlsx), columns (comma-separated)
+ * @route GET /api/claims/:id/export
+ */
+export const exportClaim = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ID format',
+        message: 'The ID must be a number'
+      });
+      return;
+    }
+
+    const options = readExportOptions(req);
+    if ('error' in options) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid export options',
+        message: options.error
+      });
+      return;
+    }
+
+    const existing = await query(
+      'SELECT id FROM upl_billing_reimburse WHERE id = $1 AND deleted_at IS NULL',
+      [id]
+    );
+
+    if (existing.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID ${id}`
+      });
+      return;
+    }
+
+    const filename = `claim-${id}.${options.format}`;
+    const exportId = await recordExport(req, {
+      scope: 'single',
+      format: options.format,
+      claimId: id,
+      filters: null,
+      columns: options.columns,
+      filename
+    });
+
+    await sendExport(res, exportId, () =>
+      streamClaims(res, options.format, options.columns, ['deleted_at IS NULL', 'id = $1'], [id], filename)
+    );
+  } catch (error) {
+    handleExportError(res, error);
+  }
+};
+
+/**
+ * Export every claim line matching the search filters as CSV or XLSX
+ * Query: format, columns, plus the same search filters as GET /api/claims (dos_from and dos_to give the date range)
+ * @route GET /api/claims/export
+ */
+export const exportClaims = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const options = readExportOptions(req);
+    if ('error' in options) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid export options',
+        message: options.error
+      });
+      return;
+    }
+
+    const queryParams: any[] = [];
+    // Soft-deleted claims are never exported
+    const conditions: string[] = ['deleted_at IS NULL'];
+    const filterErrors = addClaimFilters(req.query, conditions, queryParams);
+
+    if (Object.keys(filterErrors).length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid search filters',
+        message: 'One or more search filters are invalid',
+        errors: filterErrors
+      });
+      return;
+    }
+
+    // Keep only the filters in the audit entry
+    const filters: Record<string, unknown> = { ...req.query };
+    delete filters.format;
+    delete filters.columns;
+
+    const range = `${req.query.dos_from || 'start'}-to-${req.query.dos_to || 'latest'}`;
+    const filename = `claims-${range}.${options.format}`;
+
+    const exportId = await recordExport(req, {
+      scope: 'bulk',
+      format: options.format,
+      claimId: null,
+      filters,
+      columns: options.columns,
+      filename
+    });
+
+    await sendExport(res, exportId, () =>
+      streamClaims(res, options.format, options.columns, conditions, queryParams, filename)
+    );
+  } catch (error) {
+    handleExportError(res, error);
+  }
+};
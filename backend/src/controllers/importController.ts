@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import { PoolClient } from 'pg';
+import pool, { withTransaction } from '../config/db';
+import { invalidateClaimCache } from './claimController';
+import { detectFormat, parseSpreadsheet, SpreadsheetRow } from '../import/spreadsheet';
+import { planPaymentImport, applyPaymentImport } from '../import/payments';
+
+// Large remittance files should be split rather than posted in one transaction
+const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Parse the uploaded file from the raw request body
+ * The original filename is passed as ?filename= so the format can be told from its extension
+ * @returns the rows, or sends a 400 and returns null
+ */
+const readUpload = async (req: Request, res: Response): Promise<SpreadsheetRow[] | null> => {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'No file uploaded',
+      message: 'Send the CSV or XLSX file as the request body'
+    });
+    return null;
+  }
+
+  const filename = typeof req.query.filename === 'string' ? req.query.filename : undefined;
+
+  let rows: SpreadsheetRow[];
+  try {
+    rows = await parseSpreadsheet(req.body, detectFormat(filename, req.body));
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: 'Unreadable file',
+      message: `The file could not be read as CSV or XLSX: ${error instanceof Error ? error.message : 'Unknown error'}`
+    });
+    return null;
+  }
+
+  if (rows.length === 0 || rows.length > MAX_IMPORT_ROWS) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid file',
+      message: rows.length === 0
+        ? 'The file has no data rows below its header row'
+        : `The file has ${rows.length} rows; split it into files of at most ${MAX_IMPORT_ROWS}`
+    });
+    return null;
+  }
+
+  return rows;
+};
+
+/**
+ * Dry run of a payment import: match each row and show what it would change, without writing anything
+ * @route POST /api/imports/payments/preview
+ */
+export const previewPaymentImport = async (req: Request, res: Response): Promise<void> => {
+  const rows = await readUpload(req, res);
+  if (!rows) return;
+
+  let client: PoolClient | undefined;
+  try {
+    client = await pool.connect();
+    const plan = await planPaymentImport(client, rows);
+
+    res.status(200).json({
+      success: true,
+      data: plan
+    });
+  } catch (error) {
+    console.error('Error previewing payment import:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview import',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  } finally {
+    client?.release();
+  }
+};
+
+/**
+ * Post the matched rows of a payment file in a single transaction
+ * Unmatched, conflicting and invalid rows are skipped and reported back
+ * @route POST /api/imports/payments
+ */
+export const commitPaymentImport = async (req: Request, res: Response): Promise<void> => {
+  const actor = req.user;
+
+  if (!actor) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+      message: 'Imports must be made by an authenticated user'
+    });
+    return;
+  }
+
+  const rows = await readUpload(req, res);
+  if (!rows) return;
+
+  try {
+    const { plan, updatedClaimIds } = await withTransaction(async client => {
+      // Plan again under row locks so nothing changes between matching and writing
+      const plan = await planPaymentImport(client, rows, true);
+      return { plan, updatedClaimIds: await applyPaymentImport(client, plan, actor) };
+    });
+
+    updatedClaimIds.forEach(invalidateClaimCache);
+
+    res.status(200).json({
+      success: true,
+      message: `Posted ${updatedClaimIds.length} of ${rows.length} rows`,
+      data: plan
+    });
+  } catch (error) {
+    console.error('Error committing payment import:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to import payments',
+      message: `No changes were saved: ${error instanceof Error ? error.message : 'Unknown error'}`
+    });
+  }
+};
@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { query } from '../config/db';
+import { isIsoDate } from '../validation/claimFilters';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Default reporting window when no date range is given
+const DEFAULT_PERIOD_DAYS = 30;
+
+type KpiKey = 'totalCheckNumbers' | 'totalVisitIds' | 'postedVisitIds' | 'pendingPosting';
+
+type KpiValues = Record<KpiKey, number>;
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Percentage change from the previous period, or null when there is nothing to compare against
+ */
+const percentChange = (current: number, previous: number): number | null => {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+};
+
+/**
+ * Get dashboard KPIs for a service-date range, with trends against the preceding period of equal length
+ * Query: start_date, end_date (YYYY-MM-DD, defaults to the last 30 days), payer (matches primary or secondary)
+ * @route GET /api/metrics/kpis
+ */
+export const getKpis = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const startParam = req.query.start_date as string | undefined;
+    const endParam = req.query.end_date as string | undefined;
+    const payer = typeof req.query.payer === 'string' ? req.query.payer.trim() : '';
+
+    for (const value of [startParam, endParam]) {
+      if (value && !isIsoDate(value)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid date range',
+          message: 'start_date and end_date must be dates (YYYY-MM-DD)'
+        });
+        return;
+      }
+    }
+
+    const end = endParam ? new Date(endParam) : new Date(toIsoDate(new Date()));
+    const start = startParam ? new Date(startParam) : new Date(end.getTime() - (DEFAULT_PERIOD_DAYS - 1) * DAY_MS);
+
+    if (start > end) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid date range',
+        message: 'start_date must be on or before end_date'
+      });
+      return;
+    }
+
+    // The previous period has the same number of days and ends the day before this one starts
+    const periodDays = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+    const previousEnd = new Date(start.getTime() - DAY_MS);
+    const previousStart = new Date(start.getTime() - periodDays * DAY_MS);
+
+    const queryParams: any[] = [toIsoDate(start), toIsoDate(previousStart), toIsoDate(end)];
+    let payerCondition = '';
+    if (payer) {
+      queryParams.push(`%${payer}%`);
+      payerCondition = `AND (prim_ins ILIKE $${queryParams.length} OR sec_ins ILIKE $${queryParams.length})`;
+    }
+
+    // Tag each claim line in either period with the period it belongs to
+    const scopedClaims = `
+      SELECT *, CASE WHEN service_end >= $1 THEN 'current' ELSE 'previous' END AS period
+      FROM upl_billing_reimburse
+      WHERE deleted_at IS NULL
+        AND service_end >= $2 AND service_end <= $3
+        ${payerCondition}`;
+
+    // A visit counts as posted once a primary or secondary payment has been posted against it
+    const visitsQuery = `
+      SELECT
+        period,
+        COUNT(DISTINCT oa_visit_id) AS total_visit_ids,
+        COUNT(DISTINCT oa_visit_id) FILTER (WHERE prim_post_dt IS NOT NULL OR sec_post_dt IS NOT NULL) AS posted_visit_ids
+      FROM (${scopedClaims}) scoped
+      GROUP BY period`;
+
+    // Check numbers can appear on either the primary or the secondary payment
+    const checksQuery = `
+      SELECT period, COUNT(DISTINCT check_no) AS total_check_numbers
+      FROM (${scopedClaims}) scoped
+      CROSS JOIN LATERAL (
+        VALUES (NULLIF(TRIM(prim_chk_det), '')), (NULLIF(TRIM(sec_chk_det), ''))
+      ) AS checks(check_no)
+      WHERE check_no IS NOT NULL
+      GROUP BY period`;
+
+    const visitsResult = await query(visitsQuery, queryParams);
+    const checksResult = await query(checksQuery, queryParams);
+
+    const valuesFor = (period: 'current' | 'previous'): KpiValues => {
+      const visits = visitsResult.rows.find(row => row.period === period);
+      const checks = checksResult.rows.find(row => row.period === period);
+      const totalVisitIds = visits ? parseInt(visits.total_visit_ids) : 0;
+      const postedVisitIds = visits ? parseInt(visits.posted_visit_ids) : 0;
+
+      return {
+        totalCheckNumbers: checks ? parseInt(checks.total_check_numbers) : 0,
+        totalVisitIds,
+        postedVisitIds,
+        pendingPosting: totalVisitIds - postedVisitIds
+      };
+    };
+
+    const current = valuesFor('current');
+    const previous = valuesFor('previous');
+
+    const trends = {} as Record<KpiKey, number | null>;
+    (Object.keys(current) as KpiKey[]).forEach(key => {
+      trends[key] = percentChange(current[key], previous[key]);
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...current,
+        trends,
+        period: {
+          start: toIsoDate(start),
+          end: toIsoDate(end),
+          previousStart: toIsoDate(previousStart),
+          previousEnd: toIsoDate(previousEnd)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Error computing KPIs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to compute KPIs',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
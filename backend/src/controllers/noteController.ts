@@ -0,0 +1,434 @@
+import { Request, Response } from 'express';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/db';
+import { hasPermission } from '../config/permissions';
+import { denyAccess } from '../middleware/authorize';
+
+const MAX_NOTE_LENGTH = 5000;
+
+const SEARCH_DEFAULT_LIMIT = 20;
+const SEARCH_MAX_LIMIT = 100;
+
+// A user's @handle is the part of their email before the @
+const USER_HANDLE = `LOWER(split_part(u.email, '@', 1))`;
+
+// Matches @handle where the @ isn't part of an email address
+const MENTION_PATTERN = /(^|[^\w.@])@([a-z0-9][a-z0-9._-]*)/gi;
+
+// Revisions and mentioned users are returned with each note; notes rarely have more than a few of either
+const NOTE_COLUMNS = `n.id, n.claim_id, n.body, n.pinned, n.pinned_at, n.pinned_by_name,
+  n.author_id, n.author_name, n.created_at, n.updated_at,
+  COALESCE((
+    SELECT json_agg(json_build_object('id', u.id, 'name', u.name, 'handle', ${USER_HANDLE}) ORDER BY u.name)
+    FROM users u WHERE u.id = ANY(n.mentions)
+  ), '[]') AS mentioned_users,
+  COALESCE((
+    SELECT json_agg(json_build_object(
+      'id', r.id, 'body', r.body, 'edited_by_name', r.edited_by_name, 'edited_at', r.edited_at
+    ) ORDER BY r.edited_at DESC, r.id DESC)
+    FROM claim_note_revisions r WHERE r.note_id = n.id
+  ), '[]') AS revisions`;
+
+/**
+ * The @handles written in a note, lowercased and without trailing punctuation
+ */
+const extractMentions = (body: string): string[] => {
+  const handles = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    handles.add(match[2].replace(/[._-]+$/, '').toLowerCase());
+  }
+  return Array.from(handles).filter(Boolean);
+};
+
+/**
+ * Resolve @handles to active user IDs; handles that match no one are ignored
+ * Two users sharing an email local part are both mentioned
+ */
+const resolveMentions = async (body: string, client?: PoolClient): Promise<number[]> => {
+  const handles = extractMentions(body);
+  if (handles.length === 0) return [];
+
+  const sql = `SELECT u.id FROM users u WHERE u.is_active AND ${USER_HANDLE} = ANY($1) ORDER BY u.id`;
+  const result = client ? await client.query(sql, [handles]) : await query(sql, [handles]);
+  return result.rows.map(row => row.id);
+};
+
+/**
+ * Validate a note body
+ * @returns the trimmed body, or an error message
+ */
+const readBody = (value: unknown): { body?: string; error?: string } => {
+  if (typeof value !== 'string' || !value.trim()) return { error: 'body is required' };
+  if (value.length > MAX_NOTE_LENGTH) return { error: `body must be at most ${MAX_NOTE_LENGTH} characters` };
+  return { body: value.trim() };
+};
+
+/**
+ * Parse a numeric route parameter, sending a 400 if it isn't one
+ */
+const readId = (req: Request, res: Response, param = 'id'): number | null => {
+  const id = parseInt(req.params[param]);
+
+  if (isNaN(id)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid ID format',
+      message: 'The ID must be a number'
+    });
+    return null;
+  }
+
+  return id;
+};
+
+const sendNoteNotFound = (res: Response, claimId: number, noteId: number) => {
+  res.status(404).json({
+    success: false,
+    error: 'Note not found',
+    message: `Claim ${claimId} has no note with ID ${noteId}`
+  });
+};
+
+// Authors manage their own notes; anyone who can delete claims can manage any note
+const canManageNote = (req: Request, authorId: number | null) =>
+  (authorId !== null && authorId === req.user?.id) || hasPermission(req.user?.role, 'claims:delete');
+
+/**
+ * Notes on a claim line, pinned notes first, then newest first
+ * @route GET /api/claims/:id/notes
+ */
+export const getClaimNotes = async (req: Request, res: Response): Promise<void> => {
+  const claimId = readId(req, res);
+  if (claimId === null) return;
+
+  try {
+    const result = await query(
+      `SELECT ${NOTE_COLUMNS}
+       FROM claim_notes n
+       WHERE n.claim_id = $1 AND n.deleted_at IS NULL
+       ORDER BY n.pinned DESC, n.pinned_at DESC NULLS LAST, n.created_at DESC, n.id DESC`,
+      [claimId]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching claim notes:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch notes',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Add a note to a claim line; @handles in the body mention those users
+ * @route POST /api/claims/:id/notes
+ */
+export const createClaimNote = async (req: Request, res: Response): Promise<void> => {
+  const claimId = readId(req, res);
+  if (claimId === null) return;
+
+  const { body, error: bodyError } = readBody(req.body?.body);
+  const pinned = req.body?.pinned === true;
+
+  if (!body) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid note data',
+      message: 'One or more fields are invalid',
+      errors: { body: bodyError }
+    });
+    return;
+  }
+
+  try {
+    const claimResult = await query('SELECT id FROM upl_billing_reimburse WHERE id = $1 AND deleted_at IS NULL', [claimId]);
+
+    if (claimResult.rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Claim not found',
+        message: `No claim found with ID ${claimId}`
+      });
+      return;
+    }
+
+    const mentions = await resolveMentions(body);
+
+    const inserted = await query(
+      `INSERT INTO claim_notes (claim_id, body, mentions, pinned, pinned_at, pinned_by_name, author_id, author_name)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id`,
+      [
+        claimId,
+        body,
+        mentions,
+        pinned,
+        pinned ? new Date() : null,
+        pinned ? req.user?.name || null : null,
+        req.user?.id || null,
+        req.user?.name || null
+      ]
+    );
+
+    const result = await query(`SELECT ${NOTE_COLUMNS} FROM claim_notes n WHERE n.id = $1`, [inserted.rows[0].id]);
+
+    res.status(201).json({
+      success: true,
+      message: 'Note added',
+      data: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Error adding claim note:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add note',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Edit a note's text or pin/unpin it
+ * Editing the text keeps the previous version as a revision and is limited to the author and supervisors;
+ * anyone who can write claims can pin
+ * @route PATCH /api/claims/:id/notes/:noteId
+ */
+export const updateClaimNote = async (req: Request, res: Response): Promise<void> => {
+  const claimId = readId(req, res);
+  if (claimId === null) return;
+  const noteId = readId(req, res, 'noteId');
+  if (noteId === null) return;
+
+  const changes = req.body || {};
+  const errors: Record<string, string> = {};
+  const { body, error: bodyError } = 'body' in changes ? readBody(changes.body) : {};
+  if (bodyError) errors.body = bodyError;
+  if ('pinned' in changes && typeof changes.pinned !== 'boolean') errors.pinned = 'pinned must be true or false';
+
+  if (Object.keys(errors).length > 0 || (body === undefined && !('pinned' in changes))) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid note data',
+      message: Object.keys(errors).length > 0 ? 'One or more fields are invalid' : 'No fields to update',
+      errors
+    });
+    return;
+  }
+
+  try {
+    const outcome = await withTransaction(async client => {
+      const current = await client.query(
+        'SELECT body, pinned, author_id FROM claim_notes WHERE id = $1 AND claim_id = $2 AND deleted_at IS NULL FOR UPDATE',
+        [noteId, claimId]
+      );
+
+      if (current.rows.length === 0) return { status: 'not_found' as const };
+
+      const note = current.rows[0];
+      const bodyChanged = body !== undefined && body !== note.body;
+
+      if (bodyChanged && !canManageNote(req, note.author_id)) return { status: 'forbidden' as const };
+
+      if (bodyChanged) {
+        await client.query(
+          'INSERT INTO claim_note_revisions (note_id, body, edited_by, edited_by_name) VALUES ($1, $2, $3, $4)',
+          [noteId, note.body, req.user?.id || null, req.user?.name || null]
+        );
+        await client.query(
+          'UPDATE claim_notes SET body = $1, mentions = $2, updated_at = NOW() WHERE id = $3',
+          [body, await resolveMentions(body as string, client), noteId]
+        );
+      }
+
+      if ('pinned' in changes && changes.pinned !== note.pinned) {
+        await client.query(
+          'UPDATE claim_notes SET pinned = $1, pinned_at = $2, pinned_by_name = $3 WHERE id = $4',
+          [changes.pinned, changes.pinned ? new Date() : null, changes.pinned ? req.user?.name || null : null, noteId]
+        );
+      }
+
+      const result = await client.query(`SELECT ${NOTE_COLUMNS} FROM claim_notes n WHERE n.id = $1`, [noteId]);
+      return { status: 'updated' as const, note: result.rows[0] };
+    });
+
+    if (outcome.status === 'not_found') {
+      sendNoteNotFound(res, claimId, noteId);
+      return;
+    }
+
+    if (outcome.status === 'forbidden') {
+      denyAccess(req, res, 'claims:delete', 'Only the author or a supervisor can edit this note');
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Note updated',
+      data: outcome.note
+    });
+  } catch (error) {
+    console.error('Error updating claim note:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update note',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Delete a note; it is kept with its revisions but no longer listed or searchable
+ * Limited to the author and supervisors
+ * @route DELETE /api/claims/:id/notes/:noteId
+ */
+export const deleteClaimNote = async (req: Request, res: Response): Promise<void> => {
+  const claimId = readId(req, res);
+  if (claimId === null) return;
+  const noteId = readId(req, res, 'noteId');
+  if (noteId === null) return;
+
+  try {
+    const current = await query(
+      'SELECT author_id FROM claim_notes WHERE id = $1 AND claim_id = $2 AND deleted_at IS NULL',
+      [noteId, claimId]
+    );
+
+    if (current.rows.length === 0) {
+      sendNoteNotFound(res, claimId, noteId);
+      return;
+    }
+
+    if (!canManageNote(req, current.rows[0].author_id)) {
+      denyAccess(req, res, 'claims:delete', 'Only the author or a supervisor can delete this note');
+      return;
+    }
+
+    await query(
+      'UPDATE claim_notes SET deleted_at = NOW(), deleted_by = $1 WHERE id = $2',
+      [req.user?.id || null, noteId]
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Note deleted'
+    });
+  } catch (error) {
+    console.error('Error deleting claim note:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete note',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Search notes across claims, newest first
+ * Query: q (full-text), mentioned=me (notes mentioning the current user), author=me, pinned=true, page, limit
+ * @route GET /api/notes/search
+ */
+export const searchNotes = async (req: Request, res: Response): Promise<void> => {
+  const page = parseInt((req.query.page as string) || '1');
+  const limit = parseInt((req.query.limit as string) || String(SEARCH_DEFAULT_LIMIT));
+
+  if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1 || limit > SEARCH_MAX_LIMIT) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid pagination',
+      message: `page must be at least 1 and limit between 1 and ${SEARCH_MAX_LIMIT}`
+    });
+    return;
+  }
+
+  const conditions = ['n.deleted_at IS NULL', 'c.deleted_at IS NULL'];
+  const params: unknown[] = [];
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  let headline = 'NULL';
+
+  if (q) {
+    params.push(q);
+    conditions.push(`to_tsvector('english', n.body) @@ plainto_tsquery('english', $${params.length})`);
+    headline = `ts_headline('english', n.body, plainto_tsquery('english', $${params.length}),
+      'StartSel=**, StopSel=**, MaxFragments=2, MaxWords=25, MinWords=8')`;
+  }
+  if (req.query.mentioned === 'me') {
+    params.push(req.user?.id || 0);
+    conditions.push(`$${params.length} = ANY(n.mentions)`);
+  }
+  if (req.query.author === 'me') {
+    params.push(req.user?.id || 0);
+    conditions.push(`n.author_id = $${params.length}`);
+  }
+  if (req.query.pinned === 'true') {
+    conditions.push('n.pinned');
+  }
+
+  const from = `FROM claim_notes n JOIN upl_billing_reimburse c ON c.id = n.claim_id WHERE ${conditions.join(' AND ')}`;
+
+  try {
+    const countResult = await query(`SELECT COUNT(*) ${from}`, params);
+    const totalCount = parseInt(countResult.rows[0].count);
+
+    const result = await query(
+      `SELECT ${NOTE_COLUMNS}, ${headline} AS snippet,
+        c.first_name, c.last_name, c.patient_id, c.cpt_code, c.service_end, c.claim_status
+       ${from}
+       ORDER BY n.created_at DESC, n.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    res.status(200).json({
+      success: true,
+      totalCount,
+      page,
+      limit,
+      totalPages: Math.ceil(totalCount / limit),
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Error searching notes:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search notes',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Active users who can be @mentioned, matched on name or handle
+ * Query: q (prefix of the handle or of any word in the name)
+ * @route GET /api/notes/mentionable
+ */
+export const getMentionableUsers = async (req: Request, res: Response): Promise<void> => {
+  const q = typeof req.query.q === 'string' ? req.query.q.trim().toLowerCase() : '';
+
+  try {
+    const result = await query(
+      `SELECT u.id, u.name, ${USER_HANDLE} AS handle
+       FROM users u
+       WHERE u.is_active AND ($1 = '' OR ${USER_HANDLE} LIKE $2 OR LOWER(u.name) LIKE $2 OR LOWER(u.name) LIKE '% ' || $2)
+       ORDER BY u.name
+       LIMIT 10`,
+      [q, `${q.replace(/[\\%_]/g, '\\$&')}%`]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching mentionable users:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch users',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,272 @@
+import { Request, Response } from 'express';
+import { query } from '../config/db';
+import { isIsoDate } from '../validation/claimFilters';
+
+// Aging buckets in days; the last bucket is open-ended
+const AGING_BUCKETS = [
+  { key: '0-30', min: 0, max: 30 },
+  { key: '31-60', min: 31, max: 60 },
+  { key: '61-90', min: 61, max: 90 },
+  { key: '91-120', min: 91, max: 120 },
+  { key: '120+', min: 121, max: null }
+] as const;
+
+type AgingBucketKey = typeof AGING_BUCKETS[number]['key'];
+
+// Dates a balance can be aged from
+const AGING_BASIS_COLUMNS = ['service_end', 'charge_dt'] as const;
+
+type AgingBasis = typeof AGING_BASIS_COLUMNS[number];
+
+const DRILL_DOWN_DEFAULT_LIMIT = 50;
+const DRILL_DOWN_MAX_LIMIT = 200;
+
+// The balance is owed by the secondary payer once the primary has posted, otherwise by the primary
+const PAYER_SQL = `COALESCE(
+  CASE WHEN prim_post_dt IS NOT NULL AND NULLIF(TRIM(sec_ins), '') IS NOT NULL THEN TRIM(sec_ins) END,
+  NULLIF(TRIM(prim_ins), ''),
+  'Unknown'
+)`;
+
+const PROVIDER_SQL = `COALESCE(NULLIF(TRIM(provider_name), ''), 'Unknown')`;
+
+interface AgingCell {
+  amount: number;
+  count: number;
+}
+
+interface AgingRow {
+  name: string;
+  buckets: Record<AgingBucketKey, AgingCell>;
+  totalAmount: number;
+  totalCount: number;
+}
+
+const emptyRow = (name: string): AgingRow => ({
+  name,
+  buckets: AGING_BUCKETS.reduce(
+    (buckets, bucket) => ({ ...buckets, [bucket.key]: { amount: 0, count: 0 } }),
+    {} as Record<AgingBucketKey, AgingCell>
+  ),
+  totalAmount: 0,
+  totalCount: 0
+});
+
+const addToRow = (row: AgingRow, bucket: AgingBucketKey, amount: number, count: number) => {
+  row.buckets[bucket].amount += amount;
+  row.buckets[bucket].count += count;
+  row.totalAmount += amount;
+  row.totalCount += count;
+};
+
+// Sums are added in JS, so round to cents before responding
+const roundRow = (row: AgingRow): AgingRow => {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  AGING_BUCKETS.forEach(bucket => {
+    row.buckets[bucket.key].amount = round(row.buckets[bucket.key].amount);
+  });
+  row.totalAmount = round(row.totalAmount);
+  return row;
+};
+
+/**
+ * Read the as_of date and aging basis shared by both aging endpoints
+ * @returns the parsed options, or an error message
+ */
+const readAgingOptions = (req: Request): { asOf: string; basis: AgingBasis } | { error: string } => {
+  const asOf = typeof req.query.as_of === 'string' && req.query.as_of ? req.query.as_of : new Date().toISOString().slice(0, 10);
+  const basis = (req.query.basis as string) || 'service_end';
+
+  if (!isIsoDate(asOf)) {
+    return { error: 'as_of must be a date (YYYY-MM-DD)' };
+  }
+  if (!AGING_BASIS_COLUMNS.includes(basis as AgingBasis)) {
+    return { error: `basis must be one of: ${AGING_BASIS_COLUMNS.join(', ')}` };
+  }
+
+  return { asOf, basis: basis as AgingBasis };
+};
+
+// Balances dated after as_of are counted as current rather than negative
+const ageSql = (basis: AgingBasis, asOfParam: string) => `GREATEST(${asOfParam}::date - ${basis}::date, 0)`;
+
+const bucketSql = (ageExpression: string) => `CASE
+  ${AGING_BUCKETS.filter(bucket => bucket.max !== null)
+    .map(bucket => `WHEN ${ageExpression} <= ${bucket.max} THEN '${bucket.key}'`)
+    .join('\n  ')}
+  ELSE '${AGING_BUCKETS[AGING_BUCKETS.length - 1].key}'
+END`;
+
+/**
+ * Get outstanding balances bucketed by age, broken down by payer and by provider
+ * Query: as_of (YYYY-MM-DD, defaults to today), basis (service_end | charge_dt)
+ * @route GET /api/reports/ar-aging
+ */
+export const getArAging = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const options = readAgingOptions(req);
+    if ('error' in options) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid report options',
+        message: options.error
+      });
+      return;
+    }
+
+    const { asOf, basis } = options;
+    const age = ageSql(basis, '$1');
+
+    const result = await query(
+      `SELECT
+         ${PAYER_SQL} AS payer,
+         ${PROVIDER_SQL} AS provider,
+         ${bucketSql(age)} AS bucket,
+         SUM(bal_amt) AS amount,
+         COUNT(*) AS count
+       FROM upl_billing_reimburse
+       WHERE deleted_at IS NULL
+         AND bal_amt > 0
+         AND ${basis} IS NOT NULL
+       GROUP BY 1, 2, 3`,
+      [asOf]
+    );
+
+    const totals = emptyRow('All');
+    const byPayer = new Map<string, AgingRow>();
+    const byProvider = new Map<string, AgingRow>();
+
+    result.rows.forEach(row => {
+      const amount = parseFloat(row.amount);
+      const count = parseInt(row.count);
+
+      if (!byPayer.has(row.payer)) byPayer.set(row.payer, emptyRow(row.payer));
+      if (!byProvider.has(row.provider)) byProvider.set(row.provider, emptyRow(row.provider));
+
+      addToRow(totals, row.bucket, amount, count);
+      addToRow(byPayer.get(row.payer) as AgingRow, row.bucket, amount, count);
+      addToRow(byProvider.get(row.provider) as AgingRow, row.bucket, amount, count);
+    });
+
+    // Largest outstanding balances first
+    const sortRows = (rows: Map<string, AgingRow>) =>
+      Array.from(rows.values()).map(roundRow).sort((a, b) => b.totalAmount - a.totalAmount);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        asOf,
+        basis,
+        buckets: AGING_BUCKETS.map(bucket => bucket.key),
+        totals: roundRow(totals),
+        byPayer: sortRows(byPayer),
+        byProvider: sortRows(byProvider)
+      }
+    });
+  } catch (error) {
+    console.error('Error building AR aging report:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build AR aging report',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Get the claim lines behind one cell of the AR aging report
+ * Query: bucket (required), payer, provider, as_of, basis, page, limit
+ * @route GET /api/reports/ar-aging/claims
+ */
+export const getArAgingClaims = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const options = readAgingOptions(req);
+    const bucket = AGING_BUCKETS.find(b => b.key === req.query.bucket);
+    const page = req.query.page ? Number(req.query.page) : 1;
+    const limit = req.query.limit ? Number(req.query.limit) : DRILL_DOWN_DEFAULT_LIMIT;
+
+    const sendInvalid = (message: string) => {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid report options',
+        message
+      });
+    };
+
+    if ('error' in options) {
+      sendInvalid(options.error);
+      return;
+    }
+    if (!bucket) {
+      sendInvalid(`bucket must be one of: ${AGING_BUCKETS.map(b => b.key).join(', ')}`);
+      return;
+    }
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(limit) || limit < 1 || limit > DRILL_DOWN_MAX_LIMIT) {
+      sendInvalid(`page must be a positive whole number and limit between 1 and ${DRILL_DOWN_MAX_LIMIT}`);
+      return;
+    }
+
+    const { asOf, basis } = options;
+    const age = ageSql(basis, '$1');
+
+    const queryParams: any[] = [asOf, bucket.min];
+    const conditions = [
+      'deleted_at IS NULL',
+      'bal_amt > 0',
+      `${basis} IS NOT NULL`,
+      `${age} >= $2`
+    ];
+
+    if (bucket.max !== null) {
+      queryParams.push(bucket.max);
+      conditions.push(`${age} <= $${queryParams.length}`);
+    }
+    if (typeof req.query.payer === 'string' && req.query.payer) {
+      queryParams.push(req.query.payer);
+      conditions.push(`${PAYER_SQL} = $${queryParams.length}`);
+    }
+    if (typeof req.query.provider === 'string' && req.query.provider) {
+      queryParams.push(req.query.provider);
+      conditions.push(`${PROVIDER_SQL} = $${queryParams.length}`);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = await query(
+      `SELECT COUNT(*) AS count, COALESCE(SUM(bal_amt), 0) AS amount FROM upl_billing_reimburse ${whereClause}`,
+      queryParams
+    );
+    const totalCount = parseInt(countResult.rows[0].count);
+
+    const result = await query(
+      `SELECT
+         id, oa_claim_id, oa_visit_id, patient_emr_no, first_name, last_name,
+         cpt_code, service_end, charge_dt, bal_amt, claim_status,
+         ${PAYER_SQL} AS payer,
+         ${PROVIDER_SQL} AS provider,
+         ${age} AS age_days
+       FROM upl_billing_reimburse
+       ${whereClause}
+       ORDER BY age_days DESC, id
+       LIMIT $${queryParams.length + 1} OFFSET $${queryParams.length + 2}`,
+      [...queryParams, limit, (page - 1) * limit]
+    );
+
+    res.status(200).json({
+      success: true,
+      totalCount,
+      totalAmount: parseFloat(countResult.rows[0].amount),
+      page,
+      limit,
+      totalPages: Math.ceil(totalCount / limit),
+      data: result.rows
+    });
+  } catch (error) {
+    console.error('Error fetching AR aging claims:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch AR aging claims',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,397 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { PoolClient } from 'pg';
+import { query, withTransaction } from '../config/db';
+import config from '../config';
+import { isRole } from '../config/permissions';
+
+// Columns that are safe to return to the client (never the password hash)
+const USER_COLUMNS = 'id, name, email, role, is_active, deactivated_at, created_at, updated_at, last_login_at';
+
+const EMAIL_PATTERN = /^\S+@\S+\.\S+$/;
+
+/**
+ * Lock the active admin rows until the transaction ends and return their ids
+ * Used to enforce that the last active admin can't be demoted or deactivated: two admins removing
+ * each other at once queue on these locks, and the second sees the first one's change
+ */
+const lockActiveAdmins = async (client: PoolClient): Promise<number[]> => {
+  const { rows } = await client.query(
+    `SELECT id FROM users WHERE role = 'admin' AND is_active ORDER BY id FOR UPDATE`
+  );
+  return rows.map(row => row.id);
+};
+
+// Demoting or deactivating this user would leave no active admin
+const isLastAdmin = (activeAdmins: number[], userId: number) =>
+  activeAdmins.length === 1 && activeAdmins[0] === userId;
+
+/**
+ * Validate the editable user fields, returning a map of field errors
+ */
+const validateUserInput = (body: any, isNew: boolean): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (isNew || 'name' in body) {
+    if (typeof body.name !== 'string' || !body.name.trim()) errors.name = 'Name is required';
+  }
+
+  if (isNew || 'email' in body) {
+    if (typeof body.email !== 'string' || !EMAIL_PATTERN.test(body.email.trim())) errors.email = 'A valid email is required';
+  }
+
+  if (isNew || 'password' in body) {
+    if (typeof body.password !== 'string' || body.password.length < 8) {
+      errors.password = 'Password must be at least 8 characters';
+    }
+  }
+
+  if (isNew || 'role' in body) {
+    if (!isRole(body.role)) errors.role = 'Role must be one of viewer, poster, supervisor or admin';
+  }
+
+  if ('is_active' in body && typeof body.is_active !== 'boolean') {
+    errors.is_active = 'is_active must be true or false';
+  }
+
+  return errors;
+};
+
+/**
+ * List users
+ * @route GET /api/users
+ */
+export const getUsers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const includeInactive = req.query.include_inactive === 'true';
+
+    const { rows } = await query(
+      `SELECT ${USER_COLUMNS}
+       FROM users
+       ${includeInactive ? '' : 'WHERE is_active'}
+       ORDER BY name`
+    );
+
+    res.status(200).json({
+      success: true,
+      data: rows
+    });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve users',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Get a user by ID
+ * @route GET /api/users/:id
+ */
+export const getUserById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ID format',
+        message: 'The ID must be a number'
+      });
+      return;
+    }
+
+    const { rows } = await query(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1`, [id]);
+
+    if (rows.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        message: `No user found with ID: ${id}`
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: rows[0]
+    });
+  } catch (error) {
+    console.error(`Error fetching user with ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve user',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Create a user
+ * @route POST /api/users
+ */
+export const createUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = req.body || {};
+    const errors = validateUserInput(body, true);
+
+    if (Object.keys(errors).length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid user data',
+        message: 'One or more fields are invalid',
+        errors
+      });
+      return;
+    }
+
+    const existing = await query('SELECT id FROM users WHERE LOWER(email) = LOWER($1)', [body.email.trim()]);
+    if (existing.rows.length > 0) {
+      res.status(409).json({
+        success: false,
+        error: 'Email already in use',
+        message: `A user with email ${body.email.trim()} already exists`
+      });
+      return;
+    }
+
+    const passwordHash = await bcrypt.hash(body.password, config.auth.bcryptRounds);
+
+    const { rows } = await query(
+      `INSERT INTO users (name, email, password_hash, role)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${USER_COLUMNS}`,
+      [body.name.trim(), body.email.trim(), passwordHash, body.role]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'User created successfully',
+      data: rows[0]
+    });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create user',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Update a user's name, email, role, password or active flag
+ * @route PUT /api/users/:id
+ */
+export const updateUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ID format',
+        message: 'The ID must be a number'
+      });
+      return;
+    }
+
+    const body = req.body || {};
+
+    // An empty password on edit means "keep the current password"
+    if (body.password === '' || body.password === null) delete body.password;
+
+    const errors = validateUserInput(body, false);
+
+    if (Object.keys(errors).length > 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid user data',
+        message: 'One or more fields are invalid',
+        errors
+      });
+      return;
+    }
+
+    if ('email' in body) {
+      const existing = await query(
+        'SELECT id FROM users WHERE LOWER(email) = LOWER($1) AND id <> $2',
+        [body.email.trim(), id]
+      );
+      if (existing.rows.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: 'Email already in use',
+          message: `A user with email ${body.email.trim()} already exists`
+        });
+        return;
+      }
+    }
+
+    const setClauses: string[] = [];
+    const queryParams: any[] = [];
+
+    if ('name' in body) {
+      queryParams.push(body.name.trim());
+      setClauses.push(`name = $${queryParams.length}`);
+    }
+    if ('email' in body) {
+      queryParams.push(body.email.trim());
+      setClauses.push(`email = $${queryParams.length}`);
+    }
+    if ('role' in body) {
+      queryParams.push(body.role);
+      setClauses.push(`role = $${queryParams.length}`);
+    }
+    if ('password' in body) {
+      queryParams.push(await bcrypt.hash(body.password, config.auth.bcryptRounds));
+      setClauses.push(`password_hash = $${queryParams.length}`);
+    }
+    if ('is_active' in body) {
+      queryParams.push(body.is_active);
+      setClauses.push(`is_active = $${queryParams.length}`);
+      setClauses.push(body.is_active ? 'deactivated_at = NULL' : 'deactivated_at = COALESCE(deactivated_at, NOW())');
+    }
+
+    if (setClauses.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'No valid fields to update',
+        message: 'Request must include at least one valid field to update'
+      });
+      return;
+    }
+
+    const outcome = await withTransaction(async client => {
+      // Locked before the check so the check still holds when the update commits
+      const activeAdmins = await lockActiveAdmins(client);
+
+      const current = await client.query('SELECT id FROM users WHERE id = $1', [id]);
+      if (current.rows.length === 0) return { status: 'not_found' as const };
+
+      const losesAdmin = ('role' in body && body.role !== 'admin') || body.is_active === false;
+      if (losesAdmin && isLastAdmin(activeAdmins, id)) return { status: 'last_admin' as const };
+
+      queryParams.push(id);
+      const { rows } = await client.query(
+        `UPDATE users
+         SET ${setClauses.join(', ')}, updated_at = NOW()
+         WHERE id = $${queryParams.length}
+         RETURNING ${USER_COLUMNS}`,
+        queryParams
+      );
+
+      // A deactivated user or a changed password should end existing sessions
+      if (body.is_active === false || 'password' in body) {
+        await client.query('UPDATE refresh_tokens SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [id]);
+      }
+
+      return { status: 'updated' as const, user: rows[0] };
+    });
+
+    if (outcome.status === 'not_found') {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        message: `No user found with ID: ${id}`
+      });
+      return;
+    }
+
+    if (outcome.status === 'last_admin') {
+      res.status(409).json({
+        success: false,
+        error: 'Last admin',
+        message: 'The last active admin cannot be demoted or deactivated'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'User updated successfully',
+      data: outcome.user
+    });
+  } catch (error) {
+    console.error(`Error updating user with ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update user',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Deactivate a user (users are never hard-deleted so change history stays attributable)
+ * @route DELETE /api/users/:id
+ */
+export const deactivateUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid ID format',
+        message: 'The ID must be a number'
+      });
+      return;
+    }
+
+    const outcome = await withTransaction(async client => {
+      // Locked before the check so the check still holds when the update commits
+      const activeAdmins = await lockActiveAdmins(client);
+
+      const current = await client.query('SELECT id FROM users WHERE id = $1', [id]);
+      if (current.rows.length === 0) return { status: 'not_found' as const };
+
+      if (isLastAdmin(activeAdmins, id)) return { status: 'last_admin' as const };
+
+      const { rows } = await client.query(
+        `UPDATE users
+         SET is_active = FALSE, deactivated_at = COALESCE(deactivated_at, NOW()), updated_at = NOW()
+         WHERE id = $1
+         RETURNING ${USER_COLUMNS}`,
+        [id]
+      );
+
+      await client.query('UPDATE refresh_tokens SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [id]);
+
+      return { status: 'deactivated' as const, user: rows[0] };
+    });
+
+    if (outcome.status === 'not_found') {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+        message: `No user found with ID: ${id}`
+      });
+      return;
+    }
+
+    if (outcome.status === 'last_admin') {
+      res.status(409).json({
+        success: false,
+        error: 'Last admin',
+        message: 'The last active admin cannot be demoted or deactivated'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'User deactivated successfully',
+      data: outcome.user
+    });
+  } catch (error) {
+    console.error(`Error deactivating user with ID ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to deactivate user',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
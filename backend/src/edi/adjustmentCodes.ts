@@ -0,0 +1,151 @@
+/**
+ * Claim Adjustment Reason Codes (CARC) and Remittance Advice Remark Codes (RARC)
+ * A bundled subset of the X12 code lists covering the reasons seen most often on denials
+ * Descriptions are abridged; codes outside this list are still accepted and shown without one
+ */
+
+export type RootCause =
+  | 'eligibility'
+  | 'authorization'
+  | 'coding'
+  | 'medical_necessity'
+  | 'timely_filing'
+  | 'duplicate'
+  | 'coordination_of_benefits'
+  | 'missing_information'
+  | 'bundling'
+  | 'non_covered'
+  | 'provider_enrollment'
+  | 'other';
+
+export const ROOT_CAUSES: Record<RootCause, string> = {
+  eligibility: 'Eligibility / coverage',
+  authorization: 'Authorization / referral',
+  coding: 'Coding error',
+  medical_necessity: 'Medical necessity',
+  timely_filing: 'Timely filing',
+  duplicate: 'Duplicate claim',
+  coordination_of_benefits: 'Coordination of benefits',
+  missing_information: 'Missing or invalid information',
+  bundling: 'Bundling / NCCI edits',
+  non_covered: 'Non-covered service',
+  provider_enrollment: 'Provider enrollment / credentialing',
+  other: 'Other'
+};
+
+export const isRootCause = (value: unknown): value is RootCause =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROOT_CAUSES, value);
+
+interface CarcEntry {
+  description: string;
+  rootCause: RootCause;
+}
+
+export const CARC_CODES: Record<string, CarcEntry> = {
+  '1': { description: 'Deductible amount', rootCause: 'other' },
+  '2': { description: 'Coinsurance amount', rootCause: 'other' },
+  '3': { description: 'Co-payment amount', rootCause: 'other' },
+  '4': { description: 'Procedure code is inconsistent with the modifier used, or a required modifier is missing', rootCause: 'coding' },
+  '5': { description: 'Procedure code/type of bill is inconsistent with the place of service', rootCause: 'coding' },
+  '6': { description: 'Procedure/revenue code is inconsistent with the patient\'s age', rootCause: 'coding' },
+  '7': { description: 'Procedure/revenue code is inconsistent with the patient\'s gender', rootCause: 'coding' },
+  '8': { description: 'Procedure code is inconsistent with the provider type/specialty', rootCause: 'coding' },
+  '9': { description: 'Diagnosis is inconsistent with the patient\'s age', rootCause: 'coding' },
+  '10': { description: 'Diagnosis is inconsistent with the patient\'s gender', rootCause: 'coding' },
+  '11': { description: 'Diagnosis is inconsistent with the procedure', rootCause: 'coding' },
+  '12': { description: 'Diagnosis is inconsistent with the provider type', rootCause: 'coding' },
+  '13': { description: 'Date of death precedes the date of service', rootCause: 'eligibility' },
+  '14': { description: 'Date of birth follows the date of service', rootCause: 'missing_information' },
+  '15': { description: 'Authorization number is missing, invalid, or does not apply to the billed services or provider', rootCause: 'authorization' },
+  '16': { description: 'Claim/service lacks information or has submission/billing errors', rootCause: 'missing_information' },
+  '18': { description: 'Exact duplicate claim/service', rootCause: 'duplicate' },
+  '19': { description: 'Work-related injury/illness; liability of the Workers\' Compensation carrier', rootCause: 'coordination_of_benefits' },
+  '20': { description: 'Injury/illness is covered by the liability carrier', rootCause: 'coordination_of_benefits' },
+  '22': { description: 'Care may be covered by another payer per coordination of benefits', rootCause: 'coordination_of_benefits' },
+  '23': { description: 'Impact of prior payer(s) adjudication, including payments and/or adjustments', rootCause: 'coordination_of_benefits' },
+  '24': { description: 'Charges are covered under a capitation agreement/managed care plan', rootCause: 'non_covered' },
+  '26': { description: 'Expenses incurred prior to coverage', rootCause: 'eligibility' },
+  '27': { description: 'Expenses incurred after coverage terminated', rootCause: 'eligibility' },
+  '29': { description: 'The time limit for filing has expired', rootCause: 'timely_filing' },
+  '31': { description: 'Patient cannot be identified as our insured', rootCause: 'eligibility' },
+  '32': { description: 'Patient is not an eligible dependent', rootCause: 'eligibility' },
+  '33': { description: 'Insured has no dependent coverage', rootCause: 'eligibility' },
+  '35': { description: 'Lifetime benefit maximum has been reached', rootCause: 'non_covered' },
+  '39': { description: 'Services denied at the time authorization/pre-certification was requested', rootCause: 'authorization' },
+  '40': { description: 'Charges do not meet qualifications for emergent/urgent care', rootCause: 'medical_necessity' },
+  '45': { description: 'Charge exceeds fee schedule/maximum allowable or contracted fee arrangement', rootCause: 'other' },
+  '49': { description: 'Non-covered routine/preventive exam or screening done with one', rootCause: 'non_covered' },
+  '50': { description: 'Non-covered: not deemed a medical necessity by the payer', rootCause: 'medical_necessity' },
+  '51': { description: 'Non-covered: pre-existing condition', rootCause: 'non_covered' },
+  '54': { description: 'Multiple physicians/assistants are not covered in this case', rootCause: 'non_covered' },
+  '55': { description: 'Procedure/treatment/drug is deemed experimental/investigational by the payer', rootCause: 'medical_necessity' },
+  '56': { description: 'Procedure/treatment has not been deemed proven to be effective by the payer', rootCause: 'medical_necessity' },
+  '58': { description: 'Rendered in an inappropriate or invalid place of service', rootCause: 'coding' },
+  '59': { description: 'Processed based on multiple or concurrent procedure rules', rootCause: 'bundling' },
+  '96': { description: 'Non-covered charge(s)', rootCause: 'non_covered' },
+  '97': { description: 'Benefit is included in the payment/allowance for another service already adjudicated', rootCause: 'bundling' },
+  '109': { description: 'Claim/service not covered by this payer; send to the correct payer', rootCause: 'coordination_of_benefits' },
+  '119': { description: 'Benefit maximum for this time period or occurrence has been reached', rootCause: 'non_covered' },
+  '125': { description: 'Submission/billing error(s)', rootCause: 'missing_information' },
+  '129': { description: 'Prior processing information appears incorrect', rootCause: 'coordination_of_benefits' },
+  '140': { description: 'Patient/insured health identification number and name do not match', rootCause: 'eligibility' },
+  '146': { description: 'Diagnosis was invalid for the date(s) of service reported', rootCause: 'coding' },
+  '151': { description: 'Information submitted does not support this many/frequency of services', rootCause: 'medical_necessity' },
+  '167': { description: 'Diagnosis(es) not covered', rootCause: 'medical_necessity' },
+  '170': { description: 'Payment is denied when performed/billed by this type of provider', rootCause: 'provider_enrollment' },
+  '181': { description: 'Procedure code was invalid on the date of service', rootCause: 'coding' },
+  '182': { description: 'Procedure modifier was invalid on the date of service', rootCause: 'coding' },
+  '183': { description: 'Referring provider is not eligible to refer the service billed', rootCause: 'authorization' },
+  '185': { description: 'Rendering provider is not eligible to perform the service billed', rootCause: 'provider_enrollment' },
+  '197': { description: 'Precertification/authorization/notification absent', rootCause: 'authorization' },
+  '198': { description: 'Precertification/authorization/notification exceeded', rootCause: 'authorization' },
+  '204': { description: 'Service/equipment/drug is not covered under the patient\'s current benefit plan', rootCause: 'non_covered' },
+  '226': { description: 'Information requested from the billing/rendering provider was not provided or was incomplete', rootCause: 'missing_information' },
+  '227': { description: 'Information requested from the patient/insured was not provided or was incomplete', rootCause: 'missing_information' },
+  '234': { description: 'This procedure is not paid separately', rootCause: 'bundling' },
+  '236': { description: 'Procedure or procedure/modifier combination is not compatible with another on the same day (NCCI)', rootCause: 'bundling' },
+  '242': { description: 'Services not provided by network/primary care providers', rootCause: 'provider_enrollment' },
+  '252': { description: 'An attachment/other documentation is required to adjudicate this claim/service', rootCause: 'missing_information' },
+  'A1': { description: 'Claim/service denied', rootCause: 'other' },
+  'B7': { description: 'Provider was not certified/eligible to be paid for this service on this date of service', rootCause: 'provider_enrollment' },
+  'B9': { description: 'Patient is enrolled in a hospice', rootCause: 'eligibility' },
+  'B15': { description: 'Service requires that a qualifying service be received and covered', rootCause: 'bundling' },
+  'B16': { description: '"New patient" qualifications were not met', rootCause: 'coding' }
+};
+
+export const RARC_CODES: Record<string, string> = {
+  'M15': 'Separately billed services/tests have been bundled as components of the same procedure',
+  'M20': 'Missing/incomplete/invalid HCPCS',
+  'M51': 'Missing/incomplete/invalid procedure code(s)',
+  'M76': 'Missing/incomplete/invalid diagnosis or condition',
+  'M77': 'Missing/incomplete/invalid/inappropriate place of service',
+  'M80': 'Not covered when performed during the same session/date as a previously processed service',
+  'M86': 'Payment already made for same/similar procedure within set time frame',
+  'MA04': 'Secondary payment cannot be considered without the primary payer\'s payment information',
+  'MA18': 'Claim information is also being forwarded to the patient\'s supplemental insurer',
+  'MA130': 'Claim contains incomplete and/or invalid information; no appeal rights as the claim is unprocessable',
+  'N4': 'Missing/incomplete/invalid prior insurance carrier(s) EOB',
+  'N20': 'Service not payable with other service rendered on the same date',
+  'N30': 'Patient ineligible for this service',
+  'N54': 'Claim information is inconsistent with pre-certified/authorized services',
+  'N56': 'Procedure code billed is not correct/valid for the services or date of service billed',
+  'N115': 'Decision was based on a Local Coverage Determination (LCD)',
+  'N130': 'Consult plan benefit documents/guidelines for restrictions for this service',
+  'N180': 'Item or service does not meet the criteria for the category under which it was billed',
+  'N211': 'You may not appeal this decision',
+  'N290': 'Missing/incomplete/invalid rendering provider primary identifier',
+  'N362': 'Number of days or units of service exceeds the acceptable maximum',
+  'N386': 'Decision was based on a National Coverage Determination (NCD)',
+  'N479': 'Missing Explanation of Benefits (coordination of benefits or Medicare secondary payer)',
+  'N657': 'Should be billed with the appropriate code for these services'
+};
+
+// CARCs are 1-3 digits or a letter and digits (A1, B15, P12); RARCs are one or two letters and digits (M15, MA130, N4)
+export const CARC_PATTERN = /^(?:\d{1,3}|[A-Z]\d{1,2})$/;
+export const RARC_PATTERN = /^[A-Z]{1,2}\d{1,3}$/;
+
+/**
+ * Root cause implied by the first CARC that has one other than "other"
+ */
+export const suggestRootCause = (carcCodes: string[]): RootCause =>
+  carcCodes.map(code => CARC_CODES[code]?.rootCause).find(cause => cause && cause !== 'other') || 'other';
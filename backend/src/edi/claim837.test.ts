@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EdiConfig } from '../config';
+import Claim from '../models/Claim';
+import { build837P, groupClaimLines, validate837P } from './claim837';
+
+const EDI: EdiConfig = {
+  usageIndicator: 'T',
+  senderId: 'SENDER01',
+  receiverId: 'RECEIVER01',
+  receiverName: 'Clearinghouse',
+  submitterName: 'Example Clinic',
+  contactName: 'Billing Office',
+  contactPhone: '(555) 010-2000',
+  billingProviderName: 'Example Clinic',
+  billingProviderNpi: '1234567893',
+  billingProviderTaxId: '12-3456789',
+  billingProviderAddress: '1 Main St',
+  billingProviderCity: 'Springfield',
+  billingProviderState: 'IL',
+  billingProviderZip: '62701',
+  placeOfService: '11',
+  payerIds: { 'Acme Health': '60054' }
+};
+
+const ENVELOPE = { controlNumber: 42, createdAt: new Date(2025, 2, 4, 9, 30) };
+
+const claimLine = (overrides: Partial<Claim>): Claim => ({
+  id: 1,
+  patient_id: 100,
+  cpt_id: 1,
+  patient_emr_no: 'EMR100',
+  first_name: 'Jane',
+  last_name: 'Doe',
+  date_of_birth: '1980-05-17',
+  cpt_code: '99213',
+  service_start: '2025-02-10',
+  service_end: '2025-02-10',
+  icd_code: 'E11.9',
+  units: 1,
+  provider_name: 'Smith, John',
+  oa_claim_id: 'OA-1001',
+  oa_visit_id: null,
+  charge_dt: '2025-02-11',
+  charge_amt: 150,
+  allowed_amt: null,
+  allowed_add_amt: null,
+  allowed_exp_amt: null,
+  prim_ins: 'Acme Health',
+  prim_amt: null,
+  prim_post_dt: null,
+  prim_chk_det: null,
+  prim_recv_dt: null,
+  prim_chk_amt: null,
+  prim_cmt: null,
+  sec_ins: null,
+  sec_amt: null,
+  sec_post_dt: null,
+  sec_chk_det: null,
+  sec_recv_dt: null,
+  sec_chk_amt: null,
+  sec_cmt: null,
+  sec_denial_code: null,
+  pat_amt: null,
+  pat_recv_dt: null,
+  total_amt: 150,
+  charges_adj_amt: null,
+  write_off_amt: null,
+  bal_amt: 150,
+  reimb_pct: null,
+  claim_status: 'Pending',
+  claim_status_type: null,
+  deleted_at: null,
+  deleted_by: null,
+  row_version: 1,
+  ...overrides
+});
+
+const LINES = [
+  claimLine({ id: 1 }),
+  claimLine({ id: 2, cpt_code: '93000-26', icd_code: 'E11.9, I10', charge_amt: 45.5 }),
+  claimLine({
+    id: 3, patient_id: 101, patient_emr_no: 'EMR101', first_name: 'Sam', last_name: 'Lee',
+    oa_claim_id: null, service_end: '2025-02-12', icd_code: 'J06.9', charge_amt: 80
+  })
+];
+
+describe('build837P', () => {
+  it('builds a file that passes validation', () => {
+    const content = build837P(groupClaimLines(LINES), EDI, ENVELOPE);
+
+    assert.deepEqual(validate837P(content), []);
+  });
+
+  it('writes one claim per patient and date of service, totalling its lines', () => {
+    const content = build837P(groupClaimLines(LINES), EDI, ENVELOPE);
+    const claims = content.split('~\n').filter(segment => segment.startsWith('CLM*'));
+
+    assert.deepEqual(claims.map(segment => segment.split('*').slice(1, 3)), [
+      ['OA-1001', '195.5'],
+      ['P101D20250212', '80']
+    ]);
+  });
+
+  it('carries each line ID in REF*6R for remittance matching', () => {
+    const content = build837P(groupClaimLines(LINES), EDI, ENVELOPE);
+
+    assert.deepEqual(content.match(/REF\*6R\*\d+/g), ['REF*6R*1', 'REF*6R*2', 'REF*6R*3']);
+  });
+});
+
+describe('validate837P', () => {
+  it('reports a claim total that no longer matches its lines', () => {
+    const content = build837P(groupClaimLines(LINES), EDI, ENVELOPE).replace('CLM*OA-1001*195.5', 'CLM*OA-1001*200');
+    const issues = validate837P(content);
+
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].claim, 'OA-1001');
+    assert.match(issues[0].message, /CLM02 is 200 but the service lines add up to 195.5/);
+  });
+
+  it('reports a segment count that does not match the transaction', () => {
+    const content = build837P(groupClaimLines(LINES), EDI, ENVELOPE).replace(/SE\*\d+\*0001/, 'SE*3*0001');
+
+    assert.ok(validate837P(content).some(issue => issue.message.startsWith('SE01 says 3 segments')));
+  });
+});
@@ -0,0 +1,391 @@
+import { EdiConfig } from '../config';
+import Claim from '../models/Claim';
+import { parseX12, X12Segment } from './x12';
+
+/**
+ * ANSI X12 837P (Health Care Claim: Professional) generator and structural validator
+ * Writes one transaction with a single billing provider and one subscriber loop per claim
+ */
+
+export const IMPLEMENTATION_GUIDE = '005010X222A1';
+
+const DELIMITERS = { element: '*', component: ':', segment: '~', repetition: '^' };
+
+// X12 caps: 50 service lines per claim and 12 diagnosis codes in HI
+const MAX_LINES_PER_CLAIM = 50;
+const MAX_DIAGNOSES = 12;
+const MAX_POINTERS = 4;
+
+/**
+ * Claim lines that are billed together as one CLM
+ */
+export interface ClaimGroup {
+  patientControlNumber: string;   // CLM01, echoed back as CLP01 on the 835
+  lines: Claim[];
+}
+
+export interface EnvelopeOptions {
+  controlNumber: number;          // ISA13/GS06; ST02 is always 0001 as each file holds one transaction
+  createdAt: Date;
+}
+
+export interface ValidationIssue {
+  segment: number | null;         // 1-based segment position, or null for file-level problems
+  claim: string | null;           // CLM01 of the claim the problem is in
+  message: string;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// The delimiters can't appear in data, and receivers expect upper case
+const clean = (value: unknown): string =>
+  String(value ?? '').replace(/[*:~^\r\n]/g, ' ').replace(/\s+/g, ' ').trim().toUpperCase();
+
+const padRight = (value: string, length: number) => value.slice(0, length).padEnd(length, ' ');
+
+const ccyymmdd = (value: unknown): string => {
+  if (value instanceof Date) {
+    return `${value.getFullYear()}${pad(value.getMonth() + 1)}${pad(value.getDate())}`;
+  }
+  return String(value ?? '').slice(0, 10).replace(/-/g, '');
+};
+
+const amount = (value: unknown): string => {
+  const number = Number(value) || 0;
+  return String(Math.round(number * 100) / 100);
+};
+
+/**
+ * Split a CPT value such as "99213-25" into the code and its modifiers
+ */
+const splitProcedure = (cptCode: string): { code: string; modifiers: string[] } => {
+  const [code, ...modifiers] = clean(cptCode).split(/[-\s]+/).filter(Boolean);
+  return { code: code || '', modifiers: modifiers.slice(0, 4) };
+};
+
+/**
+ * Split an icd_code value that may hold several codes; X12 drops the decimal point
+ */
+const splitDiagnoses = (icdCode: string | null | undefined): string[] =>
+  clean(icdCode).split(/[,;\s]+/).map(code => code.replace(/\./g, '')).filter(Boolean);
+
+/**
+ * "Last, First" or "First Last" into the NM1 last and first name elements
+ */
+const splitName = (name: string): [string, string] => {
+  const cleaned = clean(name);
+  if (cleaned.includes(',')) {
+    const [last, first = ''] = cleaned.split(',').map(part => part.trim());
+    return [last, first];
+  }
+  const parts = cleaned.split(' ');
+  return parts.length > 1 ? [parts[parts.length - 1], parts.slice(0, -1).join(' ')] : [cleaned, ''];
+};
+
+/**
+ * Settings that must be filled in before a file can be generated
+ */
+export const missingEdiSettings = (edi: EdiConfig): string[] => {
+  const required: [keyof EdiConfig, string][] = [
+    ['senderId', 'EDI_SENDER_ID'],
+    ['receiverId', 'EDI_RECEIVER_ID'],
+    ['receiverName', 'EDI_RECEIVER_NAME'],
+    ['submitterName', 'EDI_SUBMITTER_NAME'],
+    ['contactName', 'EDI_CONTACT_NAME'],
+    ['contactPhone', 'EDI_CONTACT_PHONE'],
+    ['billingProviderName', 'EDI_BILLING_NAME'],
+    ['billingProviderNpi', 'EDI_BILLING_NPI'],
+    ['billingProviderTaxId', 'EDI_BILLING_TAX_ID'],
+    ['billingProviderAddress', 'EDI_BILLING_ADDRESS'],
+    ['billingProviderCity', 'EDI_BILLING_CITY'],
+    ['billingProviderState', 'EDI_BILLING_STATE'],
+    ['billingProviderZip', 'EDI_BILLING_ZIP']
+  ];
+  return required.filter(([key]) => !edi[key]).map(([, name]) => name);
+};
+
+/**
+ * Group claim lines into claims: one per patient, date of service, rendering provider and payer
+ * CLM01 is the OA claim ID when every line shares one, so remittances can be matched back
+ */
+export const groupClaimLines = (lines: Claim[]): ClaimGroup[] => {
+  const groups = new Map<string, Claim[]>();
+
+  lines.forEach(line => {
+    const key = [line.patient_id, ccyymmdd(line.service_end), clean(line.provider_name), clean(line.prim_ins)].join('|');
+    groups.set(key, [...(groups.get(key) || []), line]);
+  });
+
+  return Array.from(groups.values()).map(groupLines => {
+    const claimIds = Array.from(new Set(groupLines.map(line => line.oa_claim_id).filter(Boolean)));
+    const first = groupLines[0];
+    const patientControlNumber = claimIds.length === 1
+      ? clean(claimIds[0]).slice(0, 20)
+      : `P${first.patient_id}D${ccyymmdd(first.service_end)}`.slice(0, 20);
+
+    return { patientControlNumber, lines: groupLines };
+  });
+};
+
+/**
+ * Build an 837P interchange for the given claims
+ */
+export const build837P = (groups: ClaimGroup[], edi: EdiConfig, options: EnvelopeOptions): string => {
+  const segments: string[][] = [];
+  const add = (...elements: unknown[]) => segments.push(elements.map(element => String(element ?? '')));
+
+  const date = ccyymmdd(options.createdAt);
+  const time = `${pad(options.createdAt.getHours())}${pad(options.createdAt.getMinutes())}`;
+  const controlNumber = pad(options.controlNumber, 9);
+
+  add('ISA', '00', padRight('', 10), '00', padRight('', 10),
+    'ZZ', padRight(clean(edi.senderId), 15), 'ZZ', padRight(clean(edi.receiverId), 15),
+    date.slice(2), time, DELIMITERS.repetition, '00501', controlNumber, '1', edi.usageIndicator, DELIMITERS.component);
+  add('GS', 'HC', clean(edi.senderId), clean(edi.receiverId), date, time, options.controlNumber, 'X', IMPLEMENTATION_GUIDE);
+
+  const transactionStart = segments.length;
+  add('ST', '837', '0001', IMPLEMENTATION_GUIDE);
+  add('BHT', '0019', '00', controlNumber, date, time, 'CH');
+
+  // 1000A submitter and 1000B receiver
+  add('NM1', '41', '2', clean(edi.submitterName), '', '', '', '', '46', clean(edi.senderId));
+  add('PER', 'IC', clean(edi.contactName), 'TE', edi.contactPhone.replace(/\D/g, ''));
+  add('NM1', '40', '2', clean(edi.receiverName), '', '', '', '', '46', clean(edi.receiverId));
+
+  // 2000A billing provider
+  add('HL', '1', '', '20', groups.length > 0 ? '1' : '0');
+  add('NM1', '85', '2', clean(edi.billingProviderName), '', '', '', '', 'XX', clean(edi.billingProviderNpi));
+  add('N3', clean(edi.billingProviderAddress));
+  add('N4', clean(edi.billingProviderCity), clean(edi.billingProviderState), clean(edi.billingProviderZip));
+  add('REF', 'EI', edi.billingProviderTaxId.replace(/\D/g, ''));
+
+  groups.forEach((group, index) => {
+    const first = group.lines[0];
+    const payerName = clean(first.prim_ins);
+    const payerId = Object.entries(edi.payerIds).find(([name]) => clean(name) === payerName)?.[1] || '';
+
+    // 2000B subscriber: the patient is treated as the subscriber, identified by EMR number
+    add('HL', index + 2, '1', '22', '0');
+    add('SBR', 'P', '18', '', '', '', '', '', '', 'CI');
+    add('NM1', 'IL', '1', clean(first.last_name), clean(first.first_name), '', '', '', 'MI', clean(first.patient_emr_no || first.patient_id));
+    add('DMG', 'D8', ccyymmdd(first.date_of_birth), 'U');
+    add('NM1', 'PR', '2', payerName, '', '', '', '', 'PI', clean(payerId));
+
+    // 2300 claim, with every line's diagnoses merged into one HI
+    const diagnoses = Array.from(new Set(group.lines.flatMap(line => splitDiagnoses(line.icd_code)))).slice(0, MAX_DIAGNOSES);
+    const total = group.lines.reduce((sum, line) => sum + (Number(line.charge_amt) || 0), 0);
+
+    add('CLM', group.patientControlNumber, amount(total), '', '',
+      [edi.placeOfService, 'B', '1'].join(DELIMITERS.component), 'Y', 'A', 'Y', 'Y');
+    add('HI', ...diagnoses.map((code, position) => [position === 0 ? 'ABK' : 'ABF', code].join(DELIMITERS.component)));
+
+    // 2310B rendering provider, by name only as NPIs aren't stored per provider
+    if (first.provider_name) {
+      const [last, firstName] = splitName(first.provider_name);
+      add('NM1', '82', '1', last, firstName);
+    }
+
+    // 2400 service lines; REF*6R carries our line ID so the 835 can be matched line by line
+    group.lines.forEach((line, lineIndex) => {
+      const { code, modifiers } = splitProcedure(line.cpt_code);
+      const pointers = splitDiagnoses(line.icd_code)
+        .map(diagnosis => diagnoses.indexOf(diagnosis) + 1)
+        .filter(pointer => pointer > 0)
+        .slice(0, MAX_POINTERS);
+
+      add('LX', lineIndex + 1);
+      add('SV1', ['HC', code, ...modifiers].join(DELIMITERS.component), amount(line.charge_amt), 'UN',
+        Number(line.units) || 1, '', '', (pointers.length > 0 ? pointers : [1]).join(DELIMITERS.component));
+      add('DTP', '472', 'D8', ccyymmdd(line.service_end));
+      add('REF', '6R', line.id);
+    });
+  });
+
+  add('SE', segments.length - transactionStart + 1, '0001');
+  add('GE', '1', options.controlNumber);
+  add('IEA', '1', controlNumber);
+
+  // Trailing empty elements are dropped, as X12 requires
+  return segments
+    .map(elements => {
+      let end = elements.length;
+      while (end > 1 && elements[end - 1] === '') end--;
+      return elements.slice(0, end).join(DELIMITERS.element);
+    })
+    .join(DELIMITERS.segment + '\n') + DELIMITERS.segment + '\n';
+};
+
+/**
+ * Check an 837P file's structure: envelopes, counts, control numbers, HL hierarchy,
+ * required loops and elements, and that each claim total equals its lines
+ * This is not a full implementation guide compliance check
+ */
+export const validate837P = (content: string): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  let currentClaim: string | null = null;
+  const fail = (segment: number | null, message: string) => issues.push({ segment, claim: currentClaim, message });
+
+  let segments: X12Segment[];
+  let component: string;
+  try {
+    const parsed = parseX12(content);
+    segments = parsed.segments;
+    component = parsed.delimiters.component;
+  } catch (error) {
+    return [{ segment: null, claim: null, message: error instanceof Error ? error.message : 'File could not be read' }];
+  }
+
+  const ids = segments.map(segment => segment[0].trim());
+  const find = (id: string) => ids.indexOf(id);
+  const element = (index: number, position: number) => (index >= 0 ? segments[index][position] || '' : '');
+
+  // Envelopes
+  const isa = find('ISA'), gs = find('GS'), st = find('ST'), se = find('SE'), ge = find('GE'), iea = find('IEA');
+  if (isa !== 0) fail(null, 'File must start with an ISA segment');
+  if (iea !== segments.length - 1) fail(null, 'File must end with an IEA segment');
+  if (gs < 0 || ge < 0) fail(null, 'Missing GS/GE functional group');
+  if (st < 0 || se < 0) return [...issues, { segment: null, claim: null, message: 'Missing ST/SE transaction set' }];
+
+  if (ids.filter(id => id === 'ST').length !== 1) fail(null, 'Expected exactly one ST transaction set');
+  if (isa === 0 && segments[0].length !== 17) fail(1, 'ISA must have 16 elements');
+  if (element(isa, 13).trim() !== element(iea, 2).trim()) fail(iea + 1, 'IEA02 does not match the ISA13 control number');
+  if (element(gs, 6) !== element(ge, 2)) fail(ge + 1, 'GE02 does not match the GS06 control number');
+  if (element(st, 2) !== element(se, 2)) fail(se + 1, 'SE02 does not match the ST02 control number');
+  if (element(ge, 1) !== '1') fail(ge + 1, 'GE01 must count one transaction set');
+  if (element(iea, 1) !== '1') fail(iea + 1, 'IEA01 must count one functional group');
+  if (element(st, 1) !== '837') fail(st + 1, 'ST01 must be 837');
+  if (element(st, 3) !== IMPLEMENTATION_GUIDE || element(gs, 8) !== IMPLEMENTATION_GUIDE) {
+    fail(st + 1, `ST03 and GS08 must be ${IMPLEMENTATION_GUIDE}`);
+  }
+  if (Number(element(se, 1)) !== se - st + 1) {
+    fail(se + 1, `SE01 says ${element(se, 1)} segments but the transaction has ${se - st + 1}`);
+  }
+
+  // Submitter, receiver and billing provider
+  const requireSegment = (id: string, qualifier: string | null, label: string, requiredElements: number[]) => {
+    const index = segments.findIndex((segment, i) => i > st && i < se && segment[0] === id && (qualifier === null || segment[1] === qualifier));
+    if (index < 0) {
+      fail(null, `Missing ${label}`);
+      return;
+    }
+    requiredElements.forEach(position => {
+      if (!element(index, position)) fail(index + 1, `${label} is missing ${id}${pad(position)}`);
+    });
+  };
+  requireSegment('NM1', '41', 'submitter name (NM1*41)', [3, 9]);
+  requireSegment('PER', 'IC', 'submitter contact (PER*IC)', [2, 4]);
+  requireSegment('NM1', '40', 'receiver name (NM1*40)', [3, 9]);
+  requireSegment('NM1', '85', 'billing provider (NM1*85)', [3, 9]);
+  requireSegment('N3', null, 'billing provider address (N3)', [1]);
+  requireSegment('N4', null, 'billing provider city/state/ZIP (N4)', [1, 2, 3]);
+  requireSegment('REF', 'EI', 'billing provider tax ID (REF*EI)', [2]);
+
+  // HL hierarchy and the claims within each subscriber loop
+  const hlIds = new Set<string>();
+  let expectedHl = 1;
+  let claim: { index: number; total: number; lineTotal: number; lines: number; diagnoses: number } | null = null;
+  let subscriber: { index: number; hasSbr: boolean; hasPayerId: boolean; claims: number } | null = null;
+
+  const closeClaim = () => {
+    if (!claim) return;
+    if (claim.lines === 0) fail(claim.index + 1, 'Claim has no service lines');
+    if (claim.lines > MAX_LINES_PER_CLAIM) fail(claim.index + 1, `Claim has more than ${MAX_LINES_PER_CLAIM} service lines`);
+    if (claim.diagnoses === 0) fail(claim.index + 1, 'Claim has no diagnosis codes (HI)');
+    if (Math.abs(claim.total - claim.lineTotal) >= 0.005) {
+      fail(claim.index + 1, `CLM02 is ${claim.total} but the service lines add up to ${Math.round(claim.lineTotal * 100) / 100}`);
+    }
+    claim = null;
+  };
+
+  const closeSubscriber = () => {
+    closeClaim();
+    if (!subscriber) return;
+    if (!subscriber.hasSbr) fail(subscriber.index + 1, 'Subscriber loop has no SBR segment');
+    if (!subscriber.hasPayerId) fail(subscriber.index + 1, 'Subscriber loop has no payer ID (NM1*PR NM109)');
+    if (subscriber.claims === 0) fail(subscriber.index + 1, 'Subscriber loop has no claims');
+    subscriber = null;
+  };
+
+  let expectedLine = 1;
+  for (let index = st + 1; index < se; index++) {
+    const segment = segments[index];
+
+    switch (segment[0]) {
+      case 'HL':
+        closeSubscriber();
+        currentClaim = null;
+        if (segment[1] !== String(expectedHl)) fail(index + 1, `HL01 should be ${expectedHl}`);
+        if (segment[2] && !hlIds.has(segment[2])) fail(index + 1, `HL02 refers to unknown parent ${segment[2]}`);
+        hlIds.add(segment[1]);
+        expectedHl++;
+        if (segment[3] === '22') subscriber = { index, hasSbr: false, hasPayerId: false, claims: 0 };
+        else if (segment[3] !== '20') fail(index + 1, `Unexpected HL level code ${segment[3]}`);
+        break;
+
+      case 'SBR':
+        if (subscriber) subscriber.hasSbr = true;
+        break;
+
+      case 'NM1':
+        if (subscriber && segment[1] === 'PR' && segment[9]) subscriber.hasPayerId = true;
+        if (subscriber && segment[1] === 'IL' && !segment[3]) fail(index + 1, 'Subscriber has no last name');
+        break;
+
+      case 'CLM':
+        closeClaim();
+        if (!subscriber) {
+          fail(index + 1, 'CLM appears outside a subscriber loop');
+          break;
+        }
+        subscriber.claims++;
+        currentClaim = segment[1] || null;
+        if (!segment[1]) fail(index + 1, 'CLM01 patient control number is empty');
+        if ((segment[1] || '').length > 20) fail(index + 1, 'CLM01 is longer than 20 characters');
+        claim = { index, total: Number(segment[2]) || 0, lineTotal: 0, lines: 0, diagnoses: 0 };
+        expectedLine = 1;
+        break;
+
+      case 'HI':
+        if (claim) claim.diagnoses = segment.slice(1).filter(Boolean).length;
+        break;
+
+      case 'LX':
+        if (!claim) {
+          fail(index + 1, 'LX appears outside a claim');
+          break;
+        }
+        if (segment[1] !== String(expectedLine)) fail(index + 1, `LX01 should be ${expectedLine}`);
+        expectedLine++;
+        claim.lines++;
+        break;
+
+      case 'SV1': {
+        if (!claim) {
+          fail(index + 1, 'SV1 appears outside a claim');
+          break;
+        }
+        const [qualifier, code] = (segment[1] || '').split(component);
+        if (qualifier !== 'HC' || !code) fail(index + 1, 'SV1 has no HCPCS/CPT procedure code');
+        const charge = Number(segment[2]);
+        if (!(charge > 0)) fail(index + 1, 'SV1 charge must be greater than zero');
+        if (!(Number(segment[4]) > 0)) fail(index + 1, 'SV1 units must be greater than zero');
+        const maxPointer = claim.diagnoses;
+        (segment[7] || '').split(component).filter(Boolean).forEach(pointer => {
+          if (Number(pointer) > maxPointer) fail(index + 1, `Diagnosis pointer ${pointer} has no matching HI code`);
+        });
+        if (segments[index + 1]?.[0] !== 'DTP' || segments[index + 1]?.[1] !== '472' || !/^\d{8}$/.test(segments[index + 1]?.[3] || '')) {
+          fail(index + 1, 'Service line has no date of service (DTP*472)');
+        }
+        claim.lineTotal += Number.isFinite(charge) ? charge : 0;
+        break;
+      }
+    }
+  }
+  closeSubscriber();
+  currentClaim = null;
+
+  if (!ids.includes('CLM')) fail(null, 'File contains no claims');
+
+  // Report in file order, with file-level problems first
+  return issues.sort((a, b) => (a.segment ?? 0) - (b.segment ?? 0));
+};
@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseEra835, REVERSAL_STATUS } from './era835';
+
+// ISA is fixed width; '>' as the component separator checks that delimiters are read from the header
+const ISA = ['ISA', '00', ''.padEnd(10), '00', ''.padEnd(10), 'ZZ', 'ACMEHEALTH'.padEnd(15), 'ZZ', 'SENDER01'.padEnd(15),
+  '250304', '0930', '^', '00501', '000000123', '0', 'P', '>'].join('*');
+
+const REMITTANCE = [
+  ISA,
+  'GS*HP*ACMEHEALTH*SENDER01*20250304*0930*123*X*005010X221A1',
+  'ST*835*0001',
+  'BPR*I*175.5*C*CHK************20250304',
+  'TRN*1*CHK10045*1512345678',
+  'N1*PR*ACME HEALTH',
+  'N1*PE*EXAMPLE CLINIC*XX*1234567893',
+  'CLP*OA-1001*1*195.5*120.5*25*12*PCN7788',
+  'NM1*QC*1*DOE*JANE****MI*EMR100',
+  'DTM*232*20250210',
+  'SVC*HC>99213*150*100**1',
+  'DTM*472*20250210',
+  'CAS*CO*45*30',
+  'CAS*PR*2*20',
+  'REF*6R*1',
+  'AMT*B6*120',
+  'SVC*HC>93000>26*45.5*20.5',
+  'DTM*472*20250210',
+  'CAS*CO*45*20*1*97*5',
+  'REF*6R*2',
+  'CLP*P101D20250212*22*-80*-55**12*PCN7790',
+  'CAS*OA*23*-25',
+  'SE*22*0001',
+  'GE*1*123',
+  'IEA*1*000000123'
+].join('~\n') + '~\n';
+
+describe('parseEra835', () => {
+  it('reads the payment, payer and payee of each transaction', () => {
+    const [transaction, ...rest] = parseEra835(REMITTANCE);
+
+    assert.equal(rest.length, 0);
+    assert.equal(transaction.paymentAmount, 175.5);
+    assert.equal(transaction.creditDebit, 'C');
+    assert.equal(transaction.paymentMethod, 'CHK');
+    assert.equal(transaction.paymentDate, '2025-03-04');
+    assert.equal(transaction.traceNumber, 'CHK10045');
+    assert.equal(transaction.payerId, '1512345678');
+    assert.equal(transaction.payerName, 'ACME HEALTH');
+    assert.equal(transaction.payeeName, 'EXAMPLE CLINIC');
+  });
+
+  it('reads claims with their service lines, adjustments and line control numbers', () => {
+    const [claim] = parseEra835(REMITTANCE)[0].claims;
+
+    assert.equal(claim.patientControlNumber, 'OA-1001');
+    assert.equal(claim.paidAmount, 120.5);
+    assert.equal(claim.patientResponsibility, 25);
+    assert.equal(claim.payerClaimControlNumber, 'PCN7788');
+    assert.equal(claim.patientName, 'JANE DOE');
+    assert.equal(claim.statementFrom, '2025-02-10');
+
+    const [office, ekg] = claim.services;
+    assert.equal(office.procedureCode, '99213');
+    assert.equal(office.units, 1);
+    assert.equal(office.serviceDate, '2025-02-10');
+    assert.equal(office.allowedAmount, 120);
+    assert.equal(office.lineControlNumber, '1');
+    assert.deepEqual(office.adjustments, [
+      { group: 'CO', reason: '45', amount: 30, quantity: null },
+      { group: 'PR', reason: '2', amount: 20, quantity: null }
+    ]);
+
+    assert.equal(ekg.procedureCode, '93000');
+    assert.deepEqual(ekg.modifiers, ['26']);
+    assert.equal(ekg.lineControlNumber, '2');
+    assert.deepEqual(ekg.adjustments, [
+      { group: 'CO', reason: '45', amount: 20, quantity: 1 },
+      { group: 'CO', reason: '97', amount: 5, quantity: null }
+    ]);
+  });
+
+  it('keeps claim-level adjustments and negative amounts on reversals', () => {
+    const reversal = parseEra835(REMITTANCE)[0].claims[1];
+
+    assert.equal(reversal.status, REVERSAL_STATUS);
+    assert.equal(reversal.chargeAmount, -80);
+    assert.equal(reversal.paidAmount, -55);
+    assert.deepEqual(reversal.services, []);
+    assert.deepEqual(reversal.adjustments, [{ group: 'OA', reason: '23', amount: -25, quantity: null }]);
+  });
+
+  it('rejects files that are not 835 remittances', () => {
+    assert.throws(() => parseEra835(REMITTANCE.replace('ST*835', 'ST*837')), /is not an 835 remittance/);
+    assert.throws(() => parseEra835('GS*HP~GE*0~'), /contains no 835 transactions/);
+    assert.throws(() => parseEra835(REMITTANCE.replace('CAS*PR', 'CAS*XX')), /unknown group code "XX"/);
+  });
+});
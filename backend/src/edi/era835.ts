@@ -0,0 +1,227 @@
+import { parseX12, x12Amount, x12Date, X12Segment } from './x12';
+
+/**
+ * ANSI X12 835 (Health Care Claim Payment/Advice) parser
+ * Covers the segments needed for posting: BPR, TRN, N1, CLP, NM1, SVC, CAS, DTM, AMT and REF
+ */
+
+// CAS group codes: CO contractual, PR patient responsibility, OA other, PI payer initiated, CR correction
+export type AdjustmentGroup = 'CO' | 'PR' | 'OA' | 'PI' | 'CR';
+
+export interface EraAdjustment {
+  group: AdjustmentGroup;
+  reason: string;      // CARC code
+  amount: number;
+  quantity: number | null;
+}
+
+export interface EraServiceLine {
+  procedureCode: string;
+  modifiers: string[];
+  chargeAmount: number;
+  paidAmount: number;
+  units: number | null;
+  serviceDate: string | null;
+  allowedAmount: number | null;
+  lineControlNumber: string | null;  // REF*6R, echoed from the claim we sent
+  adjustments: EraAdjustment[];
+}
+
+export interface EraClaim {
+  patientControlNumber: string;      // CLP01, our claim ID as submitted
+  status: string;                    // CLP02 claim status code
+  chargeAmount: number;
+  paidAmount: number;
+  patientResponsibility: number;
+  payerClaimControlNumber: string | null;
+  patientName: string | null;
+  statementFrom: string | null;
+  statementTo: string | null;
+  adjustments: EraAdjustment[];      // claim-level CAS
+  services: EraServiceLine[];
+}
+
+export interface EraTransaction {
+  paymentAmount: number;
+  creditDebit: string;               // C credit, D debit
+  paymentMethod: string;             // CHK, ACH, BOP, FWT or NON
+  paymentDate: string | null;
+  traceNumber: string | null;        // check or EFT trace number
+  payerId: string | null;
+  payerName: string | null;
+  payeeName: string | null;
+  claims: EraClaim[];
+}
+
+const ADJUSTMENT_GROUPS: AdjustmentGroup[] = ['CO', 'PR', 'OA', 'PI', 'CR'];
+
+// CLP02 codes for claims processed as secondary (2) or forwarded after secondary processing (20)
+const SECONDARY_STATUSES = ['2', '20'];
+
+// CLP02 code for a reversal of a previously paid claim
+export const REVERSAL_STATUS = '22';
+
+export const isSecondaryStatus = (status: string) => SECONDARY_STATUSES.includes(status);
+
+/**
+ * Read a CAS segment: a group code followed by up to six reason/amount/quantity triplets
+ */
+const readAdjustments = (segment: X12Segment): EraAdjustment[] => {
+  const group = segment[1] as AdjustmentGroup;
+  if (!ADJUSTMENT_GROUPS.includes(group)) {
+    throw new Error(`CAS segment has unknown group code "${segment[1]}"`);
+  }
+
+  const adjustments: EraAdjustment[] = [];
+  for (let i = 2; i < segment.length; i += 3) {
+    if (!segment[i]) continue;
+    adjustments.push({
+      group,
+      reason: segment[i],
+      amount: x12Amount(segment[i + 1]),
+      quantity: segment[i + 2] ? x12Amount(segment[i + 2]) : null
+    });
+  }
+  return adjustments;
+};
+
+/**
+ * Parse an 835 file into one entry per ST/SE transaction (one payment each)
+ */
+export const parseEra835 = (raw: string): EraTransaction[] => {
+  const { delimiters, segments } = parseX12(raw);
+
+  const transactions: EraTransaction[] = [];
+  let transaction: EraTransaction | null = null;
+  let claim: EraClaim | null = null;
+  let service: EraServiceLine | null = null;
+
+  segments.forEach((segment, index) => {
+    const id = segment[0].trim();
+    const where = `segment ${index + 1} (${id})`;
+
+    if (id === 'ST') {
+      if (segment[1] !== '835') {
+        throw new Error(`Transaction set ${segment[1]} is not an 835 remittance`);
+      }
+      transaction = {
+        paymentAmount: 0,
+        creditDebit: 'C',
+        paymentMethod: '',
+        paymentDate: null,
+        traceNumber: null,
+        payerId: null,
+        payerName: null,
+        payeeName: null,
+        claims: []
+      };
+      transactions.push(transaction);
+      claim = null;
+      service = null;
+      return;
+    }
+
+    // Envelope segments outside a transaction carry nothing we post
+    if (!transaction) return;
+    const current: EraTransaction = transaction;
+
+    switch (id) {
+      case 'BPR':
+        current.paymentAmount = x12Amount(segment[2]);
+        current.creditDebit = segment[3] || 'C';
+        current.paymentMethod = segment[4] || '';
+        current.paymentDate = x12Date(segment[16]);
+        break;
+
+      case 'TRN':
+        current.traceNumber = segment[2] || null;
+        current.payerId = segment[3] || null;
+        break;
+
+      case 'N1':
+        if (segment[1] === 'PR') current.payerName = segment[2] || null;
+        if (segment[1] === 'PE') current.payeeName = segment[2] || null;
+        break;
+
+      case 'CLP':
+        if (!segment[1]) throw new Error(`${where} has no patient control number`);
+        claim = {
+          patientControlNumber: segment[1],
+          status: segment[2] || '',
+          chargeAmount: x12Amount(segment[3]),
+          paidAmount: x12Amount(segment[4]),
+          patientResponsibility: x12Amount(segment[5]),
+          payerClaimControlNumber: segment[7] || null,
+          patientName: null,
+          statementFrom: null,
+          statementTo: null,
+          adjustments: [],
+          services: []
+        };
+        current.claims.push(claim);
+        service = null;
+        break;
+
+      case 'NM1':
+        if (claim && segment[1] === 'QC') {
+          claim.patientName = [segment[4], segment[3]].filter(Boolean).join(' ') || null;
+        }
+        break;
+
+      case 'SVC': {
+        if (!claim) throw new Error(`${where} appears before any CLP segment`);
+        // SVC01 is a composite: qualifier, procedure code, then up to four modifiers
+        const [, procedureCode = '', ...modifiers] = (segment[1] || '').split(delimiters.component);
+        service = {
+          procedureCode,
+          modifiers: modifiers.filter(Boolean),
+          chargeAmount: x12Amount(segment[2]),
+          paidAmount: x12Amount(segment[3]),
+          units: segment[5] ? x12Amount(segment[5]) : null,
+          serviceDate: null,
+          allowedAmount: null,
+          lineControlNumber: null,
+          adjustments: []
+        };
+        (claim as EraClaim).services.push(service);
+        break;
+      }
+
+      case 'CAS':
+        if (service) service.adjustments.push(...readAdjustments(segment));
+        else if (claim) claim.adjustments.push(...readAdjustments(segment));
+        break;
+
+      case 'DTM':
+        // 472 service date and 150 service period start are line dates; 232/233 are the claim statement period
+        if (service && (segment[1] === '472' || segment[1] === '150')) {
+          service.serviceDate = x12Date(segment[2]);
+        } else if (claim && !service && segment[1] === '232') {
+          claim.statementFrom = x12Date(segment[2]);
+        } else if (claim && !service && segment[1] === '233') {
+          claim.statementTo = x12Date(segment[2]);
+        }
+        break;
+
+      case 'AMT':
+        if (service && segment[1] === 'B6') service.allowedAmount = x12Amount(segment[2]);
+        break;
+
+      case 'REF':
+        if (service && segment[1] === '6R') service.lineControlNumber = segment[2] || null;
+        break;
+
+      case 'SE':
+        transaction = null;
+        claim = null;
+        service = null;
+        break;
+    }
+  });
+
+  if (transactions.length === 0) {
+    throw new Error('File contains no 835 transactions (ST*835)');
+  }
+
+  return transactions;
+};
@@ -0,0 +1,71 @@
+/**
+ * Minimal ANSI X12 reader
+ * Splits an interchange into segments using the delimiters declared in its ISA header
+ */
+export interface X12Delimiters {
+  element: string;
+  component: string;
+  segment: string;
+}
+
+// A segment as its elements, starting with the segment ID: ['CLP', '1234', '1', ...]
+export type X12Segment = string[];
+
+// ISA is fixed width, so the delimiters sit at known offsets
+const ISA_LENGTH = 106;
+
+const DEFAULT_DELIMITERS: X12Delimiters = { element: '*', component: ':', segment: '~' };
+
+/**
+ * Read the delimiters from the ISA header, falling back to the common defaults for bare transactions
+ */
+export const readDelimiters = (text: string): X12Delimiters => {
+  if (!text.startsWith('ISA')) return DEFAULT_DELIMITERS;
+
+  if (text.length < ISA_LENGTH) {
+    throw new Error('ISA header is truncated');
+  }
+
+  return {
+    element: text[3],
+    component: text[104],
+    segment: text[105]
+  };
+};
+
+/**
+ * Split X12 text into segments
+ * Line breaks after segment terminators are common and ignored
+ */
+export const parseX12 = (raw: string): { delimiters: X12Delimiters; segments: X12Segment[] } => {
+  const text = raw.replace(/^\uFEFF/, '').trimStart();
+  const delimiters = readDelimiters(text);
+
+  const segments = text
+    .split(delimiters.segment)
+    .map(segment => segment.replace(/^[\r\n]+|[\r\n]+$/g, ''))
+    .filter(segment => segment.trim() !== '')
+    .map(segment => segment.split(delimiters.element));
+
+  if (segments.length === 0) {
+    throw new Error('File contains no X12 segments');
+  }
+
+  return { delimiters, segments };
+};
+
+/**
+ * Parse an X12 amount, treating a missing element as zero
+ */
+export const x12Amount = (value: string | undefined): number => {
+  const amount = value ? parseFloat(value) : 0;
+  return Number.isFinite(amount) ? amount : 0;
+};
+
+/**
+ * Convert a CCYYMMDD date to YYYY-MM-DD, or null when absent or malformed
+ */
+export const x12Date = (value: string | undefined): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
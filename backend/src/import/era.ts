@@ -0,0 +1,260 @@
+import { PoolClient } from 'pg';
+import Claim from '../models/Claim';
+import { EraAdjustment, EraClaim, EraServiceLine, EraTransaction, isSecondaryStatus, REVERSAL_STATUS } from '../edi/era835';
+import { asText, FieldChange, PayerLevel } from './payments';
+
+export type EraLineStatus = 'matched' | 'unchanged' | 'unmatched' | 'conflict' | 'posted';
+
+/**
+ * What posting one 835 service line would change on its claim line
+ */
+export interface EraProposal {
+  key: string;                 // transaction.claim.service, stable for a given file
+  status: EraLineStatus;
+  claimId: number | null;
+  patientControlNumber: string;
+  patientName: string | null;
+  procedureCode: string | null;
+  serviceDate: string | null;
+  level: PayerLevel;
+  chargeAmount: number;
+  paidAmount: number;
+  patientResponsibility: number;
+  adjustments: EraAdjustment[];
+  changes: FieldChange[];
+  message?: string;
+}
+
+export interface EraTransactionReview {
+  index: number;
+  payerName: string | null;
+  traceNumber: string | null;
+  paymentAmount: number;
+  paymentMethod: string;
+  paymentDate: string | null;
+  proposals: EraProposal[];
+}
+
+export interface EraReview {
+  transactions: EraTransactionReview[];
+  summary: Record<EraLineStatus, number>;
+}
+
+// Contractual adjustments reduce the charge; other, payer-initiated and correction adjustments are written off
+// Patient responsibility (PR) stays on the balance for the patient to pay
+const ADJUSTMENT_FIELD: Record<EraAdjustment['group'], 'charges_adj_amt' | 'write_off_amt' | null> = {
+  CO: 'charges_adj_amt',
+  OA: 'write_off_amt',
+  PI: 'write_off_amt',
+  CR: 'write_off_amt',
+  PR: null
+};
+
+const roundMoney = (value: number) => (Math.round(value * 100) / 100).toFixed(2);
+
+const sumAdjustments = (adjustments: EraAdjustment[], field: 'charges_adj_amt' | 'write_off_amt') =>
+  adjustments.filter(adjustment => ADJUSTMENT_FIELD[adjustment.group] === field)
+    .reduce((total, adjustment) => total + adjustment.amount, 0);
+
+const today = () => asText(new Date()) as string;
+
+/**
+ * Work out the field changes for posting one line onto a claim line
+ * Payment fields that already hold a different value make the line a conflict; adjustments add to what's there
+ */
+const proposeChanges = (
+  claim: Claim,
+  transaction: EraTransaction,
+  line: { paidAmount: number; allowedAmount: number | null; adjustments: EraAdjustment[] },
+  level: PayerLevel
+): { status: EraLineStatus; changes: FieldChange[]; message?: string } => {
+  const prefix = level === 'primary' ? 'prim' : 'sec';
+  const field = (name: string) => `${prefix}_${name}` as keyof Claim;
+
+  const payment: [keyof Claim, string | null][] = [
+    [field('chk_det'), transaction.traceNumber],
+    [field('chk_amt'), roundMoney(transaction.paymentAmount)],
+    [field('amt'), roundMoney(line.paidAmount)],
+    [field('recv_dt'), transaction.paymentDate]
+  ];
+
+  const changes: FieldChange[] = [];
+  const conflicts: string[] = [];
+  let alreadyPosted = true;
+
+  payment.forEach(([name, value]) => {
+    if (value === null) return;
+    const current = asText(claim[name]);
+    const same = current !== null && (name.endsWith('_dt') ? current.slice(0, 10) === value : Number(current) === Number(value) || current === value);
+
+    if (same) return;
+    alreadyPosted = false;
+    if (current !== null) conflicts.push(`${name} is already ${current}`);
+    changes.push({ field_name: name, old_value: current, new_value: value });
+  });
+
+  if (alreadyPosted) {
+    return { status: 'unchanged', changes: [], message: 'Payment is already on this claim line' };
+  }
+  if (conflicts.length > 0) {
+    return { status: 'conflict', changes, message: conflicts.join('; ') };
+  }
+
+  // Fill in, but never overwrite, the posting date, payer name and allowed amount
+  const fillIfEmpty = (name: keyof Claim, value: string | null) => {
+    if (value !== null && asText(claim[name]) === null) {
+      changes.push({ field_name: name, old_value: null, new_value: value });
+    }
+  };
+  fillIfEmpty(field('post_dt'), today());
+  fillIfEmpty(field('ins'), transaction.payerName);
+  if (level === 'primary' && line.allowedAmount !== null) fillIfEmpty('allowed_amt', roundMoney(line.allowedAmount));
+
+  let balanceReduction = line.paidAmount;
+
+  (['charges_adj_amt', 'write_off_amt'] as const).forEach(name => {
+    const amount = sumAdjustments(line.adjustments, name);
+    if (amount === 0) return;
+
+    const current = Number(claim[name]) || 0;
+    changes.push({ field_name: name, old_value: asText(claim[name]), new_value: roundMoney(current + amount) });
+    balanceReduction += amount;
+  });
+
+  if (balanceReduction !== 0) {
+    const balance = Number(claim.bal_amt) || 0;
+    changes.push({ field_name: 'bal_amt', old_value: asText(claim.bal_amt), new_value: roundMoney(balance - balanceReduction) });
+  }
+
+  return { status: 'matched', changes };
+};
+
+/**
+ * Pick the claim line an 835 service line pays
+ * REF*6R carries our claim line ID when the payer echoes it; otherwise match on claim ID, CPT and date of service
+ */
+const matchServiceLine = (candidates: Claim[], eraClaim: EraClaim, service: EraServiceLine): Claim[] => {
+  const controlId = service.lineControlNumber && /^\d+$/.test(service.lineControlNumber)
+    ? Number(service.lineControlNumber)
+    : null;
+  const byControlNumber = candidates.filter(claim => claim.id === controlId);
+  if (byControlNumber.length === 1) return byControlNumber;
+
+  const serviceDate = service.serviceDate || eraClaim.statementFrom;
+  return candidates.filter(claim =>
+    claim.oa_claim_id === eraClaim.patientControlNumber &&
+    claim.cpt_code === service.procedureCode &&
+    (!serviceDate || asText(claim.service_end)?.slice(0, 10) === serviceDate)
+  );
+};
+
+/**
+ * Match every service line in the remittance to a claim line and propose what posting it would change
+ * With lock set, the candidate claim lines are locked FOR UPDATE (use inside a transaction)
+ * @param posted keys of lines already posted from this file, mapped to the claim line they were posted to
+ */
+export const planEraPostings = async (
+  client: PoolClient,
+  transactions: EraTransaction[],
+  posted: Map<string, number>,
+  lock = false
+): Promise<EraReview> => {
+  const claimIds = transactions.flatMap(transaction => transaction.claims.map(claim => claim.patientControlNumber));
+  const lineIds = transactions
+    .flatMap(transaction => transaction.claims.flatMap(claim => claim.services.map(service => service.lineControlNumber)))
+    .filter((id): id is string => !!id && /^\d+$/.test(id))
+    .map(Number);
+
+  const { rows: candidates } = await client.query(
+    `SELECT * FROM upl_billing_reimburse
+     WHERE deleted_at IS NULL
+       AND (oa_claim_id = ANY($1::text[]) OR id = ANY($2::int[]))
+     ORDER BY id
+     ${lock ? 'FOR UPDATE' : ''}`,
+    [claimIds, lineIds]
+  );
+
+  // Each claim line may only be posted once per file, since later lines would be planned from stale balances
+  const usedBy = new Map<number, string>();
+  const summary: Record<EraLineStatus, number> = { matched: 0, unchanged: 0, unmatched: 0, conflict: 0, posted: 0 };
+
+  const reviews = transactions.map((transaction, transactionIndex): EraTransactionReview => {
+    const proposals: EraProposal[] = [];
+
+    transaction.claims.forEach((eraClaim, claimIndex) => {
+      const level: PayerLevel = isSecondaryStatus(eraClaim.status) ? 'secondary' : 'primary';
+      const claimCandidates = candidates.filter((claim: Claim) => claim.oa_claim_id === eraClaim.patientControlNumber);
+
+      // Claims paid without service lines are posted as a whole, which only works for single-line claims
+      const lines: { service: EraServiceLine | null; key: string }[] = eraClaim.services.length > 0
+        ? eraClaim.services.map((service, serviceIndex) => ({ service, key: `${transactionIndex}.${claimIndex}.${serviceIndex}` }))
+        : [{ service: null, key: `${transactionIndex}.${claimIndex}` }];
+
+      lines.forEach(({ service, key }) => {
+        const base = {
+          key,
+          claimId: null,
+          patientControlNumber: eraClaim.patientControlNumber,
+          patientName: eraClaim.patientName,
+          procedureCode: service ? service.procedureCode : null,
+          serviceDate: service ? service.serviceDate || eraClaim.statementFrom : eraClaim.statementFrom,
+          level,
+          chargeAmount: service ? service.chargeAmount : eraClaim.chargeAmount,
+          paidAmount: service ? service.paidAmount : eraClaim.paidAmount,
+          patientResponsibility: (service ? service.adjustments : eraClaim.adjustments)
+            .filter(adjustment => adjustment.group === 'PR')
+            .reduce((total, adjustment) => total + adjustment.amount, 0),
+          adjustments: service ? service.adjustments : eraClaim.adjustments,
+          changes: []
+        };
+
+        const propose = (): EraProposal => {
+          if (posted.has(key)) {
+            return { ...base, claimId: posted.get(key) as number, status: 'posted', message: 'Posted from this file' };
+          }
+          if (eraClaim.status === REVERSAL_STATUS) {
+            return { ...base, status: 'conflict', message: 'Claim reversals must be posted by hand' };
+          }
+
+          const matches = service ? matchServiceLine(candidates, eraClaim, service) : claimCandidates;
+          if (matches.length === 0) {
+            return { ...base, status: 'unmatched', message: 'No claim line matches this claim ID, CPT and date of service' };
+          }
+          if (matches.length > 1) {
+            return { ...base, status: 'conflict', message: `Matches ${matches.length} claim lines` };
+          }
+
+          const claim: Claim = matches[0];
+          if (usedBy.has(claim.id)) {
+            return { ...base, claimId: claim.id, status: 'conflict', message: `Claim line is also paid by line ${usedBy.get(claim.id)}` };
+          }
+          usedBy.set(claim.id, key);
+
+          const proposal = proposeChanges(claim, transaction, {
+            paidAmount: base.paidAmount,
+            allowedAmount: service ? service.allowedAmount : null,
+            adjustments: base.adjustments
+          }, level);
+
+          return { ...base, claimId: claim.id, ...proposal };
+        };
+
+        const proposal = propose();
+        summary[proposal.status]++;
+        proposals.push(proposal);
+      });
+    });
+
+    return {
+      index: transactionIndex,
+      payerName: transaction.payerName,
+      traceNumber: transaction.traceNumber,
+      paymentAmount: transaction.paymentAmount,
+      paymentMethod: transaction.paymentMethod,
+      paymentDate: transaction.paymentDate,
+      proposals
+    };
+  });
+
+  return { transactions: reviews, summary };
+};
@@ -0,0 +1,341 @@
+import { PoolClient } from 'pg';
+import Claim from '../models/Claim';
+import { AuthUser } from '../middleware/auth';
+import { claimUpdateSchema, comparableClaimValue, validateClaimPayload, ClaimSchema } from '../validation/claimSchema';
+import { SpreadsheetRow } from './spreadsheet';
+
+export type PayerLevel = 'primary' | 'secondary';
+
+export type ImportRowStatus = 'matched' | 'unchanged' | 'unmatched' | 'conflict' | 'invalid';
+
+export interface FieldChange {
+  field_name: keyof Claim;
+  old_value: string | null;
+  new_value: string | null;
+}
+
+export interface ImportRowResult {
+  row: number;
+  status: ImportRowStatus;
+  reference: string;
+  level: PayerLevel;
+  claimId: number | null;
+  changes: FieldChange[];
+  message?: string;
+  errors?: Record<string, string>;
+}
+
+export interface ImportPlan {
+  rows: ImportRowResult[];
+  summary: Record<ImportRowStatus, number>;
+}
+
+// Payment columns, each written to the prim_ or sec_ field for the row's payer level
+type PaymentColumn = 'payer' | 'check_no' | 'paid_amt' | 'check_amt' | 'post_dt' | 'recv_dt' | 'comment';
+
+// Accepted spellings of each column (after header normalization)
+const COLUMN_ALIASES: Record<PaymentColumn | 'claim_line_id' | 'oa_claim_id' | 'oa_visit_id' | 'cpt_code' | 'payer_level' | 'denial_code', string[]> = {
+  claim_line_id: ['claim_line_id', 'line_id', 'id'],
+  oa_claim_id: ['oa_claim_id', 'claim_id', 'claim_no', 'claim_number'],
+  oa_visit_id: ['oa_visit_id', 'visit_id', 'visit_no', 'visit_number'],
+  cpt_code: ['cpt_code', 'cpt', 'procedure_code'],
+  payer_level: ['payer_level', 'level', 'responsibility', 'payer_type'],
+  payer: ['payer', 'payer_name', 'insurance'],
+  check_no: ['check_no', 'check_number', 'check', 'chk_det', 'eft_no', 'trace_no'],
+  paid_amt: ['paid_amt', 'paid_amount', 'paid', 'payment', 'payment_amount', 'amount'],
+  check_amt: ['check_amt', 'check_amount'],
+  post_dt: ['post_dt', 'post_date', 'posted_date', 'posting_date'],
+  recv_dt: ['recv_dt', 'received_date', 'receive_date', 'deposit_date'],
+  comment: ['comment', 'comments', 'note', 'notes'],
+  denial_code: ['denial_code', 'sec_denial_code']
+};
+
+const PAYMENT_FIELDS: Record<PayerLevel, Record<PaymentColumn, keyof Claim>> = {
+  primary: {
+    payer: 'prim_ins',
+    check_no: 'prim_chk_det',
+    paid_amt: 'prim_amt',
+    check_amt: 'prim_chk_amt',
+    post_dt: 'prim_post_dt',
+    recv_dt: 'prim_recv_dt',
+    comment: 'prim_cmt'
+  },
+  secondary: {
+    payer: 'sec_ins',
+    check_no: 'sec_chk_det',
+    paid_amt: 'sec_amt',
+    check_amt: 'sec_chk_amt',
+    post_dt: 'sec_post_dt',
+    recv_dt: 'sec_recv_dt',
+    comment: 'sec_cmt'
+  }
+};
+
+// Only these fields can be written by an import, whatever the file contains
+const importSchema: ClaimSchema = Object.fromEntries(
+  [...Object.values(PAYMENT_FIELDS.primary), ...Object.values(PAYMENT_FIELDS.secondary), 'sec_denial_code']
+    .map(field => [field, claimUpdateSchema[field as keyof Claim]])
+);
+
+const US_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+/**
+ * Read a column by any of its aliases
+ */
+const readColumn = (values: Record<string, string>, column: keyof typeof COLUMN_ALIASES): string | undefined => {
+  const alias = COLUMN_ALIASES[column].find(name => values[name] !== undefined);
+  return alias ? values[alias] : undefined;
+};
+
+const readLevel = (raw: string | undefined): PayerLevel | null => {
+  const value = (raw || 'primary').toLowerCase();
+  if (['primary', 'prim', 'p', '1'].includes(value)) return 'primary';
+  if (['secondary', 'sec', 's', '2'].includes(value)) return 'secondary';
+  return null;
+};
+
+// Spreadsheets often carry "$1,234.50" or MM/DD/YYYY; convert them before validation
+const cleanAmount = (value: string) => value.replace(/[$,\s]/g, '');
+const cleanDate = (value: string) => {
+  const match = value.match(US_DATE_PATTERN);
+  return match ? `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}` : value;
+};
+
+interface MappedRow {
+  rowNumber: number;
+  level: PayerLevel;
+  lineId?: number;
+  oaClaimId?: string;
+  oaVisitId?: string;
+  cptCode?: string;
+  values: Partial<Record<keyof Claim, string | number | null>>;
+  errors: Record<string, string>;
+}
+
+/**
+ * Map one spreadsheet row onto claim fields and validate the values
+ * Empty cells are skipped, so an import never clears a value
+ */
+const mapRow = (row: SpreadsheetRow): MappedRow => {
+  const errors: Record<string, string> = {};
+  const level = readLevel(readColumn(row.values, 'payer_level'));
+
+  if (!level) {
+    errors.payer_level = 'payer_level must be primary or secondary';
+  }
+
+  const fields = PAYMENT_FIELDS[level || 'primary'];
+  const body: Record<string, string> = {};
+
+  (Object.keys(fields) as PaymentColumn[]).forEach(column => {
+    const value = readColumn(row.values, column);
+    if (value === undefined) return;
+
+    if (column === 'paid_amt' || column === 'check_amt') body[fields[column]] = cleanAmount(value);
+    else if (column === 'post_dt' || column === 'recv_dt') body[fields[column]] = cleanDate(value);
+    else body[fields[column]] = value;
+  });
+
+  const denialCode = readColumn(row.values, 'denial_code');
+  if (denialCode !== undefined) {
+    if (level === 'secondary') body.sec_denial_code = denialCode;
+    else errors.denial_code = 'denial_code can only be imported on secondary payments';
+  }
+
+  const { values, errors: fieldErrors } = validateClaimPayload(body, importSchema);
+  Object.assign(errors, fieldErrors);
+
+  const lineIdRaw = readColumn(row.values, 'claim_line_id');
+  const lineId = lineIdRaw !== undefined ? Number(lineIdRaw) : undefined;
+  if (lineId !== undefined && !Number.isInteger(lineId)) {
+    errors.claim_line_id = 'claim_line_id must be a whole number';
+  }
+
+  const oaClaimId = readColumn(row.values, 'oa_claim_id');
+  const oaVisitId = readColumn(row.values, 'oa_visit_id');
+  if (lineIdRaw === undefined && !oaClaimId && !oaVisitId) {
+    errors.claim = 'Each row needs a claim_line_id, oa_claim_id or oa_visit_id';
+  }
+  if (Object.keys(values).length === 0 && Object.keys(errors).length === 0) {
+    errors.payment = 'Row has no payment values to post';
+  }
+
+  return {
+    rowNumber: row.rowNumber,
+    level: level || 'primary',
+    lineId,
+    oaClaimId,
+    oaVisitId,
+    cptCode: readColumn(row.values, 'cpt_code'),
+    values,
+    errors
+  };
+};
+
+const describe = (row: MappedRow) =>
+  row.lineId !== undefined ? `Claim line ${row.lineId}`
+    : row.oaClaimId ? `Claim ${row.oaClaimId}${row.cptCode ? ` / CPT ${row.cptCode}` : ''}`
+      : row.oaVisitId ? `Visit ${row.oaVisitId}${row.cptCode ? ` / CPT ${row.cptCode}` : ''}`
+        : 'No claim reference';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// pg returns DATE columns as local midnight, so read the local calendar date back out
+export const asText = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  return String(value);
+};
+
+// Compare amounts as numbers so "50" and "50.00" match, and dates by calendar day
+const sameValue = (field: keyof Claim, current: unknown, next: string | number | null) => {
+  const a = asText(current);
+  const b = asText(next);
+  if (a === null || b === null) return a === b;
+
+  const type = importSchema[field]?.type;
+  if (type === 'money' || type === 'signed_money') return Number(a) === Number(b);
+  if (type === 'date') return a.slice(0, 10) === b.slice(0, 10);
+  return a === b;
+};
+
+/**
+ * Match every row to a claim line and work out what it would change
+ * With lock set, the matched claim lines are locked FOR UPDATE (use inside a transaction)
+ */
+export const planPaymentImport = async (
+  client: PoolClient,
+  rows: SpreadsheetRow[],
+  lock = false
+): Promise<ImportPlan> => {
+  const mapped = rows.map(mapRow);
+
+  const lineIds = mapped.filter(row => row.lineId !== undefined && Number.isInteger(row.lineId)).map(row => row.lineId);
+  const oaClaimIds = mapped.filter(row => row.oaClaimId).map(row => row.oaClaimId);
+  const oaVisitIds = mapped.filter(row => row.oaVisitId).map(row => row.oaVisitId);
+
+  const { rows: candidates } = await client.query(
+    `SELECT * FROM upl_billing_reimburse
+     WHERE deleted_at IS NULL
+       AND (id = ANY($1::int[]) OR oa_claim_id = ANY($2::text[]) OR oa_visit_id = ANY($3::text[]))
+     ORDER BY id
+     ${lock ? 'FOR UPDATE' : ''}`,
+    [lineIds, oaClaimIds, oaVisitIds]
+  );
+
+  // Each claim line and payer level may only be posted once per file
+  const claimedBy = new Map<string, number>();
+
+  const results = mapped.map((row): ImportRowResult => {
+    const base = { row: row.rowNumber, reference: describe(row), level: row.level, claimId: null, changes: [] };
+
+    if (Object.keys(row.errors).length > 0) {
+      return { ...base, status: 'invalid', message: 'Row has invalid values', errors: row.errors };
+    }
+
+    const matches = candidates.filter((claim: Claim) =>
+      (row.lineId !== undefined ? claim.id === row.lineId
+        : row.oaClaimId ? claim.oa_claim_id === row.oaClaimId
+          : claim.oa_visit_id === row.oaVisitId) &&
+      (!row.cptCode || claim.cpt_code === row.cptCode)
+    );
+
+    if (matches.length === 0) {
+      return { ...base, status: 'unmatched', message: 'No claim line matches this row' };
+    }
+    if (matches.length > 1) {
+      return {
+        ...base,
+        status: 'conflict',
+        message: `Matches ${matches.length} claim lines; add a cpt_code or claim_line_id column to pick one`
+      };
+    }
+
+    const claim: Claim = matches[0];
+    const key = `${claim.id}:${row.level}`;
+    const earlierRow = claimedBy.get(key);
+    if (earlierRow !== undefined) {
+      return { ...base, claimId: claim.id, status: 'conflict', message: `Claim line already posted by row ${earlierRow}` };
+    }
+    claimedBy.set(key, row.rowNumber);
+
+    const changes: FieldChange[] = [];
+    const overwrites: string[] = [];
+
+    for (const [field, value] of Object.entries(row.values) as [keyof Claim, string | number | null][]) {
+      if (sameValue(field, claim[field], value)) continue;
+      if (asText(claim[field]) !== null) overwrites.push(`${field} is already ${asText(claim[field])}`);
+      changes.push({ field_name: field, old_value: asText(claim[field]), new_value: asText(value) });
+    }
+
+    // Never overwrite a posted value from a file; that has to be done on the claim itself
+    if (overwrites.length > 0) {
+      return { ...base, claimId: claim.id, changes, status: 'conflict', message: overwrites.join('; ') };
+    }
+
+    return { ...base, claimId: claim.id, changes, status: changes.length > 0 ? 'matched' : 'unchanged' };
+  });
+
+  const summary: Record<ImportRowStatus, number> = { matched: 0, unchanged: 0, unmatched: 0, conflict: 0, invalid: 0 };
+  results.forEach(result => summary[result.status]++);
+
+  return { rows: results, summary };
+};
+
+/**
+ * Update one claim line and write a change_logs entry per changed field
+ * Values are logged normalized, as claim edits log them, so history reads the same whichever way a value was posted
+ * Must run inside a transaction on the given client
+ */
+export const writeClaimChanges = async (
+  client: PoolClient,
+  claimId: number,
+  changes: FieldChange[],
+  actor: AuthUser
+) => {
+  const setClauses = changes.map((change, index) => `${change.field_name} = $${index + 1}`);
+  const updateResult = await client.query(
+    `UPDATE upl_billing_reimburse SET ${setClauses.join(', ')} WHERE id = $${changes.length + 1} RETURNING cpt_id`,
+    [...changes.map(change => change.new_value), claimId]
+  );
+
+  const valuesSql = changes.map((_, index) => {
+    const offset = index * 7;
+    return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, NOW(), $${offset + 5}, $${offset + 6}, $${offset + 7}, 'updated')`;
+  }).join(', ');
+
+  const logParams: any[] = [];
+  changes.forEach(change => {
+    logParams.push(
+      claimId,
+      actor.id,
+      actor.name,
+      updateResult.rows[0]?.cpt_id || null,
+      change.field_name,
+      comparableClaimValue(change.field_name, change.old_value),
+      comparableClaimValue(change.field_name, change.new_value)
+    );
+  });
+
+  await client.query(
+    `INSERT INTO change_logs (
+      claim_id, user_id, username, cpt_id,
+      timestamp, field_name, old_value, new_value, action_type
+    ) VALUES ${valuesSql}`,
+    logParams
+  );
+};
+
+/**
+ * Write the matched rows of a plan and their change_logs entries
+ * Must run inside the transaction that built the plan with lock set
+ */
+export const applyPaymentImport = async (client: PoolClient, plan: ImportPlan, actor: AuthUser) => {
+  const applied = plan.rows.filter(row => row.status === 'matched' && row.claimId !== null);
+
+  for (const row of applied) {
+    await writeClaimChanges(client, row.claimId as number, row.changes, actor);
+  }
+
+  return applied.map(row => row.claimId as number);
+};
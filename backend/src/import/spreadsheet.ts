@@ -0,0 +1,139 @@
+import ExcelJS from 'exceljs';
+
+/**
+ * One data row from an uploaded sheet, keyed by normalized header
+ */
+export interface SpreadsheetRow {
+  rowNumber: number;   // 1-based, counting the header row, so it matches what the user sees
+  values: Record<string, string>;
+}
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+/**
+ * Normalize a header so "Check #", "check_no" and "CHECK NO" compare equal
+ */
+export const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/#/g, 'no').replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+/**
+ * Work out the file format from its name, falling back to sniffing the content
+ * XLSX files are zip archives, so they start with "PK"
+ */
+export const detectFormat = (filename: string | undefined, buffer: Buffer): SpreadsheetFormat => {
+  const extension = filename?.toLowerCase().split('.').pop();
+  if (extension === 'csv' || extension === 'xlsx') return extension;
+  return buffer.subarray(0, 2).toString('latin1') === 'PK' ? 'xlsx' : 'csv';
+};
+
+/**
+ * Split CSV text into records, honouring quoted fields with embedded commas, quotes and newlines
+ */
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+};
+
+/**
+ * Turn header + data records into rows, dropping rows with no values at all
+ */
+const toRows = (records: string[][]): SpreadsheetRow[] => {
+  const [headerRecord, ...dataRecords] = records;
+  if (!headerRecord) return [];
+
+  const headers = headerRecord.map(normalizeHeader);
+
+  return dataRecords
+    .map((record, index) => ({
+      rowNumber: index + 2,
+      values: headers.reduce((values, header, column) => {
+        const value = (record[column] ?? '').trim();
+        if (header && value !== '') values[header] = value;
+        return values;
+      }, {} as Record<string, string>)
+    }))
+    .filter(row => Object.keys(row.values).length > 0);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Read an XLSX cell as text; dates become YYYY-MM-DD (Excel dates are stored without a time zone, read as UTC)
+ */
+const cellText = (cell: ExcelJS.Cell): string => {
+  const value = cell.value;
+  const result = value && typeof value === 'object' && 'result' in value ? value.result : value;
+
+  if (result instanceof Date) {
+    return `${result.getUTCFullYear()}-${pad(result.getUTCMonth() + 1)}-${pad(result.getUTCDate())}`;
+  }
+  if (typeof result === 'number' || typeof result === 'string' || typeof result === 'boolean') {
+    return String(result);
+  }
+  return cell.text ?? '';
+};
+
+/**
+ * Parse the first worksheet of an XLSX file, or a CSV file, into rows
+ */
+export const parseSpreadsheet = async (buffer: Buffer, format: SpreadsheetFormat): Promise<SpreadsheetRow[]> => {
+  if (format === 'csv') {
+    // Strip the byte order mark Excel adds to UTF-8 CSVs
+    return toRows(parseCsvRecords(buffer.toString('utf8').replace(/^\uFEFF/, '')));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const records: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const record: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      record[column - 1] = cellText(cell);
+    });
+    records[rowNumber - 1] = record;
+  });
+
+  // eachRow skips trailing empty rows but can leave holes; keep positions so row numbers stay right
+  return toRows(Array.from(records, record => record ?? []));
+};
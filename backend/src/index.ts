@@ -1,18 +1,27 @@
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
+import config from './config';
 import pool from './config/db';
-import initializeDatabase from './config/initDb';
+import seedInitialAdmin from './config/seed';
+import { migrateUp } from './migrations/runner';
+import authRoutes from './routes/auth';
 import claimRoutes from './routes/claims';
-
-// Load environment variables
-dotenv.config();
+import userRoutes from './routes/users';
+import metricsRoutes from './routes/metrics';
+import reportRoutes from './routes/reports';
+import importRoutes from './routes/imports';
+import eraRoutes from './routes/era';
+import ediRoutes from './routes/edi';
+import denialRoutes from './routes/denials';
+import appealRoutes from './routes/appeals';
+import noteRoutes from './routes/notes';
 
 const app = express();
-const PORT = process.env.PORT || 5000;
+const PORT = config.port;
 
 // Middleware
-app.use(cors());
+// Content-Disposition is exposed so the browser can read export filenames
+app.use(cors({ origin: config.corsOrigins, exposedHeaders: ['Content-Disposition'] }));
 app.use(express.json());
 
 // Basic route for testing
@@ -48,17 +57,31 @@ app.get('/api/db-test', async (req, res) => {
 });
 
 // Routes
+app.use('/api/auth', authRoutes);
 app.use('/api/claims', claimRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/metrics', metricsRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/era', eraRoutes);
+app.use('/api/edi', ediRoutes);
+app.use('/api/denials', denialRoutes);
+app.use('/api/appeals', appealRoutes);
+app.use('/api/notes', noteRoutes);
+
+// Bring the schema up to date before starting server
+// Set MIGRATE_ON_BOOT=false to manage migrations only through `npm run migrate`
+const prepareDatabase = async () => {
+  if (config.migrateOnBoot) {
+    const applied = await migrateUp();
+    console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Database schema is up to date');
+  }
+  await seedInitialAdmin();
+};
 
-// Initialize database before starting server
-initializeDatabase()
-  .then(result => {
-    if (result.success) {
-      console.log('Database initialization completed successfully');
-    } else {
-      console.warn('Database initialization failed, some features may not work properly');
-      console.warn('Error:', result.error);
-    }
+prepareDatabase()
+  .then(() => {
+    console.log('Database initialization completed successfully');
     
     // Start server
     app.listen(PORT, () => {
@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import config from '../config';
+
+/**
+ * Identity carried in a verified access token
+ */
+export interface AuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+/**
+ * Reject requests that don't carry a valid Bearer access token
+ * and attach the verified user to req.user
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.headers.authorization;
+
+  if (!header || !header.startsWith('Bearer ')) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+      message: 'Missing bearer token'
+    });
+    return;
+  }
+
+  try {
+    const payload = jwt.verify(header.slice(7), config.auth.jwtSecret) as jwt.JwtPayload;
+
+    req.user = {
+      id: Number(payload.sub),
+      name: payload.name,
+      email: payload.email,
+      role: payload.role
+    };
+
+    next();
+  } catch (error) {
+    const expired = error instanceof jwt.TokenExpiredError;
+    res.status(401).json({
+      success: false,
+      error: expired ? 'Token expired' : 'Invalid token',
+      message: expired ? 'Access token has expired, refresh the session' : 'Access token could not be verified'
+    });
+  }
+};
@@ -0,0 +1,90 @@
+import { Request, Response, NextFunction } from 'express';
+import { query } from '../config/db';
+import { Permission, hasPermission } from '../config/permissions';
+
+/**
+ * Record a blocked request in access_denied_logs
+ * Failures are logged but never affect the response
+ */
+export const recordAccessDenied = async (req: Request, permission: Permission, reason: string) => {
+  try {
+    await query(
+      `INSERT INTO access_denied_logs (
+        user_id, username, role, method, path, permission, reason, ip_address
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        req.user?.id || null,
+        req.user?.name || null,
+        req.user?.role || null,
+        req.method,
+        req.originalUrl,
+        permission,
+        reason,
+        req.ip || null
+      ]
+    );
+  } catch (error) {
+    console.error('Failed to record denied access:', error);
+  }
+};
+
+/**
+ * Send a 403 response and record the attempt
+ */
+export const denyAccess = (req: Request, res: Response, permission: Permission, message: string): void => {
+  void recordAccessDenied(req, permission, message);
+  res.status(403).json({
+    success: false,
+    error: 'Forbidden',
+    message
+  });
+};
+
+/**
+ * Allow the request only if the authenticated user's role grants the permission
+ */
+export const requirePermission = (permission: Permission) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!hasPermission(req.user?.role, permission)) {
+      denyAccess(req, res, permission, `Your role does not allow ${permission}`);
+      return;
+    }
+    next();
+  };
+
+/**
+ * Block requests whose body sets a field the user's role isn't allowed to change
+ * @param fields map of body field name to the permission required to set it
+ */
+export const requireFieldPermissions = (fields: Record<string, Permission>) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const body = req.body || {};
+
+    for (const [field, permission] of Object.entries(fields)) {
+      if (field in body && !hasPermission(req.user?.role, permission)) {
+        denyAccess(req, res, permission, `Your role is not allowed to change ${field}`);
+        return;
+      }
+    }
+    next();
+  };
+
+/**
+ * Limit change-history queries to the user's own changes unless they may read everyone's
+ */
+export const scopeHistoryToSelf = (req: Request, res: Response, next: NextFunction): void => {
+  if (hasPermission(req.user?.role, 'history:read_all')) {
+    next();
+    return;
+  }
+
+  const requestedUserId = req.query.user_id ? parseInt(req.query.user_id as string) : undefined;
+
+  if (requestedUserId !== undefined && requestedUserId !== req.user?.id) {
+    denyAccess(req, res, 'history:read_all', 'Your role may only view your own change history');
+    return;
+  }
+
+  req.query.user_id = String(req.user?.id);
+  next();
+};
@@ -0,0 +1,25 @@
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 1,
+  name: 'create_change_logs',
+  up: `
+    CREATE TABLE IF NOT EXISTS change_logs (
+      id SERIAL PRIMARY KEY,
+      claim_id INTEGER NOT NULL,
+      user_id INTEGER,
+      username VARCHAR(255),
+      cpt_id INTEGER,
+      timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      field_name VARCHAR(100) NOT NULL,
+      old_value TEXT,
+      new_value TEXT,
+      action_type VARCHAR(20) CHECK (action_type IN ('created', 'updated', 'deleted'))
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS change_logs;
+  `
+};
+
+export default migration;
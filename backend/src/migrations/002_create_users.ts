@@ -0,0 +1,29 @@
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 2,
+  name: 'create_users',
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      email VARCHAR(255) NOT NULL,
+      password_hash VARCHAR(255) NOT NULL,
+      role VARCHAR(20) NOT NULL DEFAULT 'viewer'
+        CHECK (role IN ('viewer', 'poster', 'supervisor', 'admin')),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_login_at TIMESTAMP
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS users_email_lower_idx ON users (LOWER(email));
+
+    -- Users are deactivated rather than deleted
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+    ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP;
+  `,
+  down: `
+    DROP TABLE IF EXISTS users;
+  `
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+import { Migration } from './types';
+
+// Refresh tokens are stored hashed so a leaked table can't be replayed
+const migration: Migration = {
+  version: 3,
+  name: 'create_refresh_tokens',
+  up: `
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      token_hash VARCHAR(64) NOT NULL UNIQUE,
+      expires_at TIMESTAMP NOT NULL,
+      revoked_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS refresh_tokens;
+  `
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import { Migration } from './types';
+
+// Requests rejected by role checks are kept for security review
+const migration: Migration = {
+  version: 4,
+  name: 'create_access_denied_logs',
+  up: `
+    CREATE TABLE IF NOT EXISTS access_denied_logs (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER,
+      username VARCHAR(255),
+      role VARCHAR(20),
+      method VARCHAR(10) NOT NULL,
+      path TEXT NOT NULL,
+      permission VARCHAR(50) NOT NULL,
+      reason TEXT,
+      ip_address VARCHAR(64),
+      timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS access_denied_logs;
+  `
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import { Migration } from './types';
+
+// Claims are soft-deleted so they can be restored and their history stays intact
+const migration: Migration = {
+  version: 5,
+  name: 'add_claim_soft_delete',
+  up: `
+    ALTER TABLE IF EXISTS upl_billing_reimburse
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS deleted_by INTEGER;
+  `,
+  down: `
+    ALTER TABLE IF EXISTS upl_billing_reimburse
+      DROP COLUMN IF EXISTS deleted_at,
+      DROP COLUMN IF EXISTS deleted_by;
+  `
+};
+
+export default migration;
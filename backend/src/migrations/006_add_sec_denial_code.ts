@@ -0,0 +1,16 @@
+import { Migration } from './types';
+
+const migration: Migration = {
+  version: 6,
+  name: 'add_sec_denial_code',
+  up: `
+    ALTER TABLE IF EXISTS upl_billing_reimburse
+      ADD COLUMN IF NOT EXISTS sec_denial_code VARCHAR(50);
+  `,
+  down: `
+    ALTER TABLE IF EXISTS upl_billing_reimburse
+      DROP COLUMN IF EXISTS sec_denial_code;
+  `
+};
+
+export default migration;
@@ -0,0 +1,44 @@
+import { Migration } from './types';
+
+// Indexes behind the advanced claim search filters in getClaims
+// Trigram indexes serve the partial and fuzzy (ILIKE / %) text matches
+const migration: Migration = {
+  version: 7,
+  name: 'add_claim_search_indexes',
+  up: `
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+    DO $$
+    BEGIN
+      IF to_regclass('public.upl_billing_reimburse') IS NOT NULL THEN
+        CREATE INDEX IF NOT EXISTS ubr_patient_name_trgm_idx ON upl_billing_reimburse
+          USING GIN (LOWER(COALESCE(first_name, '') || ' ' || COALESCE(last_name, '')) gin_trgm_ops);
+        CREATE INDEX IF NOT EXISTS ubr_patient_emr_no_idx ON upl_billing_reimburse (patient_emr_no text_pattern_ops);
+        CREATE INDEX IF NOT EXISTS ubr_service_end_idx ON upl_billing_reimburse (service_end);
+        CREATE INDEX IF NOT EXISTS ubr_prim_ins_trgm_idx ON upl_billing_reimburse USING GIN (prim_ins gin_trgm_ops);
+        CREATE INDEX IF NOT EXISTS ubr_sec_ins_trgm_idx ON upl_billing_reimburse USING GIN (sec_ins gin_trgm_ops);
+        CREATE INDEX IF NOT EXISTS ubr_provider_name_trgm_idx ON upl_billing_reimburse USING GIN (provider_name gin_trgm_ops);
+        CREATE INDEX IF NOT EXISTS ubr_prim_chk_det_trgm_idx ON upl_billing_reimburse USING GIN (prim_chk_det gin_trgm_ops);
+        CREATE INDEX IF NOT EXISTS ubr_sec_chk_det_trgm_idx ON upl_billing_reimburse USING GIN (sec_chk_det gin_trgm_ops);
+        CREATE INDEX IF NOT EXISTS ubr_claim_status_idx ON upl_billing_reimburse (claim_status);
+        CREATE INDEX IF NOT EXISTS ubr_oa_claim_id_idx ON upl_billing_reimburse (oa_claim_id);
+        CREATE INDEX IF NOT EXISTS ubr_bal_amt_idx ON upl_billing_reimburse (bal_amt);
+      END IF;
+    END $$;
+  `,
+  down: `
+    DROP INDEX IF EXISTS ubr_patient_name_trgm_idx;
+    DROP INDEX IF EXISTS ubr_patient_emr_no_idx;
+    DROP INDEX IF EXISTS ubr_service_end_idx;
+    DROP INDEX IF EXISTS ubr_prim_ins_trgm_idx;
+    DROP INDEX IF EXISTS ubr_sec_ins_trgm_idx;
+    DROP INDEX IF EXISTS ubr_provider_name_trgm_idx;
+    DROP INDEX IF EXISTS ubr_prim_chk_det_trgm_idx;
+    DROP INDEX IF EXISTS ubr_sec_chk_det_trgm_idx;
+    DROP INDEX IF EXISTS ubr_claim_status_idx;
+    DROP INDEX IF EXISTS ubr_oa_claim_id_idx;
+    DROP INDEX IF EXISTS ubr_bal_amt_idx;
+  `
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+import { Migration } from './types';
+
+// Every claim export is recorded, since exports take patient data out of the system
+const migration: Migration = {
+  version: 8,
+  name: 'create_export_logs',
+  up: `
+    CREATE TABLE IF NOT EXISTS export_logs (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER,
+      username VARCHAR(255),
+      scope VARCHAR(10) NOT NULL,
+      format VARCHAR(10) NOT NULL,
+      claim_id INTEGER,
+      filters JSONB,
+      columns TEXT[] NOT NULL,
+      row_count INTEGER NOT NULL,
+      filename TEXT NOT NULL,
+      ip_address VARCHAR(64),
+      timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_export_logs_user_id ON export_logs(user_id);
+    CREATE INDEX IF NOT EXISTS idx_export_logs_timestamp ON export_logs(timestamp);
+  `,
+  down: `
+    DROP TABLE IF EXISTS export_logs;
+  `
+};
+
+export default migration;
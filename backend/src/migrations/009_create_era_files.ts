@@ -0,0 +1,42 @@
+import { Migration } from './types';
+
+// Uploaded 835 remittance files, and which of their service lines have been posted
+// Posted lines are unique per file so a line can never be posted twice
+const migration: Migration = {
+  version: 9,
+  name: 'create_era_files',
+  up: `
+    CREATE TABLE IF NOT EXISTS era_files (
+      id SERIAL PRIMARY KEY,
+      filename TEXT,
+      content TEXT NOT NULL,
+      content_hash VARCHAR(64) NOT NULL UNIQUE,
+      transaction_count INTEGER NOT NULL,
+      payment_total NUMERIC(12, 2) NOT NULL,
+      payer_names TEXT,
+      trace_numbers TEXT,
+      uploaded_by INTEGER,
+      uploaded_by_name VARCHAR(255),
+      uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS era_postings (
+      id SERIAL PRIMARY KEY,
+      era_file_id INTEGER NOT NULL REFERENCES era_files(id) ON DELETE CASCADE,
+      line_key VARCHAR(50) NOT NULL,
+      claim_id INTEGER NOT NULL,
+      posted_by INTEGER,
+      posted_by_name VARCHAR(255),
+      posted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (era_file_id, line_key)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_era_postings_claim_id ON era_postings(claim_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS era_postings;
+    DROP TABLE IF EXISTS era_files;
+  `
+};
+
+export default migration;
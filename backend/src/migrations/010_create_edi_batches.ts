@@ -0,0 +1,44 @@
+import { Migration } from './types';
+
+// Generated 837P claim files and the claim lines each one billed
+// Interchange control numbers come from a sequence so they never repeat within its 9-digit range
+const migration: Migration = {
+  version: 10,
+  name: 'create_edi_batches',
+  up: `
+    CREATE SEQUENCE IF NOT EXISTS edi_interchange_control_seq
+      MINVALUE 1 MAXVALUE 999999999 CYCLE;
+
+    CREATE TABLE IF NOT EXISTS edi_batches (
+      id SERIAL PRIMARY KEY,
+      interchange_control_number INTEGER NOT NULL,
+      usage_indicator CHAR(1) NOT NULL,
+      filename TEXT NOT NULL,
+      content TEXT NOT NULL,
+      claim_count INTEGER NOT NULL,
+      line_count INTEGER NOT NULL,
+      total_charge NUMERIC(12, 2) NOT NULL,
+      created_by INTEGER,
+      created_by_name VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS edi_batch_claims (
+      id SERIAL PRIMARY KEY,
+      batch_id INTEGER NOT NULL REFERENCES edi_batches(id) ON DELETE CASCADE,
+      claim_id INTEGER NOT NULL,
+      patient_control_number VARCHAR(20) NOT NULL,
+      line_number INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_edi_batch_claims_batch_id ON edi_batch_claims(batch_id);
+    CREATE INDEX IF NOT EXISTS idx_edi_batch_claims_claim_id ON edi_batch_claims(claim_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS edi_batch_claims;
+    DROP TABLE IF EXISTS edi_batches;
+    DROP SEQUENCE IF EXISTS edi_interchange_control_seq;
+  `
+};
+
+export default migration;
@@ -0,0 +1,41 @@
+import { Migration } from './types';
+
+// Structured denials per claim line, replacing free-text denial comments
+// A denial is open until a resolution is recorded
+const migration: Migration = {
+  version: 11,
+  name: 'create_claim_denials',
+  up: `
+    CREATE TABLE IF NOT EXISTS claim_denials (
+      id SERIAL PRIMARY KEY,
+      claim_id INTEGER NOT NULL,
+      payer_level VARCHAR(10) NOT NULL CHECK (payer_level IN ('primary', 'secondary')),
+      payer VARCHAR(255),
+      group_code VARCHAR(2) CHECK (group_code IN ('CO', 'PR', 'OA', 'PI', 'CR')),
+      carc_codes TEXT[] NOT NULL,
+      rarc_codes TEXT[] NOT NULL DEFAULT '{}',
+      denied_amount NUMERIC(12, 2),
+      denial_date DATE NOT NULL,
+      root_cause VARCHAR(40) NOT NULL,
+      appeal_deadline DATE,
+      resolution VARCHAR(40),
+      resolution_note TEXT,
+      resolved_at TIMESTAMP,
+      resolved_by INTEGER,
+      resolved_by_name VARCHAR(255),
+      created_by INTEGER,
+      created_by_name VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_claim_denials_claim_id ON claim_denials(claim_id);
+    CREATE INDEX IF NOT EXISTS idx_claim_denials_denial_date ON claim_denials(denial_date);
+    CREATE INDEX IF NOT EXISTS idx_claim_denials_open_deadline ON claim_denials(appeal_deadline) WHERE resolution IS NULL;
+  `,
+  down: `
+    DROP TABLE IF EXISTS claim_denials;
+  `
+};
+
+export default migration;
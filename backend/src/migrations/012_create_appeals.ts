@@ -0,0 +1,54 @@
+import { Migration } from './types';
+
+// Appeals of denied claim lines, with their supporting documents and generated letters
+// An appeal is overdue while it is still a draft past its due date
+const migration: Migration = {
+  version: 12,
+  name: 'create_appeals',
+  up: `
+    CREATE TABLE IF NOT EXISTS claim_appeals (
+      id SERIAL PRIMARY KEY,
+      claim_id INTEGER NOT NULL,
+      denial_id INTEGER REFERENCES claim_denials(id) ON DELETE SET NULL,
+      level VARCHAR(10) NOT NULL CHECK (level IN ('first', 'second', 'external')),
+      status VARCHAR(20) NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'submitted', 'approved', 'partially_approved', 'upheld', 'withdrawn')),
+      payer VARCHAR(255),
+      due_date DATE NOT NULL,
+      submitted_date DATE,
+      decision_date DATE,
+      reference_number VARCHAR(100),
+      amount_requested NUMERIC(12, 2),
+      amount_recovered NUMERIC(12, 2),
+      notes TEXT,
+      created_by INTEGER,
+      created_by_name VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_claim_appeals_claim_id ON claim_appeals(claim_id);
+    CREATE INDEX IF NOT EXISTS idx_claim_appeals_draft_due ON claim_appeals(due_date) WHERE status = 'draft';
+
+    CREATE TABLE IF NOT EXISTS claim_appeal_documents (
+      id SERIAL PRIMARY KEY,
+      appeal_id INTEGER NOT NULL REFERENCES claim_appeals(id) ON DELETE CASCADE,
+      kind VARCHAR(10) NOT NULL CHECK (kind IN ('supporting', 'letter')),
+      filename VARCHAR(255) NOT NULL,
+      content_type VARCHAR(100) NOT NULL,
+      size_bytes INTEGER NOT NULL,
+      content BYTEA NOT NULL,
+      uploaded_by INTEGER,
+      uploaded_by_name VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_claim_appeal_documents_appeal_id ON claim_appeal_documents(appeal_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS claim_appeal_documents;
+    DROP TABLE IF EXISTS claim_appeals;
+  `
+};
+
+export default migration;
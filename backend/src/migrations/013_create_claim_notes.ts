@@ -0,0 +1,46 @@
+import { Migration } from './types';
+
+// Notes on claim lines, with the previous text of every edit and the users each note mentions
+// Deleted notes are kept (deleted_at) so their history stays readable
+const migration: Migration = {
+  version: 13,
+  name: 'create_claim_notes',
+  up: `
+    CREATE TABLE IF NOT EXISTS claim_notes (
+      id SERIAL PRIMARY KEY,
+      claim_id INTEGER NOT NULL,
+      body TEXT NOT NULL,
+      mentions INTEGER[] NOT NULL DEFAULT '{}',
+      pinned BOOLEAN NOT NULL DEFAULT FALSE,
+      pinned_at TIMESTAMP,
+      pinned_by_name VARCHAR(255),
+      author_id INTEGER,
+      author_name VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      deleted_at TIMESTAMP,
+      deleted_by INTEGER
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_claim_notes_claim_id ON claim_notes(claim_id) WHERE deleted_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_claim_notes_mentions ON claim_notes USING GIN (mentions);
+    CREATE INDEX IF NOT EXISTS idx_claim_notes_body_search ON claim_notes USING GIN (to_tsvector('english', body));
+
+    CREATE TABLE IF NOT EXISTS claim_note_revisions (
+      id SERIAL PRIMARY KEY,
+      note_id INTEGER NOT NULL REFERENCES claim_notes(id) ON DELETE CASCADE,
+      body TEXT NOT NULL,
+      edited_by INTEGER,
+      edited_by_name VARCHAR(255),
+      edited_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_claim_note_revisions_note_id ON claim_note_revisions(note_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS claim_note_revisions;
+    DROP TABLE IF EXISTS claim_notes;
+  `
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import { Migration } from './types';
+
+// Every change to a claim line bumps row_version, so an edit made from a stale copy can be detected.
+// A trigger keeps it current for payment posting, ERA and deletes as well as edits from the profile page
+const migration: Migration = {
+  version: 14,
+  name: 'add_claim_row_version',
+  up: `
+    ALTER TABLE IF EXISTS upl_billing_reimburse
+      ADD COLUMN IF NOT EXISTS row_version INTEGER NOT NULL DEFAULT 1;
+
+    CREATE OR REPLACE FUNCTION bump_claim_row_version() RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.row_version := OLD.row_version + 1;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DO $$
+    BEGIN
+      IF to_regclass('public.upl_billing_reimburse') IS NOT NULL THEN
+        DROP TRIGGER IF EXISTS claim_row_version ON upl_billing_reimburse;
+        CREATE TRIGGER claim_row_version
+          BEFORE UPDATE ON upl_billing_reimburse
+          FOR EACH ROW EXECUTE FUNCTION bump_claim_row_version();
+      END IF;
+    END $$;
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS claim_row_version ON upl_billing_reimburse;
+    DROP FUNCTION IF EXISTS bump_claim_row_version();
+    ALTER TABLE IF EXISTS upl_billing_reimburse
+      DROP COLUMN IF EXISTS row_version;
+  `
+};
+
+export default migration;
@@ -0,0 +1,92 @@
+import { Migration } from './types';
+
+// Every change_logs entry stores a SHA-256 of its own content and of the entry before it, so editing,
+// deleting or reordering history breaks the chain. The hash is computed by a trigger, so every insert
+// path is covered; audit/chainVerifier.ts recomputes it independently to verify the chain.
+// The content is each field as "<byte length>:<value>" ("-" for NULL), joined with "|"
+const migration: Migration = {
+  version: 15,
+  name: 'add_change_log_hash_chain',
+  up: `
+    ALTER TABLE change_logs
+      ADD COLUMN IF NOT EXISTS prev_hash VARCHAR(64),
+      ADD COLUMN IF NOT EXISTS entry_hash VARCHAR(64);
+
+    CREATE OR REPLACE FUNCTION change_log_hash_field(value TEXT) RETURNS TEXT AS $$
+      SELECT CASE WHEN value IS NULL THEN '-' ELSE octet_length(value) || ':' || value END;
+    $$ LANGUAGE sql IMMUTABLE;
+
+    CREATE OR REPLACE FUNCTION change_log_hash(entry change_logs) RETURNS VARCHAR(64) AS $$
+      SELECT encode(sha256(convert_to(concat_ws('|',
+        change_log_hash_field(entry.prev_hash),
+        change_log_hash_field(entry.id::text),
+        change_log_hash_field(entry.claim_id::text),
+        change_log_hash_field(entry.user_id::text),
+        change_log_hash_field(entry.username),
+        change_log_hash_field(entry.cpt_id::text),
+        change_log_hash_field(to_char(entry."timestamp", 'YYYY-MM-DD"T"HH24:MI:SS.US')),
+        change_log_hash_field(entry.field_name),
+        change_log_hash_field(entry.old_value),
+        change_log_hash_field(entry.new_value),
+        change_log_hash_field(entry.action_type)
+      ), 'UTF8')), 'hex');
+    $$ LANGUAGE sql IMMUTABLE;
+
+    -- Chain the entries written before this migration in id order
+    DO $$
+    DECLARE
+      entry change_logs;
+      previous VARCHAR(64) := NULL;
+    BEGIN
+      FOR entry IN SELECT * FROM change_logs ORDER BY id LOOP
+        entry.prev_hash := previous;
+        previous := change_log_hash(entry);
+        UPDATE change_logs SET prev_hash = entry.prev_hash, entry_hash = previous WHERE id = entry.id;
+      END LOOP;
+    END $$;
+
+    ALTER TABLE change_logs ALTER COLUMN entry_hash SET NOT NULL;
+
+    -- Writers take a lock held until commit and draw the id after it, so ids follow the chain order
+    -- even when several transactions log changes at once
+    CREATE OR REPLACE FUNCTION chain_change_log() RETURNS TRIGGER AS $$
+    BEGIN
+      PERFORM pg_advisory_xact_lock(hashtext('change_logs_chain'));
+      NEW.id := nextval(pg_get_serial_sequence('change_logs', 'id'));
+      SELECT entry_hash INTO NEW.prev_hash FROM change_logs ORDER BY id DESC LIMIT 1;
+      NEW.entry_hash := change_log_hash(NEW);
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS change_log_chain ON change_logs;
+    CREATE TRIGGER change_log_chain
+      BEFORE INSERT ON change_logs
+      FOR EACH ROW EXECUTE FUNCTION chain_change_log();
+
+    -- History is append-only; the chain still catches changes made with this trigger disabled
+    CREATE OR REPLACE FUNCTION reject_change_log_edit() RETURNS TRIGGER AS $$
+    BEGIN
+      RAISE EXCEPTION 'change_logs is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS change_log_append_only ON change_logs;
+    CREATE TRIGGER change_log_append_only
+      BEFORE UPDATE OR DELETE ON change_logs
+      FOR EACH ROW EXECUTE FUNCTION reject_change_log_edit();
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS change_log_append_only ON change_logs;
+    DROP FUNCTION IF EXISTS reject_change_log_edit();
+    DROP TRIGGER IF EXISTS change_log_chain ON change_logs;
+    DROP FUNCTION IF EXISTS chain_change_log();
+    DROP FUNCTION IF EXISTS change_log_hash(change_logs);
+    DROP FUNCTION IF EXISTS change_log_hash_field(TEXT);
+    ALTER TABLE change_logs
+      DROP COLUMN IF EXISTS prev_hash,
+      DROP COLUMN IF EXISTS entry_hash;
+  `
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+import { Migration } from './types';
+
+// Exports are logged before the file is sent, so each entry records whether the download finished.
+// row_count is the number of rows written, which for an aborted export is how far it got
+const migration: Migration = {
+  version: 16,
+  name: 'add_export_log_status',
+  up: `
+    ALTER TABLE export_logs
+      ADD COLUMN IF NOT EXISTS status VARCHAR(10) NOT NULL DEFAULT 'completed'
+        CHECK (status IN ('started', 'completed', 'aborted')),
+      ADD COLUMN IF NOT EXISTS finished_at TIMESTAMP;
+
+    ALTER TABLE export_logs ALTER COLUMN status SET DEFAULT 'started';
+  `,
+  down: `
+    ALTER TABLE export_logs
+      DROP COLUMN IF EXISTS status,
+      DROP COLUMN IF EXISTS finished_at;
+  `
+};
+
+export default migration;
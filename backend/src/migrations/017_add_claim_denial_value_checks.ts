@@ -0,0 +1,35 @@
+import { Migration } from './types';
+
+// Limit root_cause and resolution to the values the API offers (ROOT_CAUSES and RESOLUTIONS), as payer_level
+// and group_code already are. Values that slipped past validation are cleared first: an unknown root cause
+// becomes 'other', and an unknown resolution reopens the denial, since it was never really resolved
+const ROOT_CAUSES = `'eligibility', 'authorization', 'coding', 'medical_necessity', 'timely_filing', 'duplicate',
+  'coordination_of_benefits', 'missing_information', 'bundling', 'non_covered', 'provider_enrollment', 'other'`;
+const RESOLUTIONS = `'overturned', 'corrected_claim', 'patient_responsibility', 'written_off', 'upheld'`;
+
+const migration: Migration = {
+  version: 17,
+  name: 'add_claim_denial_value_checks',
+  up: `
+    UPDATE claim_denials SET root_cause = 'other' WHERE root_cause NOT IN (${ROOT_CAUSES});
+
+    UPDATE claim_denials
+    SET resolution = NULL, resolved_at = NULL, resolved_by = NULL, resolved_by_name = NULL
+    WHERE resolution NOT IN (${RESOLUTIONS});
+
+    ALTER TABLE claim_denials
+      DROP CONSTRAINT IF EXISTS claim_denials_root_cause_check,
+      DROP CONSTRAINT IF EXISTS claim_denials_resolution_check;
+
+    ALTER TABLE claim_denials
+      ADD CONSTRAINT claim_denials_root_cause_check CHECK (root_cause IN (${ROOT_CAUSES})),
+      ADD CONSTRAINT claim_denials_resolution_check CHECK (resolution IN (${RESOLUTIONS}));
+  `,
+  down: `
+    ALTER TABLE claim_denials
+      DROP CONSTRAINT IF EXISTS claim_denials_root_cause_check,
+      DROP CONSTRAINT IF EXISTS claim_denials_resolution_check;
+  `
+};
+
+export default migration;
@@ -0,0 +1,44 @@
+import { Migration } from './types';
+import createChangeLogs from './001_create_change_logs';
+import createUsers from './002_create_users';
+import createRefreshTokens from './003_create_refresh_tokens';
+import createAccessDeniedLogs from './004_create_access_denied_logs';
+import addClaimSoftDelete from './005_add_claim_soft_delete';
+import addSecDenialCode from './006_add_sec_denial_code';
+import addClaimSearchIndexes from './007_add_claim_search_indexes';
+import createExportLogs from './008_create_export_logs';
+import createEraFiles from './009_create_era_files';
+import createEdiBatches from './010_create_edi_batches';
+import createClaimDenials from './011_create_claim_denials';
+import createAppeals from './012_create_appeals';
+import createClaimNotes from './013_create_claim_notes';
+import addClaimRowVersion from './014_add_claim_row_version';
+import addChangeLogHashChain from './015_add_change_log_hash_chain';
+import addExportLogStatus from './016_add_export_log_status';
+import addClaimDenialValueChecks from './017_add_claim_denial_value_checks';
+
+/**
+ * Every migration, in the order it must be applied
+ * Never edit a migration that has shipped; add a new one instead
+ */
+const migrations: Migration[] = [
+  createChangeLogs,
+  createUsers,
+  createRefreshTokens,
+  createAccessDeniedLogs,
+  addClaimSoftDelete,
+  addSecDenialCode,
+  addClaimSearchIndexes,
+  createExportLogs,
+  createEraFiles,
+  createEdiBatches,
+  createClaimDenials,
+  createAppeals,
+  createClaimNotes,
+  addClaimRowVersion,
+  addChangeLogHashChain,
+  addExportLogStatus,
+  addClaimDenialValueChecks
+];
+
+export default migrations;
@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import pool from '../config/db';
+import migrations from './index';
+import { Migration } from './types';
+
+// Arbitrary key for pg_advisory_lock so two processes never migrate at the same time
+const MIGRATION_LOCK_KEY = 823104;
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+  checksum_matches: boolean | null;
+}
+
+/**
+ * Checksum of a migration's scripts, used to detect migrations edited after they were applied
+ */
+const checksum = (migration: Migration): string =>
+  crypto.createHash('sha256').update(`${migration.up}\n--down--\n${migration.down}`).digest('hex');
+
+const label = (migration: { version: number; name: string }) =>
+  `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+
+/**
+ * Make sure migration versions are unique and listed in ascending order
+ */
+const assertMigrationOrder = () => {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(`Migration ${label(migration)} is out of order or reuses a version number`);
+    }
+  });
+};
+
+const ensureMigrationsTable = async (client: PoolClient) => {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+};
+
+const getAppliedMigrations = async (client: PoolClient): Promise<AppliedMigration[]> => {
+  const { rows } = await client.query(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return rows;
+};
+
+/**
+ * Refuse to continue if an applied migration was edited or removed from the code
+ */
+const verifyAppliedMigrations = (applied: AppliedMigration[]) => {
+  for (const row of applied) {
+    const migration = migrations.find(m => m.version === row.version);
+
+    if (!migration) {
+      throw new Error(`Applied migration ${label(row)} is missing from the code`);
+    }
+    if (checksum(migration) !== row.checksum) {
+      throw new Error(`Migration ${label(migration)} was modified after it was applied (checksum mismatch)`);
+    }
+  }
+};
+
+/**
+ * Run a callback on a dedicated client while holding the migration lock
+ */
+const withMigrationLock = async <T>(callback: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    await ensureMigrationsTable(client);
+    return await callback(client);
+  } finally {
+    try {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    } catch (unlockError) {
+      console.error('Failed to release migration lock:', unlockError);
+    }
+    client.release();
+  }
+};
+
+/**
+ * Run one migration script and record the result in a single transaction
+ */
+const runInTransaction = async (client: PoolClient, migration: Migration, direction: 'up' | 'down') => {
+  try {
+    await client.query('BEGIN');
+    await client.query(migration[direction]);
+
+    if (direction === 'up') {
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, checksum(migration)]
+      );
+    } else {
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw new Error(
+      `Migration ${label(migration)} (${direction}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+};
+
+/**
+ * Apply every pending migration in order
+ * @returns the migrations that were applied
+ */
+export const migrateUp = async (): Promise<string[]> => {
+  assertMigrationOrder();
+
+  return withMigrationLock(async client => {
+    const applied = await getAppliedMigrations(client);
+    verifyAppliedMigrations(applied);
+
+    const appliedVersions = new Set(applied.map(row => row.version));
+    const pending = migrations.filter(migration => !appliedVersions.has(migration.version));
+
+    for (const migration of pending) {
+      console.log(`Applying migration ${label(migration)}...`);
+      await runInTransaction(client, migration, 'up');
+    }
+
+    return pending.map(label);
+  });
+};
+
+/**
+ * Roll back the most recently applied migrations
+ * @param steps number of migrations to roll back
+ * @returns the migrations that were rolled back
+ */
+export const migrateDown = async (steps = 1): Promise<string[]> => {
+  assertMigrationOrder();
+
+  return withMigrationLock(async client => {
+    const applied = await getAppliedMigrations(client);
+    verifyAppliedMigrations(applied);
+
+    const toRollBack = applied
+      .slice(-steps)
+      .reverse()
+      .map(row => migrations.find(m => m.version === row.version) as Migration);
+
+    for (const migration of toRollBack) {
+      console.log(`Rolling back migration ${label(migration)}...`);
+      await runInTransaction(client, migration, 'down');
+    }
+
+    return toRollBack.map(label);
+  });
+};
+
+/**
+ * List every known migration with whether and when it was applied
+ */
+export const getMigrationStatus = async (): Promise<MigrationStatus[]> => {
+  assertMigrationOrder();
+
+  return withMigrationLock(async client => {
+    const applied = await getAppliedMigrations(client);
+
+    return migrations.map(migration => {
+      const row = applied.find(r => r.version === migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied_at: row ? row.applied_at : null,
+        checksum_matches: row ? row.checksum === checksum(migration) : null
+      };
+    });
+  });
+};
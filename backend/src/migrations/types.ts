@@ -0,0 +1,10 @@
+/**
+ * A single schema change
+ * `up` applies it and `down` reverts it; both run inside a transaction
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
@@ -12,6 +12,8 @@ interface ChangeLog {
   old_value: string | null;
   new_value: string | null;
   action_type: 'created' | 'updated' | 'deleted';
+  prev_hash: string | null;    // entry_hash of the entry before this one
+  entry_hash: string;          // SHA-256 of this entry's content and prev_hash
 }
 
 export default ChangeLog;
\ No newline at end of file
@@ -36,6 +36,7 @@ interface Claim {
   sec_recv_dt: string | null;
   sec_chk_amt: number | null;
   sec_cmt: string | null;
+  sec_denial_code: string | null;
   pat_amt: number | null;
   pat_recv_dt: string | null;
   total_amt: number;
@@ -45,6 +46,9 @@ interface Claim {
   reimb_pct: number | null;
   claim_status: string;
   claim_status_type: string | null;
+  deleted_at: string | null;
+  deleted_by: number | null;
+  row_version: number;
 }
 
 export default Claim;
\ No newline at end of file
@@ -0,0 +1,17 @@
+/**
+ * User model representing the users table structure
+ */
+interface User {
+  id: number;
+  name: string;
+  email: string;
+  password_hash: string;
+  role: string;
+  is_active: boolean;
+  deactivated_at: string | null;
+  created_at: string;
+  updated_at: string;
+  last_login_at: string | null;
+}
+
+export default User;
\ No newline at end of file
@@ -0,0 +1,50 @@
+import express from 'express';
+import {
+  getAppealOptions,
+  getOverdueAppeals,
+  updateAppeal,
+  deleteAppeal,
+  uploadAppealDocument,
+  downloadAppealDocument,
+  deleteAppealDocument,
+  previewAppealLetter,
+  generateAppealLetter
+} from '../controllers/appealController';
+import { authenticate } from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+
+const router = express.Router();
+
+// Documents are uploaded as the raw request body rather than JSON
+const rawUpload = express.raw({ type: () => true, limit: '10mb' });
+
+router.use(authenticate);
+
+// GET appeal levels, statuses and letter templates
+router.get('/options', requirePermission('claims:read'), getAppealOptions);
+
+// GET draft appeals past their due date
+router.get('/overdue', requirePermission('claims:read'), getOverdueAppeals);
+
+// PATCH update an appeal's status, dates or amounts
+router.patch('/:id', requirePermission('claims:write'), updateAppeal);
+
+// DELETE an appeal opened in error
+router.delete('/:id', requirePermission('claims:delete'), deleteAppeal);
+
+// POST attach a supporting document
+router.post('/:id/documents', requirePermission('claims:write'), rawUpload, uploadAppealDocument);
+
+// GET download a document or generated letter
+router.get('/:id/documents/:documentId', requirePermission('claims:read'), downloadAppealDocument);
+
+// DELETE remove a document
+router.delete('/:id/documents/:documentId', requirePermission('claims:write'), deleteAppealDocument);
+
+// GET the merged appeal letter text
+router.get('/:id/letter', requirePermission('claims:read'), previewAppealLetter);
+
+// POST generate the appeal letter PDF
+router.post('/:id/letter', requirePermission('claims:write'), generateAppealLetter);
+
+export default router;
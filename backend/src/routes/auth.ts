@@ -0,0 +1,15 @@
+import express from 'express';
+import { login, logout, refresh } from '../controllers/authController';
+
+const router = express.Router();
+
+// POST log in with email and password
+router.post('/login', login);
+
+// POST exchange a refresh token for a new token pair
+router.post('/refresh', refresh);
+
+// POST revoke the current refresh token
+router.post('/logout', logout);
+
+export default router;
\ No newline at end of file
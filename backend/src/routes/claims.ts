@@ -2,65 +2,103 @@ import express from 'express';
 import { 
   getClaims, 
   getClaimById, 
+  createClaim,
   updateClaim, 
+  deleteClaim,
+  restoreClaim,
+  revertClaim,
+  getClaimSnapshot,
   getClaimHistory,
-  getAllChangeHistory 
+  getAllChangeHistory,
+  verifyChangeHistory
 } from '../controllers/claimController';
+import { getExportColumns, exportClaim, exportClaims } from '../controllers/exportController';
+import { getClaimDenials, createDenial } from '../controllers/denialController';
+import { getClaimAppeals, createAppeal } from '../controllers/appealController';
+import { getClaimNotes, createClaimNote, updateClaimNote, deleteClaimNote } from '../controllers/noteController';
+import { authenticate } from '../middleware/auth';
+import { requirePermission, requireFieldPermissions, scopeHistoryToSelf } from '../middleware/authorize';
+import { RESTRICTED_CLAIM_FIELDS } from '../config/permissions';
 
 const router = express.Router();
 
+// Every claims route requires a valid access token
+router.use(authenticate);
+
 // GET all claims with optional filtering
-router.get('/', getClaims);
+router.get('/', requirePermission('claims:read'), getClaims);
+
+// GET exportable columns
+router.get('/export/columns', requirePermission('claims:read'), getExportColumns);
+
+// GET claims matching the search filters as CSV or XLSX (registered before /:id so "export" isn't read as an ID)
+router.get('/export', requirePermission('claims:read'), exportClaims);
 
 // GET claim by ID
-router.get('/:id', getClaimById);
+router.get('/:id', requirePermission('claims:read'), getClaimById);
 
 // PUT update claim
-router.put('/:id', updateClaim);
+router.put(
+  '/:id',
+  requirePermission('claims:write'),
+  requireFieldPermissions(RESTRICTED_CLAIM_FIELDS),
+  updateClaim
+);
+
+// GET a single claim as CSV or XLSX
+router.get('/:id/export', requirePermission('claims:read'), exportClaim);
+
+// GET denials recorded against a claim
+router.get('/:id/denials', requirePermission('claims:read'), getClaimDenials);
+
+// POST record a denial against a claim
+router.post('/:id/denials', requirePermission('claims:write'), createDenial);
+
+// GET appeals filed for a claim
+router.get('/:id/appeals', requirePermission('claims:read'), getClaimAppeals);
+
+// POST open an appeal for a denied claim
+router.post('/:id/appeals', requirePermission('claims:write'), createAppeal);
+
+// GET notes on a claim
+router.get('/:id/notes', requirePermission('claims:read'), getClaimNotes);
+
+// POST add a note to a claim
+router.post('/:id/notes', requirePermission('claims:write'), createClaimNote);
+
+// PATCH edit or pin a note
+router.patch('/:id/notes/:noteId', requirePermission('claims:write'), updateClaimNote);
+
+// DELETE a note
+router.delete('/:id/notes/:noteId', requirePermission('claims:write'), deleteClaimNote);
+
+// POST preview or apply a revert to values from the claim's history
+router.post('/:id/revert', requirePermission('claims:write'), revertClaim);
 
 // GET claim history by ID
-router.get('/:id/history', getClaimHistory);
+router.get('/:id/history', requirePermission('history:read'), getClaimHistory);
+
+// GET a claim rebuilt as it was at a point in time (?at=ISO timestamp, defaults to now)
+router.get('/:id/snapshot', requirePermission('history:read'), getClaimSnapshot);
 
 // GET all change history (with optional filters)
-router.get('/history/all', getAllChangeHistory);
+router.get('/history/all', requirePermission('history:read'), scopeHistoryToSelf, getAllChangeHistory);
+
+// GET verify the change history hash chain
+router.get('/history/verify', requirePermission('history:read_all'), verifyChangeHistory);
 
 // POST new claim
-router.post('/', (req, res) => {
-  try {
-    const newClaim = req.body;
-    
-    // This will be replaced with actual database insert later
-    res.status(201).json({
-      status: 'success',
-      message: 'Claim created successfully',
-      data: { claim: newClaim }
-    });
-  } catch (error) {
-    res.status(500).json({
-      status: 'error',
-      message: 'Failed to create claim',
-      error: error instanceof Error ? error.message : String(error)
-    });
-  }
-});
+router.post(
+  '/',
+  requirePermission('claims:write'),
+  requireFieldPermissions(RESTRICTED_CLAIM_FIELDS),
+  createClaim
+);
 
 // DELETE claim
-router.delete('/:id', (req, res) => {
-  try {
-    const id = req.params.id;
-    
-    // This will be replaced with actual database delete later
-    res.status(200).json({
-      status: 'success',
-      message: `Claim with id ${id} deleted successfully`
-    });
-  } catch (error) {
-    res.status(500).json({
-      status: 'error',
-      message: 'Failed to delete claim',
-      error: error instanceof Error ? error.message : String(error)
-    });
-  }
-});
+router.delete('/:id', requirePermission('claims:delete'), deleteClaim);
+
+// POST restore a deleted claim
+router.post('/:id/restore', requirePermission('claims:delete'), restoreClaim);
 
 export default router;
\ No newline at end of file
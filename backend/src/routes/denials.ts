@@ -0,0 +1,22 @@
+import express from 'express';
+import { getDenialCodes, getTopDenialReasons, updateDenial, deleteDenial } from '../controllers/denialController';
+import { authenticate } from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+// GET CARC/RARC reference codes, root causes and resolutions
+router.get('/codes', requirePermission('claims:read'), getDenialCodes);
+
+// GET top denial reasons overall, by payer and by CPT
+router.get('/top-reasons', requirePermission('claims:read'), getTopDenialReasons);
+
+// PATCH update or resolve a denial
+router.patch('/:id', requirePermission('claims:write'), updateDenial);
+
+// DELETE a denial recorded in error
+router.delete('/:id', requirePermission('claims:delete'), deleteDenial);
+
+export default router;
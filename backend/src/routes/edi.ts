@@ -0,0 +1,25 @@
+import express from 'express';
+import { preview837, create837Batch, listBatches, getBatch, downloadBatchFile } from '../controllers/ediController';
+import { authenticate } from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+// POST dry run of an 837P for the selected claim lines
+router.post('/837/preview', requirePermission('claims:write'), preview837);
+
+// POST generate an 837P batch for the selected claim lines
+router.post('/837', requirePermission('claims:write'), create837Batch);
+
+// GET generated batches
+router.get('/batches', requirePermission('claims:read'), listBatches);
+
+// GET a batch and its claim lines
+router.get('/batches/:id', requirePermission('claims:read'), getBatch);
+
+// GET a batch's 837P file
+router.get('/batches/:id/file', requirePermission('claims:read'), downloadBatchFile);
+
+export default router;
@@ -0,0 +1,25 @@
+import express from 'express';
+import { uploadEra, listEraFiles, getEraReview, postEraLines } from '../controllers/eraController';
+import { authenticate } from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+
+const router = express.Router();
+
+// 835 files are uploaded as the raw request body rather than JSON
+const rawUpload = express.raw({ type: () => true, limit: '10mb' });
+
+router.use(authenticate);
+
+// GET recently uploaded remittances
+router.get('/', requirePermission('claims:read'), listEraFiles);
+
+// POST an 835 remittance file
+router.post('/', requirePermission('claims:write'), rawUpload, uploadEra);
+
+// GET proposed postings for a remittance
+router.get('/:id', requirePermission('claims:read'), getEraReview);
+
+// POST the accepted lines of a remittance
+router.post('/:id/post', requirePermission('claims:write'), postEraLines);
+
+export default router;
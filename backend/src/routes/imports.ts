@@ -0,0 +1,20 @@
+import express from 'express';
+import { previewPaymentImport, commitPaymentImport } from '../controllers/importController';
+import { authenticate } from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+
+const router = express.Router();
+
+// Files are uploaded as the raw request body rather than JSON
+const rawUpload = express.raw({ type: () => true, limit: '10mb' });
+
+// Importing payments is posting, so it needs the same access as editing a claim
+router.use(authenticate, requirePermission('claims:write'));
+
+// POST dry run of a payment file
+router.post('/payments/preview', rawUpload, previewPaymentImport);
+
+// POST a payment file
+router.post('/payments', rawUpload, commitPaymentImport);
+
+export default router;
@@ -0,0 +1,14 @@
+import express from 'express';
+import { getKpis } from '../controllers/metricsController';
+import { authenticate } from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+
+const router = express.Router();
+
+// Metrics are computed from claims, so they need the same read access
+router.use(authenticate, requirePermission('claims:read'));
+
+// GET dashboard KPIs with period-over-period trends
+router.get('/kpis', getKpis);
+
+export default router;
@@ -0,0 +1,17 @@
+import express from 'express';
+import { searchNotes, getMentionableUsers } from '../controllers/noteController';
+import { authenticate } from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+
+const router = express.Router();
+
+// Notes are part of the claim record, so they need the same read access
+router.use(authenticate, requirePermission('claims:read'));
+
+// GET search notes across claims
+router.get('/search', searchNotes);
+
+// GET users who can be @mentioned
+router.get('/mentionable', getMentionableUsers);
+
+export default router;
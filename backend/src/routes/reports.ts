@@ -0,0 +1,17 @@
+import express from 'express';
+import { getArAging, getArAgingClaims } from '../controllers/reportsController';
+import { authenticate } from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+
+const router = express.Router();
+
+// Reports are computed from claims, so they need the same read access
+router.use(authenticate, requirePermission('claims:read'));
+
+// GET outstanding balances by age bucket, payer and provider
+router.get('/ar-aging', getArAging);
+
+// GET claim lines behind one aging bucket (drill-down)
+router.get('/ar-aging/claims', getArAgingClaims);
+
+export default router;
@@ -0,0 +1,32 @@
+import express from 'express';
+import {
+  getUsers,
+  getUserById,
+  createUser,
+  updateUser,
+  deactivateUser
+} from '../controllers/userController';
+import { authenticate } from '../middleware/auth';
+import { requirePermission } from '../middleware/authorize';
+
+const router = express.Router();
+
+// User management is limited to admins
+router.use(authenticate, requirePermission('users:manage'));
+
+// GET all users (pass include_inactive=true to list deactivated users too)
+router.get('/', getUsers);
+
+// GET user by ID
+router.get('/:id', getUserById);
+
+// POST new user
+router.post('/', createUser);
+
+// PUT update user (set is_active to reactivate a user)
+router.put('/:id', updateUser);
+
+// DELETE deactivates the user; accounts are never hard-deleted
+router.delete('/:id', deactivateUser);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { Request } from 'express';
+
+// Full patient name as indexed by the trigram index in migration 007 (must match it exactly to use the index)
+export const PATIENT_NAME_SQL = `LOWER(COALESCE(first_name, '') || ' ' || COALESCE(last_name, ''))`;
+
+export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Whether a value is a real calendar date written YYYY-MM-DD
+ * Date.parse alone accepts impossible days such as 2025-02-30, rolling them into the next month
+ */
+export const isIsoDate = (value: string): boolean =>
+  ISO_DATE_PATTERN.test(value) && !isNaN(Date.parse(value)) && new Date(value).toISOString().slice(0, 10) === value;
+
+/**
+ * Add the advanced search filters from the query string to a claims query
+ * @returns a map of invalid filter values, empty when every filter is usable
+ */
+export const addAdvancedFilters = (
+  params: Request['query'],
+  conditions: string[],
+  queryParams: any[]
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const text = (name: string) => (typeof params[name] === 'string' ? (params[name] as string).trim() : '');
+
+  // Partial match on any part of the name, or a close (misspelled) match on the whole name
+  const name = text('name');
+  if (name) {
+    queryParams.push(`%${name.toLowerCase()}%`, name.toLowerCase());
+    conditions.push(
+      `(${PATIENT_NAME_SQL} LIKE $${queryParams.length - 1} OR ${PATIENT_NAME_SQL} % $${queryParams.length})`
+    );
+  }
+
+  const emrNo = text('emr_no');
+  if (emrNo) {
+    queryParams.push(`${emrNo}%`);
+    conditions.push(`patient_emr_no ILIKE $${queryParams.length}`);
+  }
+
+  for (const [param, operator] of [['dos_from', '>='], ['dos_to', '<=']]) {
+    const value = text(param);
+    if (!value) continue;
+    if (!isIsoDate(value)) {
+      errors[param] = `${param} must be a date (YYYY-MM-DD)`;
+      continue;
+    }
+    queryParams.push(value);
+    conditions.push(`service_end ${operator} $${queryParams.length}`);
+  }
+
+  // Payer and check number match either the primary or secondary insurance
+  const payer = text('payer');
+  if (payer) {
+    queryParams.push(`%${payer}%`);
+    conditions.push(`(prim_ins ILIKE $${queryParams.length} OR sec_ins ILIKE $${queryParams.length})`);
+  }
+
+  const checkNo = text('check_no');
+  if (checkNo) {
+    queryParams.push(`%${checkNo}%`);
+    conditions.push(`(prim_chk_det ILIKE $${queryParams.length} OR sec_chk_det ILIKE $${queryParams.length})`);
+  }
+
+  const provider = text('provider');
+  if (provider) {
+    queryParams.push(`%${provider}%`);
+    conditions.push(`provider_name ILIKE $${queryParams.length}`);
+  }
+
+  // Accepts a single status or a comma-separated list
+  const statuses = text('claim_status').split(',').map(status => status.trim()).filter(Boolean);
+  if (statuses.length > 0) {
+    queryParams.push(statuses);
+    conditions.push(`claim_status = ANY($${queryParams.length})`);
+  }
+
+  const oaClaimId = text('oa_claim_id');
+  if (oaClaimId) {
+    queryParams.push(oaClaimId);
+    conditions.push(`oa_claim_id = $${queryParams.length}`);
+  }
+
+  for (const [param, operator] of [['balance_min', '>='], ['balance_max', '<=']]) {
+    const value = text(param);
+    if (!value) continue;
+    if (!Number.isFinite(Number(value))) {
+      errors[param] = `${param} must be a number`;
+      continue;
+    }
+    queryParams.push(Number(value));
+    conditions.push(`bal_amt ${operator} $${queryParams.length}`);
+  }
+
+  return errors;
+};
+
+/**
+ * Add every claim search filter from the query string to a claims query: the basic
+ * patient_id, cpt_id and service_end filters plus the advanced ones
+ * Shared by the claim list and the bulk export so both select the same claim lines
+ * @returns a map of invalid filter values, empty when every filter is usable
+ */
+export const addClaimFilters = (
+  params: Request['query'],
+  conditions: string[],
+  queryParams: any[]
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const text = (name: string) => (typeof params[name] === 'string' ? (params[name] as string).trim() : '');
+
+  for (const column of ['patient_id', 'cpt_id']) {
+    const value = text(column);
+    if (!value) continue;
+    if (!/^\d+$/.test(value)) {
+      errors[column] = `${column} must be a positive whole number`;
+      continue;
+    }
+    queryParams.push(Number(value));
+    conditions.push(`${column} = $${queryParams.length}`);
+  }
+
+  const serviceEnd = text('service_end');
+  if (serviceEnd) {
+    if (!isIsoDate(serviceEnd)) {
+      errors.service_end = 'service_end must be a date (YYYY-MM-DD)';
+    } else {
+      queryParams.push(serviceEnd);
+      conditions.push(`service_end = $${queryParams.length}`);
+    }
+  }
+
+  return { ...errors, ...addAdvancedFilters(params, conditions, queryParams) };
+};
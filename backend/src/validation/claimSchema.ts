@@ -0,0 +1,184 @@
+import Claim from '../models/Claim';
+import { isIsoDate } from './claimFilters';
+
+/**
+ * Claim request schemas
+ * Field names are keyed by the Claim model so a renamed or removed column fails to compile here
+ */
+type FieldType =
+  | 'string'
+  | 'integer'
+  | 'money'         // non-negative amount
+  | 'signed_money'  // amount that may go negative (adjustments, credit balances)
+  | 'percent'       // 0 to 100
+  | 'date';         // YYYY-MM-DD, optionally followed by a time
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+  nullable?: boolean;
+}
+
+export type ClaimSchema = Partial<Record<keyof Claim, FieldRule>>;
+
+export type ClaimValues = Partial<Record<keyof Claim, string | number | null>>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const optionalString: FieldRule = { type: 'string', nullable: true };
+const optionalMoney: FieldRule = { type: 'money', nullable: true };
+const optionalDate: FieldRule = { type: 'date', nullable: true };
+
+/**
+ * Fields that can be changed on an existing claim line
+ */
+export const claimUpdateSchema: ClaimSchema = {
+  oa_claim_id: optionalString,
+  oa_visit_id: optionalString,
+  charge_dt: optionalDate,
+  charge_amt: { type: 'money' },
+  allowed_amt: optionalMoney,
+  allowed_add_amt: optionalMoney,
+  allowed_exp_amt: optionalMoney,
+  prim_ins: optionalString,
+  prim_amt: optionalMoney,
+  prim_post_dt: optionalDate,
+  prim_chk_det: optionalString,
+  prim_recv_dt: optionalDate,
+  prim_chk_amt: optionalMoney,
+  prim_cmt: optionalString,
+  sec_ins: optionalString,
+  sec_amt: optionalMoney,
+  sec_post_dt: optionalDate,
+  sec_chk_det: optionalString,
+  sec_recv_dt: optionalDate,
+  sec_chk_amt: optionalMoney,
+  sec_cmt: optionalString,
+  sec_denial_code: optionalString,
+  pat_amt: optionalMoney,
+  pat_recv_dt: optionalDate,
+  total_amt: { type: 'money' },
+  charges_adj_amt: { type: 'signed_money', nullable: true },
+  write_off_amt: optionalMoney,
+  bal_amt: { type: 'signed_money' },
+  reimb_pct: { type: 'percent', nullable: true },
+  claim_status: { type: 'string' },
+  claim_status_type: optionalString
+};
+
+/**
+ * Fields that can be set when a claim line is created
+ */
+export const claimCreateSchema: ClaimSchema = {
+  ...claimUpdateSchema,
+  patient_id: { type: 'integer', required: true },
+  patient_emr_no: optionalString,
+  cpt_id: { type: 'integer', nullable: true },
+  cpt_code: { type: 'string', required: true },
+  first_name: optionalString,
+  last_name: optionalString,
+  date_of_birth: optionalDate,
+  service_start: optionalDate,
+  service_end: { type: 'date', required: true },
+  icd_code: { type: 'string', required: true },
+  units: { type: 'integer', nullable: true },
+  provider_name: optionalString,
+  charge_amt: { type: 'money', required: true }
+};
+
+/**
+ * Check a single value against its rule
+ * @returns the normalized value, or an error message
+ */
+const checkField = (field: string, rule: FieldRule, raw: unknown): { value?: string | number | null; error?: string } => {
+  // Empty strings from form inputs mean "no value"
+  const value = typeof raw === 'string' && raw.trim() === '' ? null : raw;
+
+  if (value === null || value === undefined) {
+    if (rule.required || !rule.nullable) return { error: `${field} is required` };
+    return { value: null };
+  }
+
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string' && typeof value !== 'number') return { error: `${field} must be text` };
+      return { value: String(value).trim() };
+
+    case 'integer': {
+      const num = Number(value);
+      if (typeof value === 'boolean' || !Number.isInteger(num)) return { error: `${field} must be a whole number` };
+      if (num < 0) return { error: `${field} cannot be negative` };
+      return { value: num };
+    }
+
+    case 'money':
+    case 'signed_money':
+    case 'percent': {
+      const num = typeof value === 'boolean' ? NaN : Number(value);
+      if (!Number.isFinite(num)) return { error: `${field} must be a number` };
+      if (rule.type === 'money' && num < 0) return { error: `${field} cannot be negative` };
+      if (rule.type === 'percent' && (num < 0 || num > 100)) return { error: `${field} must be between 0 and 100` };
+      return { value: num };
+    }
+
+    case 'date':
+      // The calendar date is checked on its own, as Date.parse rolls impossible days into the next month
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value)) || !isIsoDate(value.slice(0, 10))) {
+        return { error: `${field} must be a valid date (YYYY-MM-DD)` };
+      }
+      return { value };
+  }
+};
+
+/**
+ * Validate a request body against a claim schema
+ * Keys that aren't in the schema are ignored; a missing key is only an error when the field is required
+ * @returns the normalized values to write and a map of field errors
+ */
+export const validateClaimPayload = (body: Record<string, unknown>, schema: ClaimSchema) => {
+  const values: ClaimValues = {};
+  const errors: Record<string, string> = {};
+
+  for (const [field, rule] of Object.entries(schema) as [keyof Claim, FieldRule][]) {
+    if (!(field in body)) {
+      if (rule.required) errors[field] = `${field} is required`;
+      continue;
+    }
+
+    const result = checkField(field, rule, body[field]);
+    if (result.error) {
+      errors[field] = result.error;
+    } else {
+      values[field] = result.value as string | number | null;
+    }
+  }
+
+  return { values, errors };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Normalize a stored or submitted claim value so the two can be compared:
+ * amounts by value ("100.00" and 100 match), dates by day, and empty as null
+ */
+export const comparableClaimValue = (field: keyof Claim, value: unknown): string | null => {
+  if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) return null;
+
+  switch (claimCreateSchema[field]?.type) {
+    case 'integer':
+    case 'money':
+    case 'signed_money':
+    case 'percent':
+      return Number.isFinite(Number(value)) ? String(Number(value)) : String(value);
+    case 'date': {
+      if (!(value instanceof Date) && /^\d{4}-\d{2}-\d{2}/.test(String(value))) return String(value).slice(0, 10);
+      // Change logs written before values were normalized hold String(Date), e.g. "Tue Jan 02 2024 00:00:00 GMT-0500"
+      const date = value instanceof Date ? value : new Date(String(value));
+      if (isNaN(date.getTime())) return String(value);
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+    default:
+      return String(value).trim();
+  }
+};
@@ -0,0 +1,22 @@
+// Control characters (CR and LF among them) can't be sent in a header and have no place in a filename
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f]/g;
+
+/**
+ * Clean a user-supplied filename before it is stored
+ */
+export const sanitizeFilename = (filename: string): string =>
+  filename.replace(CONTROL_CHARACTERS, '').trim();
+
+/**
+ * Content-Disposition value for downloading a file under the given name
+ * Header values must be Latin-1, so the name is sent twice: as an ASCII fallback in filename,
+ * and in full as UTF-8 in filename* (RFC 5987), which browsers prefer
+ */
+export const attachmentDisposition = (filename: string): string => {
+  const name = sanitizeFilename(filename) || 'download';
+  const fallback = name.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  // encodeURIComponent leaves these unescaped, but RFC 5987 doesn't allow them
+  const encoded = encodeURIComponent(name).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
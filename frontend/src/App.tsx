@@ -23,6 +23,12 @@ const ProfilePage = lazy(() => import('./pages/ProfilePage'));
 const FullProfilePage = lazy(() => import('./pages/FullProfilePage'));
 const UserManagementPage = lazy(() => import('./pages/UserManagementPage'));
 const HistoryPage = lazy(() => import('./pages/HistoryPage'));
+const NotesSearchPage = lazy(() => import('./pages/NotesSearchPage'));
+const ArAgingPage = lazy(() => import('./pages/ArAgingPage'));
+const DenialsReportPage = lazy(() => import('./pages/DenialsReportPage'));
+const ImportPaymentsPage = lazy(() => import('./pages/ImportPaymentsPage'));
+const EraPostingPage = lazy(() => import('./pages/EraPostingPage'));
+const ClaimBatchesPage = lazy(() => import('./pages/ClaimBatchesPage'));
 
 function App() {
   return (
@@ -37,6 +43,12 @@ function App() {
               <Route path="/full-profile/:id" element={<FullProfilePage />} />
               <Route path="/user-management" element={<UserManagementPage />} />
               <Route path="/history" element={<HistoryPage />} />
+              <Route path="/notes" element={<NotesSearchPage />} />
+              <Route path="/reports/ar-aging" element={<ArAgingPage />} />
+              <Route path="/reports/denials" element={<DenialsReportPage />} />
+              <Route path="/import/payments" element={<ImportPaymentsPage />} />
+              <Route path="/import/era" element={<EraPostingPage />} />
+              <Route path="/edi/batches" element={<ClaimBatchesPage />} />
               <Route path="/" element={<Navigate to="/login" replace />} />
               <Route path="*" element={<Navigate to="/search" replace />} />
             </Routes>
@@ -117,30 +117,18 @@ const LoginForm: React.FC = () => {
     
     if (!validate()) return;
     
-    // Hardcoded user validation
-    const validUsers = [
-      { email: 'HBilling_RCM@HBOX.AI', password: 'Admin@2025', role: 'Admin', name: 'Admin User' },
-      { email: 'syed.a@hbox.ai', password: '123456789', role: 'User', name: 'Syed A' }
-    ];
-    
-    const matchedUser = validUsers.find(
-      user => user.email.toLowerCase() === credentials.email.toLowerCase() && 
-              user.password === credentials.password
-    );
-    
-    if (matchedUser) {
-      try {
-        await login({
-          email: credentials.email,
-          password: credentials.password,
-          userData: matchedUser
-        });
-      } catch (error) {
-        console.error('Login failed:', error);
-        setErrors({ form: 'Login failed. Please try again.' });
+    try {
+      const success = await login({
+        email: credentials.email,
+        password: credentials.password,
+      });
+
+      if (!success) {
+        setErrors({ form: 'Invalid email or password.' });
       }
-    } else {
-      setErrors({ form: 'Invalid email or password.' });
+    } catch (error) {
+      console.error('Login failed:', error);
+      setErrors({ form: error instanceof Error ? error.message : 'Login failed. Please try again.' });
     }
   };
 
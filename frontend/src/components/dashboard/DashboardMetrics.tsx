@@ -8,34 +8,38 @@ interface DashboardMetricsProps {
   data: KPIData;
 }
 
+// Turn a percent change into the shape KPICard expects (no trend when there's nothing to compare)
+const toTrend = (change: number | null) =>
+  change === null ? undefined : { value: Math.abs(change), isPositive: change >= 0 };
+
 const DashboardMetrics: React.FC<DashboardMetricsProps> = ({ data }) => {
   const metrics = [
     {
       title: 'Total Check Numbers',
       value: data.totalCheckNumbers,
       icon: <DollarSign size={24} className="text-accent-400" />,
-      trend: { value: 12, isPositive: true },
+      trend: toTrend(data.trends.totalCheckNumbers),
       delay: 0.1,
     },
     {
       title: 'Total Visit IDs',
       value: data.totalVisitIds,
       icon: <FileText size={24} className="text-primary-400" />,
-      trend: { value: 8, isPositive: true },
+      trend: toTrend(data.trends.totalVisitIds),
       delay: 0.2,
     },
     {
       title: 'Posted Visit IDs',
       value: data.postedVisitIds,
       icon: <FileCheck size={24} className="text-success-400" />,
-      trend: { value: 15, isPositive: true },
+      trend: toTrend(data.trends.postedVisitIds),
       delay: 0.3,
     },
     {
       title: 'Pending Posting',
       value: data.pendingPosting,
       icon: <Clock size={24} className="text-warning-400" />,
-      trend: { value: 5, isPositive: false },
+      trend: toTrend(data.trends.pendingPosting),
       delay: 0.4,
     },
   ];
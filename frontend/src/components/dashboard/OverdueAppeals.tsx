@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { Scale, ArrowRight } from 'lucide-react';
+import GlassCard from '../ui/GlassCard';
+import { fetchOverdueAppeals } from '../../services/appealService';
+import { OverdueAppeals as OverdueAppealsData } from '../../types/appeal';
+
+const formatDate = (value: string | null) => (value ? new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString() : 'N/A');
+
+/**
+ * Draft appeals past their due date, so they are worked before the payer's window closes
+ * Renders nothing when no appeal is overdue or due soon
+ */
+const OverdueAppeals: React.FC = () => {
+  const [data, setData] = useState<OverdueAppealsData | null>(null);
+
+  useEffect(() => {
+    fetchOverdueAppeals().then(response => {
+      if (response.success) setData(response.data);
+    });
+  }, []);
+
+  if (!data || (data.overdueCount === 0 && data.dueSoonCount === 0)) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="mb-6"
+    >
+      <GlassCard>
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <h2 className="text-xl font-semibold text-white flex items-center gap-2">
+            <Scale className="text-error-400" size={20} />
+            Overdue Appeals
+          </h2>
+          <div className="flex gap-2 text-xs">
+            <span className="px-2 py-1 rounded-full bg-error-900/30 text-error-400">{data.overdueCount} overdue</span>
+            <span className="px-2 py-1 rounded-full bg-warning-900/30 text-warning-400">
+              {data.dueSoonCount} due in the next {data.dueSoonDays} days
+            </span>
+          </div>
+        </div>
+
+        {data.appeals.length === 0 ? (
+          <p className="text-white/50 text-sm">No appeals are overdue</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-white/10 text-sm">
+              <thead>
+                <tr className="text-left text-xs text-white/70 uppercase tracking-wider">
+                  <th className="px-4 py-2">Patient</th>
+                  <th className="px-4 py-2">CPT</th>
+                  <th className="px-4 py-2">DOS</th>
+                  <th className="px-4 py-2">Payer</th>
+                  <th className="px-4 py-2">Level</th>
+                  <th className="px-4 py-2">Due</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10 text-white/80">
+                {data.appeals.map(appeal => (
+                  <tr key={appeal.id} className="hover:bg-white/5">
+                    <td className="px-4 py-2">{[appeal.first_name, appeal.last_name].filter(Boolean).join(' ') || 'Unknown'}</td>
+                    <td className="px-4 py-2">{appeal.cpt_code || 'N/A'}</td>
+                    <td className="px-4 py-2">{formatDate(appeal.service_end)}</td>
+                    <td className="px-4 py-2">{appeal.payer || 'Unknown'}</td>
+                    <td className="px-4 py-2 capitalize">{appeal.level}</td>
+                    <td className="px-4 py-2 text-error-400">
+                      {formatDate(appeal.due_date)} ({appeal.days_overdue} day{appeal.days_overdue === 1 ? '' : 's'} late)
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <Link
+                        to={`/profile/${appeal.claim_id}`}
+                        className="inline-flex items-center gap-1 text-accent-400 hover:text-accent-300"
+                      >
+                        Open
+                        <ArrowRight size={14} />
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {data.overdueCount > data.appeals.length && (
+          <p className="text-xs text-white/50 mt-2">
+            Showing the {data.appeals.length} longest overdue of {data.overdueCount}
+          </p>
+        )}
+      </GlassCard>
+    </motion.div>
+  );
+};
+
+export default OverdueAppeals;
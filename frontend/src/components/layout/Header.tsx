@@ -1,6 +1,6 @@
 import React, { useState, useEffect, memo, useCallback } from 'react';
 import { motion, useScroll, useMotionValueEvent, AnimatePresence } from 'framer-motion';
-import { Menu, X, History, Clock, LogOut } from 'lucide-react';
+import { Menu, X, History, Clock, LogOut, BarChart3, FileSpreadsheet, FileOutput, MessageSquare } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 
@@ -18,7 +18,7 @@ const menuItemVariants = {
 };
 
 const Header: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, isAdmin, hasRole, logout } = useAuth();
   const [isScrolled, setIsScrolled] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { scrollY } = useScroll();
@@ -134,13 +134,99 @@ const Header: React.FC = () => {
               </Link>
             </motion.div>
             
-            {user.role === 'Admin' && (
+            <motion.div
+              variants={menuItemVariants}
+              initial="hidden"
+              animate="visible"
+              whileHover="hover"
+              custom={1}
+              transition={{ delay: 0.225 }}
+            >
+              <Link 
+                to="/notes" 
+                className={`px-4 py-2 mx-1 rounded-md transition-all duration-200 flex items-center gap-1 ${
+                  isActive('/notes') 
+                    ? 'text-white bg-white/10 shadow-sm shadow-white/5' 
+                    : 'text-white/70 hover:text-white hover:bg-white/5'
+                }`}
+              >
+                <MessageSquare size={16} />
+                Notes
+              </Link>
+            </motion.div>
+            
+            <motion.div
+              variants={menuItemVariants}
+              initial="hidden"
+              animate="visible"
+              whileHover="hover"
+              custom={2}
+              transition={{ delay: 0.25 }}
+            >
+              <Link 
+                to="/reports/ar-aging" 
+                className={`px-4 py-2 mx-1 rounded-md transition-all duration-200 flex items-center gap-1 ${
+                  isActive('/reports/ar-aging') || isActive('/reports/denials')
+                    ? 'text-white bg-white/10 shadow-sm shadow-white/5' 
+                    : 'text-white/70 hover:text-white hover:bg-white/5'
+                }`}
+              >
+                <BarChart3 size={16} />
+                Reports
+              </Link>
+            </motion.div>
+            
+            <motion.div
+              variants={menuItemVariants}
+              initial="hidden"
+              animate="visible"
+              whileHover="hover"
+              custom={3}
+              transition={{ delay: 0.27 }}
+            >
+              <Link 
+                to="/edi/batches" 
+                className={`px-4 py-2 mx-1 rounded-md transition-all duration-200 flex items-center gap-1 ${
+                  isActive('/edi/batches') 
+                    ? 'text-white bg-white/10 shadow-sm shadow-white/5' 
+                    : 'text-white/70 hover:text-white hover:bg-white/5'
+                }`}
+              >
+                <FileOutput size={16} />
+                Claim Files
+              </Link>
+            </motion.div>
+            
+            {hasRole('poster') && (
               <motion.div
                 variants={menuItemVariants}
                 initial="hidden"
                 animate="visible"
                 whileHover="hover"
-                custom={2}
+                custom={4}
+                transition={{ delay: 0.28 }}
+              >
+                <Link 
+                  to="/import/payments" 
+                  className={`px-4 py-2 mx-1 rounded-md transition-all duration-200 flex items-center gap-1 ${
+                    isActive('/import/payments') || isActive('/import/era')
+                      ? 'text-white bg-white/10 shadow-sm shadow-white/5' 
+                      : 'text-white/70 hover:text-white hover:bg-white/5'
+                  }`}
+                >
+                  <FileSpreadsheet size={16} />
+                  Import
+                </Link>
+              </motion.div>
+            )}
+            
+            {isAdmin && (
+              <motion.div
+                variants={menuItemVariants}
+                initial="hidden"
+                animate="visible"
+                whileHover="hover"
+                custom={5}
                 transition={{ delay: 0.3 }}
               >
                 <Link 
@@ -236,7 +322,85 @@ const Header: React.FC = () => {
                 </Link>
               </motion.div>
               
-              {user.role === 'Admin' && (
+              <motion.div
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.225 }}
+              >
+                <Link 
+                  to="/notes" 
+                  className={`py-3 px-4 rounded-md flex items-center gap-2 ${
+                    isActive('/notes') 
+                      ? 'text-white bg-white/10' 
+                      : 'text-white/70 hover:text-white hover:bg-white/5'
+                  }`}
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  <MessageSquare size={18} />
+                  Notes
+                </Link>
+              </motion.div>
+              
+              <motion.div
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.25 }}
+              >
+                <Link 
+                  to="/reports/ar-aging" 
+                  className={`py-3 px-4 rounded-md flex items-center gap-2 ${
+                    isActive('/reports/ar-aging') || isActive('/reports/denials')
+                      ? 'text-white bg-white/10' 
+                      : 'text-white/70 hover:text-white hover:bg-white/5'
+                  }`}
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  <BarChart3 size={18} />
+                  Reports
+                </Link>
+              </motion.div>
+              
+              <motion.div
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.27 }}
+              >
+                <Link 
+                  to="/edi/batches" 
+                  className={`py-3 px-4 rounded-md flex items-center gap-2 ${
+                    isActive('/edi/batches') 
+                      ? 'text-white bg-white/10' 
+                      : 'text-white/70 hover:text-white hover:bg-white/5'
+                  }`}
+                  onClick={() => setIsMobileMenuOpen(false)}
+                >
+                  <FileOutput size={18} />
+                  Claim Files
+                </Link>
+              </motion.div>
+              
+              {hasRole('poster') && (
+                <motion.div
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  transition={{ delay: 0.28 }}
+                >
+                  <Link 
+                    to="/import/payments" 
+                    className={`py-3 px-4 rounded-md flex items-center gap-2 ${
+                      isActive('/import/payments') || isActive('/import/era')
+                        ? 'text-white bg-white/10' 
+                        : 'text-white/70 hover:text-white hover:bg-white/5'
+                    }`}
+                    onClick={() => setIsMobileMenuOpen(false)}
+                  >
+                    <FileSpreadsheet size={18} />
+                    Import Payments
+                  </Link>
+                </motion.div>
+              )}
+              
+              {isAdmin && (
                 <motion.div
                   initial={{ opacity: 0, x: -20 }}
                   animate={{ opacity: 1, x: 0 }}
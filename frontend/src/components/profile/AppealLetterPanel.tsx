@@ -0,0 +1,122 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import Button from '../ui/Button';
+import { previewAppealLetter, generateAppealLetter, downloadAppealDocument } from '../../services/appealService';
+import { Appeal, AppealDocument, AppealTemplate } from '../../types/appeal';
+
+interface AppealLetterPanelProps {
+  appeal: Appeal;
+  templates: AppealTemplate[];
+  onGenerated: (document: AppealDocument) => void;
+  onClose: () => void;
+}
+
+/**
+ * Merge a letter template with the claim, review and edit the text, then generate the PDF
+ */
+const AppealLetterPanel: React.FC<AppealLetterPanelProps> = ({ appeal, templates, onGenerated, onClose }) => {
+  const [template, setTemplate] = useState('');
+  const [text, setText] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLetter = useCallback(async (requested?: string) => {
+    setIsLoading(true);
+    setError(null);
+    const response = await previewAppealLetter(appeal.id, requested);
+    setIsLoading(false);
+
+    if (response.success) {
+      setTemplate(response.data.template);
+      setText(response.data.text);
+    } else {
+      setError(response.message || 'The letter could not be prepared');
+    }
+  }, [appeal.id]);
+
+  // Without a template the server picks the default for the appeal's level
+  useEffect(() => {
+    loadLetter();
+  }, [loadLetter]);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    const response = await generateAppealLetter(appeal.id, template, text);
+    setIsGenerating(false);
+
+    if (response.success) {
+      onGenerated(response.data);
+      await downloadAppealDocument(appeal.id, response.data);
+    } else {
+      setError(response.message || 'The letter could not be generated');
+    }
+  };
+
+  // Templates written for this level first, then the rest
+  const sortedTemplates = [
+    ...templates.filter(option => option.levels.includes(appeal.level)),
+    ...templates.filter(option => !option.levels.includes(appeal.level))
+  ];
+
+  return (
+    <div className="mt-4 p-4 rounded-md bg-white/5 border border-white/10">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-white font-medium flex items-center gap-2">
+          <FileText size={16} className="text-accent-400" />
+          Appeal Letter
+        </h3>
+        <button type="button" onClick={onClose} className="text-white/60 hover:text-white" aria-label="Close letter">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-white/80 mb-2 font-medium">Template</label>
+        <select
+          value={template}
+          onChange={e => loadLetter(e.target.value)}
+          className="glass-input w-full"
+          style={{ background: '#1a1a2e', color: 'white' }}
+        >
+          {sortedTemplates.map(option => (
+            <option key={option.key} value={option.key}>{option.name}</option>
+          ))}
+        </select>
+        <p className="text-xs text-white/50 mt-1">
+          {templates.find(option => option.key === template)?.description}
+        </p>
+      </div>
+
+      <textarea
+        className="glass-input w-full h-80 font-mono text-sm"
+        value={isLoading ? 'Preparing letter...' : text}
+        onChange={e => setText(e.target.value)}
+        disabled={isLoading}
+      />
+      <p className="text-xs text-white/50 mt-1">
+        Review the merged text before generating; edits here go into the PDF only, not the template.
+      </p>
+
+      {error && <p className="text-sm text-error-400 mt-2">{error}</p>}
+
+      <div className="flex justify-end gap-2 mt-4">
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="accent"
+          onClick={handleGenerate}
+          isLoading={isGenerating}
+          disabled={isLoading || !text.trim()}
+          icon={<FileText size={16} />}
+        >
+          Generate PDF
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AppealLetterPanel;
@@ -0,0 +1,508 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Scale, Plus, Paperclip, Download, Trash2, FileText, ArrowUpCircle, AlertCircle } from 'lucide-react';
+import GlassCard from '../ui/GlassCard';
+import GlassInput from '../ui/GlassInput';
+import Button from '../ui/Button';
+import AppealLetterPanel from './AppealLetterPanel';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatCurrency } from '../reports/agingFormat';
+import {
+  fetchAppealOptions,
+  fetchClaimAppeals,
+  createAppeal,
+  updateAppeal,
+  deleteAppeal,
+  uploadAppealDocument,
+  deleteAppealDocument,
+  downloadAppealDocument
+} from '../../services/appealService';
+import { fetchClaimDenials } from '../../services/denialService';
+import { Appeal, AppealDocument, AppealInput, AppealLevel, AppealOptions, AppealStatus } from '../../types/appeal';
+import { Denial } from '../../types/denial';
+import { VisitClaim } from '../../types/claim';
+
+interface AppealsSectionProps {
+  claim: VisitClaim;
+}
+
+interface AppealForm {
+  level: AppealLevel;
+  denial_id: string;
+  due_date: string;
+  payer: string;
+  reference_number: string;
+  amount_requested: string;
+  notes: string;
+}
+
+const NEXT_LEVEL: Record<AppealLevel, AppealLevel | null> = {
+  first: 'second',
+  second: 'external',
+  external: null
+};
+
+const emptyForm = (level: AppealLevel = 'first', denialId = ''): AppealForm => ({
+  level,
+  denial_id: denialId,
+  due_date: '',
+  payer: '',
+  reference_number: '',
+  amount_requested: '',
+  notes: ''
+});
+
+const statusStyle = (status: AppealStatus) => {
+  switch (status) {
+    case 'approved':
+      return 'bg-success-900/30 text-success-400';
+    case 'partially_approved':
+    case 'submitted':
+      return 'bg-accent-900/30 text-accent-400';
+    case 'upheld':
+      return 'bg-error-900/30 text-error-400';
+    case 'withdrawn':
+      return 'bg-white/10 text-white/70';
+    default:
+      return 'bg-warning-900/30 text-warning-400';
+  }
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatDate = (value: string | null) => (value ? new Date(`${value}T00:00:00`).toLocaleDateString() : 'N/A');
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Appeals of a denied claim line: level, due date, status, supporting documents and generated letters
+ */
+const AppealsSection: React.FC<AppealsSectionProps> = ({ claim }) => {
+  const { hasRole } = useAuth();
+  const [appeals, setAppeals] = useState<Appeal[]>([]);
+  const [denials, setDenials] = useState<Denial[]>([]);
+  const [options, setOptions] = useState<AppealOptions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState<AppealForm>(emptyForm);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [letterAppealId, setLetterAppealId] = useState<number | null>(null);
+  const [uploadAppealId, setUploadAppealId] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canWrite = hasRole('poster');
+  const canDelete = hasRole('supervisor');
+
+  const loadAppeals = useCallback(async () => {
+    setIsLoading(true);
+    const [appealsResponse, denialsResponse] = await Promise.all([
+      fetchClaimAppeals(claim.id),
+      fetchClaimDenials(claim.id)
+    ]);
+    setIsLoading(false);
+
+    if (appealsResponse.success) setAppeals(appealsResponse.data);
+    else setError(appealsResponse.message || 'Appeals could not be loaded');
+    if (denialsResponse.success) setDenials(denialsResponse.data);
+  }, [claim.id]);
+
+  useEffect(() => {
+    loadAppeals();
+  }, [loadAppeals]);
+
+  useEffect(() => {
+    fetchAppealOptions().then(response => {
+      if (response.success) setOptions(response.data);
+    });
+  }, []);
+
+  const openDenials = denials.filter(denial => !denial.resolution);
+  // Appeals are opened for claims the payer denied, whether the status says so or a denial is recorded
+  const isDenied = /denied/i.test(claim.claim_status || '') || openDenials.length > 0;
+
+  const levelLabel = (value: AppealLevel) => options?.levels.find(option => option.value === value)?.label || value;
+  const statusLabel = (value: AppealStatus) => options?.statuses.find(option => option.value === value)?.label || value;
+
+  const replaceAppeal = (updated: Appeal) => {
+    setAppeals(current => current.map(item => (item.id === updated.id ? updated : item)));
+  };
+
+  const updateForm = (field: keyof AppealForm, value: string) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const startAppeal = (level: AppealLevel = 'first', denialId: number | null = null) => {
+    const linked = denialId ?? (openDenials.length === 1 ? openDenials[0].id : null);
+    setForm(emptyForm(level, linked ? String(linked) : ''));
+    setFormErrors({});
+    setIsAdding(true);
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    setFormErrors({});
+
+    const payload: AppealInput = {
+      level: form.level,
+      denial_id: form.denial_id ? Number(form.denial_id) : null,
+      due_date: form.due_date || null,
+      payer: form.payer.trim() || undefined,
+      reference_number: form.reference_number.trim() || null,
+      amount_requested: form.amount_requested ? Number(form.amount_requested) : undefined,
+      notes: form.notes.trim() || null
+    };
+
+    const response = await createAppeal(claim.id, payload);
+    setIsSaving(false);
+
+    if (response.success) {
+      setAppeals(current => [response.data, ...current]);
+      setIsAdding(false);
+    } else {
+      setFormErrors(response.errors || { form: response.message || 'The appeal could not be created' });
+    }
+  };
+
+  const handleStatusChange = async (appeal: Appeal, status: AppealStatus) => {
+    setError(null);
+    const response = await updateAppeal(appeal.id, { status });
+    if (response.success) replaceAppeal(response.data);
+    else setError(response.message || 'The appeal could not be updated');
+  };
+
+  const handleFieldChange = async (appeal: Appeal, changes: AppealInput) => {
+    setError(null);
+    const response = await updateAppeal(appeal.id, changes);
+    if (response.success) replaceAppeal(response.data);
+    else setError(response.message || 'The appeal could not be updated');
+  };
+
+  const handleDelete = async (appeal: Appeal) => {
+    if (!window.confirm('Delete this appeal and its documents? Use this only for appeals opened in error.')) return;
+    const response = await deleteAppeal(appeal.id);
+    if (response.success) setAppeals(current => current.filter(item => item.id !== appeal.id));
+    else setError(response.message || 'The appeal could not be deleted');
+  };
+
+  const addDocument = (appealId: number, document_: AppealDocument) => {
+    setAppeals(current =>
+      current.map(item => (item.id === appealId ? { ...item, documents: [...item.documents, document_] } : item))
+    );
+  };
+
+  const chooseFile = (appeal: Appeal) => {
+    setUploadAppealId(appeal.id);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || uploadAppealId === null) return;
+
+    setError(null);
+    const response = await uploadAppealDocument(uploadAppealId, file);
+    if (response.success) addDocument(uploadAppealId, response.data);
+    else setError(response.message || 'The document could not be attached');
+  };
+
+  const handleDownload = async (appeal: Appeal, document_: AppealDocument) => {
+    const response = await downloadAppealDocument(appeal.id, document_);
+    if (!response.success) setError(response.message || 'The document could not be downloaded');
+  };
+
+  const handleRemoveDocument = async (appeal: Appeal, document_: AppealDocument) => {
+    if (!window.confirm(`Remove ${document_.filename} from this appeal?`)) return;
+    const response = await deleteAppealDocument(appeal.id, document_.id);
+    if (response.success) {
+      replaceAppeal({ ...appeal, documents: appeal.documents.filter(item => item.id !== document_.id) });
+    } else {
+      setError(response.message || 'The document could not be removed');
+    }
+  };
+
+  // Nothing to show for claims that were never denied or appealed
+  if (!isLoading && appeals.length === 0 && !isDenied) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.1 }}
+      className="mt-6"
+    >
+      <GlassCard>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Scale className="text-accent-400" size={20} />
+            Appeals
+          </h2>
+
+          {canWrite && isDenied && !isAdding && (
+            <Button variant="secondary" onClick={() => startAppeal()} icon={<Plus size={16} />}>
+              Open Appeal
+            </Button>
+          )}
+        </div>
+
+        <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileChange} />
+
+        {error && (
+          <div className="mb-4 p-3 rounded-md bg-error-900/30 text-error-400 flex items-center gap-2">
+            <AlertCircle size={18} />
+            {error}
+          </div>
+        )}
+
+        {isAdding && (
+          <form onSubmit={handleCreate} className="mb-6 p-4 rounded-md bg-white/5">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+              <div className="mb-4">
+                <label className="block text-white/80 mb-2 font-medium">Level</label>
+                <select
+                  value={form.level}
+                  onChange={e => updateForm('level', e.target.value)}
+                  className="glass-input w-full"
+                  style={{ background: '#1a1a2e', color: 'white' }}
+                >
+                  {options?.levels.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="mb-4 md:col-span-2">
+                <label className="block text-white/80 mb-2 font-medium">Denial</label>
+                <select
+                  value={form.denial_id}
+                  onChange={e => updateForm('denial_id', e.target.value)}
+                  className="glass-input w-full"
+                  style={{ background: '#1a1a2e', color: 'white' }}
+                >
+                  <option value="">Not linked to a recorded denial</option>
+                  {denials.map(denial => (
+                    <option key={denial.id} value={denial.id}>
+                      {formatDate(denial.denial_date)} · {denial.payer || 'Unknown payer'} · CARC {denial.carc_codes.join(', ')}
+                      {denial.appeal_deadline ? ` · appeal by ${formatDate(denial.appeal_deadline)}` : ''}
+                    </option>
+                  ))}
+                </select>
+                {formErrors.denial_id && <p className="mt-1 text-sm text-error-400">{formErrors.denial_id}</p>}
+              </div>
+              <GlassInput
+                label="Due Date"
+                type="date"
+                value={form.due_date}
+                onChange={e => updateForm('due_date', e.target.value)}
+                error={formErrors.due_date}
+              />
+              <GlassInput
+                label="Payer"
+                placeholder="Defaults to the denial's payer"
+                value={form.payer}
+                onChange={e => updateForm('payer', e.target.value)}
+                error={formErrors.payer}
+              />
+              <GlassInput
+                label="Amount Requested"
+                type="number"
+                step="0.01"
+                value={form.amount_requested}
+                onChange={e => updateForm('amount_requested', e.target.value)}
+                error={formErrors.amount_requested}
+              />
+              <GlassInput
+                label="Payer Reference"
+                value={form.reference_number}
+                onChange={e => updateForm('reference_number', e.target.value)}
+                error={formErrors.reference_number}
+              />
+              <div className="md:col-span-2">
+                <GlassInput
+                  label="Notes"
+                  value={form.notes}
+                  onChange={e => updateForm('notes', e.target.value)}
+                  error={formErrors.notes}
+                />
+              </div>
+            </div>
+
+            {!form.due_date && form.level === 'first' && (
+              <p className="text-xs text-white/50 mb-4">
+                Without a due date, the linked denial's appeal deadline is used.
+              </p>
+            )}
+            {formErrors.form && <p className="text-sm text-error-400 mb-4">{formErrors.form}</p>}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="secondary" onClick={() => setIsAdding(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" isLoading={isSaving}>
+                Open Appeal
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-white/50 text-sm">Loading...</p>
+        ) : appeals.length === 0 ? (
+          <p className="text-white/50 text-center py-4">No appeals filed for this claim line</p>
+        ) : (
+          <div className="space-y-4">
+            {appeals.map(appeal => {
+              const isOverdue = appeal.status === 'draft' && appeal.due_date < today();
+              const nextLevel = NEXT_LEVEL[appeal.level];
+
+              return (
+                <div key={appeal.id} className="p-4 rounded-md bg-white/5">
+                  <div className="flex flex-wrap justify-between items-start gap-2 mb-3">
+                    <div>
+                      <p className="text-white font-medium">
+                        {levelLabel(appeal.level)}
+                        <span className="text-white/50 text-sm ml-2">{appeal.payer || 'Unknown payer'}</span>
+                      </p>
+                      <p className={`text-xs ${isOverdue ? 'text-error-400' : 'text-white/50'}`}>
+                        {isOverdue ? 'Overdue since' : 'Due'} {formatDate(appeal.due_date)}
+                        {appeal.submitted_date && ` · submitted ${formatDate(appeal.submitted_date)}`}
+                        {appeal.decision_date && ` · decided ${formatDate(appeal.decision_date)}`}
+                        {appeal.reference_number && ` · ref ${appeal.reference_number}`}
+                      </p>
+                      <p className="text-xs text-white/50">
+                        {appeal.amount_requested !== null && `Requested ${formatCurrency(Number(appeal.amount_requested))}`}
+                        {appeal.amount_recovered !== null && ` · recovered ${formatCurrency(Number(appeal.amount_recovered))}`}
+                      </p>
+                    </div>
+
+                    {canWrite ? (
+                      <select
+                        value={appeal.status}
+                        onChange={e => handleStatusChange(appeal, e.target.value as AppealStatus)}
+                        className={`px-2 py-1 rounded-full text-xs border-0 ${statusStyle(appeal.status)}`}
+                        aria-label="Appeal status"
+                      >
+                        {options?.statuses.map(option => (
+                          <option key={option.value} value={option.value} style={{ background: '#1a1a2e', color: 'white' }}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className={`px-2 py-1 rounded-full text-xs ${statusStyle(appeal.status)}`}>
+                        {statusLabel(appeal.status)}
+                      </span>
+                    )}
+                  </div>
+
+                  {appeal.notes && <p className="text-sm text-white/70 mb-3 whitespace-pre-wrap">{appeal.notes}</p>}
+
+                  {canWrite && ['approved', 'partially_approved'].includes(appeal.status) && (
+                    <div className="max-w-xs">
+                      <GlassInput
+                        label="Amount Recovered"
+                        type="number"
+                        step="0.01"
+                        defaultValue={appeal.amount_recovered ?? ''}
+                        onBlur={e => {
+                          const value = e.target.value === '' ? null : Number(e.target.value);
+                          if (value !== (appeal.amount_recovered === null ? null : Number(appeal.amount_recovered))) {
+                            handleFieldChange(appeal, { amount_recovered: value });
+                          }
+                        }}
+                      />
+                    </div>
+                  )}
+
+                  <div className="mb-2">
+                    <p className="text-white/50 text-xs uppercase tracking-wider mb-1 font-medium">Documents</p>
+                    {appeal.documents.length === 0 ? (
+                      <p className="text-sm text-white/50">No documents attached</p>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {appeal.documents.map(document_ => (
+                          <li key={document_.id} className="flex items-center gap-2 text-white/80">
+                            {document_.kind === 'letter' ? (
+                              <FileText size={14} className="text-accent-400" />
+                            ) : (
+                              <Paperclip size={14} className="text-white/50" />
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => handleDownload(appeal, document_)}
+                              className="hover:text-white flex items-center gap-1"
+                            >
+                              {document_.filename}
+                              <Download size={12} />
+                            </button>
+                            <span className="text-xs text-white/40">
+                              {formatSize(document_.size_bytes)}
+                              {document_.uploaded_by_name ? ` · ${document_.uploaded_by_name}` : ''}
+                            </span>
+                            {canWrite && (
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveDocument(appeal, document_)}
+                                className="text-white/40 hover:text-error-400"
+                                aria-label={`Remove ${document_.filename}`}
+                              >
+                                <Trash2 size={12} />
+                              </button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {letterAppealId === appeal.id && options && (
+                    <AppealLetterPanel
+                      appeal={appeal}
+                      templates={options.templates}
+                      onGenerated={document_ => addDocument(appeal.id, document_)}
+                      onClose={() => setLetterAppealId(null)}
+                    />
+                  )}
+
+                  {canWrite && (
+                    <div className="flex flex-wrap justify-end gap-2 mt-2">
+                      <Button variant="secondary" onClick={() => chooseFile(appeal)} icon={<Paperclip size={16} />}>
+                        Attach
+                      </Button>
+                      {letterAppealId !== appeal.id && (
+                        <Button variant="secondary" onClick={() => setLetterAppealId(appeal.id)} icon={<FileText size={16} />}>
+                          Letter
+                        </Button>
+                      )}
+                      {appeal.status === 'upheld' && nextLevel && (
+                        <Button
+                          variant="secondary"
+                          onClick={() => startAppeal(nextLevel, appeal.denial_id)}
+                          icon={<ArrowUpCircle size={16} />}
+                        >
+                          Escalate
+                        </Button>
+                      )}
+                      {canDelete && (
+                        <Button variant="secondary" onClick={() => handleDelete(appeal)} icon={<Trash2 size={16} />}>
+                          Delete
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </GlassCard>
+    </motion.div>
+  );
+};
+
+export default AppealsSection;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, X } from 'lucide-react';
+import GlassCard from '../ui/GlassCard';
+import Button from '../ui/Button';
+import { ClaimFieldConflict, ClaimLastChange, VisitClaim } from '../../types/claim';
+
+type Choice = 'yours' | 'theirs';
+
+interface ClaimConflictDialogProps {
+  conflicts: ClaimFieldConflict[];
+  // The claim as it was when the user started editing
+  base: VisitClaim;
+  lastChange: ClaimLastChange | null;
+  isSaving: boolean;
+  // Values to save for the conflicting fields
+  onResolve: (values: Record<string, string | number | null>) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  oa_claim_id: 'OA Claim ID',
+  oa_visit_id: 'OA Visit ID',
+  charge_dt: 'Charge Date',
+  charge_amt: 'Charge Amount',
+  prim_ins: 'Primary Insurance',
+  prim_amt: 'Primary Amount',
+  prim_post_dt: 'Primary Post Date',
+  prim_chk_det: 'Primary Check Details',
+  prim_recv_dt: 'Primary Received Date',
+  prim_chk_amt: 'Primary Check Amount',
+  prim_cmt: 'Primary Comment',
+  claim_status: 'Claim Status',
+  claim_status_type: 'Primary Denial Code',
+  sec_ins: 'Secondary Insurance',
+  sec_amt: 'Secondary Amount',
+  sec_post_dt: 'Secondary Post Date',
+  sec_chk_det: 'Secondary Check Details',
+  sec_recv_dt: 'Secondary Received Date',
+  sec_chk_amt: 'Secondary Check Amount',
+  sec_cmt: 'Secondary Comment',
+  sec_denial_code: 'Secondary Denial Code',
+  pat_amt: 'Patient Amount',
+  pat_recv_dt: 'Patient Received Date'
+};
+
+// Compare values the way they are shown: dates by day, amounts by value, empty as blank
+const normalize = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value).trim();
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) return text.slice(0, 10);
+  if (text !== '' && !isNaN(Number(text))) return String(Number(text));
+  return text;
+};
+
+const sameValue = (a: unknown, b: unknown) => normalize(a) === normalize(b);
+
+const displayValue = (value: unknown) => normalize(value) || 'Empty';
+
+/**
+ * Shown when a save is rejected because someone else changed the claim first.
+ * Fields only one side changed are merged automatically; the rest are picked field by field
+ */
+const ClaimConflictDialog: React.FC<ClaimConflictDialogProps> = ({
+  conflicts,
+  base,
+  lastChange,
+  isSaving,
+  onResolve,
+  onCancel
+}) => {
+  const baseValue = (field: string) => base[field as keyof VisitClaim];
+
+  // Left as loaded: the other user's value wins. Changed by the other user as well: the user decides
+  const takenFromThem = conflicts.filter(conflict => sameValue(conflict.yours, baseValue(conflict.field)));
+  const keptFromYou = conflicts.filter(conflict => sameValue(conflict.theirs, baseValue(conflict.field)));
+  const overlapping = conflicts.filter(
+    conflict => !takenFromThem.includes(conflict) && !keptFromYou.includes(conflict)
+  );
+
+  const [choices, setChoices] = useState<Record<string, Choice>>(() =>
+    Object.fromEntries(overlapping.map(conflict => [conflict.field, 'yours' as Choice]))
+  );
+
+  const chooseAll = (choice: Choice) => {
+    setChoices(Object.fromEntries(overlapping.map(conflict => [conflict.field, choice])));
+  };
+
+  const handleResolve = () => {
+    const values: Record<string, string | number | null> = {};
+    takenFromThem.forEach(conflict => { values[conflict.field] = conflict.theirs; });
+    keptFromYou.forEach(conflict => { values[conflict.field] = conflict.yours; });
+    overlapping.forEach(conflict => {
+      values[conflict.field] = choices[conflict.field] === 'theirs' ? conflict.theirs : conflict.yours;
+    });
+    onResolve(values);
+  };
+
+  const otherUser = lastChange?.username || 'Another user';
+  const label = (field: string) => FIELD_LABELS[field] || field;
+
+  return (
+    <div className="fixed inset-0 bg-dark-400/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.3 }}
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <GlassCard variant="dark">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <AlertTriangle className="text-warning-400" size={20} />
+              This claim changed while you were editing
+            </h3>
+            <button onClick={onCancel} className="text-white/70 hover:text-white" aria-label="Close">
+              <X size={20} />
+            </button>
+          </div>
+
+          <p className="text-white/70 mb-4">
+            {otherUser} saved changes
+            {lastChange ? ` on ${new Date(lastChange.timestamp).toLocaleString()}` : ''} after you opened this claim.
+            Nothing has been saved yet; review the differences below and save the merged result.
+          </p>
+
+          {overlapping.length > 0 && (
+            <div className="mb-4">
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-white font-medium">Changed by both of you</h4>
+                <div className="flex gap-3 text-sm">
+                  <button onClick={() => chooseAll('yours')} className="text-accent-400 hover:text-accent-300">
+                    Keep all mine
+                  </button>
+                  <button onClick={() => chooseAll('theirs')} className="text-accent-400 hover:text-accent-300">
+                    Take all theirs
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {overlapping.map(conflict => (
+                  <div key={conflict.field} className="p-3 rounded-md bg-white/5 border border-white/10">
+                    <div className="flex justify-between text-sm mb-2">
+                      <span className="text-white font-medium">{label(conflict.field)}</span>
+                      <span className="text-white/50">Was: {displayValue(baseValue(conflict.field))}</span>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {(['yours', 'theirs'] as Choice[]).map(choice => (
+                        <button
+                          key={choice}
+                          onClick={() => setChoices(prev => ({ ...prev, [conflict.field]: choice }))}
+                          className={`text-left p-2 rounded-md border transition-colors ${
+                            choices[conflict.field] === choice
+                              ? 'border-accent-400 bg-accent-500/20 text-white'
+                              : 'border-white/10 text-white/70 hover:bg-white/10'
+                          }`}
+                        >
+                          <span className="block text-xs text-white/50">
+                            {choice === 'yours' ? 'Mine' : `${otherUser}'s`}
+                          </span>
+                          <span className="break-words">{displayValue(conflict[choice])}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(takenFromThem.length > 0 || keptFromYou.length > 0) && (
+            <div className="mb-4 text-sm space-y-2">
+              {takenFromThem.length > 0 && (
+                <p className="text-white/70">
+                  <span className="text-white">Updated to {otherUser}'s values:</span>{' '}
+                  {takenFromThem.map(conflict => `${label(conflict.field)} (${displayValue(conflict.theirs)})`).join(', ')}
+                </p>
+              )}
+              {keptFromYou.length > 0 && (
+                <p className="text-white/70">
+                  <span className="text-white">Your changes kept:</span>{' '}
+                  {keptFromYou.map(conflict => label(conflict.field)).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={handleResolve} isLoading={isSaving}>
+              Save Merged
+            </Button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ClaimConflictDialog;
@@ -4,8 +4,11 @@ import { Save, FileText, AlertCircle, CheckCircle, XCircle } from 'lucide-react'
 import GlassCard from '../ui/GlassCard';
 import GlassInput from '../ui/GlassInput';
 import Button from '../ui/Button';
-import { VisitClaim } from '../../types/claim';
+import { VisitClaim, ClaimUpdate } from '../../types/claim';
 import { useClaims } from '../../contexts/ClaimContext';
+import { ClaimValidationError, ClaimConflictError } from '../../services/claimService';
+import { useAuth } from '../../contexts/AuthContext';
+import ClaimConflictDialog from './ClaimConflictDialog';
 
 interface ClaimTabsProps {
   claim: VisitClaim;
@@ -51,6 +54,41 @@ interface FeedbackMessage {
   message: string;
 }
 
+// A save rejected because the claim changed on the server, waiting for the user to merge it
+interface PendingConflict {
+  error: ClaimConflictError;
+  update: ClaimUpdate;
+  base: VisitClaim;
+  successMessage: string;
+  errorMessage: string;
+}
+
+// Form input names mapped to the claim fields the API reports errors against
+const API_FIELD_NAMES: Record<string, string> = {
+  oaClaimId: 'oa_claim_id',
+  oaVisitId: 'oa_visit_id',
+  chargeDt: 'charge_dt',
+  chargeAmount: 'charge_amt',
+  primIns: 'prim_ins',
+  primAmt: 'prim_amt',
+  primPostDt: 'prim_post_dt',
+  primChkDetails: 'prim_chk_det',
+  primRecDt: 'prim_recv_dt',
+  primChkAmt: 'prim_chk_amt',
+  primCmnt: 'prim_cmt',
+  primDenialCode: 'claim_status_type',
+  secIns: 'sec_ins',
+  secAmt: 'sec_amt',
+  secPostDt: 'sec_post_dt',
+  secChkDetails: 'sec_chk_det',
+  secRecDt: 'sec_recv_dt',
+  secChkAmt: 'sec_chk_amt',
+  secCmnt: 'sec_cmt',
+  patAmt: 'pat_amt',
+  patRecDt: 'pat_recv_dt',
+  secDenialCode: 'sec_denial_code',
+};
+
 // Format display value with N/A for null/undefined values
 const formatDisplayValue = (value: any): string => {
   if (value === null || value === undefined || value === '') {
@@ -67,90 +105,88 @@ const formatInputValue = (value: any): string => {
   return String(value);
 };
 
+const toClaimDetailsForm = (claim: VisitClaim): ClaimDetailsForm => ({
+  oaClaimId: formatInputValue(claim.oa_claim_id),
+  oaVisitId: formatInputValue(claim.oa_visit_id),
+  chargeDt: formatInputValue(claim.charge_dt),
+  chargeAmount: formatInputValue(claim.charge_amt),
+});
+
+const toPrimaryForm = (claim: VisitClaim): PrimaryInsuranceForm => ({
+  primIns: formatInputValue(claim.prim_ins),
+  primAmt: formatInputValue(claim.prim_amt),
+  primPostDt: formatInputValue(claim.prim_post_dt),
+  primChkDetails: formatInputValue(claim.prim_chk_det),
+  primRecDt: formatInputValue(claim.prim_recv_dt),
+  primChkAmt: formatInputValue(claim.prim_chk_amt),
+  primCmnt: formatInputValue(claim.prim_cmt),
+  primDenialCode: formatInputValue(claim.claim_status_type),
+});
+
+const toSecondaryForm = (claim: VisitClaim): SecondaryInsuranceForm => ({
+  secIns: formatInputValue(claim.sec_ins),
+  secAmt: formatInputValue(claim.sec_amt),
+  secPostDt: formatInputValue(claim.sec_post_dt),
+  secChkDetails: formatInputValue(claim.sec_chk_det),
+  secRecDt: formatInputValue(claim.sec_recv_dt),
+  secChkAmt: formatInputValue(claim.sec_chk_amt),
+  secCmnt: formatInputValue(claim.sec_cmt),
+  patAmt: formatInputValue(claim.pat_amt),
+  patRecDt: formatInputValue(claim.pat_recv_dt),
+  secDenialCode: formatInputValue(claim.sec_denial_code),
+});
+
+// Take the new value for every input still showing the old claim's value; keep the user's edits
+const refreshUntouched = <T extends object>(form: T, previous: T, next: T): T => {
+  const refreshed = { ...form };
+  (Object.keys(form) as (keyof T)[]).forEach(key => {
+    if (form[key] === previous[key]) {
+      refreshed[key] = next[key];
+    }
+  });
+  return refreshed;
+};
+
 const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
   const { updateClaim, isLoading } = useClaims();
+  const { hasRole } = useAuth();
+  // Viewers can browse the tabs but can't post changes
+  const canEdit = hasRole('poster');
   const [activeTab, setActiveTab] = useState<TabType>('claim');
   const [showTooltip, setShowTooltip] = useState(false);
   const [feedback, setFeedback] = useState<FeedbackMessage>({ status: null, message: '' });
   const [localIsLoading, setLocalIsLoading] = useState(false);
+  // Per-field errors returned by the API, keyed by claim field name
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
   
   // Reference to track whether forms have been initialized
   const initializedRef = useRef(false);
   const previousClaimRef = useRef(claim);
   
-  // State for claim details form
-  const [claimDetailsForm, setClaimDetailsForm] = useState<ClaimDetailsForm>({
-    oaClaimId: formatInputValue(claim.oa_claim_id),
-    oaVisitId: formatInputValue(claim.oa_visit_id),
-    chargeDt: formatInputValue(claim.charge_dt),
-    chargeAmount: claim.charge_amt !== null ? claim.charge_amt.toString() : '',
-  });
+  // State for the three tab forms
+  const [claimDetailsForm, setClaimDetailsForm] = useState<ClaimDetailsForm>(() => toClaimDetailsForm(claim));
+  const [primaryForm, setPrimaryForm] = useState<PrimaryInsuranceForm>(() => toPrimaryForm(claim));
+  const [secondaryForm, setSecondaryForm] = useState<SecondaryInsuranceForm>(() => toSecondaryForm(claim));
 
-  // State for primary insurance form
-  const [primaryForm, setPrimaryForm] = useState<PrimaryInsuranceForm>({
-    primIns: formatInputValue(claim.prim_ins),
-    primAmt: claim.prim_amt !== null ? claim.prim_amt.toString() : '',
-    primPostDt: formatInputValue(claim.prim_post_dt),
-    primChkDetails: formatInputValue(claim.prim_chk_det),
-    primRecDt: formatInputValue(claim.prim_recv_dt),
-    primChkAmt: claim.prim_chk_amt !== null ? claim.prim_chk_amt.toString() : '',
-    primCmnt: formatInputValue(claim.prim_cmt),
-    primDenialCode: formatInputValue(claim.claim_status_type),
-  });
-
-  // State for secondary insurance form
-  const [secondaryForm, setSecondaryForm] = useState<SecondaryInsuranceForm>({
-    secIns: formatInputValue(claim.sec_ins),
-    secAmt: claim.sec_amt !== null ? claim.sec_amt.toString() : '',
-    secPostDt: formatInputValue(claim.sec_post_dt),
-    secChkDetails: formatInputValue(claim.sec_chk_det),
-    secRecDt: formatInputValue(claim.sec_recv_dt),
-    secChkAmt: claim.sec_chk_amt !== null ? claim.sec_chk_amt.toString() : '',
-    secCmnt: formatInputValue(claim.sec_cmt),
-    patAmt: claim.pat_amt !== null ? claim.pat_amt.toString() : '',
-    patRecDt: formatInputValue(claim.pat_recv_dt),
-    secDenialCode: formatInputValue(claim.sec_denial_code),
-  });
-
-  // Initialize forms only once when component mounts or when claim ID changes
+  // Initialize forms once when the component mounts or the claim ID changes. When the same claim is
+  // saved elsewhere (e.g. reverted from the history), only inputs the user hasn't touched pick up the new values
   useEffect(() => {
-    const isNewClaim = claim.id !== previousClaimRef.current.id;
+    const previousClaim = previousClaimRef.current;
+    const isNewClaim = claim.id !== previousClaim.id;
     
     if (!initializedRef.current || isNewClaim) {
-      setClaimDetailsForm({
-        oaClaimId: formatInputValue(claim.oa_claim_id),
-        oaVisitId: formatInputValue(claim.oa_visit_id),
-        chargeDt: formatInputValue(claim.charge_dt),
-        chargeAmount: claim.charge_amt !== null ? claim.charge_amt.toString() : '',
-      });
-      
-      setPrimaryForm({
-        primIns: formatInputValue(claim.prim_ins),
-        primAmt: claim.prim_amt !== null ? claim.prim_amt.toString() : '',
-        primPostDt: formatInputValue(claim.prim_post_dt),
-        primChkDetails: formatInputValue(claim.prim_chk_det),
-        primRecDt: formatInputValue(claim.prim_recv_dt),
-        primChkAmt: claim.prim_chk_amt !== null ? claim.prim_chk_amt.toString() : '',
-        primCmnt: formatInputValue(claim.prim_cmt),
-        primDenialCode: formatInputValue(claim.claim_status_type),
-      });
-      
-      setSecondaryForm({
-        secIns: formatInputValue(claim.sec_ins),
-        secAmt: claim.sec_amt !== null ? claim.sec_amt.toString() : '',
-        secPostDt: formatInputValue(claim.sec_post_dt),
-        secChkDetails: formatInputValue(claim.sec_chk_det),
-        secRecDt: formatInputValue(claim.sec_recv_dt),
-        secChkAmt: claim.sec_chk_amt !== null ? claim.sec_chk_amt.toString() : '',
-        secCmnt: formatInputValue(claim.sec_cmt),
-        patAmt: claim.pat_amt !== null ? claim.pat_amt.toString() : '',
-        patRecDt: formatInputValue(claim.pat_recv_dt),
-        secDenialCode: formatInputValue(claim.sec_denial_code),
-      });
-      
+      setClaimDetailsForm(toClaimDetailsForm(claim));
+      setPrimaryForm(toPrimaryForm(claim));
+      setSecondaryForm(toSecondaryForm(claim));
+      setFieldErrors({});
       initializedRef.current = true;
-      previousClaimRef.current = claim;
+    } else if (claim.row_version !== previousClaim.row_version) {
+      setClaimDetailsForm(form => refreshUntouched(form, toClaimDetailsForm(previousClaim), toClaimDetailsForm(claim)));
+      setPrimaryForm(form => refreshUntouched(form, toPrimaryForm(previousClaim), toPrimaryForm(claim)));
+      setSecondaryForm(form => refreshUntouched(form, toSecondaryForm(previousClaim), toSecondaryForm(claim)));
     }
+    previousClaimRef.current = claim;
   }, [claim]);
   
   // Clear feedback after 5 seconds
@@ -182,8 +218,89 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
     setActiveTab(tab);
   };
 
+  // Clear a field's server error as soon as the user edits it
+  const clearFieldError = (inputName: string) => {
+    const apiField = API_FIELD_NAMES[inputName];
+    if (apiField && fieldErrors[apiField]) {
+      setFieldErrors(prev => {
+        const next = { ...prev };
+        delete next[apiField];
+        return next;
+      });
+    }
+  };
+
+  // Show field errors inline, or a generic message for any other failure
+  const handleSaveError = (err: unknown, fallbackMessage: string) => {
+    if (err instanceof ClaimValidationError) {
+      setFieldErrors(err.fieldErrors);
+      setFeedback({
+        status: 'error',
+        message: 'Please correct the highlighted fields and save again.'
+      });
+      return;
+    }
+    setFeedback({
+      status: 'error',
+      message: fallbackMessage
+    });
+  };
+
+  // Save one tab's fields; a conflict with someone else's save opens the merge dialog instead of failing
+  const saveClaim = async (update: ClaimUpdate, successMessage: string, errorMessage: string) => {
+    try {
+      setLocalIsLoading(true);
+      setFieldErrors({});
+      
+      await updateClaim(update);
+      
+      setConflict(null);
+      setFeedback({
+        status: 'success',
+        message: successMessage
+      });
+    } catch (err) {
+      if (err instanceof ClaimConflictError) {
+        setConflict({ error: err, update, base: claim, successMessage, errorMessage });
+      } else {
+        handleSaveError(err, errorMessage);
+        console.error(errorMessage, err);
+      }
+    } finally {
+      setLocalIsLoading(false);
+    }
+  };
+
+  // Show the merged values in the inputs, so the forms match what is saved
+  const applyToForms = (values: Record<string, unknown>) => {
+    const inputValues: Record<string, string> = {};
+    Object.entries(API_FIELD_NAMES).forEach(([inputName, apiField]) => {
+      if (apiField in values) inputValues[inputName] = formatInputValue(values[apiField]);
+    });
+
+    const pick = <T extends object>(form: T): Partial<T> =>
+      Object.fromEntries(Object.entries(inputValues).filter(([name]) => name in form)) as Partial<T>;
+
+    setClaimDetailsForm(prev => ({ ...prev, ...pick(prev) }));
+    setPrimaryForm(prev => ({ ...prev, ...pick(prev) }));
+    setSecondaryForm(prev => ({ ...prev, ...pick(prev) }));
+  };
+
+  const handleResolveConflict = async (values: Record<string, string | number | null>) => {
+    if (!conflict) return;
+
+    applyToForms(values);
+    // Save on top of the version the conflict reported
+    await saveClaim(
+      { ...conflict.update, ...values, row_version: conflict.error.current.row_version },
+      conflict.successMessage,
+      conflict.errorMessage
+    );
+  };
+
   const handleClaimDetailsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
+    clearFieldError(name);
     setClaimDetailsForm((prev) => ({
       ...prev,
       [name]: value,
@@ -193,6 +310,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
 
   const handlePrimaryChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
+    clearFieldError(name);
     setPrimaryForm(prev => ({
       ...prev,
       [name]: value,
@@ -202,6 +320,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
 
   const handleSecondaryChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
+    clearFieldError(name);
     setSecondaryForm(prev => ({
       ...prev,
       [name]: value,
@@ -219,115 +338,65 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
       return;
     }
     
-    try {
-      setLocalIsLoading(true);
-      
-      // Create the update object with only the fields being updated
-      const updateData = {
-        id: claim.id,
-        oa_claim_id: claimDetailsForm.oaClaimId,
-        oa_visit_id: claimDetailsForm.oaVisitId,
-        charge_dt: claimDetailsForm.chargeDt,
-        charge_amt: parseFloat(claimDetailsForm.chargeAmount) || 0
-      };
-      
-      await updateClaim(updateData);
-      
-      setFeedback({
-        status: 'success',
-        message: 'Claim details saved successfully!'
-      });
-    } catch (err) {
-      setFeedback({
-        status: 'error',
-        message: 'An error occurred while saving claim details.'
-      });
-      console.error('Error saving claim details:', err);
-    } finally {
-      setLocalIsLoading(false);
-    }
+    // Create the update object with only the fields being updated
+    const updateData = {
+      id: claim.id,
+      oa_claim_id: claimDetailsForm.oaClaimId,
+      oa_visit_id: claimDetailsForm.oaVisitId,
+      charge_dt: claimDetailsForm.chargeDt,
+      charge_amt: parseFloat(claimDetailsForm.chargeAmount) || 0
+    };
+    
+    await saveClaim(
+      updateData,
+      'Claim details saved successfully!',
+      'An error occurred while saving claim details.'
+    );
   };
 
   const handleSavePrimary = async () => {
-    try {
-      setLocalIsLoading(true);
-      
-      // Create the update object with only the fields being updated
-      const updateData = {
-        id: claim.id,
-        prim_ins: primaryForm.primIns.trim() || null,
-        prim_amt: primaryForm.primAmt ? parseFloat(primaryForm.primAmt) : null,
-        prim_post_dt: primaryForm.primPostDt.trim() || null,
-        prim_chk_det: primaryForm.primChkDetails.trim() || null,
-        prim_recv_dt: primaryForm.primRecDt.trim() || null,
-        prim_chk_amt: primaryForm.primChkAmt ? parseFloat(primaryForm.primChkAmt) : null,
-        prim_cmt: primaryForm.primCmnt.trim() || null,
-        claim_status_type: primaryForm.primDenialCode.trim() || null
-      };
-      
-      try {
-        const result = await updateClaim(updateData);
-        
-        // Always show success if the function completes without throwing an error
-        // Even if result.success is undefined, assume it worked if we got here
-        setFeedback({
-          status: 'success',
-          message: 'Primary insurance details saved successfully!'
-        });
-      } catch (updateError) {
-        console.error('Error in updateClaim operation:', updateError);
-        throw updateError; // Re-throw to be caught by the outer catch
-      }
-    } catch (err) {
-      setFeedback({
-        status: 'error',
-        message: 'An error occurred while saving primary insurance details.'
-      });
-      console.error('Error saving primary insurance details:', err);
-    } finally {
-      setLocalIsLoading(false);
-    }
+    // Create the update object with only the fields being updated
+    const updateData = {
+      id: claim.id,
+      prim_ins: primaryForm.primIns.trim() || null,
+      prim_amt: primaryForm.primAmt ? parseFloat(primaryForm.primAmt) : null,
+      prim_post_dt: primaryForm.primPostDt.trim() || null,
+      prim_chk_det: primaryForm.primChkDetails.trim() || null,
+      prim_recv_dt: primaryForm.primRecDt.trim() || null,
+      prim_chk_amt: primaryForm.primChkAmt ? parseFloat(primaryForm.primChkAmt) : null,
+      prim_cmt: primaryForm.primCmnt.trim() || null,
+      claim_status_type: primaryForm.primDenialCode.trim() || null
+    };
+    
+    await saveClaim(
+      updateData,
+      'Primary insurance details saved successfully!',
+      'An error occurred while saving primary insurance details.'
+    );
   };
 
   const handleSaveSecondary = async () => {
-    try {
-      setLocalIsLoading(true);
-      
-      // Create the update object with only the fields being updated
-      const updateData = {
-        id: claim.id,
-        // Properly handle each field with appropriate type conversion
-        sec_ins: secondaryForm.secIns.trim() || null,
-        sec_amt: secondaryForm.secAmt && secondaryForm.secAmt.trim() !== '' ? parseFloat(secondaryForm.secAmt) : null,
-        sec_post_dt: secondaryForm.secPostDt.trim() || null,
-        sec_chk_det: secondaryForm.secChkDetails.trim() || null,
-        sec_recv_dt: secondaryForm.secRecDt.trim() || null,
-        sec_chk_amt: secondaryForm.secChkAmt && secondaryForm.secChkAmt.trim() !== '' ? parseFloat(secondaryForm.secChkAmt) : null,
-        sec_cmt: secondaryForm.secCmnt.trim() || null,
-        // Removed sec_denial_code as it doesn't exist in the database schema
-        pat_amt: secondaryForm.patAmt && secondaryForm.patAmt.trim() !== '' ? parseFloat(secondaryForm.patAmt) : null,
-        pat_recv_dt: secondaryForm.patRecDt.trim() || null
-      };
-      
-      console.log('Saving secondary insurance with data:', updateData);
-      
-      // Call updateClaim and wait for the result
-      const result = await updateClaim(updateData);
-      
-      // If we get here without an exception, the update was successful
-      setFeedback({
-        status: 'success',
-        message: 'Secondary insurance details saved successfully!'
-      });
-    } catch (err) {
-      console.error('Error saving secondary insurance details:', err);
-      setFeedback({
-        status: 'error',
-        message: 'An error occurred while saving secondary insurance details.'
-      });
-    } finally {
-      setLocalIsLoading(false);
-    }
+    // Create the update object with only the fields being updated
+    const updateData = {
+      id: claim.id,
+      // Properly handle each field with appropriate type conversion
+      sec_ins: secondaryForm.secIns.trim() || null,
+      sec_amt: secondaryForm.secAmt && secondaryForm.secAmt.trim() !== '' ? parseFloat(secondaryForm.secAmt) : null,
+      sec_post_dt: secondaryForm.secPostDt.trim() || null,
+      sec_chk_det: secondaryForm.secChkDetails.trim() || null,
+      sec_recv_dt: secondaryForm.secRecDt.trim() || null,
+      sec_chk_amt: secondaryForm.secChkAmt && secondaryForm.secChkAmt.trim() !== '' ? parseFloat(secondaryForm.secChkAmt) : null,
+      sec_cmt: secondaryForm.secCmnt.trim() || null,
+      sec_denial_code: secondaryForm.secDenialCode.trim() || null,
+      pat_amt: secondaryForm.patAmt && secondaryForm.patAmt.trim() !== '' ? parseFloat(secondaryForm.patAmt) : null,
+      pat_recv_dt: secondaryForm.patRecDt.trim() || null
+    };
+    
+    await saveClaim(
+      updateData,
+      'Secondary insurance details saved successfully!',
+      'An error occurred while saving secondary insurance details.'
+    );
   };
 
   const claimDetailsComplete = isClaimDetailsComplete();
@@ -402,20 +471,22 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
           </div>
           
           {/* Save button in tab header */}
-          <Button
-            onClick={
-              activeTab === 'claim' 
-                ? handleSaveClaimDetails 
-                : activeTab === 'primary' 
-                  ? handleSavePrimary 
-                  : handleSaveSecondary
-            }
-            icon={<Save size={16} />}
-            disabled={localIsLoading || (activeTab !== 'claim' && !claimDetailsComplete)}
-            className="ml-4"
-          >
-            {localIsLoading ? 'Saving...' : 'Save'}
-          </Button>
+          {canEdit && (
+            <Button
+              onClick={
+                activeTab === 'claim' 
+                  ? handleSaveClaimDetails 
+                  : activeTab === 'primary' 
+                    ? handleSavePrimary 
+                    : handleSaveSecondary
+              }
+              icon={<Save size={16} />}
+              disabled={localIsLoading || (activeTab !== 'claim' && !claimDetailsComplete)}
+              className="ml-4"
+            >
+              {localIsLoading ? 'Saving...' : 'Save'}
+            </Button>
+          )}
         </div>
       </GlassCard>
 
@@ -438,10 +509,13 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
                 name="oaClaimId"
                 value={claimDetailsForm.oaClaimId}
                 onChange={handleClaimDetailsChange}
-                className="glass-input w-full"
+                className={`glass-input w-full ${fieldErrors.oa_claim_id ? 'border-error-500' : ''}`}
                 type="text"
                 required
               />
+              {fieldErrors.oa_claim_id && (
+                <p className="mt-1 text-error-400 text-sm">{fieldErrors.oa_claim_id}</p>
+              )}
             </div>
             
             <div className="mb-4">
@@ -452,10 +526,13 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
                 name="oaVisitId"
                 value={claimDetailsForm.oaVisitId}
                 onChange={handleClaimDetailsChange}
-                className="glass-input w-full"
+                className={`glass-input w-full ${fieldErrors.oa_visit_id ? 'border-error-500' : ''}`}
                 type="text"
                 required
               />
+              {fieldErrors.oa_visit_id && (
+                <p className="mt-1 text-error-400 text-sm">{fieldErrors.oa_visit_id}</p>
+              )}
             </div>
             
             <div className="mb-4">
@@ -468,9 +545,12 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
                   type="date"
                   value={claimDetailsForm.chargeDt}
                   onChange={handleClaimDetailsChange}
-                  className="glass-input w-full"
+                  className={`glass-input w-full ${fieldErrors.charge_dt ? 'border-error-500' : ''}`}
                   required
                 />
+                {fieldErrors.charge_dt && (
+                  <span className="mt-1 text-error-400 text-sm">{fieldErrors.charge_dt}</span>
+                )}
                 <span className="text-xs text-white/50 mt-1">
                   {claim.charge_dt ? `DB value: ${new Date(claim.charge_dt).toLocaleDateString()}` : 'No date in database'}
                 </span>
@@ -487,9 +567,12 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
                 step="0.01"
                 value={claimDetailsForm.chargeAmount}
                 onChange={handleClaimDetailsChange}
-                className="glass-input w-full"
+                className={`glass-input w-full ${fieldErrors.charge_amt ? 'border-error-500' : ''}`}
                 required
               />
+              {fieldErrors.charge_amt && (
+                <p className="mt-1 text-error-400 text-sm">{fieldErrors.charge_amt}</p>
+              )}
             </div>
           </div>
         </GlassCard>
@@ -510,6 +593,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               label="Primary Insurance"
               name="primIns"
               value={primaryForm.primIns}
+              error={fieldErrors.prim_ins}
               onChange={handlePrimaryChange}
             />
             <GlassInput
@@ -518,6 +602,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               type="number"
               step="0.01"
               value={primaryForm.primAmt}
+              error={fieldErrors.prim_amt}
               onChange={handlePrimaryChange}
             />
             <GlassInput
@@ -525,12 +610,14 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               name="primPostDt"
               type="date"
               value={primaryForm.primPostDt}
+              error={fieldErrors.prim_post_dt}
               onChange={handlePrimaryChange}
             />
             <GlassInput
               label="Primary Check Details"
               name="primChkDetails"
               value={primaryForm.primChkDetails}
+              error={fieldErrors.prim_chk_det}
               onChange={handlePrimaryChange}
             />
             <GlassInput
@@ -538,6 +625,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               name="primRecDt"
               type="date"
               value={primaryForm.primRecDt}
+              error={fieldErrors.prim_recv_dt}
               onChange={handlePrimaryChange}
             />
             <GlassInput
@@ -546,6 +634,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               type="number"
               step="0.01"
               value={primaryForm.primChkAmt}
+              error={fieldErrors.prim_chk_amt}
               onChange={handlePrimaryChange}
             />
             <div className="md:col-span-2">
@@ -556,13 +645,17 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
                 name="primCmnt"
                 value={primaryForm.primCmnt}
                 onChange={handlePrimaryChange}
-                className="glass-input w-full min-h-[120px]"
+                className={`glass-input w-full min-h-[120px] ${fieldErrors.prim_cmt ? 'border-error-500' : ''}`}
               ></textarea>
+              {fieldErrors.prim_cmt && (
+                <p className="mt-1 text-error-400 text-sm">{fieldErrors.prim_cmt}</p>
+              )}
             </div>
             <GlassInput
               label="Primary Denial Code"
               name="primDenialCode"
               value={primaryForm.primDenialCode}
+              error={fieldErrors.claim_status_type}
               onChange={handlePrimaryChange}
             />
           </div>
@@ -584,6 +677,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               label="Secondary Insurance"
               name="secIns"
               value={secondaryForm.secIns}
+              error={fieldErrors.sec_ins}
               onChange={handleSecondaryChange}
             />
             <GlassInput
@@ -592,6 +686,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               type="number"
               step="0.01"
               value={secondaryForm.secAmt}
+              error={fieldErrors.sec_amt}
               onChange={handleSecondaryChange}
             />
             <GlassInput
@@ -599,12 +694,14 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               name="secPostDt"
               type="date"
               value={secondaryForm.secPostDt}
+              error={fieldErrors.sec_post_dt}
               onChange={handleSecondaryChange}
             />
             <GlassInput
               label="Secondary Check Details"
               name="secChkDetails"
               value={secondaryForm.secChkDetails}
+              error={fieldErrors.sec_chk_det}
               onChange={handleSecondaryChange}
             />
             <GlassInput
@@ -612,6 +709,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               name="secRecDt"
               type="date"
               value={secondaryForm.secRecDt}
+              error={fieldErrors.sec_recv_dt}
               onChange={handleSecondaryChange}
             />
             <GlassInput
@@ -620,6 +718,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               type="number"
               step="0.01"
               value={secondaryForm.secChkAmt}
+              error={fieldErrors.sec_chk_amt}
               onChange={handleSecondaryChange}
             />
             <div className="md:col-span-2">
@@ -630,8 +729,11 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
                 name="secCmnt"
                 value={secondaryForm.secCmnt}
                 onChange={handleSecondaryChange}
-                className="glass-input w-full min-h-[120px]"
+                className={`glass-input w-full min-h-[120px] ${fieldErrors.sec_cmt ? 'border-error-500' : ''}`}
               ></textarea>
+              {fieldErrors.sec_cmt && (
+                <p className="mt-1 text-error-400 text-sm">{fieldErrors.sec_cmt}</p>
+              )}
             </div>
             <GlassInput
               label="Patient Amount"
@@ -639,6 +741,7 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               type="number"
               step="0.01"
               value={secondaryForm.patAmt}
+              error={fieldErrors.pat_amt}
               onChange={handleSecondaryChange}
             />
             <GlassInput
@@ -646,18 +749,37 @@ const ClaimTabs: React.FC<ClaimTabsProps> = ({ claim }) => {
               name="patRecDt"
               type="date"
               value={secondaryForm.patRecDt}
+              error={fieldErrors.pat_recv_dt}
               onChange={handleSecondaryChange}
             />
             <GlassInput
               label="Secondary Denial Code"
               name="secDenialCode"
               value={secondaryForm.secDenialCode}
+              error={fieldErrors.sec_denial_code}
               onChange={handleSecondaryChange}
             />
           </div>
         </GlassCard>
       )}
 
+      {conflict && (
+        <ClaimConflictDialog
+          conflicts={conflict.error.conflicts}
+          base={conflict.base}
+          lastChange={conflict.error.lastChange}
+          isSaving={localIsLoading}
+          onResolve={handleResolveConflict}
+          onCancel={() => {
+            setConflict(null);
+            setFeedback({
+              status: 'error',
+              message: 'Your changes were not saved because the claim changed. Review the values and save again.'
+            });
+          }}
+        />
+      )}
+
       {/* Placeholder for incomplete claim details */}
       {(activeTab === 'primary' || activeTab === 'secondary') && !claimDetailsComplete && (
         <GlassCard className="bg-dark-400/50">
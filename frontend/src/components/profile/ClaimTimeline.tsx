@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Clock, ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+import GlassCard from '../ui/GlassCard';
+import ClaimField, { formatters } from '../ui/ClaimField';
+import { ClaimSnapshot, ClaimTimelineEntry } from '../../types/claim';
+import { fetchClaimSnapshot } from '../../services/claimService';
+
+interface ClaimTimelineProps {
+  claimId: number;
+  // Changes whenever the claim is saved, so the timeline picks up the new save
+  version?: number;
+}
+
+interface SnapshotField {
+  field: string;
+  label: string;
+  format?: 'currency' | 'date';
+}
+
+const SNAPSHOT_SECTIONS: { title: string; fields: SnapshotField[] }[] = [
+  {
+    title: 'Claim',
+    fields: [
+      { field: 'claim_status', label: 'Claim Status' },
+      { field: 'claim_status_type', label: 'Primary Denial Code' },
+      { field: 'oa_claim_id', label: 'OA Claim ID' },
+      { field: 'oa_visit_id', label: 'OA Visit ID' },
+      { field: 'charge_dt', label: 'Charge Date', format: 'date' },
+      { field: 'charge_amt', label: 'Charge Amount', format: 'currency' },
+      { field: 'allowed_amt', label: 'Allowed Amount', format: 'currency' },
+      { field: 'write_off_amt', label: 'Write Off', format: 'currency' },
+      { field: 'bal_amt', label: 'Balance', format: 'currency' }
+    ]
+  },
+  {
+    title: 'Primary Insurance',
+    fields: [
+      { field: 'prim_ins', label: 'Insurance' },
+      { field: 'prim_amt', label: 'Amount', format: 'currency' },
+      { field: 'prim_post_dt', label: 'Post Date', format: 'date' },
+      { field: 'prim_chk_det', label: 'Check Details' },
+      { field: 'prim_recv_dt', label: 'Received Date', format: 'date' },
+      { field: 'prim_chk_amt', label: 'Check Amount', format: 'currency' },
+      { field: 'prim_cmt', label: 'Comment' }
+    ]
+  },
+  {
+    title: 'Secondary Insurance',
+    fields: [
+      { field: 'sec_ins', label: 'Insurance' },
+      { field: 'sec_amt', label: 'Amount', format: 'currency' },
+      { field: 'sec_post_dt', label: 'Post Date', format: 'date' },
+      { field: 'sec_chk_det', label: 'Check Details' },
+      { field: 'sec_recv_dt', label: 'Received Date', format: 'date' },
+      { field: 'sec_chk_amt', label: 'Check Amount', format: 'currency' },
+      { field: 'sec_cmt', label: 'Comment' },
+      { field: 'sec_denial_code', label: 'Denial Code' }
+    ]
+  },
+  {
+    title: 'Patient',
+    fields: [
+      { field: 'pat_amt', label: 'Patient Amount', format: 'currency' },
+      { field: 'pat_recv_dt', label: 'Received Date', format: 'date' }
+    ]
+  }
+];
+
+// Snapshot dates are plain days (YYYY-MM-DD); read them as local dates so they don't shift by a day
+const formatDay = (value: unknown): string =>
+  value ? formatters.date(`${String(value).slice(0, 10)}T00:00:00`) : 'N/A';
+
+const describeSave = (entry: ClaimTimelineEntry): string => {
+  if (entry.action_type === 'created') return `${entry.username} created the claim`;
+  if (entry.action_type === 'deleted') return `${entry.username} deleted the claim`;
+  return `${entry.username} changed ${entry.fields.length} field${entry.fields.length === 1 ? '' : 's'}`;
+};
+
+/**
+ * Read-only view of the claim as it was after any save in its history, picked with a slider
+ */
+const ClaimTimeline: React.FC<ClaimTimelineProps> = ({ claimId, version }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [timeline, setTimeline] = useState<ClaimTimelineEntry[]>([]);
+  // Position on the slider; null follows the latest save
+  const [index, setIndex] = useState<number | null>(null);
+  const [snapshot, setSnapshot] = useState<ClaimSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Responses for positions the user has already moved past are ignored
+  const requestRef = useRef(0);
+
+  const loadSnapshot = useCallback(async (at?: string) => {
+    const requestId = ++requestRef.current;
+    setIsLoading(true);
+
+    const response = await fetchClaimSnapshot(claimId, at);
+    if (requestId !== requestRef.current) return;
+
+    if (response.success && response.data) {
+      setSnapshot(response.data);
+      // The timeline only changes with new saves, which the current state picks up
+      if (!at) setTimeline(response.data.timeline);
+      setError(null);
+    } else {
+      setError(response.message || 'Unable to load this point in the claim history.');
+    }
+    setIsLoading(false);
+  }, [claimId]);
+
+  // Load the current state when opened, and again after every save to the claim
+  useEffect(() => {
+    if (isExpanded) {
+      setIndex(null);
+      loadSnapshot();
+    }
+  }, [isExpanded, version, loadSnapshot]);
+
+  // Wait for the slider to settle before fetching the snapshot
+  useEffect(() => {
+    if (index === null || !timeline[index]) return;
+    const timer = setTimeout(() => loadSnapshot(timeline[index].timestamp), 250);
+    return () => clearTimeout(timer);
+  }, [index, timeline, loadSnapshot]);
+
+  const position = index ?? timeline.length - 1;
+  const selected = timeline[position];
+  const changedFields = new Set(selected?.fields || []);
+  const claim = snapshot?.claim;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="mt-6"
+    >
+      <GlassCard>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Clock className="text-accent-400" size={20} />
+            Claim Timeline
+          </h2>
+          <button
+            onClick={() => setIsExpanded(prev => !prev)}
+            className="p-2 hover:bg-white/10 rounded-full transition-colors"
+            title={isExpanded ? 'Collapse' : 'Expand'}
+          >
+            {isExpanded ? <ChevronUp size={18} className="text-white/70" /> : <ChevronDown size={18} className="text-white/70" />}
+          </button>
+        </div>
+
+        {isExpanded && (
+          <div className="mt-4">
+            {error ? (
+              <div className="bg-error-900/30 text-error-400 p-4 rounded-md">
+                <p>{error}</p>
+              </div>
+            ) : !claim ? (
+              <div className="flex justify-center items-center py-8">
+                <div className="w-8 h-8 border-2 border-accent-500 border-t-transparent rounded-full animate-spin"></div>
+                <p className="ml-3 text-white/70">Loading timeline...</p>
+              </div>
+            ) : (
+              <>
+                {timeline.length > 1 ? (
+                  <div className="mb-6">
+                    <input
+                      type="range"
+                      min={0}
+                      max={timeline.length - 1}
+                      step={1}
+                      value={position}
+                      onChange={e => setIndex(Number(e.target.value))}
+                      className="w-full accent-accent-500"
+                      aria-label="Point in the claim history"
+                    />
+                    <div className="flex justify-between text-xs text-white/50 mt-1">
+                      <span>{new Date(timeline[0].timestamp).toLocaleDateString()}</span>
+                      <span>Now</span>
+                    </div>
+                  </div>
+                ) : timeline.length === 0 && (
+                  <p className="text-white/60 mb-4">No changes have been recorded for this claim; it is shown as it is now.</p>
+                )}
+
+                {selected && (
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-4 p-3 rounded-md bg-white/5">
+                    <span className="text-white/90">
+                      {new Date(selected.timestamp).toLocaleString()} · {describeSave(selected)}
+                    </span>
+                    <span className="flex items-center gap-3 text-sm">
+                      {claim.deleted_at && (
+                        <span className="flex items-center gap-1 text-error-400">
+                          <Trash2 size={14} />
+                          Deleted
+                        </span>
+                      )}
+                      {isLoading && <span className="text-white/50">Loading...</span>}
+                      <span className="text-white/50">
+                        {position === timeline.length - 1 ? 'Current' : 'Read-only snapshot'}
+                      </span>
+                    </span>
+                  </div>
+                )}
+
+                <div className={`space-y-6 transition-opacity ${isLoading ? 'opacity-60' : ''}`}>
+                  {SNAPSHOT_SECTIONS.map(section => (
+                    <div key={section.title}>
+                      <h3 className="text-white/80 font-medium mb-3">{section.title}</h3>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4">
+                        {section.fields.map(({ field, label, format }) => (
+                          <ClaimField
+                            key={field}
+                            label={label}
+                            value={claim[field]}
+                            formatter={format === 'currency' ? formatters.currency : format === 'date' ? formatDay : undefined}
+                            className={changedFields.has(field) && selected?.action_type === 'updated'
+                              ? 'rounded-md bg-accent-500/10 ring-1 ring-accent-500/40 px-2 py-1'
+                              : 'px-2 py-1'}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </GlassCard>
+    </motion.div>
+  );
+};
+
+export default ClaimTimeline;
@@ -0,0 +1,450 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Ban, Plus, CheckCircle, Trash2, AlertCircle } from 'lucide-react';
+import GlassCard from '../ui/GlassCard';
+import GlassInput from '../ui/GlassInput';
+import Button from '../ui/Button';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatCurrency } from '../reports/agingFormat';
+import {
+  fetchDenialCodes,
+  fetchClaimDenials,
+  createDenial,
+  updateDenial,
+  deleteDenial
+} from '../../services/denialService';
+import { AdjustmentGroup, Denial, DenialCodes, DenialInput } from '../../types/denial';
+import { PayerLevel } from '../../types/import';
+
+interface DenialsSectionProps {
+  claimId: number;
+}
+
+interface DenialForm {
+  payer_level: PayerLevel;
+  payer: string;
+  group_code: string;
+  carc_codes: string;
+  rarc_codes: string;
+  denied_amount: string;
+  denial_date: string;
+  root_cause: string;
+  appeal_deadline: string;
+}
+
+const GROUP_CODES: AdjustmentGroup[] = ['CO', 'PR', 'OA', 'PI', 'CR'];
+
+const emptyForm = (): DenialForm => ({
+  payer_level: 'primary',
+  payer: '',
+  group_code: 'CO',
+  carc_codes: '',
+  rarc_codes: '',
+  denied_amount: '',
+  denial_date: new Date().toISOString().slice(0, 10),
+  root_cause: '',
+  appeal_deadline: ''
+});
+
+const splitCodes = (value: string) =>
+  value.split(/[\s,]+/).map(code => code.trim().toUpperCase()).filter(Boolean);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatDate = (value: string | null) => (value ? new Date(`${value}T00:00:00`).toLocaleDateString() : 'N/A');
+
+/**
+ * Structured denials recorded against a claim line, with their CARC/RARC codes and resolution
+ */
+const DenialsSection: React.FC<DenialsSectionProps> = ({ claimId }) => {
+  const { hasRole } = useAuth();
+  const [denials, setDenials] = useState<Denial[]>([]);
+  const [codes, setCodes] = useState<DenialCodes | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState<DenialForm>(emptyForm);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  const [resolution, setResolution] = useState('');
+  const [resolutionNote, setResolutionNote] = useState('');
+
+  const canWrite = hasRole('poster');
+  const canDelete = hasRole('supervisor');
+
+  const loadDenials = useCallback(async () => {
+    setIsLoading(true);
+    const response = await fetchClaimDenials(claimId);
+    setIsLoading(false);
+
+    if (response.success) setDenials(response.data);
+    else setError(response.message || 'Denials could not be loaded');
+  }, [claimId]);
+
+  useEffect(() => {
+    loadDenials();
+  }, [loadDenials]);
+
+  useEffect(() => {
+    fetchDenialCodes().then(response => {
+      if (response.success) setCodes(response.data);
+    });
+  }, []);
+
+  const carcDescription = (code: string) => codes?.carc.find(entry => entry.code === code)?.description;
+  const rarcDescription = (code: string) => codes?.rarc.find(entry => entry.code === code)?.description;
+  const rootCauseLabel = (value: string) => codes?.rootCauses.find(entry => entry.value === value)?.label || value;
+  const resolutionLabel = (value: string) => codes?.resolutions.find(entry => entry.value === value)?.label || value;
+
+  // The root cause the server would pick from the CARCs entered so far, shown until one is chosen
+  const suggestedRootCause = (() => {
+    const match = splitCodes(form.carc_codes)
+      .map(code => codes?.carc.find(entry => entry.code === code)?.rootCause)
+      .find(cause => cause && cause !== 'other');
+    return match || 'other';
+  })();
+
+  const updateForm = (field: keyof DenialForm, value: string) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    setFormErrors({});
+
+    const payload: DenialInput = {
+      payer_level: form.payer_level,
+      payer: form.payer.trim() || null,
+      group_code: (form.group_code || null) as AdjustmentGroup | null,
+      carc_codes: splitCodes(form.carc_codes),
+      rarc_codes: splitCodes(form.rarc_codes),
+      denied_amount: form.denied_amount ? Number(form.denied_amount) : null,
+      denial_date: form.denial_date,
+      root_cause: form.root_cause || suggestedRootCause,
+      appeal_deadline: form.appeal_deadline || null
+    };
+
+    const response = await createDenial(claimId, payload);
+    setIsSaving(false);
+
+    if (response.success) {
+      setDenials(current => [response.data, ...current]);
+      setForm(emptyForm());
+      setIsAdding(false);
+    } else {
+      setFormErrors(response.errors || { form: response.message || 'The denial could not be saved' });
+    }
+  };
+
+  const handleResolve = async (denial: Denial) => {
+    if (!resolution) return;
+    const response = await updateDenial(denial.id, {
+      resolution,
+      resolution_note: resolutionNote.trim() || null
+    });
+
+    if (response.success) {
+      setDenials(current => current.map(item => (item.id === denial.id ? response.data : item)));
+      setResolvingId(null);
+      setResolution('');
+      setResolutionNote('');
+    } else {
+      setError(response.message || 'The denial could not be resolved');
+    }
+  };
+
+  const handleReopen = async (denial: Denial) => {
+    const response = await updateDenial(denial.id, { resolution: null, resolution_note: null });
+    if (response.success) setDenials(current => current.map(item => (item.id === denial.id ? response.data : item)));
+    else setError(response.message || 'The denial could not be reopened');
+  };
+
+  const handleDelete = async (denial: Denial) => {
+    if (!window.confirm('Delete this denial? Use this only for denials recorded in error.')) return;
+    const response = await deleteDenial(denial.id);
+    if (response.success) setDenials(current => current.filter(item => item.id !== denial.id));
+    else setError(response.message || 'The denial could not be deleted');
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.1 }}
+      className="mt-6"
+    >
+      <GlassCard>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Ban className="text-accent-400" size={20} />
+            Denials
+          </h2>
+
+          {canWrite && !isAdding && (
+            <Button variant="secondary" onClick={() => setIsAdding(true)} icon={<Plus size={16} />}>
+              Record Denial
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-md bg-error-900/30 text-error-400 flex items-center gap-2">
+            <AlertCircle size={18} />
+            {error}
+          </div>
+        )}
+
+        {isAdding && (
+          <form onSubmit={handleCreate} className="mb-6 p-4 rounded-md bg-white/5">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4">
+              <div className="mb-4">
+                <label className="block text-white/80 mb-2 font-medium">Payer Level</label>
+                <select
+                  value={form.payer_level}
+                  onChange={e => updateForm('payer_level', e.target.value)}
+                  className="glass-input w-full"
+                  style={{ background: '#1a1a2e', color: 'white' }}
+                >
+                  <option value="primary">Primary</option>
+                  <option value="secondary">Secondary</option>
+                </select>
+              </div>
+              <GlassInput
+                label="Payer"
+                placeholder="Defaults to the claim's insurance"
+                value={form.payer}
+                onChange={e => updateForm('payer', e.target.value)}
+                error={formErrors.payer}
+              />
+              <div className="mb-4">
+                <label className="block text-white/80 mb-2 font-medium">Group Code</label>
+                <select
+                  value={form.group_code}
+                  onChange={e => updateForm('group_code', e.target.value)}
+                  className="glass-input w-full"
+                  style={{ background: '#1a1a2e', color: 'white' }}
+                >
+                  <option value="">None</option>
+                  {GROUP_CODES.map(code => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </div>
+              <GlassInput
+                label="CARC Codes"
+                placeholder="e.g. 16, 197"
+                value={form.carc_codes}
+                onChange={e => updateForm('carc_codes', e.target.value)}
+                error={formErrors.carc_codes}
+              />
+              <GlassInput
+                label="RARC Codes"
+                placeholder="e.g. M51"
+                value={form.rarc_codes}
+                onChange={e => updateForm('rarc_codes', e.target.value)}
+                error={formErrors.rarc_codes}
+              />
+              <GlassInput
+                label="Denied Amount"
+                type="number"
+                step="0.01"
+                value={form.denied_amount}
+                onChange={e => updateForm('denied_amount', e.target.value)}
+                error={formErrors.denied_amount}
+              />
+              <GlassInput
+                label="Denial Date"
+                type="date"
+                value={form.denial_date}
+                onChange={e => updateForm('denial_date', e.target.value)}
+                error={formErrors.denial_date}
+              />
+              <div className="mb-4">
+                <label className="block text-white/80 mb-2 font-medium">Root Cause</label>
+                <select
+                  value={form.root_cause}
+                  onChange={e => updateForm('root_cause', e.target.value)}
+                  className="glass-input w-full"
+                  style={{ background: '#1a1a2e', color: 'white' }}
+                >
+                  <option value="">Suggested: {rootCauseLabel(suggestedRootCause)}</option>
+                  {codes?.rootCauses.map(cause => (
+                    <option key={cause.value} value={cause.value}>{cause.label}</option>
+                  ))}
+                </select>
+                {formErrors.root_cause && <p className="mt-1 text-sm text-error-400">{formErrors.root_cause}</p>}
+              </div>
+              <GlassInput
+                label="Appeal Deadline"
+                type="date"
+                value={form.appeal_deadline}
+                onChange={e => updateForm('appeal_deadline', e.target.value)}
+                error={formErrors.appeal_deadline}
+              />
+            </div>
+
+            {!form.appeal_deadline && codes && (
+              <p className="text-xs text-white/50 mb-4">
+                Without a deadline, one is set {codes.defaultAppealWindowDays} days after the denial date.
+              </p>
+            )}
+            {formErrors.form && <p className="text-sm text-error-400 mb-4">{formErrors.form}</p>}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => {
+                  setIsAdding(false);
+                  setForm(emptyForm());
+                  setFormErrors({});
+                }}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" isLoading={isSaving}>
+                Save Denial
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <p className="text-white/50 text-sm">Loading...</p>
+        ) : denials.length === 0 ? (
+          <p className="text-white/50 text-center py-4">No denials recorded for this claim line</p>
+        ) : (
+          <div className="space-y-4">
+            {denials.map(denial => {
+              const isOverdue = !denial.resolution && !!denial.appeal_deadline && denial.appeal_deadline < today();
+
+              return (
+                <div key={denial.id} className="p-4 rounded-md bg-white/5">
+                  <div className="flex flex-wrap justify-between items-start gap-2 mb-2">
+                    <div>
+                      <p className="text-white font-medium">
+                        {denial.payer || 'Unknown payer'}
+                        <span className="text-white/50 text-sm ml-2 capitalize">{denial.payer_level}</span>
+                      </p>
+                      <p className="text-xs text-white/50">
+                        Denied {formatDate(denial.denial_date)}
+                        {denial.denied_amount !== null && ` · ${formatCurrency(Number(denial.denied_amount))}`}
+                        {` · ${rootCauseLabel(denial.root_cause)}`}
+                      </p>
+                    </div>
+                    {denial.resolution ? (
+                      <span className="px-2 py-1 rounded-full text-xs bg-success-900/30 text-success-400">
+                        {resolutionLabel(denial.resolution)}
+                      </span>
+                    ) : (
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs ${
+                          isOverdue ? 'bg-error-900/30 text-error-400' : 'bg-warning-900/30 text-warning-400'
+                        }`}
+                      >
+                        {denial.appeal_deadline
+                          ? `${isOverdue ? 'Appeal deadline passed' : 'Appeal by'} ${formatDate(denial.appeal_deadline)}`
+                          : 'Open'}
+                      </span>
+                    )}
+                  </div>
+
+                  <ul className="text-sm space-y-1">
+                    {denial.carc_codes.map(code => (
+                      <li key={`carc-${code}`} className="text-white/80">
+                        <span className="font-mono text-accent-400">{denial.group_code ? `${denial.group_code}-` : ''}{code}</span>
+                        <span className="ml-2">{carcDescription(code) || 'No description'}</span>
+                      </li>
+                    ))}
+                    {denial.rarc_codes.map(code => (
+                      <li key={`rarc-${code}`} className="text-white/60">
+                        <span className="font-mono">{code}</span>
+                        <span className="ml-2">{rarcDescription(code) || 'No description'}</span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {denial.resolution && (
+                    <p className="text-xs text-white/50 mt-2">
+                      Resolved{denial.resolved_by_name ? ` by ${denial.resolved_by_name}` : ''}
+                      {denial.resolved_at ? ` on ${new Date(denial.resolved_at).toLocaleDateString()}` : ''}
+                      {denial.resolution_note ? `: ${denial.resolution_note}` : ''}
+                    </p>
+                  )}
+
+                  {resolvingId === denial.id && (
+                    <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-x-4">
+                      <div className="mb-4">
+                        <label className="block text-white/80 mb-2 font-medium">Resolution</label>
+                        <select
+                          value={resolution}
+                          onChange={e => setResolution(e.target.value)}
+                          className="glass-input w-full"
+                          style={{ background: '#1a1a2e', color: 'white' }}
+                        >
+                          <option value="">Choose...</option>
+                          {codes?.resolutions.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="md:col-span-2">
+                        <GlassInput
+                          label="Note"
+                          value={resolutionNote}
+                          onChange={e => setResolutionNote(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {canWrite && (
+                    <div className="flex justify-end gap-2 mt-2">
+                      {resolvingId === denial.id ? (
+                        <>
+                          <Button variant="secondary" onClick={() => setResolvingId(null)}>
+                            Cancel
+                          </Button>
+                          <Button onClick={() => handleResolve(denial)} disabled={!resolution}>
+                            Resolve
+                          </Button>
+                        </>
+                      ) : denial.resolution ? (
+                        <Button variant="secondary" onClick={() => handleReopen(denial)}>
+                          Reopen
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="secondary"
+                          onClick={() => {
+                            setResolvingId(denial.id);
+                            setResolution('');
+                            setResolutionNote('');
+                          }}
+                          icon={<CheckCircle size={16} />}
+                        >
+                          Resolve
+                        </Button>
+                      )}
+                      {canDelete && resolvingId !== denial.id && (
+                        <Button variant="secondary" onClick={() => handleDelete(denial)} icon={<Trash2 size={16} />}>
+                          Delete
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </GlassCard>
+    </motion.div>
+  );
+};
+
+export default DenialsSection;
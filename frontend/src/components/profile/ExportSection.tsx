@@ -1,36 +1,77 @@
-import React, { useState } from 'react';
-import { motion } from 'framer-motion';
-import { Download, X } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, X, Columns, CheckCircle, AlertCircle } from 'lucide-react';
 import GlassCard from '../ui/GlassCard';
 import Button from '../ui/Button';
 import GlassInput from '../ui/GlassInput';
-import { VisitClaim } from '../../types/claim';
+import { VisitClaim, ExportColumn, ExportFilters, ExportFormat } from '../../types/claim';
+import { fetchExportColumns, exportClaim, exportClaims } from '../../services/exportService';
 
 interface ExportSectionProps {
   claim: VisitClaim;
 }
 
+const formatOptions: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' }
+];
+
 const ExportSection: React.FC<ExportSectionProps> = ({ claim }) => {
   const [isExporting, setIsExporting] = useState(false);
   const [exportType, setExportType] = useState<'single' | 'bulk'>('single');
-  const [dateRange, setDateRange] = useState({
-    startDate: '',
-    endDate: '',
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [availableColumns, setAvailableColumns] = useState<ExportColumn[]>([]);
+  const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
+  const [showColumns, setShowColumns] = useState(false);
+  const [filters, setFilters] = useState<ExportFilters>({
+    dosFrom: '',
+    dosTo: '',
+    payer: '',
+    provider: ''
   });
   const [showModal, setShowModal] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
-  const handleExport = () => {
-    // In a real app, this would trigger a download or API call
-    setIsExporting(true);
-    
-    setTimeout(() => {
-      setIsExporting(false);
-      if (exportType === 'bulk') {
-        setShowModal(false);
+  useEffect(() => {
+    fetchExportColumns().then(response => {
+      if (response.success && response.data) {
+        setAvailableColumns(response.data.columns);
+        setSelectedColumns(response.data.defaultColumns);
       }
-      // Alert to simulate export completion
-      alert(`Exported ${exportType === 'single' ? 'single claim' : 'bulk claims'} successfully!`);
-    }, 1500);
+    });
+  }, []);
+
+  const toggleColumn = (key: string) => {
+    // Keep selected columns in the order the server lists them
+    setSelectedColumns(prev =>
+      prev.includes(key)
+        ? prev.filter(column => column !== key)
+        : availableColumns.map(column => column.key).filter(column => column === key || prev.includes(column))
+    );
+  };
+
+  const handleExport = async (type: 'single' | 'bulk') => {
+    setExportType(type);
+    setIsExporting(true);
+    setStatus(null);
+
+    const result = type === 'single'
+      ? await exportClaim(claim.id, format, selectedColumns)
+      : await exportClaims(filters, format, selectedColumns);
+
+    setIsExporting(false);
+
+    if (result.success) {
+      setStatus({ type: 'success', message: `Downloaded ${result.filename}` });
+      if (type === 'bulk') setShowModal(false);
+    } else {
+      setStatus({ type: 'error', message: result.message || 'Export failed' });
+    }
+  };
+
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFilters(prev => ({ ...prev, [name]: value }));
   };
 
   return (
@@ -46,34 +87,92 @@ const ExportSection: React.FC<ExportSectionProps> = ({ claim }) => {
             <Download className="text-accent-400" size={20} />
             Export Options
           </h2>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={format}
+              onChange={e => setFormat(e.target.value as ExportFormat)}
+              className="glass-input py-1"
+              style={{ background: '#1a1a2e', color: 'white' }}
+            >
+              {formatOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <Button
+              variant="secondary"
+              onClick={() => setShowColumns(prev => !prev)}
+              icon={<Columns size={16} />}
+              disabled={availableColumns.length === 0}
+            >
+              Columns ({selectedColumns.length})
+            </Button>
+          </div>
         </div>
-        
+
+        <AnimatePresence>
+          {showColumns && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              transition={{ duration: 0.3 }}
+              className="overflow-hidden mb-6"
+            >
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 p-4 rounded-md bg-white/5 border border-white/10">
+                {availableColumns.map(column => (
+                  <label key={column.key} className="flex items-center gap-2 text-sm text-white/80 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedColumns.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                      className="accent-accent-500"
+                    />
+                    {column.label}
+                  </label>
+                ))}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {status && (
+          <div
+            className={`mb-4 p-3 rounded-md flex items-center gap-2 ${
+              status.type === 'success' ? 'bg-success-900/30 text-success-400' : 'bg-error-900/30 text-error-400'
+            }`}
+          >
+            {status.type === 'success' ? <CheckCircle size={16} /> : <AlertCircle size={16} />}
+            {status.message}
+          </div>
+        )}
+
         <div className="flex flex-col md:flex-row gap-4">
           <Button
             variant="secondary"
             className="flex-1"
-            onClick={() => {
-              setExportType('single');
-              handleExport();
-            }}
+            onClick={() => handleExport('single')}
             isLoading={isExporting && exportType === 'single'}
+            disabled={selectedColumns.length === 0}
           >
             Export Single Claim
           </Button>
-          
+
           <Button
             variant="accent"
             className="flex-1"
             onClick={() => {
               setExportType('bulk');
+              setStatus(null);
               setShowModal(true);
             }}
+            disabled={selectedColumns.length === 0}
           >
             Export in Bulk
           </Button>
         </div>
       </GlassCard>
-      
+
       {/* Bulk Export Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-dark-400/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -94,26 +193,48 @@ const ExportSection: React.FC<ExportSectionProps> = ({ claim }) => {
                   <X size={20} />
                 </button>
               </div>
-              
+
               <div className="space-y-4">
                 <p className="text-white/70 mb-4">
-                  Select a date range to export multiple claims at once.
+                  Export every claim with a date of service in the range, optionally limited by payer or provider.
                 </p>
-                
+
                 <GlassInput
                   label="Start Date"
+                  name="dosFrom"
                   type="date"
-                  value={dateRange.startDate}
-                  onChange={(e) => setDateRange(prev => ({ ...prev, startDate: e.target.value }))}
+                  value={filters.dosFrom}
+                  onChange={handleFilterChange}
                 />
-                
+
                 <GlassInput
                   label="End Date"
+                  name="dosTo"
                   type="date"
-                  value={dateRange.endDate}
-                  onChange={(e) => setDateRange(prev => ({ ...prev, endDate: e.target.value }))}
+                  value={filters.dosTo}
+                  onChange={handleFilterChange}
+                />
+
+                <GlassInput
+                  label="Payer"
+                  name="payer"
+                  placeholder="Primary or secondary insurance"
+                  value={filters.payer}
+                  onChange={handleFilterChange}
+                />
+
+                <GlassInput
+                  label="Provider"
+                  name="provider"
+                  placeholder="Rendering provider"
+                  value={filters.provider}
+                  onChange={handleFilterChange}
                 />
-                
+
+                {status?.type === 'error' && (
+                  <p className="text-error-400 text-sm">{status.message}</p>
+                )}
+
                 <div className="flex justify-end gap-2 mt-6">
                   <Button
                     variant="secondary"
@@ -121,13 +242,13 @@ const ExportSection: React.FC<ExportSectionProps> = ({ claim }) => {
                   >
                     Cancel
                   </Button>
-                  
+
                   <Button
-                    onClick={handleExport}
+                    onClick={() => handleExport('bulk')}
                     isLoading={isExporting}
-                    disabled={!dateRange.startDate || !dateRange.endDate}
+                    disabled={!filters.dosFrom || !filters.dosTo || filters.dosFrom > filters.dosTo}
                   >
-                    Export
+                    Export {format.toUpperCase()}
                   </Button>
                 </div>
               </div>
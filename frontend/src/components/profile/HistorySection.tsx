@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { History, ChevronDown, ChevronUp, User, Clock, RefreshCw } from 'lucide-react';
+import { History, ChevronDown, ChevronUp, User, Clock, RefreshCw, RotateCcw } from 'lucide-react';
 import GlassCard from '../ui/GlassCard';
-import { ChangeLog } from '../../types/claim';
+import RevertChangeDialog from './RevertChangeDialog';
+import { useAuth } from '../../contexts/AuthContext';
+import { ChangeLog, RevertTarget } from '../../types/claim';
 import { fetchClaimHistory } from '../../services/claimService';
 
 interface HistorySectionProps {
@@ -24,6 +26,9 @@ const HistorySection: React.FC<HistorySectionProps> = ({ claimId }) => {
   const [error, setError] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState<boolean>(true);
   const [lastFetchTime, setLastFetchTime] = useState<number>(0);
+  const [reverting, setReverting] = useState<{ log: ChangeLog; target: RevertTarget } | null>(null);
+  const { hasRole } = useAuth();
+  const canRevert = hasRole('poster');
   
   // Use a ref to track if the component is mounted
   const isMounted = useRef(true);
@@ -73,7 +78,7 @@ const HistorySection: React.FC<HistorySectionProps> = ({ claimId }) => {
         dataLoadedRef.current = true;
       } else {
         // Only set error for real API errors, not for empty datasets
-        if (response.message?.includes('status code 500')) {
+        if (/status code 5\d\d/.test(response.message || '')) {
           setError('Unable to load history right now. Please try again later.');
         } else if (response.message?.includes('Network Error')) {
           setError('Network error. Please check your connection and try again.');
@@ -148,6 +153,12 @@ const HistorySection: React.FC<HistorySectionProps> = ({ claimId }) => {
     loadHistory(true); // Force refresh
   };
 
+  // The revert is logged as a new change, so the cached history is stale afterwards
+  const handleReverted = () => {
+    setReverting(null);
+    loadHistory(true);
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -213,9 +224,30 @@ const HistorySection: React.FC<HistorySectionProps> = ({ claimId }) => {
                         <User size={16} className="text-accent-400" />
                         <span className="font-medium text-white/90">{log.username}</span>
                       </div>
-                      <div className="flex items-center gap-2">
-                        <Clock size={16} className="text-white/70" />
-                        <span className="text-white/70">{formatDateTime(log.timestamp)}</span>
+                      <div className="flex items-center gap-4">
+                        <div className="flex items-center gap-2">
+                          <Clock size={16} className="text-white/70" />
+                          <span className="text-white/70">{formatDateTime(log.timestamp)}</span>
+                        </div>
+                        {canRevert && log.action_type === 'updated' && (
+                          <>
+                            <button
+                              onClick={() => setReverting({ log, target: { changeId: log.id } })}
+                              className="text-accent-400 hover:text-accent-300 flex items-center gap-1 text-sm"
+                              title="Undo this edit"
+                            >
+                              <RotateCcw size={14} />
+                              <span>Revert this change</span>
+                            </button>
+                            <button
+                              onClick={() => setReverting({ log, target: { timestamp: log.timestamp } })}
+                              className="text-white/60 hover:text-white text-sm"
+                              title="Undo every edit made after this one"
+                            >
+                              Restore to here
+                            </button>
+                          </>
+                        )}
                       </div>
                     </div>
                     
@@ -254,6 +286,18 @@ const HistorySection: React.FC<HistorySectionProps> = ({ claimId }) => {
           </div>
         )}
       </GlassCard>
+
+      {reverting && (
+        <RevertChangeDialog
+          claimId={Number(claimId)}
+          target={reverting.target}
+          description={'changeId' in reverting.target
+            ? `Undo the edit ${reverting.log.username} made on ${formatDateTime(reverting.log.timestamp)}. Every field changed in that save is restored to its earlier value.`
+            : `Restore the claim to how it was right after ${reverting.log.username}'s edit on ${formatDateTime(reverting.log.timestamp)}. Later edits are undone.`}
+          onClose={() => setReverting(null)}
+          onReverted={handleReverted}
+        />
+      )}
     </motion.div>
   );
 };
@@ -1,25 +1,240 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { MessageSquare, Plus } from 'lucide-react';
+import { MessageSquare, Plus, Pin, PinOff, Pencil, Trash2, History } from 'lucide-react';
 import GlassCard from '../ui/GlassCard';
 import Button from '../ui/Button';
-import { VisitClaim } from '../../types/claim';
-import { useClaims } from '../../contexts/ClaimContext';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  fetchClaimNotes,
+  createClaimNote,
+  updateClaimNote,
+  deleteClaimNote,
+  fetchMentionableUsers
+} from '../../services/noteService';
+import { ClaimNote, MentionableUser } from '../../types/note';
 
 interface NotesSectionProps {
-  claim: VisitClaim;
+  claimId: number;
 }
 
-const NotesSection: React.FC<NotesSectionProps> = ({ claim }) => {
-  const { addNote } = useClaims();
-  const [newNote, setNewNote] = useState('');
+interface NoteEditorProps {
+  initialBody?: string;
+  submitLabel: string;
+  isSaving: boolean;
+  error: string | null;
+  onSubmit: (body: string) => void;
+  onCancel: () => void;
+}
+
+// The partial handle being typed right before the cursor, e.g. "@jsm"
+const MENTION_AT_CURSOR = /(^|[^\w.@])@([a-z0-9._-]*)$/i;
+
+// Same handle shape the server recognises when it resolves mentions
+const MENTION_TOKEN = /(@[a-z0-9][a-z0-9._-]*)/gi;
+
+/**
+ * Note textarea that suggests users to mention while an @handle is being typed
+ */
+const NoteEditor: React.FC<NoteEditorProps> = ({ initialBody = '', submitLabel, isSaving, error, onSubmit, onCancel }) => {
+  const [body, setBody] = useState(initialBody);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionableUser[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (mentionQuery === null) {
+      setSuggestions([]);
+      return;
+    }
+
+    let isCurrent = true;
+    const timer = setTimeout(async () => {
+      const response = await fetchMentionableUsers(mentionQuery);
+      if (isCurrent && response.success) setSuggestions(response.data);
+    }, 200);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [mentionQuery]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value);
+    const beforeCursor = e.target.value.slice(0, e.target.selectionStart);
+    const match = beforeCursor.match(MENTION_AT_CURSOR);
+    setMentionQuery(match ? match[2] : null);
+  };
+
+  // Replace the partial handle before the cursor with the chosen user's handle
+  const insertMention = (user: MentionableUser) => {
+    const textarea = textareaRef.current;
+    const cursor = textarea ? textarea.selectionStart : body.length;
+    const beforeCursor = body.slice(0, cursor).replace(/@[a-z0-9._-]*$/i, `@${user.handle} `);
+    setBody(beforeCursor + body.slice(cursor));
+    setMentionQuery(null);
+
+    if (textarea) {
+      textarea.focus();
+      setTimeout(() => textarea.setSelectionRange(beforeCursor.length, beforeCursor.length));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        className="glass-input w-full h-24 resize-none"
+        placeholder="Enter your note... Type @ to mention a teammate"
+        value={body}
+        onChange={handleChange}
+        onBlur={() => setTimeout(() => setMentionQuery(null), 150)}
+        maxLength={5000}
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 rounded-md border border-white/10 bg-dark-300 shadow-lg max-h-48 overflow-y-auto">
+          {suggestions.map(user => (
+            <li key={user.id}>
+              <button
+                type="button"
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => insertMention(user)}
+                className="w-full text-left px-3 py-2 hover:bg-white/10 text-sm"
+              >
+                <span className="text-white">{user.name}</span>
+                <span className="text-white/50 ml-2">@{user.handle}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-sm text-error-400 mt-2">{error}</p>}
+
+      <div className="flex justify-end gap-2 mt-2">
+        <Button variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={() => onSubmit(body.trim())} isLoading={isSaving} disabled={!body.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Highlight @handles that resolved to a user; anything else is left as typed
+const renderBody = (note: ClaimNote) => {
+  const handles = new Set(note.mentioned_users.map(user => user.handle));
+  return note.body.split(MENTION_TOKEN).map((part, index) => {
+    const handle = part.startsWith('@') ? part.slice(1).replace(/[._-]+$/, '').toLowerCase() : '';
+    return handle && handles.has(handle) ? (
+      <span key={index} className="text-accent-400 font-medium">{part}</span>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    );
+  });
+};
+
+/**
+ * Shared notes on a claim line, with pinning, @mentions and the edit history of each note
+ */
+const NotesSection: React.FC<NotesSectionProps> = ({ claimId }) => {
+  const { user, hasRole } = useAuth();
+  const [notes, setNotes] = useState<ClaimNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
   const [isAddingNote, setIsAddingNote] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const canWrite = hasRole('poster');
+
+  const loadNotes = useCallback(async () => {
+    setIsLoading(true);
+    const response = await fetchClaimNotes(claimId);
+    setIsLoading(false);
+
+    if (response.success) {
+      setNotes(response.data);
+      setError(null);
+    } else {
+      setError(response.message || 'Notes could not be loaded');
+    }
+  }, [claimId]);
 
-  const handleAddNote = () => {
-    if (newNote.trim()) {
-      addNote(claim.id, newNote.trim());
-      setNewNote('');
+  useEffect(() => {
+    loadNotes();
+  }, [loadNotes]);
+
+  // Mirrors the server: authors manage their own notes, supervisors manage anyone's
+  const canManage = (note: ClaimNote) =>
+    canWrite && (hasRole('supervisor') || (user !== null && String(note.author_id) === user.id));
+
+  // Keep pinned notes on top, newest first within each group
+  const sortNotes = (list: ClaimNote[]) =>
+    [...list].sort((a, b) =>
+      Number(b.pinned) - Number(a.pinned) || new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    );
+
+  const replaceNote = (updated: ClaimNote) => {
+    setNotes(prev => sortNotes(prev.map(note => (note.id === updated.id ? updated : note))));
+  };
+
+  const handleAddNote = async (body: string) => {
+    setIsSaving(true);
+    setFormError(null);
+    const response = await createClaimNote(claimId, body);
+    setIsSaving(false);
+
+    if (response.success) {
+      setNotes(prev => sortNotes([response.data, ...prev]));
       setIsAddingNote(false);
+    } else {
+      setFormError(response.message || 'The note could not be added');
+    }
+  };
+
+  const handleEditNote = async (note: ClaimNote, body: string) => {
+    if (body === note.body) {
+      setEditingId(null);
+      return;
+    }
+
+    setIsSaving(true);
+    setFormError(null);
+    const response = await updateClaimNote(claimId, note.id, { body });
+    setIsSaving(false);
+
+    if (response.success) {
+      replaceNote(response.data);
+      setEditingId(null);
+    } else {
+      setFormError(response.message || 'The note could not be saved');
+    }
+  };
+
+  const handleTogglePin = async (note: ClaimNote) => {
+    const response = await updateClaimNote(claimId, note.id, { pinned: !note.pinned });
+    if (response.success) {
+      replaceNote(response.data);
+    } else {
+      setError(response.message || 'The note could not be updated');
+    }
+  };
+
+  const handleDeleteNote = async (note: ClaimNote) => {
+    if (!window.confirm('Delete this note?')) return;
+
+    const response = await deleteClaimNote(claimId, note.id);
+    if (response.success) {
+      setNotes(prev => prev.filter(existing => existing.id !== note.id));
+    } else {
+      setError(response.message || 'The note could not be deleted');
     }
   };
 
@@ -36,60 +251,146 @@ const NotesSection: React.FC<NotesSectionProps> = ({ claim }) => {
             <MessageSquare className="text-accent-400" size={20} />
             Notes
           </h2>
-          
-          {!isAddingNote && (
+
+          {canWrite && !isAddingNote && (
             <Button
               variant="secondary"
-              onClick={() => setIsAddingNote(true)}
+              onClick={() => {
+                setIsAddingNote(true);
+                setEditingId(null);
+                setFormError(null);
+              }}
               icon={<Plus size={16} />}
             >
               Add Note
             </Button>
           )}
         </div>
-        
+
+        {error && <p className="text-sm text-error-400 mb-4">{error}</p>}
+
         {isAddingNote && (
           <div className="mb-6">
-            <textarea
-              className="glass-input w-full h-24 resize-none"
-              placeholder="Enter your note..."
-              value={newNote}
-              onChange={(e) => setNewNote(e.target.value)}
+            <NoteEditor
+              submitLabel="Add Note"
+              isSaving={isSaving}
+              error={formError}
+              onSubmit={handleAddNote}
+              onCancel={() => {
+                setIsAddingNote(false);
+                setFormError(null);
+              }}
             />
-            
-            <div className="flex justify-end gap-2 mt-2">
-              <Button
-                variant="secondary"
-                onClick={() => {
-                  setIsAddingNote(false);
-                  setNewNote('');
-                }}
-              >
-                Cancel
-              </Button>
-              
-              <Button onClick={handleAddNote}>
-                Add Note
-              </Button>
-            </div>
           </div>
         )}
-        
-        {claim.notes && claim.notes.length > 0 ? (
+
+        {isLoading ? (
+          <div className="text-center py-6 text-white/50">
+            <p>Loading notes...</p>
+          </div>
+        ) : notes.length > 0 ? (
           <div className="space-y-4">
-            {claim.notes.map((note, index) => (
+            {notes.map((note, index) => (
               <motion.div
-                key={index}
+                key={note.id}
                 initial={{ opacity: 0, y: 10 }}
                 animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.1 * index, duration: 0.3 }}
-                className="bg-white/5 p-4 rounded-lg border border-white/10"
+                transition={{ delay: 0.05 * index, duration: 0.3 }}
+                className={`p-4 rounded-lg border ${
+                  note.pinned ? 'bg-accent-900/20 border-accent-500/30' : 'bg-white/5 border-white/10'
+                }`}
               >
-                <p className="text-white/90">{note}</p>
-                {index === 0 && (
-                  <p className="text-white/50 text-xs mt-2">
-                    Added on {new Date(claim.updatedAt).toLocaleString()}
-                  </p>
+                {editingId === note.id ? (
+                  <NoteEditor
+                    initialBody={note.body}
+                    submitLabel="Save"
+                    isSaving={isSaving}
+                    error={formError}
+                    onSubmit={body => handleEditNote(note, body)}
+                    onCancel={() => {
+                      setEditingId(null);
+                      setFormError(null);
+                    }}
+                  />
+                ) : (
+                  <>
+                    <div className="flex justify-between gap-4">
+                      <p className="text-white/90 whitespace-pre-wrap break-words">{renderBody(note)}</p>
+
+                      <div className="flex items-start gap-2 shrink-0">
+                        {canWrite && (
+                          <button
+                            type="button"
+                            onClick={() => handleTogglePin(note)}
+                            className={note.pinned ? 'text-accent-400 hover:text-white' : 'text-white/50 hover:text-white'}
+                            title={note.pinned ? 'Unpin note' : 'Pin note'}
+                          >
+                            {note.pinned ? <PinOff size={16} /> : <Pin size={16} />}
+                          </button>
+                        )}
+                        {canManage(note) && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setEditingId(note.id);
+                                setIsAddingNote(false);
+                                setFormError(null);
+                              }}
+                              className="text-white/50 hover:text-white"
+                              title="Edit note"
+                            >
+                              <Pencil size={16} />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDeleteNote(note)}
+                              className="text-white/50 hover:text-error-400"
+                              title="Delete note"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-white/50 text-xs mt-2">
+                      <span>
+                        {note.author_name || 'Unknown user'} · {new Date(note.created_at).toLocaleString()}
+                      </span>
+                      {note.pinned && note.pinned_by_name && (
+                        <span className="inline-flex items-center gap-1 text-accent-400">
+                          <Pin size={12} />
+                          Pinned by {note.pinned_by_name}
+                        </span>
+                      )}
+                      {note.revisions.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => setHistoryId(historyId === note.id ? null : note.id)}
+                          className="inline-flex items-center gap-1 hover:text-white"
+                        >
+                          <History size={12} />
+                          Edited {new Date(note.updated_at).toLocaleString()}
+                        </button>
+                      )}
+                    </div>
+
+                    {historyId === note.id && (
+                      <div className="mt-3 pl-3 border-l border-white/10 space-y-2">
+                        {note.revisions.map(revision => (
+                          <div key={revision.id}>
+                            <p className="text-white/60 text-sm whitespace-pre-wrap break-words">{revision.body}</p>
+                            <p className="text-white/40 text-xs">
+                              Replaced by {revision.edited_by_name || 'Unknown user'} ·{' '}
+                              {new Date(revision.edited_at).toLocaleString()}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </>
                 )}
               </motion.div>
             ))}
@@ -0,0 +1,184 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, RotateCcw, X } from 'lucide-react';
+import GlassCard from '../ui/GlassCard';
+import Button from '../ui/Button';
+import { useClaims } from '../../contexts/ClaimContext';
+import { ClaimConflictError, previewClaimRevert } from '../../services/claimService';
+import { RevertPreview, RevertTarget } from '../../types/claim';
+
+interface RevertChangeDialogProps {
+  claimId: number;
+  target: RevertTarget;
+  // What is being undone, e.g. "Charge Amount changed by jsmith on 3/4/2025"
+  description: string;
+  onClose: () => void;
+  onReverted: () => void;
+}
+
+const formatFieldName = (fieldName: string): string =>
+  fieldName
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const displayValue = (value: string | number | null) =>
+  value === null || value === '' ? 'Empty' : String(value);
+
+/**
+ * Shows what a revert would change before it is applied. The revert itself is saved
+ * as a new edit, so it shows up in the history and can be undone the same way
+ */
+const RevertChangeDialog: React.FC<RevertChangeDialogProps> = ({
+  claimId,
+  target,
+  description,
+  onClose,
+  onReverted
+}) => {
+  const { revertClaim } = useClaims();
+  const [preview, setPreview] = useState<RevertPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReverting, setIsReverting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadPreview = useCallback(async () => {
+    setIsLoading(true);
+    const response = await previewClaimRevert(claimId, target);
+    if (response.success && response.data) {
+      setPreview(response.data);
+      setError(null);
+    } else {
+      setPreview(null);
+      setError(response.message || 'Unable to preview this revert.');
+    }
+    setIsLoading(false);
+  }, [claimId, target]);
+
+  useEffect(() => {
+    loadPreview();
+  }, [loadPreview]);
+
+  const handleRevert = async () => {
+    if (!preview) return;
+
+    setIsReverting(true);
+    setNotice(null);
+    try {
+      await revertClaim(claimId, target, preview.row_version);
+      onReverted();
+    } catch (err) {
+      // The claim was edited after the preview was loaded: show the diff against the new values
+      if (err instanceof ClaimConflictError) {
+        setNotice('The claim changed since this preview was loaded. Review the updated preview and try again.');
+        await loadPreview();
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to revert claim');
+      }
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  const hasChanges = !!preview && preview.changes.length > 0;
+  const changedSince = preview?.changes.filter(change => change.changed_since) || [];
+
+  return (
+    <div className="fixed inset-0 bg-dark-400/70 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.3 }}
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <GlassCard variant="dark">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <RotateCcw className="text-accent-400" size={20} />
+              Revert Change
+            </h3>
+            <button onClick={onClose} className="text-white/70 hover:text-white" aria-label="Close">
+              <X size={20} />
+            </button>
+          </div>
+
+          <p className="text-white/70 mb-4">{description}</p>
+
+          {notice && (
+            <div className="bg-warning-900/30 text-warning-400 p-3 rounded-md mb-4 text-sm">{notice}</div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <div className="w-8 h-8 border-2 border-accent-500 border-t-transparent rounded-full animate-spin"></div>
+              <p className="ml-3 text-white/70">Loading preview...</p>
+            </div>
+          ) : error ? (
+            <div className="bg-error-900/30 text-error-400 p-4 rounded-md mb-4">
+              <p>{error}</p>
+            </div>
+          ) : preview && (
+            <>
+              {hasChanges ? (
+                <div className="space-y-3 mb-4">
+                  {preview.changes.map(change => (
+                    <div key={change.field} className="p-3 rounded-md bg-white/5 border border-white/10">
+                      <div className="text-white font-medium text-sm mb-2">{formatFieldName(change.field)}</div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                        <div className="bg-error-900/20 text-error-300 px-2 py-1 rounded break-words">
+                          <span className="block text-xs text-white/50">Now</span>
+                          {displayValue(change.current)}
+                        </div>
+                        <div className="bg-success-900/20 text-success-300 px-2 py-1 rounded break-words">
+                          <span className="block text-xs text-white/50">After revert</span>
+                          {displayValue(change.reverted)}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-white/60 mb-4">
+                  The claim already has these values; there is nothing to revert.
+                </p>
+              )}
+
+              {changedSince.length > 0 && (
+                <p className="text-warning-400 text-sm mb-2 flex items-start gap-2">
+                  <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                  <span>
+                    {changedSince.map(change => formatFieldName(change.field)).join(', ')}{' '}
+                    {changedSince.length === 1 ? 'was' : 'were'} edited again later; reverting overwrites those edits too.
+                  </span>
+                </p>
+              )}
+
+              {preview.skipped.length > 0 && (
+                <p className="text-white/50 text-sm mb-2">
+                  Not reverted (not editable): {preview.skipped.map(formatFieldName).join(', ')}
+                </p>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRevert}
+              isLoading={isReverting}
+              disabled={isLoading || !hasChanges}
+              icon={<RotateCcw size={16} />}
+            >
+              Revert
+            </Button>
+          </div>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default RevertChangeDialog;
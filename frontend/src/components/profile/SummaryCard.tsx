@@ -6,6 +6,7 @@ import Button from '../ui/Button';
 import ClaimField, { formatters } from '../ui/ClaimField';
 import { VisitClaim } from '../../types/claim';
 import { useClaims } from '../../contexts/ClaimContext';
+import { useAuth } from '../../contexts/AuthContext';
 
 interface SummaryCardProps {
   claim: VisitClaim;
@@ -65,6 +66,9 @@ const confirmationVariants = {
 
 const SummaryCard: React.FC<SummaryCardProps> = ({ claim, onToggleDetails, isExpanded }) => {
   const { updateClaim } = useClaims();
+  const { hasRole } = useAuth();
+  // Claim status changes are restricted to supervisors on the backend
+  const canChangeStatus = hasRole('supervisor');
   const [selectedStatus, setSelectedStatus] = useState('');
   const [isEditable, setIsEditable] = useState(true);
   const [showConfirmation, setShowConfirmation] = useState(false);
@@ -215,7 +219,7 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ claim, onToggleDetails, isExp
           <div className="md:col-span-2 mt-4" onClick={handleStatusControlClick}>
             <div className="flex justify-between items-center mb-2">
               <label className="block text-white/70">Claim Status</label>
-              {!isEditable && selectedStatus && (
+              {canChangeStatus && !isEditable && selectedStatus && (
                 <motion.button 
                   onClick={toggleEditMode} 
                   className="flex items-center gap-1 text-accent-400 hover:text-accent-300 text-sm"
@@ -228,7 +232,7 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ claim, onToggleDetails, isExp
               )}
             </div>
             
-            {isEditable ? (
+            {canChangeStatus && isEditable ? (
               <motion.div 
                 className="flex gap-3"
                 initial={{ opacity: 0, y: -5 }}
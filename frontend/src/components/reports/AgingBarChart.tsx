@@ -0,0 +1,78 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { AgingBucket, AgingRow } from '../../types/report';
+import { BUCKET_COLORS, bucketLabel, formatCurrency } from './agingFormat';
+
+interface AgingBarChartProps {
+  rows: AgingRow[];
+  buckets: AgingBucket[];
+  onSelect: (row: AgingRow, bucket: AgingBucket) => void;
+  maxRows?: number;
+}
+
+/**
+ * Horizontal stacked bars, one per payer or provider, split by age bucket
+ * Bars share one scale so their lengths can be compared
+ */
+const AgingBarChart: React.FC<AgingBarChartProps> = ({ rows, buckets, onSelect, maxRows = 10 }) => {
+  const visibleRows = rows.slice(0, maxRows);
+  const largestTotal = Math.max(...visibleRows.map(row => row.totalAmount), 0);
+
+  if (visibleRows.length === 0 || largestTotal === 0) {
+    return <p className="text-white/60 text-center py-8">No outstanding balances to chart.</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-4 mb-4">
+        {buckets.map(bucket => (
+          <div key={bucket} className="flex items-center gap-2 text-sm text-white/70">
+            <span className={`w-3 h-3 rounded-sm ${BUCKET_COLORS[bucket]}`} />
+            {bucketLabel(bucket)}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {visibleRows.map((row, index) => (
+          <div key={row.name} className="grid grid-cols-[10rem_1fr_7rem] items-center gap-3">
+            <span className="text-sm text-white/80 truncate" title={row.name}>{row.name}</span>
+
+            <motion.div
+              className="flex h-6 rounded-md overflow-hidden bg-white/5"
+              initial={{ width: 0 }}
+              animate={{ width: `${(row.totalAmount / largestTotal) * 100}%` }}
+              transition={{ duration: 0.5, delay: index * 0.03 }}
+            >
+              {buckets.map(bucket => {
+                const cell = row.buckets[bucket];
+                if (cell.amount <= 0) return null;
+
+                return (
+                  <button
+                    key={bucket}
+                    type="button"
+                    className={`${BUCKET_COLORS[bucket]} h-full hover:opacity-80 transition-opacity`}
+                    style={{ width: `${(cell.amount / row.totalAmount) * 100}%` }}
+                    title={`${row.name} · ${bucketLabel(bucket)}: ${formatCurrency(cell.amount)} (${cell.count} claims)`}
+                    onClick={() => onSelect(row, bucket)}
+                  />
+                );
+              })}
+            </motion.div>
+
+            <span className="text-sm text-white/70 text-right">{formatCurrency(row.totalAmount)}</span>
+          </div>
+        ))}
+      </div>
+
+      {rows.length > maxRows && (
+        <p className="text-xs text-white/50 mt-4">
+          Showing the {maxRows} largest of {rows.length}; see the table for the rest.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AgingBarChart;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { AgingBucket, AgingRow } from '../../types/report';
+import { BUCKET_COLORS, bucketLabel, formatCurrency } from './agingFormat';
+
+interface AgingTableProps {
+  rows: AgingRow[];
+  totals: AgingRow;
+  buckets: AgingBucket[];
+  nameLabel: string;
+  selected?: { name: string; bucket: AgingBucket } | null;
+  onSelect: (row: AgingRow, bucket: AgingBucket) => void;
+}
+
+const AgingTable: React.FC<AgingTableProps> = ({ rows, totals, buckets, nameLabel, selected, onSelect }) => {
+  const renderCell = (row: AgingRow, bucket: AgingBucket, isTotal = false) => {
+    const cell = row.buckets[bucket];
+    const isSelected = !isTotal && selected?.name === row.name && selected.bucket === bucket;
+
+    if (cell.count === 0) {
+      return <td key={bucket} className="px-4 py-3 text-right text-white/30">—</td>;
+    }
+
+    return (
+      <td key={bucket} className="px-1 py-1 text-right">
+        <button
+          type="button"
+          onClick={() => onSelect(row, bucket)}
+          className={`w-full px-3 py-2 rounded-md text-right transition-colors ${
+            isSelected ? 'bg-accent-500/20 text-white' : 'hover:bg-white/10'
+          }`}
+          title={`Show the ${cell.count} claim lines in ${bucketLabel(bucket)}`}
+        >
+          <span className="block">{formatCurrency(cell.amount)}</span>
+          <span className="block text-xs text-white/50">{cell.count} claims</span>
+        </button>
+      </td>
+    );
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-white/10">
+        <thead>
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-white/70 uppercase tracking-wider">{nameLabel}</th>
+            {buckets.map(bucket => (
+              <th key={bucket} className="px-4 py-3 text-right text-xs font-medium text-white/70 uppercase tracking-wider">
+                <span className="inline-flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full ${BUCKET_COLORS[bucket]}`} />
+                  {bucket}
+                </span>
+              </th>
+            ))}
+            <th className="px-4 py-3 text-right text-xs font-medium text-white/70 uppercase tracking-wider">Total</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/10">
+          {rows.map(row => (
+            <tr key={row.name} className="hover:bg-white/5">
+              <td className="px-4 py-3 text-white/90">{row.name}</td>
+              {buckets.map(bucket => renderCell(row, bucket))}
+              <td className="px-4 py-3 text-right font-medium">{formatCurrency(row.totalAmount)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="border-t-2 border-white/20">
+          <tr>
+            <td className="px-4 py-3 font-semibold">Total</td>
+            {buckets.map(bucket => renderCell(totals, bucket, true))}
+            <td className="px-4 py-3 text-right font-semibold">{formatCurrency(totals.totalAmount)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default AgingTable;
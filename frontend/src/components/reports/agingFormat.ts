@@ -0,0 +1,15 @@
+import { AgingBucket } from '../../types/report';
+
+// One colour per age bucket, from current (green) to oldest (red)
+export const BUCKET_COLORS: Record<AgingBucket, string> = {
+  '0-30': 'bg-success-500',
+  '31-60': 'bg-accent-500',
+  '61-90': 'bg-warning-500',
+  '91-120': 'bg-secondary-500',
+  '120+': 'bg-error-500'
+};
+
+export const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+export const bucketLabel = (bucket: AgingBucket) => `${bucket} days`;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { FileOutput, Eye, X, AlertCircle } from 'lucide-react';
+import GlassCard from '../ui/GlassCard';
+import Button from '../ui/Button';
+import { formatCurrency } from '../reports/agingFormat';
+import { preview837Batch, create837Batch } from '../../services/ediService';
+import { EdiBatchPreview, EdiValidationIssue } from '../../types/edi';
+
+interface ClaimFilePanelProps {
+  selectedIds: Set<number>;
+  onClear: () => void;
+}
+
+/**
+ * Preview and generate an 837P claim file for the claim lines selected in the search results
+ */
+const ClaimFilePanel: React.FC<ClaimFilePanelProps> = ({ selectedIds, onClear }) => {
+  const navigate = useNavigate();
+  const [preview, setPreview] = useState<EdiBatchPreview | null>(null);
+  const [issues, setIssues] = useState<EdiValidationIssue[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A preview no longer applies once the selection changes
+  useEffect(() => {
+    setPreview(null);
+    setIssues([]);
+    setError(null);
+  }, [selectedIds]);
+
+  if (selectedIds.size === 0) return null;
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    setError(null);
+    const response = await preview837Batch(Array.from(selectedIds));
+    setIsPreviewing(false);
+
+    if (response.success) {
+      setPreview(response.data);
+      setIssues(response.data.issues);
+    } else {
+      setError(response.message || 'The claim file could not be previewed');
+    }
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    const response = await create837Batch(Array.from(selectedIds));
+    setIsGenerating(false);
+
+    if (response.success) {
+      onClear();
+      navigate(`/edi/batches?batch=${response.data.id}`);
+    } else {
+      setIssues(response.errors || []);
+      setError(response.message || 'The claim file could not be generated');
+    }
+  };
+
+  const previouslyBatched = preview ? Array.from(new Set(preview.previouslyBatched.map(row => row.claim_id))) : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="mb-6"
+    >
+      <GlassCard>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <p className="text-white">
+            <span className="font-semibold">{selectedIds.size}</span> claim line{selectedIds.size === 1 ? '' : 's'} selected
+          </p>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={onClear} icon={<X size={16} />}>
+              Clear
+            </Button>
+            <Button variant="secondary" onClick={handlePreview} isLoading={isPreviewing} icon={<Eye size={16} />}>
+              Preview 837P
+            </Button>
+            <Button
+              variant="accent"
+              onClick={handleGenerate}
+              isLoading={isGenerating}
+              disabled={!preview || issues.length > 0}
+              icon={<FileOutput size={16} />}
+            >
+              Generate File
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mt-4 p-3 rounded-md bg-error-900/30 text-error-400 flex items-center gap-2">
+            <AlertCircle size={18} />
+            {error}
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <ul className="mt-4 space-y-1 text-sm text-error-400">
+            {issues.map((issue, index) => (
+              <li key={index}>
+                {issue.claim ? `Claim ${issue.claim}: ` : ''}{issue.message}
+                {issue.segment !== null && <span className="text-white/40"> (segment {issue.segment})</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {previouslyBatched.length > 0 && (
+          <p className="mt-4 text-sm text-warning-400">
+            Already sent in an earlier batch: claim lines {previouslyBatched.join(', ')}
+          </p>
+        )}
+
+        {preview && (
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full divide-y divide-white/10 text-sm">
+              <thead>
+                <tr className="text-left text-xs text-white/70 uppercase tracking-wider">
+                  <th className="px-4 py-2">Claim</th>
+                  <th className="px-4 py-2">Patient</th>
+                  <th className="px-4 py-2">DOS</th>
+                  <th className="px-4 py-2">Payer</th>
+                  <th className="px-4 py-2">Lines</th>
+                  <th className="px-4 py-2 text-right">Charge</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10 text-white/80">
+                {preview.claims.map(claim => (
+                  <tr key={claim.patientControlNumber + claim.claimIds[0]}>
+                    <td className="px-4 py-2">{claim.patientControlNumber}</td>
+                    <td className="px-4 py-2">{claim.patientName}</td>
+                    <td className="px-4 py-2">{new Date(claim.serviceDate).toLocaleDateString()}</td>
+                    <td className="px-4 py-2">{claim.payer || 'Unknown'}</td>
+                    <td className="px-4 py-2">{claim.claimIds.length}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(claim.totalCharge)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </GlassCard>
+    </motion.div>
+  );
+};
+
+export default ClaimFilePanel;
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { motion } from 'framer-motion';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ChevronDown, ChevronUp } from 'lucide-react';
 import Button from '../ui/Button';
 import { SearchFilters } from '../../types/claim';
 import { useClaims } from '../../contexts/ClaimContext';
@@ -81,34 +82,60 @@ const SearchIcon = () => (
   </svg>
 );
 
+// Claim statuses offered in the advanced search panel
+const claimStatusOptions = [
+  'Pending',
+  'Posted',
+  'Insurance Paid',
+  'Prim Pymt Pending',
+  'Sec Pymt Pending',
+  'Prim Denied',
+  'Sec Denied. Prim Paid more than Allowed amt',
+  'Claim not filed',
+  'Claim not received from HBox',
+  'Patient Deceased',
+  'Rejected'
+];
+
+const emptyFilters: SearchFilters = {
+  patientId: '',
+  cptId: '',
+  dos: '',
+  name: '',
+  emrNo: '',
+  dosFrom: '',
+  dosTo: '',
+  payer: '',
+  provider: '',
+  claimStatus: '',
+  checkNumber: '',
+  oaClaimId: '',
+  balanceMin: '',
+  balanceMax: '',
+};
+
 interface SearchFormProps {
   onShowAllClick?: () => void;
 }
 
 const SearchForm: React.FC<SearchFormProps> = ({ onShowAllClick }) => {
   const { searchClaims, isLoading } = useClaims();
-  const [filters, setFilters] = useState<SearchFilters>({
-    patientId: '',
-    cptId: '',
-    dos: '',
-  });
+  const [filters, setFilters] = useState<SearchFilters>(emptyFilters);
+  const [showAdvanced, setShowAdvanced] = useState(false);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFilters(prev => ({ ...prev, [name]: value }));
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    searchClaims(filters);
+    // A new search always starts from the first page
+    searchClaims({ ...filters, page: 1 });
   };
 
   const handleClear = () => {
-    setFilters({
-      patientId: '',
-      cptId: '',
-      dos: '',
-    });
+    setFilters(emptyFilters);
   };
 
   return (
@@ -148,8 +175,123 @@ const SearchForm: React.FC<SearchFormProps> = ({ onShowAllClick }) => {
             clearIcon={<CalendarIcon />}
           />
         </div>
+
+        {/* Advanced search panel */}
+        <AnimatePresence initial={false}>
+          {showAdvanced && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              transition={{ duration: 0.3 }}
+              className="overflow-hidden"
+            >
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-6 pt-6 border-t border-white/10">
+                <GlassInput
+                  label="Patient Name"
+                  name="name"
+                  placeholder="First, last or full name"
+                  value={filters.name}
+                  onChange={handleChange}
+                />
+                <GlassInput
+                  label="EMR Number"
+                  name="emrNo"
+                  placeholder="Enter EMR number"
+                  value={filters.emrNo}
+                  onChange={handleChange}
+                />
+                <GlassInput
+                  label="OA Claim ID"
+                  name="oaClaimId"
+                  placeholder="Enter OA claim ID"
+                  value={filters.oaClaimId}
+                  onChange={handleChange}
+                />
+                <GlassInput
+                  label="DOS From"
+                  name="dosFrom"
+                  type="date"
+                  value={filters.dosFrom}
+                  onChange={handleChange}
+                />
+                <GlassInput
+                  label="DOS To"
+                  name="dosTo"
+                  type="date"
+                  value={filters.dosTo}
+                  onChange={handleChange}
+                />
+                <GlassInput
+                  label="Payer"
+                  name="payer"
+                  placeholder="Primary or secondary insurance"
+                  value={filters.payer}
+                  onChange={handleChange}
+                />
+                <GlassInput
+                  label="Provider"
+                  name="provider"
+                  placeholder="Enter provider name"
+                  value={filters.provider}
+                  onChange={handleChange}
+                />
+                <GlassInput
+                  label="Check Number"
+                  name="checkNumber"
+                  placeholder="Primary or secondary check"
+                  value={filters.checkNumber}
+                  onChange={handleChange}
+                />
+                <div className="mb-4">
+                  <label className="block text-white/80 mb-2 font-medium">Claim Status</label>
+                  <select
+                    name="claimStatus"
+                    value={filters.claimStatus}
+                    onChange={handleChange}
+                    className="glass-input w-full"
+                    style={{ background: '#1a1a2e', color: 'white' }}
+                  >
+                    <option value="">Any status</option>
+                    {claimStatusOptions.map(status => (
+                      <option key={status} value={status}>{status}</option>
+                    ))}
+                  </select>
+                </div>
+                <GlassInput
+                  label="Balance From"
+                  name="balanceMin"
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={filters.balanceMin}
+                  onChange={handleChange}
+                />
+                <GlassInput
+                  label="Balance To"
+                  name="balanceMax"
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={filters.balanceMax}
+                  onChange={handleChange}
+                />
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
         
         <div className="flex flex-wrap justify-end gap-4 mt-6">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => setShowAdvanced(prev => !prev)}
+            icon={showAdvanced ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+            className="mr-auto"
+          >
+            {showAdvanced ? 'Hide advanced' : 'Advanced search'}
+          </Button>
+
           <Button 
             type="button" 
             variant="secondary" 
@@ -1,20 +1,53 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { AlertCircle, ArrowRight } from 'lucide-react';
+import { AlertCircle, ArrowRight, ChevronLeft, ChevronRight, ArrowUp, ArrowDown } from 'lucide-react';
 import GlassCard from '../ui/GlassCard';
-import { VisitClaim } from '../../types/claim';
+import { VisitClaim, Pagination, ClaimSortField, SortOrder } from '../../types/claim';
 import { Link } from 'react-router-dom';
 
 interface SearchResultsProps {
   results: VisitClaim[];
   isLoading: boolean;
   hasSearched: boolean;
+  pagination?: Pagination | null;
+  sort?: ClaimSortField;
+  order?: SortOrder;
+  onPageChange?: (page: number) => void;
+  onSortChange?: (sort: ClaimSortField, order: SortOrder) => void;
+  // Selection is only offered when a handler is given
+  selectedIds?: Set<number>;
+  onToggleSelect?: (id: number) => void;
 }
 
+const sortOptions: { value: ClaimSortField; label: string }[] = [
+  { value: 'service_end', label: 'Date of Service' },
+  { value: 'service_start', label: 'Service Start' },
+  { value: 'charge_dt', label: 'Charge Date' },
+  { value: 'charge_amt', label: 'Charge Amount' },
+  { value: 'bal_amt', label: 'Balance' },
+  { value: 'last_name', label: 'Last Name' },
+  { value: 'patient_id', label: 'Patient ID' },
+  { value: 'claim_status', label: 'Claim Status' }
+];
+
+// Page numbers to show around the current page
+const getPageNumbers = (page: number, totalPages: number, span = 2): number[] => {
+  const start = Math.max(1, page - span);
+  const end = Math.min(totalPages, page + span);
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+};
+
 const SearchResults: React.FC<SearchResultsProps> = ({ 
   results, 
   isLoading,
-  hasSearched
+  hasSearched,
+  pagination,
+  sort = 'service_end',
+  order = 'desc',
+  onPageChange,
+  onSortChange,
+  selectedIds,
+  onToggleSelect
 }) => {
   // Format date for display
   const formatDate = (dateString: string | undefined) => {
@@ -89,6 +122,39 @@ const SearchResults: React.FC<SearchResultsProps> = ({
         transition={{ duration: 0.4 }}
         className="space-y-4"
       >
+        {/* Result count and sorting */}
+        <div className="flex flex-wrap items-center justify-between gap-4 text-white/70">
+          <p>
+            {pagination
+              ? `Showing ${(pagination.page - 1) * pagination.limit + 1}–${(pagination.page - 1) * pagination.limit + results.length} of ${pagination.totalCount} claims`
+              : `Showing ${results.length} claims`}
+          </p>
+          {onSortChange && (
+            <div className="flex items-center gap-2">
+              <label htmlFor="claim-sort" className="text-sm">Sort by</label>
+              <select
+                id="claim-sort"
+                value={sort}
+                onChange={e => onSortChange(e.target.value as ClaimSortField, order)}
+                className="glass-input py-1"
+                style={{ background: '#1a1a2e', color: 'white' }}
+              >
+                {sortOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onSortChange(sort, order === 'asc' ? 'desc' : 'asc')}
+                className="p-2 rounded-md bg-white/5 hover:bg-white/10 border border-white/10"
+                title={order === 'asc' ? 'Ascending' : 'Descending'}
+              >
+                {order === 'asc' ? <ArrowUp size={16} /> : <ArrowDown size={16} />}
+              </button>
+            </div>
+          )}
+        </div>
+
         {results.map((claim, index) => (
           <motion.div
             key={claim.id}
@@ -100,7 +166,16 @@ const SearchResults: React.FC<SearchResultsProps> = ({
               <div className="p-5">
                 {/* Patient Name Section */}
                 <div className="flex flex-wrap items-center justify-between gap-4 pb-4 border-b border-white/10">
-                  <div>
+                  <div className="flex items-center gap-3">
+                    {onToggleSelect && (
+                      <input
+                        type="checkbox"
+                        checked={selectedIds?.has(claim.id) || false}
+                        onChange={() => onToggleSelect(claim.id)}
+                        aria-label={`Select claim line ${claim.id}`}
+                        className="h-4 w-4"
+                      />
+                    )}
                     <h3 className="text-xl font-semibold text-white flex items-baseline">
                       <span>{claim.first_name}</span>
                       <span className="font-bold ml-2">{claim.last_name}</span>
@@ -153,6 +228,47 @@ const SearchResults: React.FC<SearchResultsProps> = ({
             </GlassCard>
           </motion.div>
         ))}
+
+        {/* Pagination controls */}
+        {pagination && onPageChange && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2 pt-2">
+            <button
+              type="button"
+              onClick={() => onPageChange(pagination.page - 1)}
+              disabled={pagination.page <= 1}
+              className="p-2 rounded-md bg-white/5 hover:bg-white/10 border border-white/10 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Previous page"
+            >
+              <ChevronLeft size={18} />
+            </button>
+            {getPageNumbers(pagination.page, pagination.totalPages).map(pageNumber => (
+              <button
+                key={pageNumber}
+                type="button"
+                onClick={() => onPageChange(pageNumber)}
+                className={`min-w-[2.5rem] px-3 py-2 rounded-md border transition-colors ${
+                  pageNumber === pagination.page
+                    ? 'bg-accent-500/30 border-accent-400 text-white'
+                    : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+                }`}
+              >
+                {pageNumber}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => onPageChange(pagination.page + 1)}
+              disabled={pagination.page >= pagination.totalPages}
+              className="p-2 rounded-md bg-white/5 hover:bg-white/10 border border-white/10 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Next page"
+            >
+              <ChevronRight size={18} />
+            </button>
+            <span className="ml-2 text-white/60 text-sm">
+              Page {pagination.page} of {pagination.totalPages}
+            </span>
+          </div>
+        )}
       </motion.div>
     </AnimatePresence>
   );
@@ -1,63 +1,60 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { 
-  UserPlus, Edit2, Trash2, Search, Check, X, AlertCircle, ShieldAlert
+  UserPlus, Edit2, Trash2, Search, Check, X, AlertCircle, ShieldAlert, RotateCcw
 } from 'lucide-react';
 import Button from '../ui/Button';
 import GlassInput from '../ui/GlassInput';
-import { User } from '../../types/auth';
+import { ManagedUser, Role } from '../../types/auth';
 import { useAuth } from '../../contexts/AuthContext';
-
-// Mock list of users for demonstration
-const mockUsers: User[] = [
-  { 
-    id: '1', 
-    name: 'Admin User', 
-    email: 'HBilling_RCM@HBOX.AI', 
-    role: 'Admin',
-    avatar: 'https://i.pravatar.cc/150?img=1'
-  },
-  { 
-    id: '2', 
-    name: 'Syed A', 
-    email: 'syed.a@hbox.ai', 
-    role: 'User',
-    avatar: 'https://i.pravatar.cc/150?img=2'
-  },
-  { 
-    id: '3', 
-    name: 'John Davis', 
-    email: 'john.d@hbox.ai', 
-    role: 'User',
-    avatar: 'https://i.pravatar.cc/150?img=3'
-  },
-  { 
-    id: '4', 
-    name: 'Maria Rodriguez', 
-    email: 'maria.r@hbox.ai', 
-    role: 'Admin',
-    avatar: 'https://i.pravatar.cc/150?img=4'
-  }
-];
+import { fetchUsers, createUser, updateUser, deactivateUser } from '../../services/userService';
 
 interface UserFormData {
-  id?: string;
+  id?: number;
   name: string;
   email: string;
   password: string;
-  role: string;
+  role: Role;
 }
 
+const roleOptions: { value: Role; label: string }[] = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'poster', label: 'Poster' },
+  { value: 'supervisor', label: 'Supervisor' },
+  { value: 'admin', label: 'Admin' }
+];
+
 const UserManagement: React.FC = () => {
   const { user: currentLoggedInUser } = useAuth();
-  const [users, setUsers] = useState<User[]>(mockUsers);
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [isLoadingUsers, setIsLoadingUsers] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [currentUser, setCurrentUser] = useState<UserFormData | null>(null);
-  const [userToDelete, setUserToDelete] = useState<User | null>(null);
+  const [userToDelete, setUserToDelete] = useState<ManagedUser | null>(null);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
-  const [showPermissionError, setShowPermissionError] = useState(false);
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    setIsLoadingUsers(true);
+    setLoadError(null);
+
+    const response = await fetchUsers();
+
+    if (response.success && Array.isArray(response.data)) {
+      setUsers(response.data);
+    } else {
+      setLoadError(response.message || 'Failed to load users');
+    }
+    setIsLoadingUsers(false);
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
 
   // Filter users based on search query
   const filteredUsers = users.filter(user => 
@@ -66,21 +63,28 @@ const UserManagement: React.FC = () => {
     user.role.toLowerCase().includes(searchQuery.toLowerCase())
   );
   
-  // Check if there's more than one admin in the system
-  const hasMultipleAdmins = users.filter(user => user.role === 'Admin').length > 1;
+  // Check if there's more than one active admin in the system (the server enforces the same rule)
+  const hasMultipleAdmins = users.filter(user => user.role === 'admin' && user.is_active).length > 1;
+
+  const isLastAdmin = (user: ManagedUser) => user.role === 'admin' && user.is_active && !hasMultipleAdmins;
+
+  const showPermissionError = (message: string) => {
+    setPermissionError(message);
+    setTimeout(() => setPermissionError(null), 3000);
+  };
 
   const handleOpenCreateModal = () => {
     setCurrentUser({
       name: '',
       email: '',
       password: '',
-      role: 'User'
+      role: 'viewer'
     });
     setFormErrors({});
     setIsModalOpen(true);
   };
 
-  const handleOpenEditModal = (user: User) => {
+  const handleOpenEditModal = (user: ManagedUser) => {
     setCurrentUser({
       id: user.id,
       name: user.name,
@@ -92,14 +96,10 @@ const UserManagement: React.FC = () => {
     setIsModalOpen(true);
   };
 
-  const handleOpenDeleteModal = (user: User) => {
-    // Check if trying to delete yourself as admin
-    if (currentLoggedInUser?.id === user.id && user.role === 'Admin') {
-      if (!hasMultipleAdmins) {
-        setShowPermissionError(true);
-        setTimeout(() => setShowPermissionError(false), 3000);
-        return;
-      }
+  const handleOpenDeleteModal = (user: ManagedUser) => {
+    if (isLastAdmin(user)) {
+      showPermissionError('The last active admin cannot be deactivated.');
+      return;
     }
     
     setUserToDelete(user);
@@ -129,69 +129,95 @@ const UserManagement: React.FC = () => {
       errors.email = 'Email format is invalid';
     }
 
-    // Only validate password for new users
+    // Only require a password for new users; when set it must be at least 8 characters
     if (!currentUser?.id && !currentUser?.password) {
       errors.password = 'Password is required for new users';
+    } else if (currentUser?.password && currentUser.password.length < 8) {
+      errors.password = 'Password must be at least 8 characters';
+    }
+
+    // Demoting the last admin would lock everyone out of user management
+    const editedUser = users.find(user => user.id === currentUser?.id);
+    if (editedUser && isLastAdmin(editedUser) && currentUser?.role !== 'admin') {
+      errors.role = 'The last active admin must keep the Admin role';
     }
 
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
 
-  const handleSaveUser = () => {
+  const handleSaveUser = async () => {
     if (!validateForm() || !currentUser) return;
 
-    if (currentUser.id) {
-      // Update existing user
-      setUsers(prevUsers => 
-        prevUsers.map(user => 
-          user.id === currentUser.id 
-            ? { ...user, name: currentUser.name, email: currentUser.email, role: currentUser.role }
-            : user
-        )
-      );
-    } else {
-      // Create new user
-      const newUser: User = {
-        id: Math.random().toString(36).substring(2, 9), // Generate random ID
-        name: currentUser.name,
-        email: currentUser.email,
-        role: currentUser.role,
-        avatar: `https://i.pravatar.cc/150?img=${Math.floor(Math.random() * 20) + 1}`
-      };
-      setUsers(prevUsers => [...prevUsers, newUser]);
+    setIsSaving(true);
+
+    const payload = {
+      name: currentUser.name,
+      email: currentUser.email,
+      role: currentUser.role,
+      ...(currentUser.password ? { password: currentUser.password } : {})
+    };
+
+    const response = currentUser.id
+      ? await updateUser(currentUser.id, payload)
+      : await createUser(payload);
+
+    setIsSaving(false);
+
+    if (!response.success) {
+      setFormErrors({ ...(response.errors || {}), form: response.message || 'Failed to save user' });
+      return;
     }
+
+    const savedUser: ManagedUser = response.data;
+    setUsers(prevUsers => 
+      currentUser.id
+        ? prevUsers.map(user => user.id === savedUser.id ? savedUser : user)
+        : [...prevUsers, savedUser]
+    );
     
     setIsModalOpen(false);
     setCurrentUser(null);
   };
 
-  const handleDeleteUser = () => {
+  const handleDeleteUser = async () => {
     if (!userToDelete) return;
     
-    // Check if trying to delete yourself as admin
-    if (currentLoggedInUser?.id === userToDelete.id && userToDelete.role === 'Admin') {
-      if (!hasMultipleAdmins) {
-        setShowPermissionError(true);
-        setTimeout(() => setShowPermissionError(false), 3000);
-        setIsDeleteModalOpen(false);
-        setUserToDelete(null);
-        return;
-      }
+    if (isLastAdmin(userToDelete)) {
+      showPermissionError('The last active admin cannot be deactivated.');
+      setIsDeleteModalOpen(false);
+      setUserToDelete(null);
+      return;
     }
     
-    setUsers(prevUsers => prevUsers.filter(user => user.id !== userToDelete.id));
+    const response = await deactivateUser(userToDelete.id);
+
+    if (response.success) {
+      setUsers(prevUsers => prevUsers.map(user => user.id === userToDelete.id ? response.data : user));
+    } else {
+      showPermissionError(response.message || 'Failed to deactivate user');
+    }
     setIsDeleteModalOpen(false);
     setUserToDelete(null);
   };
 
+  const handleReactivateUser = async (user: ManagedUser) => {
+    const response = await updateUser(user.id, { is_active: true });
+
+    if (response.success) {
+      setUsers(prevUsers => prevUsers.map(u => u.id === user.id ? response.data : u));
+    } else {
+      showPermissionError(response.message || 'Failed to reactivate user');
+    }
+  };
+
   const handleFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     
     if (currentUser) {
       setCurrentUser({
         ...currentUser,
-        [name]: value
+        [name]: name === 'role' ? value as Role : value
       });
     }
 
@@ -242,7 +268,7 @@ const UserManagement: React.FC = () => {
       </div>
       
       {/* Permission Error Alert */}
-      {showPermissionError && (
+      {permissionError && (
         <motion.div 
           initial={{ opacity: 0, y: -10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -250,7 +276,7 @@ const UserManagement: React.FC = () => {
           className="mb-4 bg-error-900/50 text-error-200 px-4 py-3 rounded-lg flex items-center gap-2"
         >
           <ShieldAlert size={18} />
-          <span>You cannot delete/deactivate your own admin account when you are the only admin in the system.</span>
+          <span>{permissionError}</span>
         </motion.div>
       )}
 
@@ -262,13 +288,26 @@ const UserManagement: React.FC = () => {
                 <th className="px-6 py-4 text-left font-medium">Name</th>
                 <th className="px-6 py-4 text-left font-medium">Email</th>
                 <th className="px-6 py-4 text-left font-medium">Role</th>
+                <th className="px-6 py-4 text-left font-medium">Status</th>
                 <th className="px-6 py-4 text-right font-medium">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-white/10">
-              {filteredUsers.length > 0 ? (
+              {isLoadingUsers ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-white/60">
+                    Loading users...
+                  </td>
+                </tr>
+              ) : loadError ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-error-300">
+                    {loadError}
+                  </td>
+                </tr>
+              ) : filteredUsers.length > 0 ? (
                 filteredUsers.map((user) => (
-                  <tr key={user.id} className="hover:bg-white/5 transition-colors">
+                  <tr key={user.id} className={`hover:bg-white/5 transition-colors ${user.is_active ? '' : 'opacity-60'}`}>
                     <td className="px-6 py-4 text-white flex items-center gap-3">
                       <div 
                         className={`w-10 h-10 rounded-full flex items-center justify-center text-white font-medium ${getAvatarColor(user.name)}`}
@@ -280,11 +319,20 @@ const UserManagement: React.FC = () => {
                     <td className="px-6 py-4 text-white/80">{user.email}</td>
                     <td className="px-6 py-4">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                        user.role === 'Admin' 
+                        user.role === 'admin' 
                           ? 'bg-accent-500/20 text-accent-300' 
                           : 'bg-primary-500/20 text-primary-300'
                       }`}>
-                        {user.role}
+                        {roleOptions.find(option => option.value === user.role)?.label || user.role}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        user.is_active 
+                          ? 'bg-success-500/20 text-success-300' 
+                          : 'bg-white/10 text-white/60'
+                      }`}>
+                        {user.is_active ? 'Active' : 'Deactivated'}
                       </span>
                     </td>
                     <td className="px-6 py-4 text-right space-x-2">
@@ -294,23 +342,34 @@ const UserManagement: React.FC = () => {
                       >
                         <Edit2 size={18} />
                       </button>
-                      <button 
-                        onClick={() => handleOpenDeleteModal(user)}
-                        className={`p-1 rounded-md ${
-                          currentLoggedInUser?.id === user.id && user.role === 'Admin' && !hasMultipleAdmins
-                            ? 'text-error-400/40 hover:text-error-400/40 cursor-not-allowed'
-                            : 'text-error-400 hover:text-error-500 hover:bg-error-500/10'
-                        }`}
-                        disabled={currentLoggedInUser?.id === user.id && user.role === 'Admin' && !hasMultipleAdmins}
-                      >
-                        <Trash2 size={18} />
-                      </button>
+                      {user.is_active ? (
+                        <button 
+                          onClick={() => handleOpenDeleteModal(user)}
+                          title={String(user.id) === currentLoggedInUser?.id ? 'Deactivate your account' : 'Deactivate user'}
+                          className={`p-1 rounded-md ${
+                            isLastAdmin(user)
+                              ? 'text-error-400/40 hover:text-error-400/40 cursor-not-allowed'
+                              : 'text-error-400 hover:text-error-500 hover:bg-error-500/10'
+                          }`}
+                          disabled={isLastAdmin(user)}
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      ) : (
+                        <button 
+                          onClick={() => handleReactivateUser(user)}
+                          title="Reactivate user"
+                          className="text-success-400 hover:text-success-300 p-1 rounded-md hover:bg-success-500/10"
+                        >
+                          <RotateCcw size={18} />
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))
               ) : (
                 <tr>
-                  <td colSpan={4} className="px-6 py-8 text-center text-white/60">
+                  <td colSpan={5} className="px-6 py-8 text-center text-white/60">
                     No users found matching your search criteria
                   </td>
                 </tr>
@@ -375,10 +434,22 @@ const UserManagement: React.FC = () => {
                   className="glass-input w-full bg-dark-500 text-white"
                   style={{ background: '#1a1a2e', color: 'white' }}
                 >
-                  <option value="User" className="bg-dark-500 text-white">User</option>
-                  <option value="Admin" className="bg-dark-500 text-white">Admin</option>
+                  {roleOptions.map(option => (
+                    <option key={option.value} value={option.value} className="bg-dark-500 text-white">
+                      {option.label}
+                    </option>
+                  ))}
                 </select>
+                {formErrors.role && (
+                  <p className="mt-1 text-sm text-error-400">{formErrors.role}</p>
+                )}
               </div>
+              {formErrors.form && (
+                <div className="bg-error-900/50 text-error-200 px-4 py-3 rounded-lg flex items-center gap-2">
+                  <AlertCircle size={18} />
+                  <span>{formErrors.form}</span>
+                </div>
+              )}
               <div className="flex justify-end gap-3 mt-6">
                 <Button
                   variant="secondary"
@@ -389,6 +460,7 @@ const UserManagement: React.FC = () => {
                 <Button
                   variant="accent"
                   onClick={handleSaveUser}
+                  isLoading={isSaving}
                 >
                   Save
                 </Button>
@@ -412,10 +484,10 @@ const UserManagement: React.FC = () => {
               <div className="flex justify-center mb-4">
                 <AlertCircle size={48} className="text-error-400" />
               </div>
-              <h2 className="text-2xl font-bold text-white mb-2">Delete User</h2>
+              <h2 className="text-2xl font-bold text-white mb-2">Deactivate User</h2>
               <p className="text-white/70 mb-6">
-                Are you sure you want to delete the user <span className="font-semibold text-white">{userToDelete.name}</span>?
-                This action cannot be undone.
+                Are you sure you want to deactivate the user <span className="font-semibold text-white">{userToDelete.name}</span>?
+                They will be signed out and unable to log in until reactivated.
               </p>
               <div className="flex justify-center gap-3">
                 <Button
@@ -431,7 +503,7 @@ const UserManagement: React.FC = () => {
                   onClick={handleDeleteUser}
                   icon={<Check size={18} />}
                 >
-                  Delete
+                  Deactivate
                 </Button>
               </div>
             </div>
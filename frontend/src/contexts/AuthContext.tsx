@@ -1,61 +1,106 @@
-import React, { createContext, useState, useContext, ReactNode } from 'react';
-import { User, AuthState, LoginCredentials } from '../types/auth';
+import React, { createContext, useState, useContext, useEffect, useCallback, ReactNode } from 'react';
+import { User, AuthState, LoginCredentials, ApiUser, Role } from '../types/auth';
+import { login as loginAPI, logout as logoutAPI, restoreSession } from '../services/authService';
+import { setSessionExpiredHandler } from '../services/api';
 
 interface AuthContextType extends AuthState {
+  isAdmin: boolean;
+  hasRole: (minimumRole: Role) => boolean;
   login: (credentials: LoginCredentials) => Promise<boolean>;
   logout: () => void;
 }
 
+// Must match the role order enforced by the backend
+const ROLE_ORDER: Role[] = ['viewer', 'poster', 'supervisor', 'admin'];
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Map the user returned by the auth API to the shape the UI uses
+const mapApiUser = (apiUser: ApiUser): User => ({
+  id: apiUser.id.toString(),
+  name: apiUser.name,
+  email: apiUser.email,
+  role: apiUser.role,
+  avatar: `https://i.pravatar.cc/150?u=${apiUser.email}`,
+});
+
+const signedOutState: AuthState = {
+  user: null,
+  isAuthenticated: false,
+  isLoading: false,
+};
+
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [authState, setAuthState] = useState<AuthState>({
-    user: null,
-    isAuthenticated: false,
-    isLoading: false,
-  });
+  const [authState, setAuthState] = useState<AuthState>(signedOutState);
+  // Hold rendering until we know whether a stored session is still valid
+  const [isRestoring, setIsRestoring] = useState(true);
 
-  const login = async (credentials: LoginCredentials): Promise<boolean> => {
-    setAuthState(prev => ({ ...prev, isLoading: true }));
-    
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        // Check if we have userData from the LoginForm component
-        if (credentials.userData) {
-          const user: User = {
-            id: credentials.userData.role === 'Admin' ? 'admin-1' : 'user-1',
-            name: credentials.userData.name,
-            email: credentials.email,
-            role: credentials.userData.role,
-            avatar: `https://i.pravatar.cc/150?u=${credentials.email}`,
-          };
-          
-          setAuthState({
-            user,
-            isAuthenticated: true,
-            isLoading: false,
-          });
-          resolve(true);
-        } else {
-          setAuthState(prev => ({ ...prev, isLoading: false }));
-          resolve(false);
-        }
-      }, 1000);
-    });
-  };
+  useEffect(() => {
+    let cancelled = false;
 
-  const logout = () => {
-    setAuthState({
-      user: null,
-      isAuthenticated: false,
-      isLoading: false,
+    restoreSession().then(session => {
+      if (cancelled) return;
+      if (session) {
+        setAuthState({
+          user: mapApiUser(session.user),
+          isAuthenticated: true,
+          isLoading: false,
+        });
+      }
+      setIsRestoring(false);
     });
-  };
+
+    // Drop back to the login page when a refresh fails mid-session
+    setSessionExpiredHandler(() => setAuthState(signedOutState));
+
+    return () => {
+      cancelled = true;
+      setSessionExpiredHandler(null);
+    };
+  }, []);
+
+  const login = useCallback(async (credentials: LoginCredentials): Promise<boolean> => {
+    setAuthState(prev => ({ ...prev, isLoading: true }));
+
+    try {
+      const session = await loginAPI(credentials);
+
+      if (!session) {
+        setAuthState(prev => ({ ...prev, isLoading: false }));
+        return false;
+      }
+
+      setAuthState({
+        user: mapApiUser(session.user),
+        isAuthenticated: true,
+        isLoading: false,
+      });
+      return true;
+    } catch (error) {
+      setAuthState(prev => ({ ...prev, isLoading: false }));
+      throw error;
+    }
+  }, []);
+
+  const logout = useCallback(() => {
+    setAuthState(signedOutState);
+    logoutAPI();
+  }, []);
+
+  // UI gating only - the backend enforces the same rules on every request
+  const hasRole = useCallback((minimumRole: Role): boolean => {
+    if (!authState.user) return false;
+    return ROLE_ORDER.indexOf(authState.user.role) >= ROLE_ORDER.indexOf(minimumRole);
+  }, [authState.user]);
+
+  if (isRestoring) return null;
 
   return (
     <AuthContext.Provider
       value={{
         ...authState,
+        isAdmin: authState.user?.role === 'admin',
+        hasRole,
         login,
         logout,
       }}
@@ -1,27 +1,44 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect, useMemo, useCallback } from 'react';
-import { VisitClaim, KPIData, SearchFilters } from '../types/claim';
-import { fetchClaims, fetchClaimById, updateClaim as updateClaimAPI } from '../services/claimService';
+import { VisitClaim, ClaimUpdate, KPIData, KPIFilters, SearchFilters, Pagination, RevertTarget } from '../types/claim';
+import {
+  fetchClaims,
+  fetchClaimById,
+  updateClaim as updateClaimAPI,
+  revertClaim as revertClaimAPI,
+  ClaimValidationError,
+  ClaimConflictError
+} from '../services/claimService';
+import { fetchKpis } from '../services/metricsService';
 import { useAuth } from './AuthContext';
 
-// Mock KPI data for demonstration
-const mockKPIData: KPIData = {
-  totalCheckNumbers: 5,
-  totalVisitIds: 5,
-  postedVisitIds: 3,
-  pendingPosting: 2
+// Shown until the first KPI response arrives
+const emptyKPIData: KPIData = {
+  totalCheckNumbers: 0,
+  totalVisitIds: 0,
+  postedVisitIds: 0,
+  pendingPosting: 0,
+  trends: {
+    totalCheckNumbers: null,
+    totalVisitIds: null,
+    postedVisitIds: null,
+    pendingPosting: null
+  }
 };
 
 interface ClaimContextType {
   claims: VisitClaim[];
   kpiData: KPIData;
+  loadKpis: (filters?: KPIFilters) => Promise<void>;
   searchResults: VisitClaim[];
+  searchFilters: SearchFilters;
+  searchPagination: Pagination | null;
   currentClaim: VisitClaim | null;
   isLoading: boolean;
   error: string | null;
   searchClaims: (filters: SearchFilters) => void;
   getClaim: (id: string) => Promise<VisitClaim | null>;
-  updateClaim: (updatedClaimData: Partial<VisitClaim>) => Promise<VisitClaim | null>;
-  addNote: (claimId: string, note: string) => void;
+  updateClaim: (updatedClaimData: ClaimUpdate) => Promise<VisitClaim | null>;
+  revertClaim: (claimId: number, target: RevertTarget, rowVersion: number) => Promise<VisitClaim>;
 }
 
 const ClaimContext = createContext<ClaimContextType | undefined>(undefined);
@@ -45,6 +62,7 @@ const mapApiClaimToVisitClaim = (apiClaim: any): VisitClaim => {
     icd_code: apiClaim.icd_code || null,
     provider_name: apiClaim.provider_name || null,
     units: apiClaim.units || null,
+    row_version: apiClaim.row_version,
     
     // Claim & Billing Information
     oa_claim_id: apiClaim.oa_claim_id || null,
@@ -93,25 +111,66 @@ const mapApiClaimToVisitClaim = (apiClaim: any): VisitClaim => {
     amount: apiClaim.charge_amt || 0,
     status: apiClaim.claim_status || 'Pending',
     createdAt: apiClaim.charge_dt || new Date().toISOString(),
-    updatedAt: apiClaim.prim_post_dt || apiClaim.sec_post_dt || new Date().toISOString(),
-    notes: [] // API data doesn't include notes field
+    updatedAt: apiClaim.prim_post_dt || apiClaim.sec_post_dt || new Date().toISOString()
+  };
+};
+
+// Pull the page info returned alongside a claims list
+const getPagination = (response: Partial<Pagination>): Pagination | null => {
+  if (typeof response.totalCount !== 'number') return null;
+  return {
+    page: response.page || 1,
+    limit: response.limit || 10,
+    totalCount: response.totalCount,
+    totalPages: response.totalPages || 0
   };
 };
 
 export const ClaimProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { user } = useAuth();
   const [claims, setClaims] = useState<VisitClaim[]>([]);
-  const [kpiData] = useState<KPIData>(mockKPIData);
+  const [kpiData, setKpiData] = useState<KPIData>(emptyKPIData);
   const [searchResults, setSearchResults] = useState<VisitClaim[]>([]);
+  // Filters and page info of the last search, so results can be paged and re-sorted
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+  const [searchPagination, setSearchPagination] = useState<Pagination | null>(null);
   const [currentClaim, setCurrentClaim] = useState<VisitClaim | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [initialLoadDone, setInitialLoadDone] = useState<boolean>(false);
 
+  // Forget loaded claims when the user signs out so the next user starts fresh
+  useEffect(() => {
+    if (!user) {
+      setInitialLoadDone(false);
+      setClaims([]);
+      setSearchResults([]);
+      setSearchFilters({});
+      setSearchPagination(null);
+      setCurrentClaim(null);
+      setKpiData(emptyKPIData);
+    }
+  }, [user]);
+
+  const loadKpis = useCallback(async (filters?: KPIFilters) => {
+    const response = await fetchKpis(filters);
+
+    if (response.success && response.data) {
+      setKpiData(response.data);
+    } else {
+      console.error('Failed to fetch KPIs:', response.message || 'Unknown error');
+    }
+  }, []);
+
+  // Load KPIs for the default period once signed in
+  useEffect(() => {
+    if (user) loadKpis();
+  }, [user, loadKpis]);
+
   // Optimized claims initial load with proper connection handling
   useEffect(() => {
-    // Only load claims once, prevent multiple refreshes
-    if (initialLoadDone) return;
+    // Only load claims once signed in, prevent multiple refreshes
+    if (!user || initialLoadDone) return;
     
     const controller = new AbortController(); // For cancelling the fetch if component unmounts
     
@@ -126,6 +185,7 @@ export const ClaimProvider: React.FC<{ children: ReactNode }> = ({ children }) =
           const mappedClaims = response.data.map(mapApiClaimToVisitClaim);
           setClaims(mappedClaims);
           setSearchResults(mappedClaims);
+          setSearchPagination(getPagination(response));
           console.log('Successfully loaded claims:', mappedClaims.length);
         } else {
           console.error('Failed to fetch claims:', response.error || 'Unknown error');
@@ -154,7 +214,7 @@ export const ClaimProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     return () => {
       controller.abort();
     };
-  }, [initialLoadDone]); // Only depends on initialLoadDone flag
+  }, [initialLoadDone, user]); // Reload only after sign-in
 
   // Debounce search function to prevent rapid consecutive API calls
   const searchClaims = useCallback(async (filters: SearchFilters) => {
@@ -163,6 +223,7 @@ export const ClaimProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     
     setIsLoading(true);
     setError(null);
+    setSearchFilters(filters);
     
     try {
       console.log('Searching claims with filters:', filters);
@@ -171,17 +232,20 @@ export const ClaimProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       if (response.success && Array.isArray(response.data)) {
         const mappedClaims = response.data.map(mapApiClaimToVisitClaim);
         setSearchResults(mappedClaims);
+        setSearchPagination(getPagination(response));
         console.log('Successfully searched claims:', mappedClaims.length);
       } else {
         console.error('Failed to search claims:', response.error || 'Unknown error');
         setError(response.message || 'Failed to search claims');
         setSearchResults([]);
+        setSearchPagination(null);
       }
     } catch (err: any) {
       const errorMessage = 'Error searching claims';
       setError(errorMessage);
       console.error(errorMessage, err);
       setSearchResults([]);
+      setSearchPagination(null);
     } finally {
       setIsLoading(false);
     }
@@ -250,7 +314,20 @@ export const ClaimProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     return formattedData;
   }, []);
 
-  const updateClaim = useCallback(async (updatedClaimData: Partial<VisitClaim>): Promise<VisitClaim | null> => {
+  // Keep the current claim and the lists in step with the server's copy
+  const applyServerClaim = useCallback((serverClaim: VisitClaim) => {
+    setCurrentClaim(prevClaim => prevClaim && prevClaim.id !== serverClaim.id ? prevClaim : serverClaim);
+    
+    setClaims(prevClaims => 
+      prevClaims.map(c => c.id === serverClaim.id ? serverClaim : c)
+    );
+    
+    setSearchResults(prevResults => 
+      prevResults.map(c => c.id === serverClaim.id ? serverClaim : c)
+    );
+  }, []);
+
+  const updateClaim = useCallback(async (updatedClaimData: ClaimUpdate): Promise<VisitClaim | null> => {
     setIsLoading(true);
     setError(null);
     
@@ -265,35 +342,14 @@ export const ClaimProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       // Format dates to YYYY-MM-DD
       const formattedData = formatDateFields(updatedClaimData);
       
-      // Add user information to identify who made the changes
-      const claimWithUserInfo = {
-        ...formattedData,
-        user_id: user?.id || 1,
-        username: user?.name || 'System'
-      };
-      
-      console.log('About to call updateClaimAPI with data:', claimWithUserInfo);
-      
-      // Apply optimistic update first for better user experience
-      const optimisticClaim = {
-        ...currentClaim,
-        ...formattedData
-      };
-      
-      // Update the current claim immediately
-      setCurrentClaim(optimisticClaim);
-      
-      // Update in the local lists as well
-      setClaims(prevClaims => 
-        prevClaims.map(c => c.id === currentClaim.id ? optimisticClaim : c)
-      );
-      
-      setSearchResults(prevResults => 
-        prevResults.map(c => c.id === currentClaim.id ? optimisticClaim : c)
-      );
+      // The backend attributes the change to the signed-in user from the access token.
+      // Local state is only replaced with what the server saved: showing the edit before it is accepted
+      // would hide a save that was rejected because someone else changed the claim first
+      const payload = { row_version: currentClaim.row_version, ...formattedData };
+      console.log('About to call updateClaimAPI with data:', payload);
       
       // Call the API to update the claim with 3 retries if it fails
-      const response = await updateClaimAPI(currentClaim.id.toString(), claimWithUserInfo, 3);
+      const response = await updateClaimAPI(currentClaim.id.toString(), payload, 3);
       
       console.log('API response received:', response);
       
@@ -302,18 +358,7 @@ export const ClaimProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         
         // Map the API response to our VisitClaim model
         const mappedClaim = mapApiClaimToVisitClaim(response.data);
-        
-        // Update the current claim with the server response
-        setCurrentClaim(mappedClaim);
-        
-        // Update in the local lists as well with the server data
-        setClaims(prevClaims => 
-          prevClaims.map(c => c.id === mappedClaim.id ? mappedClaim : c)
-        );
-        
-        setSearchResults(prevResults => 
-          prevResults.map(c => c.id === mappedClaim.id ? mappedClaim : c)
-        );
+        applyServerClaim(mappedClaim);
         
         return mappedClaim;
       } else {
@@ -321,22 +366,17 @@ export const ClaimProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         console.error('API returned failure response:', errorMsg, response);
         setError(errorMsg);
         
-        // Revert optimistic updates if the server request failed
-        // Re-fetch the claim to ensure we have the correct data
-        const originalClaimResponse = await fetchClaimById(currentClaim.id.toString());
-        if (originalClaimResponse.success && originalClaimResponse.data) {
-          const originalMappedClaim = mapApiClaimToVisitClaim(originalClaimResponse.data);
-          setCurrentClaim(originalMappedClaim);
-          
-          setClaims(prevClaims => 
-            prevClaims.map(c => c.id === currentClaim.id ? originalMappedClaim : c)
-          );
-          
-          setSearchResults(prevResults => 
-            prevResults.map(c => c.id === currentClaim.id ? originalMappedClaim : c)
-          );
+        // Someone else saved first: show their version and let the caller merge
+        if (response.conflicts && response.current) {
+          const currentServerClaim = mapApiClaimToVisitClaim(response.current);
+          applyServerClaim(currentServerClaim);
+          throw new ClaimConflictError(errorMsg, response.conflicts, currentServerClaim, response.lastChange || null);
         }
         
+        // Field-level errors are shown next to the matching inputs
+        if (response.errors) {
+          throw new ClaimValidationError(errorMsg, response.errors);
+        }
         throw new Error(errorMsg);
       }
     } catch (err) {
@@ -347,51 +387,56 @@ export const ClaimProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     } finally {
       setIsLoading(false);
     }
-  }, [currentClaim, user, formatDateFields]);
+  }, [currentClaim, formatDateFields, applyServerClaim]);
 
-  const addNote = useCallback((claimId: string, note: string) => {
-    if (currentClaim && currentClaim.id === parseInt(claimId, 10)) {
-      const updatedClaim = {
-        ...currentClaim,
-        notes: currentClaim.notes ? [...currentClaim.notes, note] : [note],
-        updatedAt: new Date().toISOString()
-      };
-      setCurrentClaim(updatedClaim);
-      
-      // Also update in lists
-      setClaims(prevClaims => 
-        prevClaims.map(c => c.id === updatedClaim.id ? updatedClaim : c)
-      );
-      
-      setSearchResults(prevResults => 
-        prevResults.map(c => c.id === updatedClaim.id ? updatedClaim : c)
-      );
+  // Re-apply earlier values from the change history; rowVersion comes from the preview the user confirmed
+  const revertClaim = useCallback(async (claimId: number, target: RevertTarget, rowVersion: number): Promise<VisitClaim> => {
+    const response = await revertClaimAPI(claimId, target, rowVersion);
+    
+    if (response.success && response.data) {
+      const mappedClaim = mapApiClaimToVisitClaim(response.data);
+      applyServerClaim(mappedClaim);
+      return mappedClaim;
+    }
+    
+    const errorMsg = response.message || 'Failed to revert claim';
+    if (response.conflicts && response.current) {
+      const currentServerClaim = mapApiClaimToVisitClaim(response.current);
+      applyServerClaim(currentServerClaim);
+      throw new ClaimConflictError(errorMsg, response.conflicts, currentServerClaim, response.lastChange || null);
     }
-  }, [currentClaim]);
+    throw new Error(errorMsg);
+  }, [applyServerClaim]);
 
   // Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo(() => ({
     claims,
     kpiData,
+    loadKpis,
     searchResults,
+    searchFilters,
+    searchPagination,
     currentClaim,
     isLoading,
     error,
     searchClaims,
     getClaim,
     updateClaim,
-    addNote
+    revertClaim
   }), [
     claims, 
     kpiData, 
+    loadKpis,
     searchResults, 
+    searchFilters,
+    searchPagination,
     currentClaim, 
     isLoading, 
     error, 
     searchClaims, 
     getClaim, 
-    updateClaim, 
-    addNote
+    updateClaim,
+    revertClaim
   ]);
 
   return (
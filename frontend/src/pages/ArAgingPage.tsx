@@ -0,0 +1,316 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate } from 'react-router-dom';
+import { BarChart3, Calendar, ChevronLeft, ChevronRight, RefreshCw, X } from 'lucide-react';
+import Header from '../components/layout/Header';
+import GlassCard from '../components/ui/GlassCard';
+import GlassInput from '../components/ui/GlassInput';
+import Button from '../components/ui/Button';
+import AgingBarChart from '../components/reports/AgingBarChart';
+import AgingTable from '../components/reports/AgingTable';
+import { bucketLabel, formatCurrency } from '../components/reports/agingFormat';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchArAging, fetchArAgingClaims } from '../services/reportService';
+import {
+  AgingBasis,
+  AgingBucket,
+  AgingClaim,
+  AgingDimension,
+  AgingRow,
+  AgingSelection,
+  ArAgingReport
+} from '../types/report';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const ArAgingPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+
+  const [asOf, setAsOf] = useState(today);
+  const [basis, setBasis] = useState<AgingBasis>('service_end');
+  const [dimension, setDimension] = useState<AgingDimension>('payer');
+  const [report, setReport] = useState<ArAgingReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Drill-down state
+  const [selection, setSelection] = useState<AgingSelection | null>(null);
+  const [claims, setClaims] = useState<AgingClaim[]>([]);
+  const [claimsPage, setClaimsPage] = useState(1);
+  const [claimsTotal, setClaimsTotal] = useState({ count: 0, amount: 0, pages: 1 });
+  const [isLoadingClaims, setIsLoadingClaims] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) navigate('/login');
+  }, [isAuthenticated, navigate]);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    setSelection(null);
+
+    const response = await fetchArAging({ asOf, basis });
+    if (response.success) {
+      setReport(response.data);
+    } else {
+      setReport(null);
+      setError(response.message || 'Unable to load the AR aging report.');
+    }
+    setIsLoading(false);
+  }, [asOf, basis]);
+
+  useEffect(() => {
+    if (isAuthenticated) loadReport();
+  }, [isAuthenticated, loadReport]);
+
+  // Load the claim lines for the selected cell
+  useEffect(() => {
+    if (!selection) {
+      setClaims([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingClaims(true);
+
+    fetchArAgingClaims(selection, { asOf, basis }, claimsPage).then(response => {
+      if (cancelled) return;
+
+      if (response.success) {
+        setClaims(response.data);
+        setClaimsTotal({ count: response.totalCount, amount: response.totalAmount, pages: response.totalPages || 1 });
+      } else {
+        setClaims([]);
+        setClaimsTotal({ count: 0, amount: 0, pages: 1 });
+      }
+      setIsLoadingClaims(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selection, claimsPage, asOf, basis]);
+
+  const handleSelect = (row: AgingRow, bucket: AgingBucket) => {
+    // The totals row drills into the whole bucket
+    const name = row === report?.totals ? undefined : row.name;
+    setClaimsPage(1);
+    setSelection({ bucket, [dimension]: name });
+  };
+
+  const handleDimensionChange = (next: AgingDimension) => {
+    setDimension(next);
+    setSelection(null);
+  };
+
+  const rows = report ? (dimension === 'payer' ? report.byPayer : report.byProvider) : [];
+  const selectedName = selection ? selection[dimension] : undefined;
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-dark-300 to-dark-400">
+      <Header />
+
+      <div className="container mx-auto pt-24 pb-12 px-4 md:px-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="mb-8"
+        >
+          <Link to="/search" className="text-white/70 hover:text-white flex items-center gap-1 transition-colors mb-2">
+            <ChevronLeft size={18} />
+            <span>Back to Search</span>
+          </Link>
+
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <BarChart3 className="text-accent-400" size={28} />
+            AR Aging
+          </h1>
+          <p className="text-white/60 mt-2">
+            Outstanding balances by age, broken down by payer and provider.{' '}
+            <Link to="/reports/denials" className="text-accent-400 hover:text-accent-300">View denial reasons</Link>
+          </p>
+        </motion.div>
+
+        <GlassCard className="mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <GlassInput
+              label="As Of"
+              name="as_of"
+              type="date"
+              value={asOf}
+              onChange={e => setAsOf(e.target.value || today())}
+              icon={<Calendar size={16} />}
+            />
+
+            <div className="mb-4">
+              <label className="block text-white/80 mb-2 font-medium">Age From</label>
+              <select
+                value={basis}
+                onChange={e => setBasis(e.target.value as AgingBasis)}
+                className="glass-input w-full"
+                style={{ background: '#1a1a2e', color: 'white' }}
+              >
+                <option value="service_end">Date of Service</option>
+                <option value="charge_dt">Charge Date</option>
+              </select>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-white/80 mb-2 font-medium">Group By</label>
+              <div className="flex rounded-md overflow-hidden border border-white/10">
+                {(['payer', 'provider'] as AgingDimension[]).map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => handleDimensionChange(option)}
+                    className={`flex-1 py-2 capitalize transition-colors ${
+                      dimension === option ? 'bg-accent-500/30 text-white' : 'text-white/60 hover:bg-white/5'
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <Button
+              variant="secondary"
+              className="mb-4"
+              onClick={loadReport}
+              isLoading={isLoading}
+              icon={<RefreshCw size={16} />}
+            >
+              Refresh
+            </Button>
+          </div>
+        </GlassCard>
+
+        {error ? (
+          <div className="bg-error-900/30 text-error-400 p-6 rounded-md text-center">
+            <p className="text-lg">{error}</p>
+          </div>
+        ) : isLoading && !report ? (
+          <div className="flex justify-center items-center py-20">
+            <div className="w-12 h-12 border-2 border-accent-500 border-t-transparent rounded-full animate-spin"></div>
+            <p className="ml-4 text-xl text-white/70">Loading report...</p>
+          </div>
+        ) : report && (
+          <>
+            <GlassCard className="mb-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold">Balance by {dimension === 'payer' ? 'Payer' : 'Provider'}</h2>
+                <span className="text-white/70">Total outstanding: {formatCurrency(report.totals.totalAmount)}</span>
+              </div>
+              <AgingBarChart rows={rows} buckets={report.buckets} onSelect={handleSelect} />
+            </GlassCard>
+
+            <GlassCard className="mb-6">
+              <AgingTable
+                rows={rows}
+                totals={report.totals}
+                buckets={report.buckets}
+                nameLabel={dimension === 'payer' ? 'Payer' : 'Provider'}
+                selected={selection && selectedName ? { name: selectedName, bucket: selection.bucket } : null}
+                onSelect={handleSelect}
+              />
+            </GlassCard>
+          </>
+        )}
+
+        {selection && (
+          <GlassCard>
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h2 className="text-xl font-semibold">
+                  {selectedName || 'All ' + (dimension === 'payer' ? 'payers' : 'providers')} · {bucketLabel(selection.bucket)}
+                </h2>
+                <p className="text-white/60 text-sm mt-1">
+                  {claimsTotal.count} claim lines totalling {formatCurrency(claimsTotal.amount)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setSelection(null)}
+                className="text-white/60 hover:text-white p-1 rounded-md hover:bg-white/10"
+                title="Close"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            {isLoadingClaims ? (
+              <div className="flex justify-center py-8">
+                <div className="w-8 h-8 border-2 border-accent-500 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-white/10 text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-white/70 uppercase tracking-wider">
+                      <th className="px-4 py-3">Claim ID</th>
+                      <th className="px-4 py-3">Patient</th>
+                      <th className="px-4 py-3">CPT</th>
+                      <th className="px-4 py-3">{basis === 'service_end' ? 'DOS' : 'Charge Date'}</th>
+                      <th className="px-4 py-3">{dimension === 'payer' ? 'Provider' : 'Payer'}</th>
+                      <th className="px-4 py-3 text-right">Age (days)</th>
+                      <th className="px-4 py-3 text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/10">
+                    {claims.map(claim => (
+                      <tr key={claim.id} className="hover:bg-white/5">
+                        <td className="px-4 py-3">
+                          <Link to={`/profile/${claim.id}`} className="text-accent-400 hover:text-accent-300">
+                            {claim.oa_claim_id || `#${claim.id}`}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-3">
+                          {[claim.first_name, claim.last_name].filter(Boolean).join(' ') || 'N/A'}
+                        </td>
+                        <td className="px-4 py-3">{claim.cpt_code}</td>
+                        <td className="px-4 py-3">
+                          {new Date((basis === 'service_end' ? claim.service_end : claim.charge_dt) || '').toLocaleDateString()}
+                        </td>
+                        <td className="px-4 py-3">{dimension === 'payer' ? claim.provider : claim.payer}</td>
+                        <td className="px-4 py-3 text-right">{claim.age_days}</td>
+                        <td className="px-4 py-3 text-right">{formatCurrency(Number(claim.bal_amt))}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {claimsTotal.pages > 1 && (
+                  <div className="flex justify-end items-center gap-2 mt-4">
+                    <button
+                      type="button"
+                      onClick={() => setClaimsPage(page => page - 1)}
+                      disabled={claimsPage <= 1}
+                      className="p-2 rounded-md hover:bg-white/10 disabled:opacity-30"
+                    >
+                      <ChevronLeft size={16} />
+                    </button>
+                    <span className="text-white/70 text-sm">Page {claimsPage} of {claimsTotal.pages}</span>
+                    <button
+                      type="button"
+                      onClick={() => setClaimsPage(page => page + 1)}
+                      disabled={claimsPage >= claimsTotal.pages}
+                      className="p-2 rounded-md hover:bg-white/10 disabled:opacity-30"
+                    >
+                      <ChevronRight size={16} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </GlassCard>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArAgingPage;
@@ -0,0 +1,194 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ChevronLeft, FileOutput, Download, AlertCircle } from 'lucide-react';
+import Header from '../components/layout/Header';
+import GlassCard from '../components/ui/GlassCard';
+import Button from '../components/ui/Button';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCurrency } from '../components/reports/agingFormat';
+import { fetchBatches, fetchBatch, downloadBatchFile } from '../services/ediService';
+import { EdiBatch, EdiBatchDetail } from '../types/edi';
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+const ClaimBatchesPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [batches, setBatches] = useState<EdiBatch[]>([]);
+  const [detail, setDetail] = useState<EdiBatchDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedId = Number(searchParams.get('batch')) || null;
+
+  const loadBatches = useCallback(async () => {
+    setIsLoading(true);
+    const response = await fetchBatches();
+    setIsLoading(false);
+
+    if (response.success) setBatches(response.data);
+    else setError(response.message || 'Claim batches could not be loaded');
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+    loadBatches();
+  }, [isAuthenticated, navigate, loadBatches]);
+
+  // The selected batch lives in the URL so a new batch can be linked to straight after generating it
+  useEffect(() => {
+    if (!isAuthenticated || !selectedId) {
+      setDetail(null);
+      return;
+    }
+
+    fetchBatch(selectedId).then(response => {
+      if (response.success) setDetail(response.data);
+      else setError(response.message || 'The batch could not be loaded');
+    });
+  }, [isAuthenticated, selectedId]);
+
+  const handleDownload = async (batch: EdiBatch) => {
+    setError(null);
+    const response = await downloadBatchFile(batch);
+    if (!response.success) setError(response.message || 'The file could not be downloaded');
+  };
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-dark-300 to-dark-400">
+      <Header />
+
+      <div className="container mx-auto pt-24 pb-12 px-4 md:px-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="mb-8"
+        >
+          <Link to="/search" className="text-white/70 hover:text-white flex items-center gap-1 transition-colors mb-2">
+            <ChevronLeft size={18} />
+            <span>Back to Search</span>
+          </Link>
+
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <FileOutput className="text-accent-400" size={28} />
+            Claim Files
+          </h1>
+          <p className="text-white/60 mt-2">
+            837P batches generated from claim lines. Select claim lines on the search page to create a new one.
+          </p>
+        </motion.div>
+
+        {error && (
+          <div className="mb-6 p-4 rounded-md flex items-center gap-2 bg-error-900/30 text-error-400">
+            <AlertCircle size={18} />
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <GlassCard className="lg:col-span-1">
+            <h2 className="text-sm text-white/70 uppercase tracking-wider mb-2">Batches</h2>
+            {isLoading ? (
+              <p className="text-white/50 text-sm">Loading...</p>
+            ) : batches.length === 0 ? (
+              <p className="text-white/50 text-sm">No claim files generated yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {batches.map(batch => (
+                  <li key={batch.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSearchParams({ batch: String(batch.id) })}
+                      className={`w-full text-left p-3 rounded-md transition-colors ${
+                        selectedId === batch.id ? 'bg-white/10' : 'hover:bg-white/5'
+                      }`}
+                    >
+                      <div className="text-white flex items-center gap-2">
+                        {batch.filename}
+                        {batch.usage_indicator === 'T' && (
+                          <span className="px-2 rounded-full text-xs bg-warning-900/30 text-warning-400">Test</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-white/60">
+                        {batch.claim_count} claims · {batch.line_count} lines · {formatCurrency(Number(batch.total_charge))}
+                      </div>
+                      <div className="text-xs text-white/50">
+                        {formatDateTime(batch.created_at)}{batch.created_by_name ? ` by ${batch.created_by_name}` : ''}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </GlassCard>
+
+          <div className="lg:col-span-2">
+            {detail ? (
+              <GlassCard>
+                <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-4">
+                  <div>
+                    <h2 className="text-xl text-white font-semibold">{detail.filename}</h2>
+                    <p className="text-sm text-white/60">
+                      Interchange control number {String(detail.interchange_control_number).padStart(9, '0')}
+                    </p>
+                  </div>
+                  <Button onClick={() => handleDownload(detail)} icon={<Download size={16} />}>
+                    Download
+                  </Button>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-white/10 text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-white/70 uppercase tracking-wider">
+                        <th className="px-4 py-3">Claim</th>
+                        <th className="px-4 py-3">Line</th>
+                        <th className="px-4 py-3">Patient</th>
+                        <th className="px-4 py-3">CPT</th>
+                        <th className="px-4 py-3">DOS</th>
+                        <th className="px-4 py-3">Payer</th>
+                        <th className="px-4 py-3 text-right">Charge</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/10 text-white/80">
+                      {detail.lines.map(line => (
+                        <tr key={line.claim_id} className="hover:bg-white/5">
+                          <td className="px-4 py-3">{line.patient_control_number}</td>
+                          <td className="px-4 py-3">
+                            <Link to={`/profile/${line.claim_id}`} className="text-accent-400 hover:text-accent-300">
+                              {line.line_number}
+                            </Link>
+                          </td>
+                          <td className="px-4 py-3">{[line.first_name, line.last_name].filter(Boolean).join(' ') || 'Deleted'}</td>
+                          <td className="px-4 py-3">{line.cpt_code || 'N/A'}</td>
+                          <td className="px-4 py-3">{line.service_end ? new Date(line.service_end).toLocaleDateString() : 'N/A'}</td>
+                          <td className="px-4 py-3">{line.prim_ins || 'Unknown'}</td>
+                          <td className="px-4 py-3 text-right">{formatCurrency(Number(line.charge_amt) || 0)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </GlassCard>
+            ) : (
+              <GlassCard className="min-h-48 flex items-center justify-center">
+                <p className="text-white/60">Select a batch to see the claims it billed</p>
+              </GlassCard>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClaimBatchesPage;
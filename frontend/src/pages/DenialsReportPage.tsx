@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate } from 'react-router-dom';
+import { Ban, Calendar, ChevronLeft, RefreshCw } from 'lucide-react';
+import Header from '../components/layout/Header';
+import GlassCard from '../components/ui/GlassCard';
+import GlassInput from '../components/ui/GlassInput';
+import Button from '../components/ui/Button';
+import { formatCurrency } from '../components/reports/agingFormat';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchTopDenialReasons } from '../services/denialService';
+import { DenialReasonCount, DenialReasonGroup, TopDenialFilters, TopDenialReasons } from '../types/denial';
+
+type Breakdown = 'byPayer' | 'byCpt';
+
+const ReasonTable: React.FC<{ reasons: DenialReasonCount[] }> = ({ reasons }) => (
+  <table className="min-w-full divide-y divide-white/10 text-sm">
+    <thead>
+      <tr className="text-left text-xs text-white/70 uppercase tracking-wider">
+        <th className="px-4 py-2">CARC</th>
+        <th className="px-4 py-2">Reason</th>
+        <th className="px-4 py-2 text-right">Denials</th>
+        <th className="px-4 py-2 text-right">Denied</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-white/10 text-white/80">
+      {reasons.map(reason => (
+        <tr key={reason.code}>
+          <td className="px-4 py-2 font-mono text-accent-400">{reason.code}</td>
+          <td className="px-4 py-2">{reason.description || 'No description'}</td>
+          <td className="px-4 py-2 text-right">{reason.count}</td>
+          <td className="px-4 py-2 text-right">{formatCurrency(reason.deniedAmount)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const DenialsReportPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+
+  const [filters, setFilters] = useState<TopDenialFilters>({});
+  const [breakdown, setBreakdown] = useState<Breakdown>('byPayer');
+  const [report, setReport] = useState<TopDenialReasons | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) navigate('/login');
+  }, [isAuthenticated, navigate]);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await fetchTopDenialReasons(filters);
+    if (response.success) {
+      setReport(response.data);
+    } else {
+      setReport(null);
+      setError(response.message || 'Unable to load the denial report.');
+    }
+    setIsLoading(false);
+  }, [filters]);
+
+  useEffect(() => {
+    if (isAuthenticated) loadReport();
+  }, [isAuthenticated, loadReport]);
+
+  const updateFilter = (field: keyof TopDenialFilters, value: string | boolean) => {
+    setFilters(current => ({ ...current, [field]: value || undefined }));
+  };
+
+  const groups: DenialReasonGroup[] = report ? report[breakdown] : [];
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-dark-300 to-dark-400">
+      <Header />
+
+      <div className="container mx-auto pt-24 pb-12 px-4 md:px-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="mb-8"
+        >
+          <Link to="/search" className="text-white/70 hover:text-white flex items-center gap-1 transition-colors mb-2">
+            <ChevronLeft size={18} />
+            <span>Back to Search</span>
+          </Link>
+
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <Ban className="text-accent-400" size={28} />
+            Denial Reasons
+          </h1>
+          <p className="text-white/60 mt-2">
+            The most frequent CARC codes on recorded denials, overall and by payer or CPT.{' '}
+            <Link to="/reports/ar-aging" className="text-accent-400 hover:text-accent-300">View AR aging</Link>
+          </p>
+        </motion.div>
+
+        <GlassCard className="mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <GlassInput
+              label="Denied From"
+              type="date"
+              value={filters.from || ''}
+              onChange={e => updateFilter('from', e.target.value)}
+              icon={<Calendar size={16} />}
+            />
+            <GlassInput
+              label="Denied To"
+              type="date"
+              value={filters.to || ''}
+              onChange={e => updateFilter('to', e.target.value)}
+              icon={<Calendar size={16} />}
+            />
+            <GlassInput
+              label="Payer"
+              value={filters.payer || ''}
+              onChange={e => updateFilter('payer', e.target.value)}
+            />
+            <GlassInput
+              label="CPT Code"
+              value={filters.cptCode || ''}
+              onChange={e => updateFilter('cptCode', e.target.value)}
+            />
+            <div className="mb-4 flex items-center justify-between gap-4">
+              <label className="flex items-center gap-2 text-white/80">
+                <input
+                  type="checkbox"
+                  checked={filters.includeResolved || false}
+                  onChange={e => updateFilter('includeResolved', e.target.checked)}
+                  className="h-4 w-4"
+                />
+                Include resolved
+              </label>
+              <Button variant="secondary" onClick={loadReport} isLoading={isLoading} icon={<RefreshCw size={16} />}>
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </GlassCard>
+
+        {error ? (
+          <div className="bg-error-900/30 text-error-400 p-6 rounded-md text-center">
+            <p className="text-lg">{error}</p>
+          </div>
+        ) : isLoading && !report ? (
+          <div className="flex justify-center items-center py-20">
+            <div className="w-12 h-12 border-2 border-accent-500 border-t-transparent rounded-full animate-spin"></div>
+            <p className="ml-4 text-xl text-white/70">Loading report...</p>
+          </div>
+        ) : report && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <GlassCard>
+              <h2 className="text-sm text-white/70 uppercase tracking-wider mb-4">Top Reasons</h2>
+              {report.overall.length === 0 ? (
+                <p className="text-white/50 text-sm">No denials match these filters</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <ReasonTable reasons={report.overall} />
+                </div>
+              )}
+            </GlassCard>
+
+            <GlassCard>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-sm text-white/70 uppercase tracking-wider">Breakdown</h2>
+                <div className="flex rounded-md overflow-hidden border border-white/10">
+                  {([['byPayer', 'Payer'], ['byCpt', 'CPT']] as [Breakdown, string][]).map(([value, label]) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setBreakdown(value)}
+                      className={`px-4 py-1 transition-colors ${
+                        breakdown === value ? 'bg-accent-500/30 text-white' : 'text-white/60 hover:bg-white/5'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {groups.length === 0 ? (
+                <p className="text-white/50 text-sm">No denials match these filters</p>
+              ) : (
+                <div className="space-y-6">
+                  {groups.map(group => (
+                    <div key={group.name}>
+                      <div className="flex justify-between text-white mb-2">
+                        <span className="font-medium">{group.name}</span>
+                        <span className="text-sm text-white/60">
+                          {group.count} denials · {formatCurrency(group.deniedAmount)}
+                        </span>
+                      </div>
+                      <div className="overflow-x-auto">
+                        <ReasonTable reasons={group.reasons} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </GlassCard>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DenialsReportPage;
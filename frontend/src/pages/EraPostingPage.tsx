@@ -0,0 +1,350 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate } from 'react-router-dom';
+import { ChevronLeft, FileText, Upload, CheckCircle, AlertCircle } from 'lucide-react';
+import Header from '../components/layout/Header';
+import GlassCard from '../components/ui/GlassCard';
+import Button from '../components/ui/Button';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCurrency } from '../components/reports/agingFormat';
+import { uploadEraFile, fetchEraFiles, fetchEraReview, postEraLines } from '../services/eraService';
+import { EraFile, EraLineStatus, EraPostResult, EraReview } from '../types/era';
+
+const statusStyles: Record<EraLineStatus, { label: string; className: string }> = {
+  matched: { label: 'Matched', className: 'bg-success-900/30 text-success-400' },
+  unchanged: { label: 'Already on claim', className: 'bg-white/10 text-white/70' },
+  unmatched: { label: 'Unmatched', className: 'bg-warning-900/30 text-warning-400' },
+  conflict: { label: 'Conflict', className: 'bg-error-900/30 text-error-400' },
+  posted: { label: 'Posted', className: 'bg-accent-900/30 text-accent-400' }
+};
+
+const statusOrder: EraLineStatus[] = ['matched', 'unchanged', 'unmatched', 'conflict', 'posted'];
+
+// Turn a column name like prim_chk_det into "Prim Chk Det"
+const formatFieldName = (fieldName: string): string =>
+  fieldName
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const EraPostingPage: React.FC = () => {
+  const { isAuthenticated, hasRole } = useAuth();
+  const navigate = useNavigate();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [files, setFiles] = useState<EraFile[]>([]);
+  const [review, setReview] = useState<EraReview | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isUploading, setIsUploading] = useState(false);
+  const [isLoadingReview, setIsLoadingReview] = useState(false);
+  const [isPosting, setIsPosting] = useState(false);
+  const [skipped, setSkipped] = useState<EraPostResult['skipped']>([]);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canPost = hasRole('poster');
+
+  const loadFiles = useCallback(async () => {
+    const response = await fetchEraFiles();
+    if (response.success) setFiles(response.data);
+  }, []);
+
+  const openReview = useCallback(async (id: number) => {
+    setIsLoadingReview(true);
+    const response = await fetchEraReview(id);
+    setIsLoadingReview(false);
+
+    if (response.success) {
+      setReview(response.data);
+      setSelected(new Set());
+    } else {
+      setMessage({ type: 'error', text: response.message || 'The remittance could not be loaded' });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+
+    // Viewers can't post payments
+    if (!canPost) {
+      navigate('/search');
+      return;
+    }
+
+    loadFiles();
+  }, [isAuthenticated, canPost, navigate, loadFiles]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    setMessage(null);
+    setSkipped([]);
+    const response = await uploadEraFile(file);
+    setIsUploading(false);
+
+    if (response.success) {
+      await loadFiles();
+      await openReview(response.data.id);
+    } else if (response.data?.id) {
+      // Already uploaded: carry on reviewing the earlier copy
+      setMessage({ type: 'error', text: response.message || 'This remittance has already been uploaded' });
+      await openReview(response.data.id);
+    } else {
+      setMessage({ type: 'error', text: response.message || 'The remittance could not be uploaded' });
+    }
+  };
+
+  const matchedKeys = review
+    ? review.transactions.flatMap(transaction =>
+        transaction.proposals.filter(proposal => proposal.status === 'matched').map(proposal => proposal.key)
+      )
+    : [];
+
+  const toggleLine = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const toggleAllMatched = () => {
+    setSelected(prev => (prev.size === matchedKeys.length ? new Set() : new Set(matchedKeys)));
+  };
+
+  const handlePost = async () => {
+    if (!review || selected.size === 0) return;
+
+    setIsPosting(true);
+    setMessage(null);
+    const response = await postEraLines(review.file.id, Array.from(selected));
+    setIsPosting(false);
+
+    if (response.success) {
+      setMessage({ type: 'success', text: response.message || 'Lines posted' });
+      setSkipped(response.data.skipped);
+      // Re-match so posted lines and new balances show
+      await openReview(review.file.id);
+      await loadFiles();
+    } else {
+      setMessage({ type: 'error', text: response.message || 'Posting failed and nothing was saved' });
+    }
+  };
+
+  if (!isAuthenticated || !canPost) return null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-dark-300 to-dark-400">
+      <Header />
+
+      <div className="container mx-auto pt-24 pb-12 px-4 md:px-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="mb-8"
+        >
+          <Link to="/import/payments" className="text-white/70 hover:text-white flex items-center gap-1 transition-colors mb-2">
+            <ChevronLeft size={18} />
+            <span>Back to Spreadsheet Import</span>
+          </Link>
+
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <FileText className="text-accent-400" size={28} />
+            Post ERA
+          </h1>
+          <p className="text-white/60 mt-2">
+            Upload an 835 remittance, review the proposed postings and accept the ones that are right.
+          </p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <GlassCard className="lg:col-span-1">
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".835,.txt,.edi"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <Button
+              className="w-full mb-4"
+              onClick={() => fileInput.current?.click()}
+              isLoading={isUploading}
+              icon={<Upload size={16} />}
+            >
+              Upload 835 File
+            </Button>
+
+            <h2 className="text-sm text-white/70 uppercase tracking-wider mb-2">Recent remittances</h2>
+            {files.length === 0 ? (
+              <p className="text-white/50 text-sm">No remittances uploaded yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {files.map(file => (
+                  <li key={file.id}>
+                    <button
+                      type="button"
+                      onClick={() => openReview(file.id)}
+                      className={`w-full text-left p-3 rounded-md transition-colors ${
+                        review?.file.id === file.id ? 'bg-white/10' : 'hover:bg-white/5'
+                      }`}
+                    >
+                      <div className="text-white truncate">{file.filename || `Remittance ${file.id}`}</div>
+                      <div className="text-xs text-white/60 truncate">{file.payer_names || 'Unknown payer'}</div>
+                      <div className="text-xs text-white/50">
+                        {formatCurrency(Number(file.payment_total))} · {file.posted_count || 0} lines posted
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </GlassCard>
+
+          <div className="lg:col-span-3 space-y-6">
+            {message && (
+              <div
+                className={`p-4 rounded-md flex items-center gap-2 ${
+                  message.type === 'success' ? 'bg-success-900/30 text-success-400' : 'bg-error-900/30 text-error-400'
+                }`}
+              >
+                {message.type === 'success' ? <CheckCircle size={18} /> : <AlertCircle size={18} />}
+                {message.text}
+              </div>
+            )}
+
+            {skipped.length > 0 && (
+              <GlassCard>
+                <h2 className="text-white font-medium mb-2">Skipped lines</h2>
+                <ul className="text-sm text-white/70 space-y-1">
+                  {skipped.map(line => (
+                    <li key={line.key}>Line {line.key}: {line.reason}</li>
+                  ))}
+                </ul>
+              </GlassCard>
+            )}
+
+            {isLoadingReview && <p className="text-white/60">Matching remittance against claims...</p>}
+
+            {review && !isLoadingReview && (
+              <>
+                <GlassCard>
+                  <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+                    <div className="flex flex-wrap gap-2">
+                      {statusOrder.map(status => (
+                        <span key={status} className={`px-3 py-1 rounded-full text-sm ${statusStyles[status].className}`}>
+                          {statusStyles[status].label}: {review.summary[status]}
+                        </span>
+                      ))}
+                    </div>
+
+                    <div className="flex gap-2">
+                      <Button variant="secondary" onClick={toggleAllMatched} disabled={matchedKeys.length === 0}>
+                        {selected.size === matchedKeys.length && matchedKeys.length > 0 ? 'Clear Selection' : 'Select All Matched'}
+                      </Button>
+                      <Button variant="accent" onClick={handlePost} isLoading={isPosting} disabled={selected.size === 0}>
+                        Accept {selected.size} Selected
+                      </Button>
+                    </div>
+                  </div>
+                </GlassCard>
+
+                {review.transactions.map(transaction => (
+                  <GlassCard key={transaction.index}>
+                    <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-white/70 mb-4">
+                      <span className="text-white font-medium">{transaction.payerName || 'Unknown payer'}</span>
+                      <span>Trace {transaction.traceNumber || 'n/a'}</span>
+                      <span>{transaction.paymentMethod || 'Payment'} {formatCurrency(transaction.paymentAmount)}</span>
+                      {transaction.paymentDate && <span>Paid {transaction.paymentDate}</span>}
+                    </div>
+
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-white/10 text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-white/70 uppercase tracking-wider">
+                            <th className="px-4 py-3"></th>
+                            <th className="px-4 py-3">Claim</th>
+                            <th className="px-4 py-3">CPT / DOS</th>
+                            <th className="px-4 py-3">Paid</th>
+                            <th className="px-4 py-3">Adjustments</th>
+                            <th className="px-4 py-3">Status</th>
+                            <th className="px-4 py-3">Changes</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/10">
+                          {transaction.proposals.map(proposal => (
+                            <tr key={proposal.key} className="align-top hover:bg-white/5">
+                              <td className="px-4 py-3">
+                                <input
+                                  type="checkbox"
+                                  checked={selected.has(proposal.key)}
+                                  disabled={proposal.status !== 'matched'}
+                                  onChange={() => toggleLine(proposal.key)}
+                                />
+                              </td>
+                              <td className="px-4 py-3">
+                                {proposal.claimId ? (
+                                  <Link to={`/profile/${proposal.claimId}`} className="text-accent-400 hover:text-accent-300">
+                                    {proposal.patientControlNumber}
+                                  </Link>
+                                ) : proposal.patientControlNumber}
+                                {proposal.patientName && <div className="text-white/50 text-xs">{proposal.patientName}</div>}
+                              </td>
+                              <td className="px-4 py-3">
+                                <div>{proposal.procedureCode || 'Whole claim'}</div>
+                                <div className="text-white/50 text-xs">{proposal.serviceDate || ''}</div>
+                              </td>
+                              <td className="px-4 py-3">
+                                <div>{formatCurrency(proposal.paidAmount)}</div>
+                                <div className="text-white/50 text-xs capitalize">{proposal.level}</div>
+                              </td>
+                              <td className="px-4 py-3">
+                                {proposal.adjustments.map((adjustment, index) => (
+                                  <div key={index} className="text-white/70">
+                                    {adjustment.group}-{adjustment.reason} {formatCurrency(adjustment.amount)}
+                                  </div>
+                                ))}
+                              </td>
+                              <td className="px-4 py-3">
+                                <span className={`px-2 py-1 rounded-full text-xs ${statusStyles[proposal.status].className}`}>
+                                  {statusStyles[proposal.status].label}
+                                </span>
+                              </td>
+                              <td className="px-4 py-3">
+                                {proposal.changes.length > 0 && (
+                                  <ul className="space-y-1">
+                                    {proposal.changes.map(change => (
+                                      <li key={change.field_name}>
+                                        <span className="text-white/60">{formatFieldName(change.field_name)}:</span>{' '}
+                                        <span className="text-white/40 line-through">{change.old_value || 'empty'}</span>{' '}
+                                        <span className="text-white">{change.new_value || 'empty'}</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                                {proposal.message && <p className="text-white/60 mt-1">{proposal.message}</p>}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </GlassCard>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EraPostingPage;
@@ -10,14 +10,16 @@ import {
   Clock, 
   FilterX, 
   Filter, 
-  FileSearch
+  FileSearch,
+  RotateCcw
 } from 'lucide-react';
 import Header from '../components/layout/Header';
 import GlassCard from '../components/ui/GlassCard';
 import Button from '../components/ui/Button';
 import GlassInput from '../components/ui/GlassInput';
+import RevertChangeDialog from '../components/profile/RevertChangeDialog';
 import { useAuth } from '../contexts/AuthContext';
-import { ChangeLog, HistoryFilters, PaginatedHistoryResponse } from '../types/claim';
+import { ChangeLog, HistoryFilters, PaginatedHistoryResponse, RevertTarget } from '../types/claim';
 import { fetchAllHistory } from '../services/claimService';
 
 // Cache for history data
@@ -32,11 +34,13 @@ const historyPageCache: Record<string, {
 const HISTORY_PAGE_CACHE_EXPIRY = 2 * 60 * 1000;
 
 const HistoryPage: React.FC = () => {
-  const { user, isAdmin } = useAuth();
+  const { user, isAdmin, hasRole } = useAuth();
+  const canRevert = hasRole('poster');
   const [history, setHistory] = useState<ChangeLog[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
+  const [reverting, setReverting] = useState<{ log: ChangeLog; target: RevertTarget } | null>(null);
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 20,
@@ -52,7 +56,7 @@ const HistoryPage: React.FC = () => {
   
   // Filter states
   const [filters, setFilters] = useState<HistoryFilters>({
-    user_id: isAdmin ? undefined : user?.id,
+    user_id: isAdmin || !user ? undefined : Number(user.id),
     cpt_id: undefined,
     start_date: undefined,
     end_date: undefined
@@ -125,7 +129,7 @@ const HistoryPage: React.FC = () => {
         };
       } else {
         // Handling different error scenarios with user-friendly messages
-        if (response.message?.includes('status code 500')) {
+        if (/status code 5\d\d/.test(response.message || '')) {
           setError('Unable to load history data right now. Please try again later.');
         } else if (response.message?.includes('Network Error')) {
           setError('Network error. Please check your connection and try again.');
@@ -172,7 +176,7 @@ const HistoryPage: React.FC = () => {
   
   const clearFilters = () => {
     setFilters({
-      user_id: isAdmin ? undefined : user?.id,
+      user_id: isAdmin || !user ? undefined : Number(user.id),
       cpt_id: undefined,
       start_date: undefined,
       end_date: undefined
@@ -209,6 +213,12 @@ const HistoryPage: React.FC = () => {
   const toggleFilters = () => {
     setShowFilters(prev => !prev);
   };
+
+  // The revert is logged as a new change, so the cached pages are stale afterwards
+  const handleReverted = () => {
+    setReverting(null);
+    loadHistory(true);
+  };
   
   // Generate page numbers for pagination
   const pageNumbers = () => {
@@ -415,9 +425,21 @@ const HistoryPage: React.FC = () => {
                           </Link>
                         </div>
                         
-                        <div className="flex items-center gap-2">
-                          <Clock size={16} className="text-white/70" />
-                          <span className="text-white/70">{formatDateTime(log.timestamp)}</span>
+                        <div className="flex items-center gap-4">
+                          <div className="flex items-center gap-2">
+                            <Clock size={16} className="text-white/70" />
+                            <span className="text-white/70">{formatDateTime(log.timestamp)}</span>
+                          </div>
+                          {canRevert && log.action_type === 'updated' && (
+                            <button
+                              onClick={() => setReverting({ log, target: { changeId: log.id } })}
+                              className="text-accent-400 hover:text-accent-300 flex items-center gap-1 text-sm"
+                              title="Undo this edit"
+                            >
+                              <RotateCcw size={14} />
+                              <span>Revert this change</span>
+                            </button>
+                          )}
                         </div>
                       </div>
                       
@@ -537,6 +559,16 @@ const HistoryPage: React.FC = () => {
           </GlassCard>
         </motion.div>
       </div>
+
+      {reverting && (
+        <RevertChangeDialog
+          claimId={reverting.log.claim_id}
+          target={reverting.target}
+          description={`Undo the edit ${reverting.log.username} made on ${formatDateTime(reverting.log.timestamp)} to claim CPT ID ${reverting.log.cpt_id || reverting.log.claim_id}. Every field changed in that save is restored to its earlier value.`}
+          onClose={() => setReverting(null)}
+          onReverted={handleReverted}
+        />
+      )}
     </div>
   );
 };
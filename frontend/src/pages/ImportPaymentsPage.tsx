@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate } from 'react-router-dom';
+import { ChevronLeft, FileSpreadsheet, Upload, Eye, CheckCircle, AlertCircle } from 'lucide-react';
+import Header from '../components/layout/Header';
+import GlassCard from '../components/ui/GlassCard';
+import Button from '../components/ui/Button';
+import { useAuth } from '../contexts/AuthContext';
+import { previewPaymentImport, commitPaymentImport } from '../services/importService';
+import { ImportPlan, ImportRowStatus } from '../types/import';
+
+const statusStyles: Record<ImportRowStatus, { label: string; className: string }> = {
+  matched: { label: 'Matched', className: 'bg-success-900/30 text-success-400' },
+  unchanged: { label: 'Already posted', className: 'bg-white/10 text-white/70' },
+  unmatched: { label: 'Unmatched', className: 'bg-warning-900/30 text-warning-400' },
+  conflict: { label: 'Conflict', className: 'bg-error-900/30 text-error-400' },
+  invalid: { label: 'Invalid', className: 'bg-error-900/30 text-error-400' }
+};
+
+const statusOrder: ImportRowStatus[] = ['matched', 'unchanged', 'unmatched', 'conflict', 'invalid'];
+
+// Turn a column name like prim_chk_det into "Prim Chk Det"
+const formatFieldName = (fieldName: string): string =>
+  fieldName
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const ImportPaymentsPage: React.FC = () => {
+  const { isAuthenticated, hasRole } = useAuth();
+  const navigate = useNavigate();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [isCommitted, setIsCommitted] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canImport = hasRole('poster');
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate('/login');
+      return;
+    }
+
+    // Viewers can't post payments
+    if (!canImport) {
+      navigate('/search');
+    }
+  }, [isAuthenticated, canImport, navigate]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    setPlan(null);
+    setIsCommitted(false);
+    setStatusFilter(null);
+    setMessage(null);
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+
+    setIsPreviewing(true);
+    setMessage(null);
+    const response = await previewPaymentImport(file);
+    setIsPreviewing(false);
+
+    if (response.success) {
+      setPlan(response.data);
+      setIsCommitted(false);
+    } else {
+      setPlan(null);
+      setMessage({ type: 'error', text: response.message || 'The file could not be previewed' });
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!file) return;
+
+    setIsCommitting(true);
+    setMessage(null);
+    const response = await commitPaymentImport(file);
+    setIsCommitting(false);
+
+    if (response.success) {
+      // The server re-matches the file when posting, so show what was actually written
+      setPlan(response.data);
+      setIsCommitted(true);
+      setMessage({ type: 'success', text: response.message || 'Payments posted' });
+    } else {
+      setMessage({ type: 'error', text: response.message || 'The import failed and nothing was saved' });
+    }
+  };
+
+  const visibleRows = plan ? plan.rows.filter(row => !statusFilter || row.status === statusFilter) : [];
+
+  if (!isAuthenticated || !canImport) return null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-dark-300 to-dark-400">
+      <Header />
+
+      <div className="container mx-auto pt-24 pb-12 px-4 md:px-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="mb-8"
+        >
+          <Link to="/search" className="text-white/70 hover:text-white flex items-center gap-1 transition-colors mb-2">
+            <ChevronLeft size={18} />
+            <span>Back to Search</span>
+          </Link>
+
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <FileSpreadsheet className="text-accent-400" size={28} />
+            Import Payments
+          </h1>
+          <p className="text-white/60 mt-2">
+            Post a remittance or posting spreadsheet onto claims. Preview first; nothing is saved until you post.
+          </p>
+        </motion.div>
+
+        <GlassCard className="mb-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <Button variant="secondary" onClick={() => fileInput.current?.click()} icon={<Upload size={16} />}>
+              {file ? 'Choose Another File' : 'Choose File'}
+            </Button>
+            <span className="flex-1 text-white/70 truncate">
+              {file ? file.name : 'CSV or XLSX with a claim, visit or claim line ID column'}
+            </span>
+            <Button onClick={handlePreview} isLoading={isPreviewing} disabled={!file} icon={<Eye size={16} />}>
+              Preview
+            </Button>
+          </div>
+
+          <p className="text-xs text-white/50 mt-4">
+            Recognised columns: claim_line_id, oa_claim_id or claim_id, oa_visit_id or visit_id, cpt_code, payer_level
+            (primary or secondary), payer, check_no, paid_amt, check_amt, post_dt, recv_dt, comment, denial_code.
+          </p>
+          <p className="text-xs text-white/50 mt-2">
+            Have an electronic remittance (835) instead?{' '}
+            <Link to="/import/era" className="text-accent-400 hover:text-accent-300">Post an ERA file</Link>
+          </p>
+        </GlassCard>
+
+        {message && (
+          <div
+            className={`mb-6 p-4 rounded-md flex items-center gap-2 ${
+              message.type === 'success' ? 'bg-success-900/30 text-success-400' : 'bg-error-900/30 text-error-400'
+            }`}
+          >
+            {message.type === 'success' ? <CheckCircle size={18} /> : <AlertCircle size={18} />}
+            {message.text}
+          </div>
+        )}
+
+        {plan && (
+          <GlassCard>
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6">
+              <div className="flex flex-wrap gap-2">
+                {statusOrder.map(status => (
+                  <button
+                    key={status}
+                    type="button"
+                    onClick={() => setStatusFilter(prev => (prev === status ? null : status))}
+                    className={`px-3 py-1 rounded-full text-sm transition-opacity ${statusStyles[status].className} ${
+                      statusFilter && statusFilter !== status ? 'opacity-40' : ''
+                    }`}
+                  >
+                    {statusStyles[status].label}: {plan.summary[status]}
+                  </button>
+                ))}
+              </div>
+
+              {!isCommitted && (
+                <Button
+                  variant="accent"
+                  onClick={handleCommit}
+                  isLoading={isCommitting}
+                  disabled={plan.summary.matched === 0}
+                >
+                  Post {plan.summary.matched} Matched Rows
+                </Button>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-white/10 text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-white/70 uppercase tracking-wider">
+                    <th className="px-4 py-3">Row</th>
+                    <th className="px-4 py-3">Reference</th>
+                    <th className="px-4 py-3">Level</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Changes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10">
+                  {visibleRows.map(row => (
+                    <tr key={row.row} className="align-top hover:bg-white/5">
+                      <td className="px-4 py-3 text-white/60">{row.row}</td>
+                      <td className="px-4 py-3">
+                        {row.claimId ? (
+                          <Link to={`/profile/${row.claimId}`} className="text-accent-400 hover:text-accent-300">
+                            {row.reference}
+                          </Link>
+                        ) : row.reference}
+                      </td>
+                      <td className="px-4 py-3 capitalize">{row.level}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded-full text-xs ${statusStyles[row.status].className}`}>
+                          {statusStyles[row.status].label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {row.changes.length > 0 && (
+                          <ul className="space-y-1">
+                            {row.changes.map(change => (
+                              <li key={change.field_name}>
+                                <span className="text-white/60">{formatFieldName(change.field_name)}:</span>{' '}
+                                <span className="text-white/40 line-through">{change.old_value || 'empty'}</span>{' '}
+                                <span className="text-white">{change.new_value || 'empty'}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {row.message && <p className="text-white/60 mt-1">{row.message}</p>}
+                        {row.errors && (
+                          <ul className="text-error-400 mt-1">
+                            {Object.entries(row.errors).map(([field, error]) => (
+                              <li key={field}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </GlassCard>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportPaymentsPage;
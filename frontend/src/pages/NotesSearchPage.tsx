@@ -0,0 +1,231 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, MessageSquare, Pin, Search } from 'lucide-react';
+import Header from '../components/layout/Header';
+import GlassCard from '../components/ui/GlassCard';
+import GlassInput from '../components/ui/GlassInput';
+import Button from '../components/ui/Button';
+import { useAuth } from '../contexts/AuthContext';
+import { searchNotes } from '../services/noteService';
+import { NoteSearchFilters, NoteSearchResult } from '../types/note';
+
+interface SearchPagination {
+  page: number;
+  totalPages: number;
+  totalCount: number;
+}
+
+// The server marks matching words in the snippet with **
+const renderSnippet = (snippet: string) =>
+  snippet.split('**').map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-accent-500/30 text-white rounded px-0.5">{part}</mark>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+
+const NotesSearchPage: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+
+  const [text, setText] = useState('');
+  const [filters, setFilters] = useState<NoteSearchFilters>({ page: 1 });
+  const [results, setResults] = useState<NoteSearchResult[]>([]);
+  const [pagination, setPagination] = useState<SearchPagination>({ page: 1, totalPages: 1, totalCount: 0 });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) navigate('/login');
+  }, [isAuthenticated, navigate]);
+
+  const loadResults = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await searchNotes(filters);
+    if (response.success) {
+      setResults(response.data);
+      setPagination({ page: response.page, totalPages: response.totalPages, totalCount: response.totalCount });
+    } else {
+      setResults([]);
+      setError(response.message || 'Unable to search notes.');
+    }
+    setIsLoading(false);
+  }, [filters]);
+
+  useEffect(() => {
+    if (isAuthenticated) loadResults();
+  }, [isAuthenticated, loadResults]);
+
+  const toggleFilter = (field: 'mentionedMe' | 'authoredByMe' | 'pinned', value: boolean) => {
+    setFilters(current => ({ ...current, [field]: value || undefined, page: 1 }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(current => ({ ...current, q: text.trim() || undefined, page: 1 }));
+  };
+
+  const handlePageChange = (page: number) => {
+    if (page >= 1 && page <= pagination.totalPages) {
+      setFilters(current => ({ ...current, page }));
+    }
+  };
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-dark-300 to-dark-400">
+      <Header />
+
+      <div className="container mx-auto pt-24 pb-12 px-4 md:px-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="mb-8"
+        >
+          <Link to="/search" className="text-white/70 hover:text-white flex items-center gap-1 transition-colors mb-2">
+            <ChevronLeft size={18} />
+            <span>Back to Search</span>
+          </Link>
+
+          <h1 className="text-3xl font-bold text-white flex items-center gap-3">
+            <MessageSquare className="text-accent-400" size={28} />
+            Notes
+          </h1>
+          <p className="text-white/60 mt-2">Search notes across all claims, or find the ones that mention you.</p>
+        </motion.div>
+
+        <GlassCard className="mb-6">
+          <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="md:col-span-2">
+              <GlassInput
+                label="Search Notes"
+                placeholder="Words in the note..."
+                value={text}
+                onChange={e => setText(e.target.value)}
+                icon={<Search size={16} />}
+              />
+            </div>
+            <div className="mb-4">
+              <Button type="submit" isLoading={isLoading} icon={<Search size={16} />}>
+                Search
+              </Button>
+            </div>
+          </form>
+
+          <div className="flex flex-wrap gap-6">
+            <label className="flex items-center gap-2 text-white/80">
+              <input
+                type="checkbox"
+                checked={filters.mentionedMe || false}
+                onChange={e => toggleFilter('mentionedMe', e.target.checked)}
+                className="h-4 w-4"
+              />
+              Mentioning me
+            </label>
+            <label className="flex items-center gap-2 text-white/80">
+              <input
+                type="checkbox"
+                checked={filters.authoredByMe || false}
+                onChange={e => toggleFilter('authoredByMe', e.target.checked)}
+                className="h-4 w-4"
+              />
+              Written by me
+            </label>
+            <label className="flex items-center gap-2 text-white/80">
+              <input
+                type="checkbox"
+                checked={filters.pinned || false}
+                onChange={e => toggleFilter('pinned', e.target.checked)}
+                className="h-4 w-4"
+              />
+              Pinned only
+            </label>
+          </div>
+        </GlassCard>
+
+        {error ? (
+          <div className="bg-error-900/30 text-error-400 p-6 rounded-md text-center">
+            <p className="text-lg">{error}</p>
+          </div>
+        ) : (
+          <GlassCard>
+            <p className="text-white/60 text-sm mb-4">
+              {pagination.totalCount} {pagination.totalCount === 1 ? 'note' : 'notes'} found
+            </p>
+
+            {results.length === 0 ? (
+              <div className="text-center py-6 text-white/50">
+                <p>{isLoading ? 'Searching...' : 'No notes match these filters.'}</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {results.map(note => (
+                  <Link
+                    key={note.id}
+                    to={`/profile/${note.claim_id}`}
+                    className="block bg-white/5 p-4 rounded-lg border border-white/10 hover:bg-white/10 transition-colors"
+                  >
+                    <div className="flex flex-wrap justify-between gap-2 mb-2">
+                      <span className="text-white font-medium">
+                        {[note.first_name, note.last_name].filter(Boolean).join(' ') || 'Unknown patient'}
+                        <span className="text-white/50 font-normal ml-2">
+                          Claim #{note.claim_id}
+                          {note.cpt_code && ` · CPT ${note.cpt_code}`}
+                          {note.service_end && ` · DOS ${new Date(note.service_end).toLocaleDateString()}`}
+                        </span>
+                      </span>
+                      {note.claim_status && (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-white/10 text-white/70">{note.claim_status}</span>
+                      )}
+                    </div>
+                    <p className="text-white/80 text-sm whitespace-pre-wrap break-words">
+                      {note.snippet ? renderSnippet(note.snippet) : note.body}
+                    </p>
+                    <p className="text-white/50 text-xs mt-2 flex items-center gap-2">
+                      {note.pinned && <Pin size={12} className="text-accent-400" />}
+                      {note.author_name || 'Unknown user'} · {new Date(note.created_at).toLocaleString()}
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            )}
+
+            {pagination.totalPages > 1 && (
+              <div className="mt-6 flex justify-center items-center gap-4 text-white/70">
+                <button
+                  onClick={() => handlePageChange(pagination.page - 1)}
+                  disabled={pagination.page === 1}
+                  className={`p-2 rounded-md ${
+                    pagination.page === 1 ? 'text-white/30 cursor-not-allowed' : 'hover:bg-white/10'
+                  }`}
+                >
+                  <ChevronLeft size={18} />
+                </button>
+                <span>
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <button
+                  onClick={() => handlePageChange(pagination.page + 1)}
+                  disabled={pagination.page === pagination.totalPages}
+                  className={`p-2 rounded-md ${
+                    pagination.page === pagination.totalPages ? 'text-white/30 cursor-not-allowed' : 'hover:bg-white/10'
+                  }`}
+                >
+                  <ChevronRight size={18} />
+                </button>
+              </div>
+            )}
+          </GlassCard>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotesSearchPage;
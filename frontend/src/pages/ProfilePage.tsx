@@ -6,6 +6,11 @@ import Header from '../components/layout/Header';
 import SummaryCard from '../components/profile/SummaryCard';
 import ClaimTabs from '../components/profile/ClaimTabs';
 import HistorySection from '../components/profile/HistorySection';
+import ClaimTimeline from '../components/profile/ClaimTimeline';
+import DenialsSection from '../components/profile/DenialsSection';
+import AppealsSection from '../components/profile/AppealsSection';
+import NotesSection from '../components/profile/NotesSection';
+import ExportSection from '../components/profile/ExportSection';
 import Button from '../components/ui/Button';
 import { useClaims } from '../contexts/ClaimContext';
 import { useAuth } from '../contexts/AuthContext';
@@ -94,9 +99,24 @@ const ProfilePage: React.FC = () => {
           )}
         </AnimatePresence>
         
+        {/* Denials Section */}
+        <DenialsSection claimId={currentClaim.id} />
+        
+        {/* Appeals Section */}
+        <AppealsSection claim={currentClaim} />
+        
+        {/* Notes Section */}
+        <NotesSection claimId={currentClaim.id} />
+        
         {/* History Section */}
         <HistorySection claimId={currentClaim.id} />
         
+        {/* Timeline Section */}
+        <ClaimTimeline claimId={currentClaim.id} version={currentClaim.row_version} />
+        
+        {/* Export Section */}
+        <ExportSection claim={currentClaim} />
+        
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -3,14 +3,19 @@ import { motion } from 'framer-motion';
 import Header from '../components/layout/Header';
 import SearchForm from '../components/search/SearchForm';
 import SearchResults from '../components/search/SearchResults';
+import ClaimFilePanel from '../components/search/ClaimFilePanel';
+import OverdueAppeals from '../components/dashboard/OverdueAppeals';
 import { useClaims } from '../contexts/ClaimContext';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { ClaimSortField, SortOrder } from '../types/claim';
 
 const SearchPage: React.FC = () => {
-  const { isAuthenticated } = useAuth();
-  const { searchResults, isLoading } = useClaims();
+  const { isAuthenticated, hasRole } = useAuth();
+  const { searchResults, searchFilters, searchPagination, searchClaims, isLoading } = useClaims();
   const [hasSearched, setHasSearched] = useState(false);
+  // Claim lines picked for an 837P file; kept across pages so a batch can span several
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const navigate = useNavigate();
   
   useEffect(() => {
@@ -31,6 +36,26 @@ const SearchPage: React.FC = () => {
     setHasSearched(true);
   };
 
+  // Re-run the last search for another page or ordering
+  const handlePageChange = (page: number) => {
+    searchClaims({ ...searchFilters, page });
+  };
+
+  const handleSortChange = (sort: ClaimSortField, order: SortOrder) => {
+    searchClaims({ ...searchFilters, sort, order, page: 1 });
+  };
+
+  const handleToggleSelect = (id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const canFileClaims = hasRole('poster');
+
   if (!isAuthenticated) return null;
   
   return (
@@ -50,11 +75,20 @@ const SearchPage: React.FC = () => {
           </p>
         </motion.div>
         
+        <OverdueAppeals />
         <SearchForm onShowAllClick={handleShowAllClick} />
+        {canFileClaims && <ClaimFilePanel selectedIds={selectedIds} onClear={() => setSelectedIds(new Set())} />}
         <SearchResults 
           results={searchResults} 
           isLoading={isLoading}
           hasSearched={hasSearched}
+          pagination={searchPagination}
+          sort={searchFilters.sort}
+          order={searchFilters.order}
+          onPageChange={handlePageChange}
+          onSortChange={handleSortChange}
+          selectedIds={canFileClaims ? selectedIds : undefined}
+          onToggleSelect={canFileClaims ? handleToggleSelect : undefined}
         />
       </div>
     </div>
@@ -6,7 +6,7 @@ import { useAuth } from '../contexts/AuthContext';
 import UserManagement from '../components/user/UserManagement';
 
 const UserManagementPage: React.FC = () => {
-  const { user, isAuthenticated } = useAuth();
+  const { isAdmin, isAuthenticated } = useAuth();
   const navigate = useNavigate();
   
   useEffect(() => {
@@ -16,12 +16,12 @@ const UserManagementPage: React.FC = () => {
     }
     
     // Redirect non-admin users
-    if (user?.role !== 'Admin') {
+    if (!isAdmin) {
       navigate('/search');
     }
-  }, [isAuthenticated, user, navigate]);
+  }, [isAuthenticated, isAdmin, navigate]);
 
-  if (!isAuthenticated || user?.role !== 'Admin') return null;
+  if (!isAuthenticated || !isAdmin) return null;
   
   return (
     <div className="min-h-screen bg-gradient-to-br from-dark-300 to-dark-400">
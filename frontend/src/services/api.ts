@@ -0,0 +1,105 @@
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { AuthSession, AuthTokens } from '../types/auth';
+
+// Make sure this URL matches your backend server address and port
+export const API_BASE_URL = 'http://localhost:5000/api';
+
+const SESSION_STORAGE_KEY = 'rcm_session';
+
+/**
+ * Read the stored token pair, if any
+ */
+export const getStoredTokens = (): AuthTokens | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as AuthTokens) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeTokens = (tokens: AuthTokens) => {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(tokens));
+};
+
+export const clearStoredTokens = () => {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+// Called when the session can't be refreshed so the UI can drop back to the login page
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const setSessionExpiredHandler = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+// Share one in-flight refresh between everything that needs one at the same time (requests that hit a 401,
+// and restoring the session on load), since each refresh rotates the refresh token
+let refreshPromise: Promise<AuthSession | null> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new session and store the new token pair
+ * Resolves to null when the refresh is rejected
+ */
+export const refreshSession = (): Promise<AuthSession | null> => {
+  if (!refreshPromise) {
+    const stored = getStoredTokens();
+
+    refreshPromise = (stored
+      ? axios.post(`${API_BASE_URL}/auth/refresh`, { refreshToken: stored.refreshToken })
+          .then(response => {
+            const session: AuthSession = response.data.data;
+            storeTokens({ accessToken: session.accessToken, refreshToken: session.refreshToken });
+            return session;
+          })
+          .catch(() => {
+            // Another tab may have rotated the token in the meantime; only forget the pair this call sent
+            if (getStoredTokens()?.refreshToken === stored.refreshToken) {
+              clearStoredTokens();
+            }
+            return null;
+          })
+      : Promise.resolve(null)
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
+const isAuthEndpoint = (url?: string) => !!url && url.includes('/auth/');
+
+// Attach the access token to every API request
+axios.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+  const tokens = getStoredTokens();
+  if (tokens && !isAuthEndpoint(config.url)) {
+    config.headers.set('Authorization', `Bearer ${tokens.accessToken}`);
+  }
+  return config;
+});
+
+// On a 401, refresh the session once and replay the request
+axios.interceptors.response.use(
+  response => response,
+  async (error: AxiosError) => {
+    const original = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+    if (error.response?.status !== 401 || !original || original._retried || isAuthEndpoint(original.url)) {
+      return Promise.reject(error);
+    }
+
+    original._retried = true;
+    const session = await refreshSession();
+    // A failed refresh leaves the tokens alone when another tab has already stored a newer pair
+    const accessToken = session?.accessToken ?? getStoredTokens()?.accessToken;
+
+    if (!accessToken) {
+      sessionExpiredHandler?.();
+      return Promise.reject(error);
+    }
+
+    original.headers.set('Authorization', `Bearer ${accessToken}`);
+    return axios(original);
+  }
+);
@@ -0,0 +1,227 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+import { AppealInput } from '../types/appeal';
+
+// Pull the server's message out of an axios error so it can be shown next to the form
+const errorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || 'Network error';
+  }
+  return 'Network error';
+};
+
+// Field errors from a 400, keyed by field name
+const fieldErrors = (error: unknown): Record<string, string> | undefined =>
+  axios.isAxiosError(error) ? error.response?.data?.errors : undefined;
+
+/**
+ * Fetch appeal levels, statuses and letter templates
+ */
+export const fetchAppealOptions = async () => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/appeals/options`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching appeal options:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch appeal options',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Fetch the appeals filed for a claim line
+ */
+export const fetchClaimAppeals = async (claimId: number) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/claims/${claimId}/appeals`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching appeals:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch appeals',
+      message: errorMessage(error),
+      data: []
+    };
+  }
+};
+
+/**
+ * Open an appeal for a denied claim line
+ */
+export const createAppeal = async (claimId: number, appeal: AppealInput) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/claims/${claimId}/appeals`, appeal);
+    return response.data;
+  } catch (error) {
+    console.error('Error creating appeal:', error);
+    return {
+      success: false,
+      error: 'Failed to create appeal',
+      message: errorMessage(error),
+      errors: fieldErrors(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Update an appeal's status, dates, amounts or notes
+ */
+export const updateAppeal = async (id: number, changes: AppealInput) => {
+  try {
+    const response = await axios.patch(`${API_BASE_URL}/appeals/${id}`, changes);
+    return response.data;
+  } catch (error) {
+    console.error('Error updating appeal:', error);
+    return {
+      success: false,
+      error: 'Failed to update appeal',
+      message: errorMessage(error),
+      errors: fieldErrors(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Delete an appeal opened in error
+ */
+export const deleteAppeal = async (id: number) => {
+  try {
+    const response = await axios.delete(`${API_BASE_URL}/appeals/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error('Error deleting appeal:', error);
+    return {
+      success: false,
+      error: 'Failed to delete appeal',
+      message: errorMessage(error)
+    };
+  }
+};
+
+/**
+ * Fetch draft appeals past their due date for the dashboard
+ */
+export const fetchOverdueAppeals = async (limit?: number) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/appeals/overdue`, { params: limit ? { limit } : {} });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching overdue appeals:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch overdue appeals',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Attach a supporting document to an appeal
+ */
+export const uploadAppealDocument = async (appealId: number, file: File) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/appeals/${appealId}/documents`, file, {
+      params: { filename: file.name },
+      headers: { 'Content-Type': 'application/octet-stream' }
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Error attaching document:', error);
+    return {
+      success: false,
+      error: 'Failed to attach document',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Remove a document from an appeal
+ */
+export const deleteAppealDocument = async (appealId: number, documentId: number) => {
+  try {
+    const response = await axios.delete(`${API_BASE_URL}/appeals/${appealId}/documents/${documentId}`);
+    return response.data;
+  } catch (error) {
+    console.error('Error removing document:', error);
+    return {
+      success: false,
+      error: 'Failed to remove document',
+      message: errorMessage(error)
+    };
+  }
+};
+
+/**
+ * Download an appeal document or generated letter
+ */
+export const downloadAppealDocument = async (appealId: number, document_: { id: number; filename: string }) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/appeals/${appealId}/documents/${document_.id}`, {
+      responseType: 'blob'
+    });
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = document_.filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    return { success: true };
+  } catch (error) {
+    console.error('Error downloading document:', error);
+    return {
+      success: false,
+      error: 'Download failed',
+      message: errorMessage(error)
+    };
+  }
+};
+
+/**
+ * Fetch the merged appeal letter text for review
+ */
+export const previewAppealLetter = async (appealId: number, template?: string) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/appeals/${appealId}/letter`, {
+      params: template ? { template } : {}
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Error previewing appeal letter:', error);
+    return {
+      success: false,
+      error: 'Failed to preview letter',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Generate the appeal letter PDF from the reviewed text and attach it to the appeal
+ */
+export const generateAppealLetter = async (appealId: number, template: string, text: string) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/appeals/${appealId}/letter`, { template, text });
+    return response.data;
+  } catch (error) {
+    console.error('Error generating appeal letter:', error);
+    return {
+      success: false,
+      error: 'Failed to generate letter',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
@@ -0,0 +1,56 @@
+import axios from 'axios';
+import { API_BASE_URL, clearStoredTokens, getStoredTokens, refreshSession, storeTokens } from './api';
+import { AuthSession, LoginCredentials } from '../types/auth';
+
+/**
+ * Log in and store the returned token pair
+ * Returns null when the credentials are rejected; throws with a displayable message otherwise
+ */
+export const login = async (credentials: LoginCredentials): Promise<AuthSession | null> => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/auth/login`, credentials);
+    const session: AuthSession = response.data.data;
+    storeTokens({ accessToken: session.accessToken, refreshToken: session.refreshToken });
+    return session;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      return null;
+    }
+    // Other rejections (e.g. a deactivated account) come with a message meant for the user
+    if (axios.isAxiosError(error) && error.response && error.response.status < 500) {
+      throw new Error(error.response.data?.message || 'This account can\'t sign in right now.');
+    }
+    console.error('Login request failed:', error);
+    throw new Error('Login failed. Please try again.');
+  }
+};
+
+/**
+ * Restore a session from the stored refresh token (e.g. after a page reload)
+ * Goes through the shared refresh, so overlapping calls (StrictMode effects, other requests) rotate the token once
+ */
+export const restoreSession = async (): Promise<AuthSession | null> => {
+  if (!getStoredTokens()) return null;
+
+  const session = await refreshSession();
+  if (session) return session;
+
+  // Tokens still stored after a rejected refresh were rotated by another tab; try once with those
+  return getStoredTokens() ? refreshSession() : null;
+};
+
+/**
+ * Revoke the refresh token on the server and forget the local tokens
+ */
+export const logout = async () => {
+  const stored = getStoredTokens();
+  clearStoredTokens();
+
+  if (stored) {
+    try {
+      await axios.post(`${API_BASE_URL}/auth/logout`, { refreshToken: stored.refreshToken });
+    } catch (error) {
+      console.error('Error revoking session:', error);
+    }
+  }
+};
@@ -1,13 +1,42 @@
 import axios from 'axios';
-import { SearchFilters } from '../types/claim';
-
-// Make sure this URL matches your backend server address and port
-const API_BASE_URL = 'http://localhost:5000/api';
+import { SearchFilters, VisitClaim, ClaimFieldConflict, ClaimLastChange, RevertTarget } from '../types/claim';
+import { API_BASE_URL } from './api';
 
 // Configure axios defaults for better reliability
 axios.defaults.timeout = 10000; // 10 second timeout
 axios.defaults.headers.common['Content-Type'] = 'application/json';
 
+/**
+ * Thrown when the API rejects a claim payload with per-field errors (HTTP 422)
+ */
+export class ClaimValidationError extends Error {
+  fieldErrors: Record<string, string>;
+
+  constructor(message: string, fieldErrors: Record<string, string>) {
+    super(message);
+    this.name = 'ClaimValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Thrown when a claim changed on the server after it was loaded (HTTP 409)
+ * Carries the claim as it is now and the submitted fields that differ from it
+ */
+export class ClaimConflictError extends Error {
+  conflicts: ClaimFieldConflict[];
+  current: VisitClaim;
+  lastChange: ClaimLastChange | null;
+
+  constructor(message: string, conflicts: ClaimFieldConflict[], current: VisitClaim, lastChange: ClaimLastChange | null) {
+    super(message);
+    this.name = 'ClaimConflictError';
+    this.conflicts = conflicts;
+    this.current = current;
+    this.lastChange = lastChange;
+  }
+}
+
 /**
  * Fetch claims from the API with optional filters
  */
@@ -26,6 +55,38 @@ export const fetchClaims = async (filters?: SearchFilters) => {
       if (filters.dos) {
         params.service_end = filters.dos; // Changed from service_start to service_end
       }
+      
+      // Advanced search filters map directly onto API query parameters
+      const advancedParams: [keyof SearchFilters, string][] = [
+        ['name', 'name'],
+        ['emrNo', 'emr_no'],
+        ['dosFrom', 'dos_from'],
+        ['dosTo', 'dos_to'],
+        ['payer', 'payer'],
+        ['provider', 'provider'],
+        ['claimStatus', 'claim_status'],
+        ['checkNumber', 'check_no'],
+        ['oaClaimId', 'oa_claim_id'],
+        ['balanceMin', 'balance_min'],
+        ['balanceMax', 'balance_max']
+      ];
+      advancedParams.forEach(([filter, param]) => {
+        const value = filters[filter];
+        if (typeof value === 'string' && value.trim() !== '') {
+          params[param] = value.trim();
+        }
+      });
+      
+      if (filters.page) {
+        params.page = String(filters.page);
+      }
+      if (filters.limit) {
+        params.limit = String(filters.limit);
+      }
+      if (filters.sort) {
+        params.sort = filters.sort;
+        params.order = filters.order || 'desc';
+      }
     }
     
     console.log('Fetching claims with params:', params);
@@ -90,8 +151,36 @@ const formatDateValue = (value: any): any => {
   return value;
 };
 
+const NUMERIC_CLAIM_FIELDS = [
+  'charge_amt', 'allowed_amt', 'allowed_add_amt', 'allowed_exp_amt', 
+  'total_amt', 'charges_adj_amt', 'write_off_amt', 'bal_amt', 'reimb_pct',
+  'prim_amt', 'prim_chk_amt', 'sec_amt', 'sec_chk_amt', 'pat_amt'
+];
+
+const DATE_CLAIM_FIELDS = [
+  'charge_dt', 'prim_post_dt', 'prim_recv_dt',
+  'sec_post_dt', 'sec_recv_dt', 'pat_recv_dt'
+];
+
+/**
+ * Whether the server's copy of a claim holds every value in an update payload
+ */
+const savedAsSent = (payload: Record<string, unknown>, saved: Record<string, unknown>): boolean =>
+  Object.entries(payload).every(([field, value]) => {
+    if (field === 'row_version' || !(field in saved)) return true;
+
+    const sent = value === '' || value === undefined ? null : value;
+    const stored = saved[field] === '' || saved[field] === undefined ? null : saved[field];
+    if (sent === null || stored === null) return sent === stored;
+
+    if (NUMERIC_CLAIM_FIELDS.includes(field)) return Number(sent) === Number(stored);
+    if (DATE_CLAIM_FIELDS.includes(field)) return formatDateValue(sent) === formatDateValue(stored);
+    return String(sent) === String(stored);
+  });
+
 /**
  * Update a claim with retry mechanism
+ * Saves carrying a row_version check the server's copy before retrying, in case the first attempt landed
  */
 export const updateClaim = async (id: string, data: any, retries = 1) => {
   try {
@@ -101,14 +190,7 @@ export const updateClaim = async (id: string, data: any, retries = 1) => {
     const sanitizedData = { ...data };
     
     // Convert any numeric strings to actual numbers for fields that should be numbers
-    const numericFields = [
-      'charge_amt', 'allowed_amt', 'allowed_add_amt', 'allowed_exp_amt', 
-      'total_amt', 'charges_adj_amt', 'write_off_amt', 'bal_amt', 'reimb_pct',
-      'prim_amt', 'prim_chk_amt', 'sec_amt', 'sec_chk_amt', 'pat_amt'
-    ];
-    
-    // Format numeric fields
-    numericFields.forEach(field => {
+    NUMERIC_CLAIM_FIELDS.forEach(field => {
       if (sanitizedData[field] !== undefined && sanitizedData[field] !== null) {
         // Ensure empty strings are converted to null rather than 0
         if (sanitizedData[field] === '') {
@@ -123,12 +205,7 @@ export const updateClaim = async (id: string, data: any, retries = 1) => {
     });
 
     // Format date fields to YYYY-MM-DD
-    const dateFields = [
-      'charge_dt', 'prim_post_dt', 'prim_recv_dt',
-      'sec_post_dt', 'sec_recv_dt', 'pat_recv_dt'
-    ];
-
-    dateFields.forEach(field => {
+    DATE_CLAIM_FIELDS.forEach(field => {
       if (sanitizedData[field] !== undefined) {
         if (sanitizedData[field] === null || sanitizedData[field] === '') {
           sanitizedData[field] = null;
@@ -190,8 +267,36 @@ export const updateClaim = async (id: string, data: any, retries = 1) => {
       console.error('Request details:', error.request);
     }
     
+    // Validation and permission errors won't succeed on retry, return them as-is
+    if (error.response && error.response.status >= 400 && error.response.status < 500) {
+      return {
+        success: false,
+        ...error.response.data,
+        data: null
+      };
+    }
+    
     // Implement retry logic
     if (retries > 0) {
+      // A versioned save may have been committed even though its response was lost. Retrying it would be
+      // rejected as a conflict with itself, so check the server's copy first
+      if (data.row_version !== undefined) {
+        const current = await fetchClaimById(id);
+        if (!current.success || !current.data) {
+          return {
+            success: false,
+            error: `Failed to update claim with ID ${id}`,
+            message: 'The save could not be confirmed. Reload the claim to check whether your changes were saved.',
+            data: null
+          };
+        }
+        // The claim moved on: either this save went through, or someone else saved and a retry reports the conflict
+        if (current.data.row_version !== data.row_version && savedAsSent(data, current.data)) {
+          console.log(`Update for claim ${id} was saved before the connection failed`);
+          return { success: true, data: current.data };
+        }
+      }
+
       console.log(`Retrying update for claim ${id}. Attempts remaining: ${retries}`);
       // Wait for 1.5 seconds before retrying (increased from 1 second)
       await new Promise(resolve => setTimeout(resolve, 1500));
@@ -227,6 +332,64 @@ export const fetchClaimHistory = async (id: string) => {
   }
 };
 
+/**
+ * Fetch a claim as it was at a point in time, with the timeline of its saves; omit `at` for the current state
+ */
+export const fetchClaimSnapshot = async (id: number, at?: string) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/claims/${id}/snapshot`, { params: at ? { at } : undefined });
+    return response.data;
+  } catch (error) {
+    console.error(`Error fetching snapshot for claim ${id}:`, error);
+    return {
+      success: false,
+      error: 'Failed to fetch claim snapshot',
+      message: axios.isAxiosError(error) ? error.response?.data?.message || error.message : 'Network error',
+      data: null
+    };
+  }
+};
+
+/**
+ * Preview the fields a revert would change, without writing anything
+ */
+export const previewClaimRevert = async (id: number, target: RevertTarget) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/claims/${id}/revert`, { ...target, preview: true });
+    return response.data;
+  } catch (error) {
+    console.error(`Error previewing revert for claim ${id}:`, error);
+    const responseData = axios.isAxiosError(error) ? error.response?.data : undefined;
+    return {
+      success: false,
+      error: 'Failed to preview revert',
+      ...responseData,
+      message: responseData?.message || (error instanceof Error ? error.message : 'Network error'),
+      data: null
+    };
+  }
+};
+
+/**
+ * Apply a previewed revert; rowVersion is the one the preview returned
+ */
+export const revertClaim = async (id: number, target: RevertTarget, rowVersion: number) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/claims/${id}/revert`, { ...target, row_version: rowVersion });
+    return response.data;
+  } catch (error) {
+    console.error(`Error reverting claim ${id}:`, error);
+    const responseData = axios.isAxiosError(error) ? error.response?.data : undefined;
+    return {
+      success: false,
+      error: 'Failed to revert claim',
+      ...responseData,
+      message: responseData?.message || (error instanceof Error ? error.message : 'Network error'),
+      data: null
+    };
+  }
+};
+
 /**
  * Fetch all change history with optional filters
  */
@@ -0,0 +1,131 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+import { DenialInput, TopDenialFilters } from '../types/denial';
+
+// Pull the server's message out of an axios error so it can be shown next to the form
+const errorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || 'Network error';
+  }
+  return 'Network error';
+};
+
+// Field errors from a 400, keyed by field name
+const fieldErrors = (error: unknown): Record<string, string> | undefined =>
+  axios.isAxiosError(error) ? error.response?.data?.errors : undefined;
+
+/**
+ * Fetch the CARC/RARC reference codes, root causes and resolutions
+ */
+export const fetchDenialCodes = async () => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/denials/codes`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching denial codes:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch denial codes',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Fetch the denials recorded against a claim line
+ */
+export const fetchClaimDenials = async (claimId: number) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/claims/${claimId}/denials`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching denials:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch denials',
+      message: errorMessage(error),
+      data: []
+    };
+  }
+};
+
+/**
+ * Record a denial against a claim line
+ */
+export const createDenial = async (claimId: number, denial: DenialInput) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/claims/${claimId}/denials`, denial);
+    return response.data;
+  } catch (error) {
+    console.error('Error recording denial:', error);
+    return {
+      success: false,
+      error: 'Failed to record denial',
+      message: errorMessage(error),
+      errors: fieldErrors(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Update a denial, including resolving it
+ */
+export const updateDenial = async (id: number, changes: DenialInput) => {
+  try {
+    const response = await axios.patch(`${API_BASE_URL}/denials/${id}`, changes);
+    return response.data;
+  } catch (error) {
+    console.error('Error updating denial:', error);
+    return {
+      success: false,
+      error: 'Failed to update denial',
+      message: errorMessage(error),
+      errors: fieldErrors(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Delete a denial recorded in error
+ */
+export const deleteDenial = async (id: number) => {
+  try {
+    const response = await axios.delete(`${API_BASE_URL}/denials/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error('Error deleting denial:', error);
+    return {
+      success: false,
+      error: 'Failed to delete denial',
+      message: errorMessage(error)
+    };
+  }
+};
+
+/**
+ * Fetch the top denial reasons overall, by payer and by CPT
+ */
+export const fetchTopDenialReasons = async (filters: TopDenialFilters = {}) => {
+  const params: Record<string, string> = {};
+  if (filters.from) params.from = filters.from;
+  if (filters.to) params.to = filters.to;
+  if (filters.payer) params.payer = filters.payer;
+  if (filters.cptCode) params.cpt_code = filters.cptCode;
+  if (filters.includeResolved) params.include_resolved = 'true';
+
+  try {
+    const response = await axios.get(`${API_BASE_URL}/denials/top-reasons`, { params });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching denial report:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch denial report',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
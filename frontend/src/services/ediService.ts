@@ -0,0 +1,108 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+
+// Pull the server's message out of an axios error so it can be shown on the page
+const errorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || 'Network error';
+  }
+  return 'Network error';
+};
+
+/**
+ * Build and validate an 837P for the selected claim lines without saving it
+ */
+export const preview837Batch = async (claimIds: number[]) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/edi/837/preview`, { claimIds });
+    return response.data;
+  } catch (error) {
+    console.error('Error previewing claim file:', error);
+    return {
+      success: false,
+      error: 'Failed to preview claim file',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Generate and record an 837P batch; validation problems come back in errors
+ */
+export const create837Batch = async (claimIds: number[]) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/edi/837`, { claimIds });
+    return response.data;
+  } catch (error) {
+    console.error('Error generating claim file:', error);
+    return {
+      success: false,
+      error: 'Failed to generate claim file',
+      message: errorMessage(error),
+      errors: axios.isAxiosError(error) ? error.response?.data?.errors || [] : [],
+      data: null
+    };
+  }
+};
+
+/**
+ * Fetch generated claim batches
+ */
+export const fetchBatches = async () => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/edi/batches`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching claim batches:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch claim batches',
+      message: errorMessage(error),
+      data: []
+    };
+  }
+};
+
+/**
+ * Fetch a batch and the claim lines it billed
+ */
+export const fetchBatch = async (id: number) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/edi/batches/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching claim batch:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch claim batch',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Download a batch's 837P file
+ */
+export const downloadBatchFile = async (batch: { id: number; filename: string }) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/edi/batches/${batch.id}/file`, { responseType: 'blob' });
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = batch.filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    return { success: true };
+  } catch (error) {
+    console.error('Error downloading claim file:', error);
+    return {
+      success: false,
+      error: 'Download failed',
+      message: errorMessage(error)
+    };
+  }
+};
@@ -0,0 +1,86 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+
+// Pull the server's message out of an axios error so it can be shown on the page
+const errorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || 'Network error';
+  }
+  return 'Network error';
+};
+
+/**
+ * Upload an 835 remittance file as the raw request body
+ * A file that was already uploaded comes back as an error with the existing file's id in data
+ */
+export const uploadEraFile = async (file: File) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/era`, file, {
+      params: { filename: file.name },
+      headers: { 'Content-Type': 'application/octet-stream' }
+    });
+    return response.data;
+  } catch (error) {
+    console.error('Error uploading remittance:', error);
+    return {
+      success: false,
+      error: 'Failed to upload remittance',
+      message: errorMessage(error),
+      data: axios.isAxiosError(error) ? error.response?.data?.data || null : null
+    };
+  }
+};
+
+/**
+ * Fetch recently uploaded remittance files
+ */
+export const fetchEraFiles = async () => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/era`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching remittances:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch remittances',
+      message: errorMessage(error),
+      data: []
+    };
+  }
+};
+
+/**
+ * Fetch the proposed postings for a remittance
+ */
+export const fetchEraReview = async (id: number) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/era/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error('Error reviewing remittance:', error);
+    return {
+      success: false,
+      error: 'Failed to review remittance',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Post the accepted lines of a remittance
+ */
+export const postEraLines = async (id: number, lines: string[]) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/era/${id}/post`, { lines });
+    return response.data;
+  } catch (error) {
+    console.error('Error posting remittance:', error);
+    return {
+      success: false,
+      error: 'Failed to post remittance',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
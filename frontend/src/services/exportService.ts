@@ -0,0 +1,110 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+import { ExportFilters, ExportFormat } from '../types/claim';
+
+// Export errors arrive as a Blob because downloads are requested with responseType 'blob'
+const errorMessage = async (error: unknown): Promise<string> => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data;
+    if (data instanceof Blob) {
+      try {
+        return JSON.parse(await data.text()).message || error.message;
+      } catch {
+        return error.message;
+      }
+    }
+    return data?.message || error.message || 'Network error';
+  }
+  return 'Network error';
+};
+
+// Use the filename chosen by the server, falling back to a generic one
+// The UTF-8 filename* form carries the full name; filename is its ASCII fallback
+const filenameFrom = (disposition: string | undefined, fallback: string) => {
+  const encoded = disposition?.match(/filename\*=UTF-8''([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1]);
+    } catch {
+      // Malformed encoding: use the plain filename instead
+    }
+  }
+  const match = disposition?.match(/filename="?([^";]+)"?/);
+  return match ? match[1] : fallback;
+};
+
+// Hand the downloaded file to the browser
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const download = async (url: string, params: Record<string, string>, fallbackName: string) => {
+  try {
+    const response = await axios.get(url, { params, responseType: 'blob' });
+    const filename = filenameFrom(response.headers['content-disposition'], fallbackName);
+    saveBlob(response.data, filename);
+    return { success: true, filename };
+  } catch (error) {
+    console.error('Error exporting claims:', error);
+    return {
+      success: false,
+      error: 'Export failed',
+      message: await errorMessage(error)
+    };
+  }
+};
+
+/**
+ * Fetch the columns that can be exported and the default selection
+ */
+export const fetchExportColumns = async () => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/claims/export/columns`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching export columns:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch export columns',
+      message: await errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Download a single claim line as CSV or XLSX
+ */
+export const exportClaim = (claimId: number, format: ExportFormat, columns: string[]) =>
+  download(
+    `${API_BASE_URL}/claims/${claimId}/export`,
+    { format, columns: columns.join(',') },
+    `claim-${claimId}.${format}`
+  );
+
+/**
+ * Download every claim line matching the filters as CSV or XLSX
+ */
+export const exportClaims = (filters: ExportFilters, format: ExportFormat, columns: string[]) => {
+  const params: Record<string, string> = { format, columns: columns.join(',') };
+  const filterParams: [keyof ExportFilters, string][] = [
+    ['dosFrom', 'dos_from'],
+    ['dosTo', 'dos_to'],
+    ['payer', 'payer'],
+    ['provider', 'provider'],
+    ['claimStatus', 'claim_status']
+  ];
+  filterParams.forEach(([filter, param]) => {
+    const value = filters[filter]?.trim();
+    if (value) params[param] = value;
+  });
+
+  return download(`${API_BASE_URL}/claims/export`, params, `claims.${format}`);
+};
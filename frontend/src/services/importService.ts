@@ -0,0 +1,53 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+
+// Pull the server's message out of an axios error so it can be shown next to the upload
+const errorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || 'Network error';
+  }
+  return 'Network error';
+};
+
+// Files go up as the raw request body; the name tells the server whether it's CSV or XLSX
+const uploadPayments = async (path: string, file: File) => {
+  const response = await axios.post(`${API_BASE_URL}/imports/${path}`, file, {
+    params: { filename: file.name },
+    headers: { 'Content-Type': 'application/octet-stream' }
+  });
+  return response.data;
+};
+
+/**
+ * Dry run a payment file: match every row without saving anything
+ */
+export const previewPaymentImport = async (file: File) => {
+  try {
+    return await uploadPayments('payments/preview', file);
+  } catch (error) {
+    console.error('Error previewing payment import:', error);
+    return {
+      success: false,
+      error: 'Failed to preview import',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Post the matched rows of a payment file in one transaction
+ */
+export const commitPaymentImport = async (file: File) => {
+  try {
+    return await uploadPayments('payments', file);
+  } catch (error) {
+    console.error('Error importing payments:', error);
+    return {
+      success: false,
+      error: 'Failed to import payments',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
@@ -0,0 +1,27 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+import { KPIFilters } from '../types/claim';
+
+/**
+ * Fetch dashboard KPIs and their trends for a service-date range and payer
+ */
+export const fetchKpis = async (filters?: KPIFilters) => {
+  try {
+    const params: Record<string, string> = {};
+
+    if (filters?.startDate) params.start_date = filters.startDate;
+    if (filters?.endDate) params.end_date = filters.endDate;
+    if (filters?.payer) params.payer = filters.payer;
+
+    const response = await axios.get(`${API_BASE_URL}/metrics/kpis`, { params });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching KPIs:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch KPIs',
+      message: axios.isAxiosError(error) ? error.response?.data?.message || error.message : 'Network error',
+      data: null
+    };
+  }
+};
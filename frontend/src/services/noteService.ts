@@ -0,0 +1,125 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+import { NoteSearchFilters } from '../types/note';
+
+// Pull the server's message out of an axios error so it can be shown next to the form
+const errorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || 'Network error';
+  }
+  return 'Network error';
+};
+
+/**
+ * Fetch the notes on a claim line, pinned first
+ */
+export const fetchClaimNotes = async (claimId: number) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/claims/${claimId}/notes`);
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching notes:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch notes',
+      message: errorMessage(error),
+      data: []
+    };
+  }
+};
+
+/**
+ * Add a note to a claim line
+ */
+export const createClaimNote = async (claimId: number, body: string, pinned = false) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/claims/${claimId}/notes`, { body, pinned });
+    return response.data;
+  } catch (error) {
+    console.error('Error adding note:', error);
+    return {
+      success: false,
+      error: 'Failed to add note',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Edit a note's text or pin/unpin it
+ */
+export const updateClaimNote = async (claimId: number, noteId: number, changes: { body?: string; pinned?: boolean }) => {
+  try {
+    const response = await axios.patch(`${API_BASE_URL}/claims/${claimId}/notes/${noteId}`, changes);
+    return response.data;
+  } catch (error) {
+    console.error('Error updating note:', error);
+    return {
+      success: false,
+      error: 'Failed to update note',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Delete a note
+ */
+export const deleteClaimNote = async (claimId: number, noteId: number) => {
+  try {
+    const response = await axios.delete(`${API_BASE_URL}/claims/${claimId}/notes/${noteId}`);
+    return response.data;
+  } catch (error) {
+    console.error('Error deleting note:', error);
+    return {
+      success: false,
+      error: 'Failed to delete note',
+      message: errorMessage(error)
+    };
+  }
+};
+
+/**
+ * Search notes across claims
+ */
+export const searchNotes = async (filters: NoteSearchFilters = {}) => {
+  const params: Record<string, string> = {};
+  if (filters.q) params.q = filters.q;
+  if (filters.mentionedMe) params.mentioned = 'me';
+  if (filters.authoredByMe) params.author = 'me';
+  if (filters.pinned) params.pinned = 'true';
+  if (filters.page) params.page = String(filters.page);
+
+  try {
+    const response = await axios.get(`${API_BASE_URL}/notes/search`, { params });
+    return response.data;
+  } catch (error) {
+    console.error('Error searching notes:', error);
+    return {
+      success: false,
+      error: 'Failed to search notes',
+      message: errorMessage(error),
+      data: []
+    };
+  }
+};
+
+/**
+ * Fetch users matching a partial @mention
+ */
+export const fetchMentionableUsers = async (q: string) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/notes/mentionable`, { params: { q } });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch users',
+      message: errorMessage(error),
+      data: []
+    };
+  }
+};
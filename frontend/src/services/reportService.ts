@@ -0,0 +1,62 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+import { ArAgingOptions, AgingSelection } from '../types/report';
+
+// Pull the server's message out of an axios error so it can be shown on the report
+const errorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || 'Network error';
+  }
+  return 'Network error';
+};
+
+const agingParams = (options?: ArAgingOptions) => {
+  const params: Record<string, string> = {};
+  if (options?.asOf) params.as_of = options.asOf;
+  if (options?.basis) params.basis = options.basis;
+  return params;
+};
+
+/**
+ * Fetch outstanding balances bucketed by age, by payer and by provider
+ */
+export const fetchArAging = async (options?: ArAgingOptions) => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/reports/ar-aging`, { params: agingParams(options) });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching AR aging report:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch AR aging report',
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
+
+/**
+ * Fetch the claim lines behind one cell of the AR aging report
+ */
+export const fetchArAgingClaims = async (selection: AgingSelection, options?: ArAgingOptions, page = 1) => {
+  try {
+    const params: Record<string, string> = {
+      ...agingParams(options),
+      bucket: selection.bucket,
+      page: String(page)
+    };
+    if (selection.payer) params.payer = selection.payer;
+    if (selection.provider) params.provider = selection.provider;
+
+    const response = await axios.get(`${API_BASE_URL}/reports/ar-aging/claims`, { params });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching AR aging claims:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch AR aging claims',
+      message: errorMessage(error),
+      data: []
+    };
+  }
+};
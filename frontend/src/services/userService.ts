@@ -0,0 +1,85 @@
+import axios from 'axios';
+import { API_BASE_URL } from './api';
+import { UserPayload } from '../types/auth';
+
+// Pull the server's message out of an axios error so it can be shown to the admin
+const errorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || 'Network error';
+  }
+  return 'Network error';
+};
+
+/**
+ * Fetch all users, including deactivated ones
+ */
+export const fetchUsers = async () => {
+  try {
+    const response = await axios.get(`${API_BASE_URL}/users`, { params: { include_inactive: true } });
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return {
+      success: false,
+      error: 'Failed to fetch users',
+      message: errorMessage(error),
+      data: []
+    };
+  }
+};
+
+/**
+ * Create a new user
+ */
+export const createUser = async (data: UserPayload) => {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/users`, data);
+    return response.data;
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return {
+      success: false,
+      error: 'Failed to create user',
+      message: errorMessage(error),
+      errors: axios.isAxiosError(error) ? error.response?.data?.errors : undefined,
+      data: null
+    };
+  }
+};
+
+/**
+ * Update a user (an empty password keeps the current one)
+ */
+export const updateUser = async (id: number, data: UserPayload) => {
+  try {
+    const response = await axios.put(`${API_BASE_URL}/users/${id}`, data);
+    return response.data;
+  } catch (error) {
+    console.error(`Error updating user with ID ${id}:`, error);
+    return {
+      success: false,
+      error: `Failed to update user with ID ${id}`,
+      message: errorMessage(error),
+      errors: axios.isAxiosError(error) ? error.response?.data?.errors : undefined,
+      data: null
+    };
+  }
+};
+
+/**
+ * Deactivate a user
+ */
+export const deactivateUser = async (id: number) => {
+  try {
+    const response = await axios.delete(`${API_BASE_URL}/users/${id}`);
+    return response.data;
+  } catch (error) {
+    console.error(`Error deactivating user with ID ${id}:`, error);
+    return {
+      success: false,
+      error: `Failed to deactivate user with ID ${id}`,
+      message: errorMessage(error),
+      data: null
+    };
+  }
+};
@@ -0,0 +1,75 @@
+export type AppealLevel = 'first' | 'second' | 'external';
+
+export type AppealStatus = 'draft' | 'submitted' | 'approved' | 'partially_approved' | 'upheld' | 'withdrawn';
+
+export interface AppealDocument {
+  id: number;
+  kind: 'supporting' | 'letter';
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  uploaded_by_name: string | null;
+  created_at: string;
+}
+
+export interface Appeal {
+  id: number;
+  claim_id: number;
+  denial_id: number | null;
+  level: AppealLevel;
+  status: AppealStatus;
+  payer: string | null;
+  due_date: string;
+  submitted_date: string | null;
+  decision_date: string | null;
+  reference_number: string | null;
+  amount_requested: string | null;
+  amount_recovered: string | null;
+  notes: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+  documents: AppealDocument[];
+}
+
+export interface AppealInput {
+  level?: AppealLevel;
+  denial_id?: number | null;
+  status?: AppealStatus;
+  payer?: string | null;
+  due_date?: string | null;
+  submitted_date?: string | null;
+  decision_date?: string | null;
+  reference_number?: string | null;
+  amount_requested?: number | null;
+  amount_recovered?: number | null;
+  notes?: string | null;
+}
+
+export interface AppealTemplate {
+  key: string;
+  name: string;
+  description: string;
+  levels: AppealLevel[];
+}
+
+export interface AppealOptions {
+  levels: { value: AppealLevel; label: string }[];
+  statuses: { value: AppealStatus; label: string }[];
+  templates: AppealTemplate[];
+}
+
+export interface OverdueAppeal extends Omit<Appeal, 'documents'> {
+  first_name: string | null;
+  last_name: string | null;
+  cpt_code: string | null;
+  service_end: string | null;
+  days_overdue: number;
+}
+
+export interface OverdueAppeals {
+  appeals: OverdueAppeal[];
+  overdueCount: number;
+  dueSoonCount: number;
+  dueSoonDays: number;
+}
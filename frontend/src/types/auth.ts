@@ -1,8 +1,11 @@
+// Roles from least to most privileged; each inherits the permissions of the one before it
+export type Role = 'viewer' | 'poster' | 'supervisor' | 'admin';
+
 export interface User {
   id: string;
   name: string;
   email: string;
-  role: string;
+  role: Role;
   avatar?: string;
 }
 
@@ -15,10 +18,39 @@ export interface AuthState {
 export interface LoginCredentials {
   email: string;
   password: string;
-  userData?: {
-    name: string;
-    role: string;
-    email: string;
-    password: string;
-  };
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// User as returned by the /api/auth endpoints
+export interface ApiUser {
+  id: number;
+  name: string;
+  email: string;
+  role: Role;
+}
+
+export interface AuthSession extends AuthTokens {
+  user: ApiUser;
+  expiresIn: string;
+}
+
+// User as returned by the /api/users management endpoints
+export interface ManagedUser extends ApiUser {
+  is_active: boolean;
+  deactivated_at: string | null;
+  created_at: string;
+  updated_at: string;
+  last_login_at: string | null;
+}
+
+export interface UserPayload {
+  name?: string;
+  email?: string;
+  password?: string;
+  role?: Role;
+  is_active?: boolean;
 }
@@ -32,6 +32,8 @@ export interface VisitClaim {
   icd_code?: string;
   provider_name?: string;
   units?: number;
+  // Bumped by the server on every change; sent back with edits so a save over a newer copy is rejected
+  row_version?: number;
   
   // Claim & Billing Information
   oa_claim_id?: string;
@@ -81,7 +83,22 @@ export interface VisitClaim {
   status?: 'Posted' | 'Pending' | 'Rejected';
   createdAt?: string;
   updatedAt?: string;
-  notes?: string[];
+}
+
+// Fields sent to update a claim; null clears a value
+export type ClaimUpdate = { [K in keyof VisitClaim]?: VisitClaim[K] | null };
+
+// A field the user is saving that someone else changed after the claim was loaded
+export interface ClaimFieldConflict {
+  field: string;
+  yours: string | number | null;
+  theirs: string | number | null;
+}
+
+// The latest change on a claim, reported with an edit conflict
+export interface ClaimLastChange {
+  username: string | null;
+  timestamp: string;
 }
 
 export interface KPIData {
@@ -89,12 +106,68 @@ export interface KPIData {
   totalVisitIds: number;
   postedVisitIds: number;
   pendingPosting: number;
+  // Percent change against the previous period of equal length; null when that period had no data
+  trends: {
+    totalCheckNumbers: number | null;
+    totalVisitIds: number | null;
+    postedVisitIds: number | null;
+    pendingPosting: number | null;
+  };
+  period?: {
+    start: string;
+    end: string;
+    previousStart: string;
+    previousEnd: string;
+  };
+}
+
+export interface KPIFilters {
+  startDate?: string;
+  endDate?: string;
+  payer?: string;
 }
 
+// Must match the sort columns whitelisted by GET /api/claims
+export type ClaimSortField =
+  | 'service_end'
+  | 'service_start'
+  | 'charge_dt'
+  | 'charge_amt'
+  | 'bal_amt'
+  | 'last_name'
+  | 'patient_id'
+  | 'claim_status'
+  | 'id';
+
+export type SortOrder = 'asc' | 'desc';
+
 export interface SearchFilters {
   patientId?: string;
   cptId?: string;
   dos?: string;
+  // Advanced search
+  name?: string;
+  emrNo?: string;
+  dosFrom?: string;
+  dosTo?: string;
+  payer?: string;
+  provider?: string;
+  claimStatus?: string;
+  checkNumber?: string;
+  oaClaimId?: string;
+  balanceMin?: string;
+  balanceMax?: string;
+  page?: number;
+  limit?: number;
+  sort?: ClaimSortField;
+  order?: SortOrder;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  totalCount: number;
+  totalPages: number;
 }
 
 export interface ChangeLog {
@@ -114,6 +187,41 @@ export interface ChangeLog {
   last_name?: string;
 }
 
+// Undo one saved edit, or roll every field back to its value at a point in time
+export type RevertTarget = { changeId: number } | { timestamp: string };
+
+export interface RevertFieldChange {
+  field: string;
+  current: string | number | null;
+  reverted: string | number | null;
+  // The field was changed again after the edit being undone
+  changed_since: boolean;
+}
+
+export interface RevertPreview {
+  changes: RevertFieldChange[];
+  // Logged fields that can't be edited and so aren't reverted
+  skipped: string[];
+  row_version: number;
+}
+
+// One save in a claim's history; a save logs every field it changed with the same user and timestamp
+export interface ClaimTimelineEntry {
+  timestamp: string;
+  username: string;
+  action_type: ChangeLog['action_type'];
+  fields: string[];
+}
+
+// A claim rebuilt from its change history as it was at `at`. Editable fields come back as text
+export interface ClaimSnapshot {
+  at: string;
+  claim: Record<string, string | number | null>;
+  // How many logged changes were undone to get back to `at`
+  replayed: number;
+  timeline: ClaimTimelineEntry[];
+}
+
 export interface HistoryFilters {
   user_id?: number;
   cpt_id?: number;
@@ -131,3 +239,19 @@ export interface PaginatedHistoryResponse {
   totalPages: number;
   data: ChangeLog[];
 }
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+}
+
+// Filters a bulk export can be limited by (dosFrom/dosTo give the date range)
+export interface ExportFilters {
+  dosFrom?: string;
+  dosTo?: string;
+  payer?: string;
+  provider?: string;
+  claimStatus?: string;
+}
@@ -0,0 +1,81 @@
+import { PayerLevel } from './import';
+
+export type AdjustmentGroup = 'CO' | 'PR' | 'OA' | 'PI' | 'CR';
+
+export interface Denial {
+  id: number;
+  claim_id: number;
+  payer_level: PayerLevel;
+  payer: string | null;
+  group_code: AdjustmentGroup | null;
+  carc_codes: string[];
+  rarc_codes: string[];
+  denied_amount: string | null;
+  denial_date: string;
+  root_cause: string;
+  appeal_deadline: string | null;
+  resolution: string | null;
+  resolution_note: string | null;
+  resolved_at: string | null;
+  resolved_by_name: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What the denial form sends; codes go up as arrays
+export interface DenialInput {
+  payer_level?: PayerLevel;
+  payer?: string | null;
+  group_code?: AdjustmentGroup | null;
+  carc_codes?: string[];
+  rarc_codes?: string[];
+  denied_amount?: number | null;
+  denial_date?: string;
+  root_cause?: string;
+  appeal_deadline?: string | null;
+  resolution?: string | null;
+  resolution_note?: string | null;
+}
+
+export interface CarcCode {
+  code: string;
+  description: string;
+  rootCause: string;
+}
+
+export interface DenialCodes {
+  carc: CarcCode[];
+  rarc: { code: string; description: string }[];
+  rootCauses: { value: string; label: string }[];
+  resolutions: { value: string; label: string }[];
+  defaultAppealWindowDays: number;
+}
+
+export interface DenialReasonCount {
+  code: string;
+  description: string | null;
+  count: number;
+  deniedAmount: number;
+}
+
+export interface DenialReasonGroup {
+  name: string;
+  count: number;
+  deniedAmount: number;
+  reasons: DenialReasonCount[];
+}
+
+export interface TopDenialReasons {
+  overall: DenialReasonCount[];
+  byPayer: DenialReasonGroup[];
+  byCpt: DenialReasonGroup[];
+}
+
+export interface TopDenialFilters {
+  from?: string;
+  to?: string;
+  payer?: string;
+  cptCode?: string;
+  includeResolved?: boolean;
+}
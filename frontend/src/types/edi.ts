@@ -0,0 +1,50 @@
+export interface EdiValidationIssue {
+  segment: number | null;
+  claim: string | null;
+  message: string;
+}
+
+// One CLM in a generated file: the claim lines billed together for a patient and date of service
+export interface EdiClaimSummary {
+  patientControlNumber: string;
+  patientName: string;
+  serviceDate: string;
+  payer: string | null;
+  provider: string | null;
+  claimIds: number[];
+  totalCharge: number;
+}
+
+export interface EdiBatchPreview {
+  claims: EdiClaimSummary[];
+  issues: EdiValidationIssue[];
+  previouslyBatched: { claim_id: number; batch_id: number; created_at: string }[];
+}
+
+export interface EdiBatch {
+  id: number;
+  interchange_control_number: number;
+  usage_indicator: 'T' | 'P';
+  filename: string;
+  claim_count: number;
+  line_count: number;
+  total_charge: string;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export interface EdiBatchLine {
+  claim_id: number;
+  patient_control_number: string;
+  line_number: number;
+  first_name: string | null;
+  last_name: string | null;
+  cpt_code: string | null;
+  service_end: string | null;
+  charge_amt: string | null;
+  prim_ins: string | null;
+}
+
+export interface EdiBatchDetail extends EdiBatch {
+  lines: EdiBatchLine[];
+}
@@ -0,0 +1,61 @@
+import { ImportFieldChange, PayerLevel } from './import';
+
+// matched lines can be posted; everything else is shown for review only
+export type EraLineStatus = 'matched' | 'unchanged' | 'unmatched' | 'conflict' | 'posted';
+
+export interface EraFile {
+  id: number;
+  filename: string | null;
+  transaction_count: number;
+  payment_total: string;
+  payer_names: string | null;
+  trace_numbers: string | null;
+  uploaded_by_name: string | null;
+  uploaded_at: string;
+  posted_count?: number;
+}
+
+export interface EraAdjustment {
+  group: 'CO' | 'PR' | 'OA' | 'PI' | 'CR';
+  reason: string;
+  amount: number;
+  quantity: number | null;
+}
+
+export interface EraProposal {
+  key: string;
+  status: EraLineStatus;
+  claimId: number | null;
+  patientControlNumber: string;
+  patientName: string | null;
+  procedureCode: string | null;
+  serviceDate: string | null;
+  level: PayerLevel;
+  chargeAmount: number;
+  paidAmount: number;
+  patientResponsibility: number;
+  adjustments: EraAdjustment[];
+  changes: ImportFieldChange[];
+  message?: string;
+}
+
+export interface EraTransactionReview {
+  index: number;
+  payerName: string | null;
+  traceNumber: string | null;
+  paymentAmount: number;
+  paymentMethod: string;
+  paymentDate: string | null;
+  proposals: EraProposal[];
+}
+
+export interface EraReview {
+  file: EraFile;
+  transactions: EraTransactionReview[];
+  summary: Record<EraLineStatus, number>;
+}
+
+export interface EraPostResult {
+  postedCount: number;
+  skipped: { key: string; reason: string }[];
+}
@@ -0,0 +1,26 @@
+export type PayerLevel = 'primary' | 'secondary';
+
+// matched rows are posted; everything else is skipped
+export type ImportRowStatus = 'matched' | 'unchanged' | 'unmatched' | 'conflict' | 'invalid';
+
+export interface ImportFieldChange {
+  field_name: string;
+  old_value: string | null;
+  new_value: string | null;
+}
+
+export interface ImportRowResult {
+  row: number;
+  status: ImportRowStatus;
+  reference: string;
+  level: PayerLevel;
+  claimId: number | null;
+  changes: ImportFieldChange[];
+  message?: string;
+  errors?: Record<string, string>;
+}
+
+export interface ImportPlan {
+  rows: ImportRowResult[];
+  summary: Record<ImportRowStatus, number>;
+}
@@ -0,0 +1,47 @@
+export interface MentionableUser {
+  id: number;
+  name: string;
+  handle: string;
+}
+
+export interface NoteRevision {
+  id: number;
+  body: string;
+  edited_by_name: string | null;
+  edited_at: string;
+}
+
+export interface ClaimNote {
+  id: number;
+  claim_id: number;
+  body: string;
+  pinned: boolean;
+  pinned_at: string | null;
+  pinned_by_name: string | null;
+  author_id: number | null;
+  author_name: string | null;
+  created_at: string;
+  updated_at: string;
+  mentioned_users: MentionableUser[];
+  // Earlier versions of the body, newest first
+  revisions: NoteRevision[];
+}
+
+// A search hit, with the claim it belongs to and the matching text highlighted with **
+export interface NoteSearchResult extends ClaimNote {
+  snippet: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  patient_id: number | null;
+  cpt_code: string | null;
+  service_end: string | null;
+  claim_status: string | null;
+}
+
+export interface NoteSearchFilters {
+  q?: string;
+  mentionedMe?: boolean;
+  authoredByMe?: boolean;
+  pinned?: boolean;
+  page?: number;
+}
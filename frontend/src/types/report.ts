@@ -0,0 +1,57 @@
+// Age buckets in days, as returned by /api/reports/ar-aging
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '91-120' | '120+';
+
+// Date a balance's age is counted from
+export type AgingBasis = 'service_end' | 'charge_dt';
+
+export type AgingDimension = 'payer' | 'provider';
+
+export interface AgingCell {
+  amount: number;
+  count: number;
+}
+
+export interface AgingRow {
+  name: string;
+  buckets: Record<AgingBucket, AgingCell>;
+  totalAmount: number;
+  totalCount: number;
+}
+
+export interface ArAgingReport {
+  asOf: string;
+  basis: AgingBasis;
+  buckets: AgingBucket[];
+  totals: AgingRow;
+  byPayer: AgingRow[];
+  byProvider: AgingRow[];
+}
+
+export interface ArAgingOptions {
+  asOf?: string;
+  basis?: AgingBasis;
+}
+
+// One cell of the report that the user drilled into
+export interface AgingSelection {
+  bucket: AgingBucket;
+  payer?: string;
+  provider?: string;
+}
+
+export interface AgingClaim {
+  id: number;
+  oa_claim_id: string | null;
+  oa_visit_id: string | null;
+  patient_emr_no: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  cpt_code: string;
+  service_end: string | null;
+  charge_dt: string | null;
+  bal_amt: number;
+  claim_status: string;
+  payer: string;
+  provider: string;
+  age_days: number;
+}